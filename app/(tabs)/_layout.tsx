@@ -1,5 +1,5 @@
 import { Tabs } from "expo-router";
-import { Home, MessageCircle, TrendingUp, User, Settings } from "lucide-react-native";
+import { Home, MessageCircle, TrendingUp, Boxes, User, Settings } from "lucide-react-native";
 import React from "react";
 import { Platform, useWindowDimensions, View } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -30,6 +30,7 @@ export default function TabLayout() {
   const theme = settings.darkMode ? Colors.dark : Colors.light;
 
   const isInventoryClerk = user?.role === 'inventory_clerk';
+  const canManageInventory = user?.role !== 'general_manager';
 
   const renderTabIcon = (
     Icon: typeof Home,
@@ -169,6 +170,14 @@ export default function TabLayout() {
           href: isInventoryClerk ? null : "/sales",
         }}
       />
+      <Tabs.Screen
+        name="inventory"
+        options={{
+          title: "Inventory",
+          tabBarIcon: ({ color, size }) => renderTabIcon(Boxes, color, size),
+          href: canManageInventory ? "/inventory" : null,
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
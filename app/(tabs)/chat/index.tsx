@@ -15,7 +15,7 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { MessageCircle, RefreshCw, Send, WifiOff } from 'lucide-react-native';
+import { AlertTriangle, MessageCircle, RefreshCw, Send, WifiOff } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { useFocusEffect } from '@react-navigation/native';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
@@ -78,6 +78,7 @@ function mapRealtimeMessage(record: Record<string, unknown>): ChatMessage {
     userAvatarUrl: typeof record.user_avatar_url === 'string' ? record.user_avatar_url : null,
     localAvatarUri: null,
     messageText: typeof record.message_text === 'string' ? record.message_text : '',
+    messageType: record.message_type === 'system' ? 'system' : 'user',
     createdAt: typeof record.created_at === 'string' ? record.created_at : new Date().toISOString(),
     updatedAt: typeof record.updated_at === 'string' ? record.updated_at : (typeof record.created_at === 'string' ? record.created_at : new Date().toISOString()),
     syncStatus: 'synced',
@@ -467,6 +468,28 @@ export default function ChatScreen() {
   }
 
   const renderMessage = ({ item }: { item: ChatMessage }) => {
+    if (item.messageType === 'system') {
+      return (
+        <Pressable onLongPress={() => confirmDeleteMessage(item)} style={styles.systemMessageRow}>
+          <View
+            style={[
+              styles.systemMessageBubble,
+              { backgroundColor: theme.warning + '20', borderColor: theme.warning, maxWidth: bubbleMaxWidth + 48 },
+            ]}
+          >
+            <View style={styles.systemMessageHeader}>
+              <AlertTriangle color={theme.warning} size={14} />
+              <Text style={[styles.senderName, { color: theme.warning }]}>{item.userName}</Text>
+            </View>
+            <Text style={[styles.messageText, { color: theme.text }]}>{item.messageText}</Text>
+          </View>
+          <Text style={[styles.timestamp, { color: theme.textMuted }]}>
+            {formatTimestamp(item.createdAt, item.syncStatus === 'pending')}
+          </Text>
+        </Pressable>
+      );
+    }
+
     const isOwnMessage = item.userId === user.id;
     const avatarUri = item.localAvatarUri || item.userAvatarUrl || null;
 
@@ -906,6 +929,23 @@ const styles = StyleSheet.create({
     lineHeight: 15,
     paddingHorizontal: 4,
   },
+  systemMessageRow: {
+    alignItems: 'center',
+    gap: 4,
+    marginVertical: 8,
+  },
+  systemMessageBubble: {
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    gap: 4,
+  },
+  systemMessageHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   composerOuter: {
     width: '100%',
   },
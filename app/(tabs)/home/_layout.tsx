@@ -15,6 +15,10 @@ export default function HomeLayout() {
       }}
     >
       <Stack.Screen name="index" />
+      <Stack.Screen name="shifts" />
+      <Stack.Screen name="receivables" />
+      <Stack.Screen name="suppliers" />
+      <Stack.Screen name="advances" />
     </Stack>
   );
 }
@@ -0,0 +1,411 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ChevronLeft, Plus, Trash2 } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Colors } from '@/constants/colors';
+import { CashAdvance, PAYOUT_MANAGER_ROLES, formatCurrency, formatDate, formatShortDate } from '@/types';
+import {
+  createCashAdvance,
+  deleteCashAdvance,
+  getCashAdvances,
+  getLocations,
+  getPayouts,
+  getUsers,
+} from '@/services/database';
+import { buildCashAdvanceBalances, getCashAdvanceLedger, getOutstandingAdvance } from '@/services/cashAdvances';
+import { getActiveLocationFilter } from '@/services/locations';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
+import CashAdvanceModal from '@/components/CashAdvanceModal';
+import LaserBackground from '@/components/LaserBackground';
+import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
+
+const HISTORY_LIMIT = 10;
+
+export default function CashAdvancesScreen() {
+  const { user, settings } = useAuth();
+  const { checkPendingCount, queueDeletion } = useSync();
+  const theme = settings.darkMode ? Colors.dark : Colors.light;
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { width, height } = useWindowDimensions();
+  const useLeftRailLayout = width > height && width >= 900;
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const leftRailWidth = 108;
+  const canManageAdvances = !!user && PAYOUT_MANAGER_ROLES.includes(user.role);
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const [showAdvanceModal, setShowAdvanceModal] = useState(false);
+
+  const { data: advances = [], refetch: refetchAdvances } = useQuery({
+    queryKey: ['cashAdvances'],
+    queryFn: getCashAdvances,
+  });
+
+  const { data: payouts = [], refetch: refetchPayouts } = useQuery({
+    queryKey: ['payouts'],
+    queryFn: getPayouts,
+  });
+
+  const { data: users = [], refetch: refetchUsers } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+
+  const activeLocationId = getActiveLocationFilter(settings, user?.role, locations);
+  const balances = useMemo(() => buildCashAdvanceBalances(users, advances, payouts), [advances, payouts, users]);
+  const totalOutstanding = balances.reduce((sum, balance) => sum + balance.outstanding, 0);
+  const totalAdvanced = balances.reduce((sum, balance) => sum + balance.advanced, 0);
+  const totalRepaid = balances.reduce((sum, balance) => sum + balance.repaid, 0);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchAdvances(), refetchPayouts(), refetchUsers()]);
+    setRefreshing(false);
+  }, [refetchAdvances, refetchPayouts, refetchUsers]);
+
+  const recordAdvanceMutation = useMutation({
+    mutationFn: (data: { userId: string; amount: number; notes: string | null }) =>
+      createCashAdvance({
+        ...data,
+        date: formatLocalDate(new Date()),
+        locationId: activeLocationId,
+        recordedBy: user?.id || '',
+      }),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['cashAdvances'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteAdvanceMutation = useMutation({
+    mutationFn: async (advance: CashAdvance) => {
+      await queueDeletion('cash_advances', advance.id, {
+        name: 'Cash advance',
+        amount: advance.amount,
+        date: advance.date,
+      });
+      await deleteCashAdvance(advance.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['cashAdvances'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleSubmitAdvance = async (payload: { userId: string; amount: number; notes: string | null }) => {
+    await recordAdvanceMutation.mutateAsync(payload);
+    setShowAdvanceModal(false);
+  };
+
+  const handleDeleteAdvance = (advance: CashAdvance) => {
+    const name = users.find(candidate => candidate.id === advance.userId)?.name ?? 'this staff member';
+    const message = `Delete the ${formatCurrency(advance.amount)} advance for ${name}?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteAdvanceMutation.mutate(advance);
+      }
+    } else {
+      Alert.alert('Delete Advance', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteAdvanceMutation.mutate(advance) },
+      ]);
+    }
+  };
+
+  const renderLedger = (userId: string) => {
+    const entries = getCashAdvanceLedger(userId, advances, payouts).slice(0, HISTORY_LIMIT);
+
+    return entries.map(entry => {
+      const advance = entry.type === 'advance' ? advances.find(candidate => candidate.id === entry.id) : undefined;
+      return (
+        <View key={`${entry.type}-${entry.id}`} style={styles.historyRow}>
+          <Text style={[styles.metaText, styles.historyLabel, { color: theme.textSecondary }]}>
+            {formatShortDate(parseLocalDateString(entry.date))} · {entry.type === 'advance' ? 'Advance' : 'Deducted from payout'}
+            {entry.notes ? ` · ${entry.notes}` : ''}
+          </Text>
+          <Text style={[styles.metaText, { color: entry.amount < 0 ? theme.success : theme.text }]}>
+            {entry.amount < 0 ? `-${formatCurrency(-entry.amount)}` : formatCurrency(entry.amount)}
+          </Text>
+          {canManageAdvances && advance && (
+            <TouchableOpacity onPress={() => handleDeleteAdvance(advance)}>
+              <Trash2 color={theme.error} size={14} />
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    });
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <LinearGradient
+        colors={[theme.backgroundGradientStart, theme.backgroundGradientEnd]}
+        style={StyleSheet.absoluteFill}
+      />
+      {settings.laserBackground && (
+        <LaserBackground isDarkMode={settings.darkMode} colorPalette={settings.backgroundColorPalette} intensity={settings.backgroundIntensity} />
+      )}
+
+      <SafeAreaView
+        style={[styles.safeArea, useLeftRailLayout && { paddingLeft: leftRailWidth + 16, paddingRight: 16 }]}
+        edges={['top']}
+      >
+        <View style={[styles.header, { borderBottomColor: theme.divider }]}>
+          <TouchableOpacity
+            style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => router.back()}
+          >
+            <ChevronLeft color={theme.primary} size={20} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Cash Advances</Text>
+          {canManageAdvances && (
+            <TouchableOpacity
+              style={[styles.headerButton, styles.headerActionButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => setShowAdvanceModal(true)}
+            >
+              <Plus color={theme.primary} size={20} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[styles.contentContainer, useLeftRailLayout ? { paddingBottom: insets.bottom + 16 } : { paddingBottom: tabBarHeight + insets.bottom + 16 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+          }
+        >
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Total Outstanding</Text>
+            <Text style={[styles.outstandingValue, { color: totalOutstanding > 0 ? theme.warning : theme.success }]}>
+              {formatCurrency(totalOutstanding)}
+            </Text>
+            <View style={styles.totalsRow}>
+              <View style={styles.totalBlock}>
+                <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Advanced</Text>
+                <Text style={[styles.totalValue, { color: theme.text }]}>{formatCurrency(totalAdvanced)}</Text>
+              </View>
+              <View style={styles.totalBlock}>
+                <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Repaid</Text>
+                <Text style={[styles.totalValue, { color: theme.success }]}>{formatCurrency(totalRepaid)}</Text>
+              </View>
+            </View>
+            <Text style={[styles.metaText, { color: theme.textMuted }]}>
+              Advances are repaid by deducting them from a payout to the staff member.
+            </Text>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Staff ({balances.length})</Text>
+            {balances.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                No cash advances recorded yet.
+              </Text>
+            )}
+            {balances.map(balance => {
+              const isExpanded = expandedUserId === balance.user.id;
+              return (
+                <View key={balance.user.id} style={[styles.listRow, { borderTopColor: theme.divider }]}>
+                  <TouchableOpacity
+                    style={styles.listRowMain}
+                    onPress={() => setExpandedUserId(isExpanded ? null : balance.user.id)}
+                  >
+                    <View style={styles.listInfo}>
+                      <Text style={[styles.listTitle, { color: theme.text }]}>{balance.user.name}</Text>
+                      <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                        Advanced {formatCurrency(balance.advanced)} · Repaid {formatCurrency(balance.repaid)}
+                      </Text>
+                      {balance.lastAdvanceDate ? (
+                        <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                          Last advance {formatShortDate(parseLocalDateString(balance.lastAdvanceDate))}
+                        </Text>
+                      ) : null}
+                    </View>
+                    <View style={styles.listAmount}>
+                      <Text style={[styles.totalValue, { color: balance.outstanding > 0 ? theme.warning : theme.success }]}>
+                        {formatCurrency(balance.outstanding)}
+                      </Text>
+                      <Text style={[styles.metaText, { color: theme.textMuted }]}>outstanding</Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  {isExpanded && <View style={styles.history}>{renderLedger(balance.user.id)}</View>}
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <CashAdvanceModal
+        visible={showAdvanceModal}
+        theme={theme}
+        users={users}
+        dateLabel={formatDate(new Date())}
+        getOutstanding={userId => getOutstandingAdvance(userId, advances, payouts)}
+        onClose={() => setShowAdvanceModal(false)}
+        onSubmit={handleSubmitAdvance}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    marginLeft: 'auto',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 6,
+  },
+  metaText: {
+    fontSize: 12,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  totalBlock: {
+    flex: 1,
+    minWidth: 70,
+  },
+  totalLabel: {
+    fontSize: 12,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  outstandingValue: {
+    fontSize: 28,
+    fontWeight: '700' as const,
+  },
+  listRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    gap: 8,
+  },
+  listRowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  listInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  listTitle: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  listAmount: {
+    alignItems: 'flex-end',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  history: {
+    gap: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  historyLabel: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
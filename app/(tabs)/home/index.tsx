@@ -14,7 +14,7 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Package, ShoppingCart, User, Settings, RefreshCw } from 'lucide-react-native';
+import { Package, ShoppingCart, User, Settings, RefreshCw, AlertTriangle, ChevronRight, Clock, HandCoins, Truck, Wallet } from 'lucide-react-native';
 import { useQuery } from '@tanstack/react-query';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Print from 'expo-print';
@@ -27,22 +27,51 @@ import { Colors } from '@/constants/colors';
 import { Href, useRouter } from 'expo-router';
 import { useFocusEffect } from '@react-navigation/native';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
-import { formatCurrency, ROLE_DISPLAY_NAMES, UserRole } from '@/types';
+import { formatCurrency, isInLocation, isStockItemLow, PAYOUT_MANAGER_ROLES, ROLE_DISPLAY_NAMES, UserRole } from '@/types';
 import {
   getWeeklySalesTotals,
   getWeeklyExpenseTotals,
   getActivities,
   getUsers,
   getMonthlyTotalsForYear,
+  getStockItems,
+  getExpensesByDateRange,
+  getExpenseCategories,
+  getShifts,
+  getLocations,
+  getCustomers,
+  getCreditSales,
+  getCustomerPayments,
+  getSuppliers,
+  getSalesTargets,
+  getNetSalesSplits,
+  getCashAdvances,
+  getPayouts,
 } from '@/services/database';
-import { getDayKeysForWeek, getWeekdayLabels, getWeekRange, getWeekStart, toLocalDayKey } from '@/services/dateUtils';
-import { calculateNetSalesSplitAmounts } from '@/services/netSalesSplit';
-import { buildPdfSummaryHtml } from '@/services/pdf-summary';
-import Svg, { Path, Circle, Defs, LinearGradient as SvgLinearGradient, Stop, Text as SvgText, Rect, G } from 'react-native-svg';
+import { formatLocalDate, getDayKeysForWeek, getWeekdayLabels, getWeekRange, getWeekStart, toLocalDayKey } from '@/services/dateUtils';
+import {
+  calculateNetSalesSplitAmounts,
+  calculateNetSalesSplitAmountsForDays,
+  getNetSalesSplitForDate,
+  getSplitRecipientAbbreviation,
+  getSplitRecipientsForDates,
+} from '@/services/netSalesSplit';
+import { groupExpensesByCategory } from '@/services/expenseCategories';
+import { SHIFT_PERIOD_LABELS, getShiftPeriod, getShiftStaffNames } from '@/services/shifts';
+import { buildReceivables } from '@/services/customerCredit';
+import { buildCashAdvanceBalances } from '@/services/cashAdvances';
+import { getSalesTargetForDate } from '@/services/salesTargets';
+import { canViewAllLocations, getActiveLocationFilter, getLocationName } from '@/services/locations';
+import { buildPdfSummaryHtml, buildProfitLossHtml } from '@/services/pdf-summary';
+import Svg, { Path, Circle, Defs, LinearGradient as SvgLinearGradient, Stop, Text as SvgText, Rect, G, Line } from 'react-native-svg';
 import LaserBackground from '@/components/LaserBackground';
 import { useSync } from '@/contexts/SyncContext';
 import WeeklyOverviewLegend from '@/components/WeeklyOverviewLegend';
 import MonthlyOverview from '@/components/MonthlyOverview';
+import LocationSwitcher from '@/components/LocationSwitcher';
+import LocationsModal from '@/components/LocationsModal';
+import ProfitLossModal from '@/components/ProfitLossModal';
+import CalendarModal from '@/components/CalendarModal';
 
 function formatWeekRange(start: Date, end: Date): string {
   const startMonth = start.toLocaleDateString('en-US', { month: 'short' });
@@ -63,7 +92,11 @@ function getActivityIcon(type: string, color: string) {
     case 'inventory_delete':
       return <Package color={color} size={20} />;
     case 'sale_add':
+    case 'sale_update':
+    case 'sale_void':
+    case 'credit_payment':
     case 'expense_add':
+    case 'expense_update':
       return <ShoppingCart color={color} size={20} />;
     case 'profile_update':
       return <User color={color} size={20} />;
@@ -117,25 +150,20 @@ const WEEKLY_DAY_LABEL_SPACING_KEY = '@myfoodcart_weekly_day_label_spacing';
 
 export default function HomeScreen() {
   const router = useRouter();
-  const { settings, user: currentUser } = useAuth();
+  const { settings, user: currentUser, updateSettings } = useAuth();
   const { lastSyncTime, triggerFullSync, isOnline, pendingCount } = useSync();
   const theme = settings.darkMode ? Colors.dark : Colors.light;
-  const chartLabelColor = settings.darkMode ? '#FFFFFF' : '#000000';
   const SALES_LABEL_BLUE = '#7DB7FF';
   const EXPENSE_LABEL_RED = '#FF7A7A';
-  const omLabelColor = '#63F29A';
-  const gmLabelColor = '#C7A6FF';
   const labelBackgroundFill = settings.darkMode
     ? 'rgba(0, 0, 0, 0.35)'
     : 'rgba(255, 255, 255, 0.55)';
-  const omColor = '#2ECC71';
-  const gmColor = '#9B59B6';
-  const fcColor = '#F39C12';
+  const targetColor = theme.textSecondary;
 
   useEffect(() => {
     if (currentUser?.role === 'inventory_clerk') {
-      console.log('Inventory clerk detected on Home screen, redirecting to Chat');
-      router.replace('/chat' as Href);
+      console.log('Inventory clerk detected on Home screen, redirecting to Inventory');
+      router.replace('/inventory' as Href);
     }
   }, [currentUser, router]);
   const [selectedWeek, setSelectedWeek] = useState(0);
@@ -144,19 +172,14 @@ export default function HomeScreen() {
   const [isOverviewRefreshing, setIsOverviewRefreshing] = useState(false);
   const [showSales, setShowSales] = useState(true);
   const [showExpenses, setShowExpenses] = useState(true);
-  const [showOm, setShowOm] = useState(false);
-  const [showGm, setShowGm] = useState(false);
-  const [showFc, setShowFc] = useState(false);
+  const [visibleRecipientIds, setVisibleRecipientIds] = useState<string[]>([]);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [progressValue, setProgressValue] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
   const [showProgressModal, setShowProgressModal] = useState(false);
-  const [netSalesSplit, setNetSalesSplit] = useState({
-    operation: 65,
-    general: 25,
-    foodCart: 10,
-    includeExp: true,
-  });
+  const [showProfitLossModal, setShowProfitLossModal] = useState(false);
+  const [showRangeCalendar, setShowRangeCalendar] = useState(false);
+  const [showLocationsModal, setShowLocationsModal] = useState(false);
 
   const { width: screenWidth, height: screenHeight } = useWindowDimensions();
   const minScreenDimension = Math.min(screenWidth, screenHeight);
@@ -226,19 +249,40 @@ export default function HomeScreen() {
 
 
 
+  const { data: locations = [], refetch: refetchLocations } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+
+  const allowAllLocations = canViewAllLocations(currentUser?.role);
+  const activeLocationId = getActiveLocationFilter(settings, currentUser?.role, locations);
+
   const { data: salesTotalsMap = {}, refetch: refetchSales } = useQuery({
-    queryKey: ['weeklySalesTotals', startDateStr, endDateStr],
-    queryFn: () => getWeeklySalesTotals(startDateStr, endDateStr),
+    queryKey: ['weeklySalesTotals', startDateStr, endDateStr, activeLocationId],
+    queryFn: () => getWeeklySalesTotals(startDateStr, endDateStr, activeLocationId),
   });
 
   const { data: expensesTotalsMap = {}, refetch: refetchExpenses } = useQuery({
-    queryKey: ['weeklyExpenseTotals', startDateStr, endDateStr],
-    queryFn: () => getWeeklyExpenseTotals(startDateStr, endDateStr),
+    queryKey: ['weeklyExpenseTotals', startDateStr, endDateStr, activeLocationId],
+    queryFn: () => getWeeklyExpenseTotals(startDateStr, endDateStr, activeLocationId),
   });
 
   const { data: monthlyRaw = [], refetch: refetchMonthly } = useQuery({
-    queryKey: ['monthlyTotals', selectedYear],
-    queryFn: () => getMonthlyTotalsForYear(selectedYear),
+    queryKey: ['monthlyTotals', selectedYear, activeLocationId],
+    queryFn: () => getMonthlyTotalsForYear(selectedYear, activeLocationId),
+  });
+
+  const { data: expenseCategoryTotals = [], refetch: refetchExpenseCategoryTotals } = useQuery({
+    queryKey: ['expenses', 'categoryBreakdown', selectedYear, selectedMonthIndex, activeLocationId],
+    queryFn: async () => {
+      const monthStart = toLocalDayKey(new Date(selectedYear, selectedMonthIndex, 1));
+      const monthEnd = toLocalDayKey(new Date(selectedYear, selectedMonthIndex + 1, 0));
+      const [monthExpenses, categories] = await Promise.all([
+        getExpensesByDateRange(monthStart, monthEnd, activeLocationId),
+        getExpenseCategories(),
+      ]);
+      return groupExpensesByCategory(monthExpenses, categories);
+    },
   });
 
   const { data: activities = [], refetch: refetchActivities } = useQuery({
@@ -251,6 +295,82 @@ export default function HomeScreen() {
     queryFn: getUsers,
   });
 
+  const { data: stockItems = [], refetch: refetchStockItems } = useQuery({
+    queryKey: ['stockItems'],
+    queryFn: getStockItems,
+  });
+
+  const { data: shifts = [], refetch: refetchShifts } = useQuery({
+    queryKey: ['shifts'],
+    queryFn: getShifts,
+  });
+
+  const openShift = useMemo(
+    () => shifts.find(shift => !shift.closedAt && isInLocation(shift, activeLocationId)) ?? null,
+    [activeLocationId, shifts]
+  );
+
+  const { data: customers = [], refetch: refetchCustomers } = useQuery({
+    queryKey: ['customers'],
+    queryFn: getCustomers,
+  });
+
+  const { data: creditSales = [], refetch: refetchCreditSales } = useQuery({
+    queryKey: ['sales', 'credit'],
+    queryFn: getCreditSales,
+  });
+
+  const { data: customerPayments = [], refetch: refetchCustomerPayments } = useQuery({
+    queryKey: ['customerPayments'],
+    queryFn: getCustomerPayments,
+  });
+
+  const receivables = useMemo(
+    () => buildReceivables(customers, creditSales, customerPayments).filter(receivable => receivable.balance > 0),
+    [creditSales, customerPayments, customers]
+  );
+  const totalReceivables = receivables.reduce((sum, receivable) => sum + receivable.balance, 0);
+
+  const { data: suppliers = [], refetch: refetchSuppliers } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+  });
+
+  const canManageAdvances = !!currentUser && PAYOUT_MANAGER_ROLES.includes(currentUser.role);
+
+  const { data: cashAdvances = [], refetch: refetchCashAdvances } = useQuery({
+    queryKey: ['cashAdvances'],
+    queryFn: getCashAdvances,
+    enabled: canManageAdvances,
+  });
+
+  const { data: payouts = [], refetch: refetchPayouts } = useQuery({
+    queryKey: ['payouts'],
+    queryFn: getPayouts,
+    enabled: canManageAdvances,
+  });
+
+  const outstandingAdvances = useMemo(
+    () => buildCashAdvanceBalances(users, cashAdvances, payouts).filter(balance => balance.outstanding > 0),
+    [cashAdvances, payouts, users]
+  );
+  const totalOutstandingAdvances = outstandingAdvances.reduce((sum, balance) => sum + balance.outstanding, 0);
+
+  const { data: salesTargets = [], refetch: refetchSalesTargets } = useQuery({
+    queryKey: ['salesTargets'],
+    queryFn: getSalesTargets,
+  });
+
+  const { data: netSalesSplits = [], refetch: refetchNetSalesSplits } = useQuery({
+    queryKey: ['netSalesSplits'],
+    queryFn: getNetSalesSplits,
+  });
+
+  const lowStockItems = useMemo(
+    () => stockItems.filter(isStockItemLow).sort((a, b) => a.onHand - b.onHand),
+    [stockItems]
+  );
+
   useEffect(() => {
     setSelectedMonthIndex((prev) => Math.min(11, Math.max(0, prev)));
   }, [selectedYear]);
@@ -304,32 +424,6 @@ export default function HomeScreen() {
     }
   }, [weekDayKeys, weekDayLabels]);
 
-  const loadNetSalesSplit = useCallback(async () => {
-    try {
-      const stored = await AsyncStorage.getItem('netSalesSplit');
-      if (!stored) return;
-      const parsed = JSON.parse(stored) as Partial<typeof netSalesSplit>;
-      const normalizeValue = (value: unknown, fallback: number) => {
-        const parsedValue = typeof value === 'number' ? value : Number(value);
-        return Number.isFinite(parsedValue) ? parsedValue : fallback;
-      };
-      setNetSalesSplit(prev => ({
-        operation: normalizeValue(parsed.operation, prev.operation),
-        general: normalizeValue(parsed.general, prev.general),
-        foodCart: normalizeValue(parsed.foodCart, prev.foodCart),
-        includeExp: typeof parsed.includeExp === 'boolean' ? parsed.includeExp : prev.includeExp,
-      }));
-    } catch (error) {
-      console.log('Error loading net sales split:', error);
-    }
-  }, []);
-
-  useFocusEffect(
-    useCallback(() => {
-      loadNetSalesSplit();
-    }, [loadNetSalesSplit])
-  );
-
   const salesByDay = useMemo(() => {
     return new Map(Object.entries(salesTotalsMap).map(([key, value]) => [key, Number(value) || 0]));
   }, [salesTotalsMap]);
@@ -348,34 +442,24 @@ export default function HomeScreen() {
     [expensesByDay, weekDayKeys]
   );
 
-  const normalizedSplit = useMemo(() => {
-    const normalizePercent = (value: number) => {
-      if (!Number.isFinite(value)) return 0;
-      if (value <= 0) return 0;
-      return value > 1 ? value / 100 : value;
-    };
-    return {
-      operation: normalizePercent(netSalesSplit.operation),
-      general: normalizePercent(netSalesSplit.general),
-      foodCart: normalizePercent(netSalesSplit.foodCart),
-      includeExp: netSalesSplit.includeExp,
-    };
-  }, [netSalesSplit]);
-
   const chartData = useMemo(() => {
     return weekDayKeys.map((dateStr, index) => {
       const day = weekDayLabels[index] ?? '';
       const daySales = salesSeries[index] ?? 0;
       const dayExpenses = expensesSeries[index] ?? 0;
-      const netSales = normalizedSplit.includeExp ? daySales - dayExpenses : daySales;
-      const netBase = Math.max(0, netSales);
-      const omAmount = netBase * normalizedSplit.operation;
-      const gmAmount = netBase * normalizedSplit.general;
-      const fcAmount = netBase * normalizedSplit.foodCart;
+      const splitAmounts = calculateNetSalesSplitAmounts(daySales, dayExpenses, netSalesSplits, dateStr);
+      const target = getSalesTargetForDate(salesTargets, dateStr, activeLocationId);
 
-      return { day, sales: daySales, expenses: dayExpenses, om: omAmount, gm: gmAmount, fc: fcAmount, dateStr };
+      return {
+        day,
+        sales: daySales,
+        expenses: dayExpenses,
+        shares: splitAmounts.byRecipient,
+        target,
+        dateStr,
+      };
     });
-  }, [expensesSeries, normalizedSplit, salesSeries, weekDayKeys, weekDayLabels]);
+  }, [activeLocationId, expensesSeries, netSalesSplits, salesSeries, salesTargets, weekDayKeys, weekDayLabels]);
 
   const weekTotals = useMemo(() => {
     const salesTotal = salesSeries.reduce((sum, val) => sum + val, 0);
@@ -384,15 +468,30 @@ export default function HomeScreen() {
     return { sales: salesTotal, expenses: expensesTotal, net: salesTotal - expensesTotal };
   }, [expensesSeries, salesSeries, startDateStr, endDateStr]);
 
+  const weekRecipients = useMemo(
+    () => getSplitRecipientsForDates(netSalesSplits, weekDayKeys),
+    [netSalesSplits, weekDayKeys]
+  );
+
+  const visibleWeekRecipients = weekRecipients.filter(recipient => visibleRecipientIds.includes(recipient.id));
+
+  const toggleRecipient = useCallback((recipientId: string) => {
+    setVisibleRecipientIds(prev =>
+      prev.includes(recipientId) ? prev.filter(id => id !== recipientId) : [...prev, recipientId]
+    );
+  }, []);
+
   const weeklySplitAmounts = useMemo(
     () =>
-      calculateNetSalesSplitAmounts(weekTotals.sales, weekTotals.expenses, {
-        operation: netSalesSplit.operation,
-        general: netSalesSplit.general,
-        foodCart: netSalesSplit.foodCart,
-        includeExp: netSalesSplit.includeExp,
-      }),
-    [netSalesSplit, weekTotals.expenses, weekTotals.sales]
+      calculateNetSalesSplitAmountsForDays(
+        weekDayKeys.map((date, index) => ({
+          date,
+          sales: salesSeries[index] ?? 0,
+          expenses: expensesSeries[index] ?? 0,
+        })),
+        netSalesSplits
+      ),
+    [expensesSeries, netSalesSplits, salesSeries, weekDayKeys]
   );
 
   const monthLabels = useMemo(
@@ -405,26 +504,31 @@ export default function HomeScreen() {
       const monthTotals = monthlyRaw.find((entry) => entry.monthIndex === index);
       const sales = Number(monthTotals?.sales) || 0;
       const expenses = Number(monthTotals?.expenses) || 0;
-      const splitAmounts = calculateNetSalesSplitAmounts(sales, expenses, netSalesSplit);
+      // Split per day so a month spanning a split change pays out under both.
+      const splitAmounts = calculateNetSalesSplitAmountsForDays(monthTotals?.days ?? [], netSalesSplits);
 
       return {
         monthLabel,
         sales,
         expenses,
-        om: splitAmounts.operation,
-        gm: splitAmounts.general,
-        fc: splitAmounts.foodCart,
+        shares: splitAmounts.byRecipient,
       };
     });
-  }, [monthLabels, monthlyRaw, netSalesSplit]);
+  }, [monthLabels, monthlyRaw, netSalesSplits]);
+
+  // Falls back to today's split for a year with nothing recorded yet.
+  const yearRecipients = useMemo(() => {
+    const recordedDates = monthlyRaw.flatMap(entry => entry.days.map(day => day.date));
+    return recordedDates.length > 0
+      ? getSplitRecipientsForDates(netSalesSplits, recordedDates)
+      : getNetSalesSplitForDate(netSalesSplits, toLocalDayKey(new Date())).recipients;
+  }, [monthlyRaw, netSalesSplits]);
 
   const selectedPoint = monthlyPoints[selectedMonthIndex] ?? {
     monthLabel: monthLabels[selectedMonthIndex] ?? 'Jan',
     sales: 0,
     expenses: 0,
-    om: 0,
-    gm: 0,
-    fc: 0,
+    shares: {},
   };
 
   const updateProgress = useCallback((value: number, message: string) => {
@@ -432,7 +536,7 @@ export default function HomeScreen() {
     setProgressMessage(message);
   }, []);
 
-  const handleGeneratePdf = useCallback(async () => {
+  const exportPdf = useCallback(async (buildHtml: () => Promise<{ html: string; fileName: string }>, title: string) => {
     if (isGeneratingPdf) return;
     if (Platform.OS === 'web') {
       Alert.alert('PDF export not supported', 'PDF export is not supported on web yet.');
@@ -444,11 +548,7 @@ export default function HomeScreen() {
     updateProgress(10, 'Collecting data...');
 
     try {
-      const { html, fileName } = await buildPdfSummaryHtml({
-        weeks,
-        selectedWeekIndex: selectedWeek,
-        appName: 'MY Food Cart',
-      });
+      const { html, fileName } = await buildHtml();
 
       updateProgress(40, 'Building HTML...');
       updateProgress(70, 'Creating PDF...');
@@ -457,10 +557,10 @@ export default function HomeScreen() {
         const { uri } = await Print.printToFileAsync({ html });
         tempPdfUri = uri;
       } catch (error) {
-        console.log('Error generating PDF summary:', error);
+        console.log(`Error generating ${title}:`, error);
         setShowProgressModal(false);
         setIsGeneratingPdf(false);
-        Alert.alert('Export Failed', 'Unable to generate the PDF summary. Please try again.');
+        Alert.alert('Export Failed', `Unable to generate the ${title}. Please try again.`);
         return;
       }
 
@@ -476,7 +576,7 @@ export default function HomeScreen() {
           await FileSystem.deleteAsync(outputUri, { idempotent: true });
           await FileSystem.copyAsync({ from: tempPdfUri, to: outputUri });
         } catch (error) {
-          console.log('Error saving PDF summary:', error);
+          console.log(`Error saving ${title}:`, error);
           outputUri = null;
         }
       }
@@ -491,7 +591,7 @@ export default function HomeScreen() {
       const shareAvailable = await Sharing.isAvailableAsync();
 
       if (!mailAvailable && !shareAvailable) {
-        Alert.alert('PDF Summary Ready', `Saved to ${finalUri}`);
+        Alert.alert(`${title} Ready`, `Saved to ${finalUri}`);
         return;
       }
 
@@ -507,8 +607,8 @@ export default function HomeScreen() {
         buttons.unshift({
           text: 'Send via Email',
           onPress: () => MailComposer.composeAsync({
-            subject: 'MY Food Cart – PDF Summary',
-            body: 'Hi! Please find the attached PDF summary report.',
+            subject: `MY Food Cart – ${title}`,
+            body: `Hi! Please find the attached ${title}.`,
             attachments: [finalUri],
           }),
         });
@@ -521,16 +621,60 @@ export default function HomeScreen() {
         });
       }
 
-      Alert.alert('PDF Summary Ready', 'Choose how you want to send your PDF summary.', buttons);
+      Alert.alert(`${title} Ready`, `Choose how you want to send your ${title}.`, buttons);
     } catch (error) {
-      console.log('Unexpected error preparing PDF summary:', error);
+      console.log(`Unexpected error preparing ${title}:`, error);
       setShowProgressModal(false);
       setIsGeneratingPdf(false);
     }
-  }, [isGeneratingPdf, selectedWeek, updateProgress, weeks]);
+  }, [isGeneratingPdf, updateProgress]);
+
+  const handleGeneratePdf = useCallback(() => exportPdf(
+    () => buildPdfSummaryHtml({
+      weeks,
+      selectedWeekIndex: selectedWeek,
+      appName: 'MY Food Cart',
+      locationId: activeLocationId,
+      locationName: getLocationName(activeLocationId, locations),
+    }),
+    'PDF Summary'
+  ), [activeLocationId, exportPdf, locations, selectedWeek, weeks]);
+
+  const rangeCalendarDates = useMemo(() => {
+    const end = new Date();
+    end.setHours(0, 0, 0, 0);
+    return { start: new Date(end.getFullYear(), end.getMonth(), 1), end };
+  }, []);
+
+  const handleGenerateRangePdf = useCallback((start: Date, end: Date) => {
+    setShowRangeCalendar(false);
+    exportPdf(
+      () => buildPdfSummaryHtml({
+        range: { start: formatLocalDate(start), end: formatLocalDate(end) },
+        weekStartsOn,
+        appName: 'MY Food Cart',
+        locationId: activeLocationId,
+        locationName: getLocationName(activeLocationId, locations),
+      }),
+      'PDF Summary'
+    );
+  }, [activeLocationId, exportPdf, locations, weekStartsOn]);
+
+  const handleGenerateProfitLoss = useCallback((range: { startDate: string; endDate: string }) => {
+    setShowProfitLossModal(false);
+    exportPdf(
+      () => buildProfitLossHtml({
+        ...range,
+        appName: 'MY Food Cart',
+        locationId: activeLocationId,
+        locationName: getLocationName(activeLocationId, locations),
+      }),
+      'P&L Statement'
+    );
+  }, [activeLocationId, exportPdf, locations]);
 
   const rawMaxValue = Math.max(
-    ...chartData.map(d => Math.max(d.sales, d.expenses, d.om, d.gm, d.fc)),
+    ...chartData.map(d => Math.max(d.sales, d.expenses, ...Object.values(d.shares), showSales ? d.target : 0)),
     100
   );
   
@@ -674,18 +818,35 @@ export default function HomeScreen() {
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    await Promise.all([refetchSales(), refetchExpenses(), refetchMonthly(), refetchActivities(), refetchUsers()]);
+    await Promise.all([
+      refetchSales(),
+      refetchExpenses(),
+      refetchMonthly(),
+      refetchExpenseCategoryTotals(),
+      refetchActivities(),
+      refetchUsers(),
+      refetchStockItems(),
+      refetchShifts(),
+      refetchLocations(),
+      refetchCustomers(),
+      refetchCreditSales(),
+      refetchCustomerPayments(),
+      refetchSuppliers(),
+      refetchSalesTargets(),
+      refetchNetSalesSplits(),
+      ...(canManageAdvances ? [refetchCashAdvances(), refetchPayouts()] : []),
+    ]);
     setRefreshing(false);
-  }, [refetchSales, refetchExpenses, refetchMonthly, refetchActivities, refetchUsers]);
+  }, [refetchSales, refetchExpenses, refetchMonthly, refetchExpenseCategoryTotals, refetchActivities, refetchUsers, refetchStockItems, refetchShifts, refetchLocations, refetchCustomers, refetchCreditSales, refetchCustomerPayments, refetchSuppliers, refetchSalesTargets, refetchNetSalesSplits, canManageAdvances, refetchCashAdvances, refetchPayouts]);
 
   const refreshOverview = useCallback(async () => {
     setIsOverviewRefreshing(true);
     try {
-      await Promise.all([refetchSales(), refetchExpenses(), refetchMonthly()]);
+      await Promise.all([refetchSales(), refetchExpenses(), refetchMonthly(), refetchExpenseCategoryTotals(), refetchNetSalesSplits()]);
     } finally {
       setIsOverviewRefreshing(false);
     }
-  }, [refetchSales, refetchExpenses, refetchMonthly]);
+  }, [refetchSales, refetchExpenses, refetchMonthly, refetchExpenseCategoryTotals, refetchNetSalesSplits]);
 
   useFocusEffect(
     useCallback(() => {
@@ -730,32 +891,27 @@ export default function HomeScreen() {
 
   const expenseAreaPath = `${expensePathData} L ${(chartData.length - 1) * stepX} ${chartTopPadding + chartHeight} L 0 ${chartTopPadding + chartHeight} Z`;
 
-  const omPathData = chartData.map((point, index) => {
-    const x = index * stepX;
-    const y = scaleY(point.om);
-    return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
-  }).join(' ');
-
-  const gmPathData = chartData.map((point, index) => {
-    const x = index * stepX;
-    const y = scaleY(point.gm);
-    return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
-  }).join(' ');
-
-  const fcPathData = chartData.map((point, index) => {
-    const x = index * stepX;
-    const y = scaleY(point.fc);
-    return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
-  }).join(' ');
+  const recipientPaths = useMemo(
+    () =>
+      weekRecipients.map(recipient => ({
+        recipient,
+        path: chartData.map((point, index) => {
+          const x = index * stepX;
+          const y = scaleY(point.shares[recipient.id] ?? 0);
+          return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
+        }).join(' '),
+      })),
+    [chartData, scaleY, stepX, weekRecipients]
+  );
 
 
   const hasUnsafeChartGeometry = useMemo(() => {
     const numericChecks = [chartSvgWidth, chartSvgHeight, chartWidth, stepX, maxValue];
     const hasInvalidNumber = numericChecks.some(value => !Number.isFinite(value) || value <= 0);
-    const hasInvalidPath = [pathData, areaPath, expensePathData, expenseAreaPath, omPathData, gmPathData, fcPathData]
+    const hasInvalidPath = [pathData, areaPath, expensePathData, expenseAreaPath, ...recipientPaths.map(item => item.path)]
       .some(path => !path || path.includes('NaN') || path.includes('Infinity'));
     return hasInvalidNumber || hasInvalidPath;
-  }, [areaPath, chartSvgHeight, chartSvgWidth, chartWidth, expenseAreaPath, expensePathData, fcPathData, gmPathData, maxValue, omPathData, pathData, stepX]);
+  }, [areaPath, chartSvgHeight, chartSvgWidth, chartWidth, expenseAreaPath, expensePathData, maxValue, pathData, recipientPaths, stepX]);
 
   useEffect(() => {
     if (hasUnsafeChartGeometry) {
@@ -778,39 +934,19 @@ export default function HomeScreen() {
     const labelPaddingX = 3;
     const charWidth = 5.4;
     const extraOffsetStep = 12;
-    const extraOffsets = {
-      om: labelOffset + extraOffsetStep,
-      gm: labelOffset,
-      fc: labelOffset,
-    };
 
     return chartData.map((point, index) => {
       const x = index * stepX;
       const ySales = scaleY(point.sales);
       const yExpenses = scaleY(point.expenses);
-      const yOm = scaleY(point.om);
-      const yGm = scaleY(point.gm);
-      const yFc = scaleY(point.fc);
       const salesLabel = formatCompactNumber(point.sales);
       const expenseLabel = formatCompactNumber(point.expenses);
-      const omLabel = formatCurrency(point.om);
-      const gmLabel = formatCurrency(point.gm);
-      const fcLabel = formatCurrency(point.fc);
       const salesWidth = salesLabel.length * charWidth;
       const expenseWidth = expenseLabel.length * charWidth;
-      const omWidth = omLabel.length * charWidth;
-      const gmWidth = gmLabel.length * charWidth;
-      const fcWidth = fcLabel.length * charWidth;
       const minSalesX = salesWidth / 2 + labelPaddingX;
       const minExpenseX = expenseWidth / 2 + labelPaddingX;
-      const minOmX = omWidth / 2 + labelPaddingX;
-      const minGmX = gmWidth / 2 + labelPaddingX;
-      const minFcX = fcWidth / 2 + labelPaddingX;
       const maxSalesX = chartSvgWidth - minSalesX;
       const maxExpenseX = chartSvgWidth - minExpenseX;
-      const maxOmX = chartSvgWidth - minOmX;
-      const maxGmX = chartSvgWidth - minGmX;
-      const maxFcX = chartSvgWidth - minFcX;
 
       let salesOffset = labelOffset;
       let expenseOffset = labelOffset;
@@ -834,49 +970,44 @@ export default function HomeScreen() {
       const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
       const salesLabelX = clamp(salesX, minSalesX, maxSalesX);
       const expenseLabelX = clamp(expenseX, minExpenseX, maxExpenseX);
-      const omLabelX = clamp(x, minOmX, maxOmX);
-      const gmLabelX = clamp(x, minGmX, maxGmX);
-      const fcLabelX = clamp(x, minFcX, maxFcX);
       const minLabelY = 4 + labelHeight / 2;
       const maxLabelY = chartTopPadding + chartHeight - labelHeight / 2;
       const salesLabelY = clamp(ySales - salesOffset, minLabelY, maxLabelY);
       const expenseLabelY = clamp(yExpenses - expenseOffset, minLabelY, maxLabelY);
-      const omLabelY = clamp(yOm - extraOffsets.om, minLabelY, maxLabelY);
-      const gmLabelY = clamp(yGm - extraOffsets.gm, minLabelY, maxLabelY);
-      const fcLabelY = clamp(yFc - extraOffsets.fc, minLabelY, maxLabelY);
+      // Alternate recipients are lifted a step so neighbouring share labels don't stack on each other.
+      const recipientLabels = weekRecipients.map((recipient, recipientIndex) => {
+        const value = point.shares[recipient.id] ?? 0;
+        const label = formatCurrency(value);
+        const width = label.length * charWidth;
+        const minX = width / 2 + labelPaddingX;
+        const offset = recipientIndex % 2 === 0 ? labelOffset + extraOffsetStep : labelOffset;
+        return {
+          recipientId: recipient.id,
+          label,
+          width,
+          x: clamp(x, minX, chartSvgWidth - minX),
+          y: clamp(scaleY(value) - offset, minLabelY, maxLabelY),
+        };
+      });
 
       return {
         x,
         ySales,
         yExpenses,
-        yOm,
-        yGm,
-        yFc,
         salesLabel,
         expenseLabel,
-        omLabel,
-        gmLabel,
-        fcLabel,
         salesLabelX,
         salesLabelY,
         expenseLabelX,
         expenseLabelY,
-        omLabelX,
-        omLabelY,
-        gmLabelX,
-        gmLabelY,
-        fcLabelX,
-        fcLabelY,
+        recipientLabels,
         salesLabelWidth: salesWidth,
         expenseLabelWidth: expenseWidth,
-        omLabelWidth: omWidth,
-        gmLabelWidth: gmWidth,
-        fcLabelWidth: fcWidth,
         labelHeight,
         labelPaddingX,
       };
     });
-  }, [chartData, chartHeight, chartSvgWidth, chartTopPadding, scaleY, stepX]);
+  }, [chartData, chartHeight, chartSvgWidth, chartTopPadding, scaleY, stepX, weekRecipients]);
 
   return (
     <View style={[styles.container, { backgroundColor: theme.background }]}>
@@ -905,6 +1036,16 @@ export default function HomeScreen() {
             <Text style={[styles.welcomeText, { color: theme.text, fontSize: welcomeFontSize }]} numberOfLines={1} adjustsFontSizeToFit>
               Welcome to MY Food Cart
             </Text>
+            <View style={styles.locationSwitcher}>
+              <LocationSwitcher
+                theme={theme}
+                locations={locations}
+                activeLocationId={activeLocationId}
+                allowAllLocations={allowAllLocations}
+                onSelect={selectedLocationId => updateSettings({ selectedLocationId })}
+                onManage={allowAllLocations ? () => setShowLocationsModal(true) : undefined}
+              />
+            </View>
           </View>
 
           <View style={[styles.contentShell, isAndroidTablet && styles.contentShellTablet]}>
@@ -986,19 +1127,15 @@ export default function HomeScreen() {
                   </Text>
                 </View>
               </View>
-              <View style={styles.weekTotalsRow}>
-                <View style={[styles.weekTotalCard, { backgroundColor: omColor + '15' }]}>
-                  <Text style={[styles.weekTotalLabel, { color: theme.textSecondary }]}>Operation Manager</Text>
-                  <Text style={[styles.weekTotalValue, { color: omColor }]}>
-                    {formatCurrency(weeklySplitAmounts.operation)}
-                  </Text>
-                </View>
-                <View style={[styles.weekTotalCard, { backgroundColor: gmColor + '15' }]}>
-                  <Text style={[styles.weekTotalLabel, { color: theme.textSecondary }]}>{ROLE_DISPLAY_NAMES.general_manager}</Text>
-                  <Text style={[styles.weekTotalValue, { color: gmColor }]}> 
-                    {formatCurrency(weeklySplitAmounts.general)}
-                  </Text>
-                </View>
+              <View style={[styles.weekTotalsRow, styles.weekTotalsRowWrap]}>
+                {weekRecipients.map(recipient => (
+                  <View key={recipient.id} style={[styles.weekTotalCard, styles.weekTotalCardWrap, { backgroundColor: recipient.color + '15' }]}>
+                    <Text style={[styles.weekTotalLabel, { color: theme.textSecondary }]} numberOfLines={1}>{recipient.name}</Text>
+                    <Text style={[styles.weekTotalValue, { color: recipient.color }]}>
+                      {formatCurrency(weeklySplitAmounts.byRecipient[recipient.id] ?? 0)}
+                    </Text>
+                  </View>
+                ))}
               </View>
               
               <View style={styles.chartLegend}>
@@ -1024,39 +1161,25 @@ export default function HomeScreen() {
                   <View style={[styles.legendDot, { backgroundColor: theme.error, opacity: showExpenses ? 1 : 0.4 }]} />
                   <Text style={[styles.legendText, { color: showExpenses ? theme.error : theme.textMuted }]}>E</Text>
                 </TouchableOpacity>
-                <TouchableOpacity 
-                  style={[
-                    styles.legendToggle,
-                    { borderColor: showOm ? omColor : theme.cardBorder },
-                    showOm && { backgroundColor: omColor + '20' }
-                  ]}
-                  onPress={() => setShowOm(!showOm)}
-                >
-                  <View style={[styles.legendDot, { backgroundColor: omColor, opacity: showOm ? 1 : 0.4 }]} />
-                  <Text style={[styles.legendText, { color: showOm ? omColor : theme.textMuted }]}>OM</Text>
-                </TouchableOpacity>
-                <TouchableOpacity 
-                  style={[
-                    styles.legendToggle,
-                    { borderColor: showGm ? gmColor : theme.cardBorder },
-                    showGm && { backgroundColor: gmColor + '20' }
-                  ]}
-                  onPress={() => setShowGm(!showGm)}
-                >
-                  <View style={[styles.legendDot, { backgroundColor: gmColor, opacity: showGm ? 1 : 0.4 }]} />
-                  <Text style={[styles.legendText, { color: showGm ? gmColor : theme.textMuted }]}>AC</Text>
-                </TouchableOpacity>
-                <TouchableOpacity 
-                  style={[
-                    styles.legendToggle,
-                    { borderColor: showFc ? fcColor : theme.cardBorder },
-                    showFc && { backgroundColor: fcColor + '20' }
-                  ]}
-                  onPress={() => setShowFc(!showFc)}
-                >
-                  <View style={[styles.legendDot, { backgroundColor: fcColor, opacity: showFc ? 1 : 0.4 }]} />
-                  <Text style={[styles.legendText, { color: showFc ? fcColor : theme.textMuted }]}>FC</Text>
-                </TouchableOpacity>
+                {weekRecipients.map(recipient => {
+                  const isVisible = visibleRecipientIds.includes(recipient.id);
+                  return (
+                    <TouchableOpacity
+                      key={recipient.id}
+                      style={[
+                        styles.legendToggle,
+                        { borderColor: isVisible ? recipient.color : theme.cardBorder },
+                        isVisible && { backgroundColor: recipient.color + '20' }
+                      ]}
+                      onPress={() => toggleRecipient(recipient.id)}
+                    >
+                      <View style={[styles.legendDot, { backgroundColor: recipient.color, opacity: isVisible ? 1 : 0.4 }]} />
+                      <Text style={[styles.legendText, { color: isVisible ? recipient.color : theme.textMuted }]}>
+                        {getSplitRecipientAbbreviation(recipient.name)}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
               
               <View style={styles.chartAreaWrapper}>
@@ -1094,15 +1217,24 @@ export default function HomeScreen() {
                       </>
                     )}
 
-                    {showOm && (
-                      <Path d={omPathData} stroke={omColor} strokeWidth={2} fill="none" />
-                    )}
-                    {showGm && (
-                      <Path d={gmPathData} stroke={gmColor} strokeWidth={2} fill="none" />
-                    )}
-                    {showFc && (
-                      <Path d={fcPathData} stroke={fcColor} strokeWidth={2} fill="none" />
-                    )}
+                    {recipientPaths
+                      .filter(item => visibleRecipientIds.includes(item.recipient.id))
+                      .map(item => (
+                        <Path key={`path-${item.recipient.id}`} d={item.path} stroke={item.recipient.color} strokeWidth={2} fill="none" />
+                      ))}
+
+                    {showSales && chartData.map((point, index) => point.target > 0 && (
+                      <Line
+                        key={`target-${index}`}
+                        x1={index * stepX - stepX * 0.3}
+                        x2={index * stepX + stepX * 0.3}
+                        y1={scaleY(point.target)}
+                        y2={scaleY(point.target)}
+                        stroke={targetColor}
+                        strokeWidth={2}
+                        strokeDasharray="3,3"
+                      />
+                    ))}
 
                     {showSales && chartData.map((point, index) => (
                       <Circle
@@ -1122,33 +1254,15 @@ export default function HomeScreen() {
                         fill={theme.error}
                       />
                     ))}
-                    {showOm && chartData.map((point, index) => (
-                      <Circle
-                        key={`om-${index}`}
-                        cx={index * stepX}
-                        cy={scaleY(point.om)}
-                        r={3}
-                        fill={omColor}
-                      />
-                    ))}
-                    {showGm && chartData.map((point, index) => (
-                      <Circle
-                        key={`gm-${index}`}
-                        cx={index * stepX}
-                        cy={scaleY(point.gm)}
-                        r={3}
-                        fill={gmColor}
-                      />
-                    ))}
-                    {showFc && chartData.map((point, index) => (
+                    {visibleWeekRecipients.map(recipient => chartData.map((point, index) => (
                       <Circle
-                        key={`fc-${index}`}
+                        key={`${recipient.id}-${index}`}
                         cx={index * stepX}
-                        cy={scaleY(point.fc)}
+                        cy={scaleY(point.shares[recipient.id] ?? 0)}
                         r={3}
-                        fill={fcColor}
+                        fill={recipient.color}
                       />
-                    ))}
+                    )))}
                     {showSales && labelData.map((label, index) => (
                       <React.Fragment key={`sales-label-${index}`}>
                         <Rect
@@ -1195,75 +1309,33 @@ export default function HomeScreen() {
                         </SvgText>
                       </React.Fragment>
                     ))}
-                    {showOm && labelData.map((label, index) => (
-                      <React.Fragment key={`om-label-${index}`}>
-                        <Rect
-                          x={label.omLabelX - label.omLabelWidth / 2 - label.labelPaddingX}
-                          y={label.omLabelY - label.labelHeight / 2}
-                          width={label.omLabelWidth + label.labelPaddingX * 2}
-                          height={label.labelHeight}
-                          rx={3}
-                          fill={labelBackgroundFill}
-                          opacity={0.85}
-                        />
-                        <SvgText
-                          x={label.omLabelX}
-                          y={label.omLabelY}
-                          fontSize={9}
-                          textAnchor="middle"
-                          alignmentBaseline="middle"
-                          fill={omLabelColor}
-                        >
-                          {label.omLabel}
-                        </SvgText>
-                      </React.Fragment>
-                    ))}
-                    {showGm && labelData.map((label, index) => (
-                      <React.Fragment key={`gm-label-${index}`}>
-                        <Rect
-                          x={label.gmLabelX - label.gmLabelWidth / 2 - label.labelPaddingX}
-                          y={label.gmLabelY - label.labelHeight / 2}
-                          width={label.gmLabelWidth + label.labelPaddingX * 2}
-                          height={label.labelHeight}
-                          rx={3}
-                          fill={labelBackgroundFill}
-                          opacity={0.85}
-                        />
-                        <SvgText
-                          x={label.gmLabelX}
-                          y={label.gmLabelY}
-                          fontSize={9}
-                          textAnchor="middle"
-                          alignmentBaseline="middle"
-                          fill={gmLabelColor}
-                        >
-                          {label.gmLabel}
-                        </SvgText>
-                      </React.Fragment>
-                    ))}
-                    {showFc && labelData.map((label, index) => (
-                      <React.Fragment key={`fc-label-${index}`}>
-                        <Rect
-                          x={label.fcLabelX - label.fcLabelWidth / 2 - label.labelPaddingX}
-                          y={label.fcLabelY - label.labelHeight / 2}
-                          width={label.fcLabelWidth + label.labelPaddingX * 2}
-                          height={label.labelHeight}
-                          rx={3}
-                          fill={labelBackgroundFill}
-                          opacity={0.85}
-                        />
-                        <SvgText
-                          x={label.fcLabelX}
-                          y={label.fcLabelY}
-                          fontSize={9}
-                          textAnchor="middle"
-                          alignmentBaseline="middle"
-                          fill={chartLabelColor}
-                        >
-                          {label.fcLabel}
-                        </SvgText>
-                      </React.Fragment>
-                    ))}
+                    {visibleWeekRecipients.map(recipient => labelData.map((label, index) => {
+                      const recipientLabel = label.recipientLabels.find(item => item.recipientId === recipient.id);
+                      if (!recipientLabel) return null;
+                      return (
+                        <React.Fragment key={`${recipient.id}-label-${index}`}>
+                          <Rect
+                            x={recipientLabel.x - recipientLabel.width / 2 - label.labelPaddingX}
+                            y={recipientLabel.y - label.labelHeight / 2}
+                            width={recipientLabel.width + label.labelPaddingX * 2}
+                            height={label.labelHeight}
+                            rx={3}
+                            fill={labelBackgroundFill}
+                            opacity={0.85}
+                          />
+                          <SvgText
+                            x={recipientLabel.x}
+                            y={recipientLabel.y}
+                            fontSize={9}
+                            textAnchor="middle"
+                            alignmentBaseline="middle"
+                            fill={recipient.color}
+                          >
+                            {recipientLabel.label}
+                          </SvgText>
+                        </React.Fragment>
+                      );
+                    }))}
 
                     {chartData.map((point, index) => (
                       <SvgText
@@ -1322,21 +1394,18 @@ export default function HomeScreen() {
                 points={monthlyPoints}
                 selectedMonthIndex={selectedMonthIndex}
                 onSelectMonth={setSelectedMonthIndex}
+                recipients={yearRecipients}
                 totalsForSelectedMonth={{
                   sales: selectedPoint.sales,
                   expenses: selectedPoint.expenses,
-                  om: selectedPoint.om,
-                  gm: selectedPoint.gm,
-                  fc: selectedPoint.fc,
+                  shares: selectedPoint.shares,
                 }}
                 isAndroidTablet={isAndroidTablet}
                 colors={{
                   sales: theme.chartLine,
                   expenses: theme.error,
-                  om: '#2ECC71',
-                  gm: '#9B59B6',
-                  fc: '#F39C12',
                 }}
+                expenseCategoryTotals={expenseCategoryTotals}
               />
             </View>
 
@@ -1345,9 +1414,8 @@ export default function HomeScreen() {
                 theme={theme}
                 salesColor={theme.chartLine}
                 expensesColor={theme.error}
-                omColor={omColor}
-                gmColor={gmColor}
-                fcColor={fcColor}
+                recipients={weekRecipients}
+                targetColor={targetColor}
               />
 
               <View style={[styles.exportCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}> 
@@ -1363,10 +1431,132 @@ export default function HomeScreen() {
                 >
                   <Text style={styles.primaryButtonText}>Generate PDF Summary</Text>
                 </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.secondaryButton,
+                    { borderColor: theme.primary },
+                    isGeneratingPdf && styles.primaryButtonDisabled,
+                  ]}
+                  onPress={() => setShowProfitLossModal(true)}
+                  disabled={isGeneratingPdf}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: theme.primary }]}>Profit & Loss Statement</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.secondaryButton,
+                    { borderColor: theme.primary },
+                    isGeneratingPdf && styles.primaryButtonDisabled,
+                  ]}
+                  onPress={() => setShowRangeCalendar(true)}
+                  disabled={isGeneratingPdf}
+                >
+                  <Text style={[styles.secondaryButtonText, { color: theme.primary }]}>Custom Range PDF</Text>
+                </TouchableOpacity>
               </View>
             </View>
           </View>
 
+          {lowStockItems.length > 0 && (
+            <TouchableOpacity
+              style={[styles.lowStockCard, { backgroundColor: theme.card, borderColor: theme.warning }]}
+              onPress={() => router.push('/inventory' as Href)}
+            >
+              <View style={styles.lowStockHeader}>
+                <AlertTriangle color={theme.warning} size={18} />
+                <Text style={[styles.sectionTitle, styles.lowStockTitle, { color: theme.text }]}>
+                  Running low ({lowStockItems.length})
+                </Text>
+                <ChevronRight color={theme.textMuted} size={18} />
+              </View>
+              {lowStockItems.slice(0, 5).map(item => (
+                <View key={item.id} style={[styles.lowStockRow, { borderTopColor: theme.divider }]}>
+                  <View style={styles.lowStockInfo}>
+                    <Text style={[styles.lowStockName, { color: theme.text }]}>{item.name}</Text>
+                    {item.supplier ? (
+                      <Text style={[styles.lowStockMeta, { color: theme.textMuted }]}>Supplier: {item.supplier}</Text>
+                    ) : null}
+                  </View>
+                  <Text style={[styles.lowStockQuantity, { color: item.onHand <= 0 ? theme.error : theme.warning }]}>
+                    {item.onHand} / {item.reorderPoint} {item.unit}
+                  </Text>
+                </View>
+              ))}
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[styles.lowStockCard, { backgroundColor: theme.card, borderColor: openShift ? theme.success : theme.cardBorder }]}
+            onPress={() => router.push('/home/shifts' as Href)}
+          >
+            <View style={styles.lowStockHeader}>
+              <Clock color={openShift ? theme.success : theme.textMuted} size={18} />
+              <Text style={[styles.sectionTitle, styles.lowStockTitle, { color: theme.text }]}>
+                {openShift ? `${SHIFT_PERIOD_LABELS[getShiftPeriod(openShift)]} shift open` : 'No shift open'}
+              </Text>
+              <ChevronRight color={theme.textMuted} size={18} />
+            </View>
+            <Text style={[styles.lowStockMeta, { color: theme.textMuted }]}>
+              {openShift
+                ? `Since ${new Date(openShift.openedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} · ${getShiftStaffNames(openShift, users).join(', ')}`
+                : 'Open a shift and view totals per shift'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.lowStockCard, { backgroundColor: theme.card, borderColor: totalReceivables > 0 ? theme.warning : theme.cardBorder }]}
+            onPress={() => router.push('/home/receivables' as Href)}
+          >
+            <View style={styles.lowStockHeader}>
+              <HandCoins color={totalReceivables > 0 ? theme.warning : theme.textMuted} size={18} />
+              <Text style={[styles.sectionTitle, styles.lowStockTitle, { color: theme.text }]}>
+                {totalReceivables > 0 ? `${formatCurrency(totalReceivables)} on credit` : 'No unpaid credit'}
+              </Text>
+              <ChevronRight color={theme.textMuted} size={18} />
+            </View>
+            <Text style={[styles.lowStockMeta, { color: theme.textMuted }]}>
+              {receivables.length > 0
+                ? `${receivables.length} ${receivables.length === 1 ? 'customer owes' : 'customers owe'} · ${receivables.slice(0, 3).map(receivable => receivable.customer.name).join(', ')}`
+                : 'Manage customers and record credit payments'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.lowStockCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => router.push('/home/suppliers' as Href)}
+          >
+            <View style={styles.lowStockHeader}>
+              <Truck color={suppliers.length > 0 ? theme.primary : theme.textMuted} size={18} />
+              <Text style={[styles.sectionTitle, styles.lowStockTitle, { color: theme.text }]}>
+                {suppliers.length > 0 ? `${suppliers.length} ${suppliers.length === 1 ? 'supplier' : 'suppliers'}` : 'No suppliers yet'}
+              </Text>
+              <ChevronRight color={theme.textMuted} size={18} />
+            </View>
+            <Text style={[styles.lowStockMeta, { color: theme.textMuted }]}>
+              See spend per supplier and item price history
+            </Text>
+          </TouchableOpacity>
+
+          {canManageAdvances && (
+            <TouchableOpacity
+              style={[styles.lowStockCard, { backgroundColor: theme.card, borderColor: totalOutstandingAdvances > 0 ? theme.warning : theme.cardBorder }]}
+              onPress={() => router.push('/home/advances' as Href)}
+            >
+              <View style={styles.lowStockHeader}>
+                <Wallet color={totalOutstandingAdvances > 0 ? theme.warning : theme.textMuted} size={18} />
+                <Text style={[styles.sectionTitle, styles.lowStockTitle, { color: theme.text }]}>
+                  {totalOutstandingAdvances > 0 ? `${formatCurrency(totalOutstandingAdvances)} in cash advances` : 'No unpaid cash advances'}
+                </Text>
+                <ChevronRight color={theme.textMuted} size={18} />
+              </View>
+              <Text style={[styles.lowStockMeta, { color: theme.textMuted }]}>
+                {outstandingAdvances.length > 0
+                  ? `${outstandingAdvances.length} staff owe · ${outstandingAdvances.slice(0, 3).map(balance => balance.user.name).join(', ')}`
+                  : 'Record vale and track repayments from payouts'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           <View style={[styles.updatesCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}> 
             <Text style={[styles.sectionTitle, { color: theme.text }]}>Latest Updates</Text>
             
@@ -1406,6 +1596,26 @@ export default function HomeScreen() {
           </View>
           </View>
         </ScrollView>
+        <LocationsModal
+          visible={showLocationsModal}
+          theme={theme}
+          onClose={() => setShowLocationsModal(false)}
+        />
+        <ProfitLossModal
+          visible={showProfitLossModal}
+          theme={theme}
+          onClose={() => setShowProfitLossModal(false)}
+          onSubmit={handleGenerateProfitLoss}
+        />
+        <CalendarModal
+          visible={showRangeCalendar}
+          theme={theme}
+          selectRange
+          initialDate={rangeCalendarDates.start}
+          initialEndDate={rangeCalendarDates.end}
+          onClose={() => setShowRangeCalendar(false)}
+          onConfirmRange={handleGenerateRangePdf}
+        />
         <Modal visible={showProgressModal} transparent animationType="fade">
           <View style={[styles.progressOverlay, { backgroundColor: theme.modalOverlay }]}>
             <View style={[styles.progressCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
@@ -1453,6 +1663,9 @@ const styles = StyleSheet.create({
     fontSize: 24,
     fontWeight: '700' as const,
   },
+  locationSwitcher: {
+    marginTop: 12,
+  },
   contentShell: {
     width: '100%',
   },
@@ -1680,6 +1893,55 @@ const styles = StyleSheet.create({
     fontWeight: '600' as const,
     fontSize: 14,
   },
+  secondaryButton: {
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  secondaryButtonText: {
+    fontWeight: '600' as const,
+    fontSize: 14,
+  },
+  lowStockCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  lowStockHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  lowStockTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  lowStockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    marginTop: 8,
+    borderTopWidth: 1,
+  },
+  lowStockInfo: {
+    flex: 1,
+  },
+  lowStockName: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  lowStockMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  lowStockQuantity: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
   updatesCard: {
     padding: 16,
     borderRadius: 16,
@@ -1730,12 +1992,18 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 12,
   },
+  weekTotalsRowWrap: {
+    flexWrap: 'wrap',
+  },
   weekTotalCard: {
     flex: 1,
     paddingVertical: 10,
     paddingHorizontal: 12,
     borderRadius: 10,
   },
+  weekTotalCardWrap: {
+    flexBasis: '45%',
+  },
   weekTotalLabel: {
     fontSize: 11,
     marginBottom: 2,
@@ -0,0 +1,515 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ChevronLeft, HandCoins, Pencil, Trash2, UserPlus } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Colors } from '@/constants/colors';
+import { Customer, PAYMENT_METHOD_LABELS, PaymentMethod, formatCurrency, formatShortDate, getSaleNetTotal } from '@/types';
+import {
+  createActivity,
+  createCustomer,
+  createCustomerPayment,
+  deleteCustomer,
+  getCreditSales,
+  getCustomerPayments,
+  getCustomers,
+  getLocations,
+  getUsers,
+  updateCustomer,
+} from '@/services/database';
+import { getActiveLocationFilter } from '@/services/locations';
+import { AGING_BUCKETS, AGING_BUCKET_LABELS, CustomerReceivable, buildReceivables, sumAging } from '@/services/customerCredit';
+import { formatLocalDate } from '@/services/dateUtils';
+import CustomerModal from '@/components/CustomerModal';
+import CustomerPaymentModal from '@/components/CustomerPaymentModal';
+import LaserBackground from '@/components/LaserBackground';
+import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
+
+const HISTORY_LIMIT = 10;
+
+export default function ReceivablesScreen() {
+  const { user, settings } = useAuth();
+  const { checkPendingCount, queueDeletion } = useSync();
+  const theme = settings.darkMode ? Colors.dark : Colors.light;
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { width, height } = useWindowDimensions();
+  const useLeftRailLayout = width > height && width >= 900;
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const leftRailWidth = 108;
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedCustomerId, setExpandedCustomerId] = useState<string | null>(null);
+  const [showCustomerModal, setShowCustomerModal] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [payingReceivable, setPayingReceivable] = useState<CustomerReceivable | null>(null);
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+  const activeLocationId = getActiveLocationFilter(settings, user?.role, locations);
+
+  const { data: customers = [], refetch: refetchCustomers } = useQuery({
+    queryKey: ['customers'],
+    queryFn: getCustomers,
+  });
+
+  const { data: creditSales = [], refetch: refetchCreditSales } = useQuery({
+    queryKey: ['sales', 'credit'],
+    queryFn: getCreditSales,
+  });
+
+  const { data: payments = [], refetch: refetchPayments } = useQuery({
+    queryKey: ['customerPayments'],
+    queryFn: getCustomerPayments,
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
+  });
+
+  const receivables = useMemo(() => buildReceivables(customers, creditSales, payments), [creditSales, customers, payments]);
+  const totalOutstanding = receivables.reduce((sum, receivable) => sum + Math.max(receivable.balance, 0), 0);
+  const agingTotals = useMemo(() => sumAging(receivables), [receivables]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchCustomers(), refetchCreditSales(), refetchPayments()]);
+    setRefreshing(false);
+  }, [refetchCreditSales, refetchCustomers, refetchPayments]);
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: async (payload: Pick<Customer, 'name' | 'phone' | 'notes'>) => {
+      if (editingCustomer) {
+        await updateCustomer({ ...editingCustomer, ...payload });
+        return;
+      }
+      await createCustomer(payload);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: async (customer: Customer) => {
+      await queueDeletion('customers', customer.id, { name: customer.name });
+      await deleteCustomer(customer.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: (data: { customer: Customer; amount: number; paymentMethod: PaymentMethod; notes: string | null }) =>
+      createCustomerPayment({
+        customerId: data.customer.id,
+        amount: data.amount,
+        paymentMethod: data.paymentMethod,
+        notes: data.notes,
+        date: formatLocalDate(new Date()),
+        locationId: activeLocationId,
+        receivedBy: user?.id || '',
+      }),
+    onSuccess: async (_payment, data) => {
+      queryClient.invalidateQueries({ queryKey: ['customerPayments'] });
+      if (user) {
+        await createActivity({
+          type: 'credit_payment',
+          description: `${data.customer.name} paid ${formatCurrency(data.amount)}`,
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const openCustomerModal = (customer: Customer | null) => {
+    setEditingCustomer(customer);
+    setShowCustomerModal(true);
+  };
+
+  const closeCustomerModal = () => {
+    setShowCustomerModal(false);
+    setEditingCustomer(null);
+  };
+
+  const handleSubmitCustomer = async (payload: Pick<Customer, 'name' | 'phone' | 'notes'>) => {
+    await saveCustomerMutation.mutateAsync(payload);
+    closeCustomerModal();
+  };
+
+  const handleSubmitPayment = async (payload: { amount: number; paymentMethod: PaymentMethod; notes: string | null }) => {
+    if (!payingReceivable) return;
+    await recordPaymentMutation.mutateAsync({ customer: payingReceivable.customer, ...payload });
+    setPayingReceivable(null);
+  };
+
+  const handleDeleteCustomer = (customer: Customer) => {
+    const message = `Remove ${customer.name} from the customer list?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteCustomerMutation.mutate(customer);
+      }
+    } else {
+      Alert.alert('Remove Customer', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => deleteCustomerMutation.mutate(customer) },
+      ]);
+    }
+  };
+
+  const renderHistory = (customer: Customer) => {
+    const entries = [
+      ...creditSales
+        .filter(sale => sale.customerId === customer.id)
+        .map(sale => ({
+          id: sale.id,
+          date: sale.date,
+          createdAt: sale.createdAt,
+          label: sale.name?.trim() || 'Credit sale',
+          amount: getSaleNetTotal(sale),
+        })),
+      ...payments
+        .filter(payment => payment.customerId === customer.id)
+        .map(payment => ({
+          id: payment.id,
+          date: payment.date,
+          createdAt: payment.createdAt,
+          label: `Payment · ${PAYMENT_METHOD_LABELS[payment.paymentMethod]} · ${users.find(u => u.id === payment.receivedBy)?.name ?? 'Unknown user'}`,
+          amount: -payment.amount,
+        })),
+    ]
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+      .slice(0, HISTORY_LIMIT);
+
+    if (entries.length === 0) {
+      return <Text style={[styles.metaText, { color: theme.textMuted }]}>No credit sales or payments yet.</Text>;
+    }
+
+    return entries.map(entry => (
+      <View key={entry.id} style={styles.historyRow}>
+        <Text style={[styles.metaText, styles.historyLabel, { color: theme.textSecondary }]}>
+          {formatShortDate(entry.date)} · {entry.label}
+        </Text>
+        <Text style={[styles.metaText, { color: entry.amount < 0 ? theme.success : theme.text }]}>
+          {entry.amount < 0 ? `-${formatCurrency(-entry.amount)}` : formatCurrency(entry.amount)}
+        </Text>
+      </View>
+    ));
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <LinearGradient
+        colors={[theme.backgroundGradientStart, theme.backgroundGradientEnd]}
+        style={StyleSheet.absoluteFill}
+      />
+      {settings.laserBackground && (
+        <LaserBackground isDarkMode={settings.darkMode} colorPalette={settings.backgroundColorPalette} intensity={settings.backgroundIntensity} />
+      )}
+
+      <SafeAreaView
+        style={[styles.safeArea, useLeftRailLayout && { paddingLeft: leftRailWidth + 16, paddingRight: 16 }]}
+        edges={['top']}
+      >
+        <View style={[styles.header, { borderBottomColor: theme.divider }]}>
+          <TouchableOpacity
+            style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => router.back()}
+          >
+            <ChevronLeft color={theme.primary} size={20} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Receivables</Text>
+          <TouchableOpacity
+            style={[styles.headerButton, styles.headerActionButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => openCustomerModal(null)}
+          >
+            <UserPlus color={theme.primary} size={20} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[styles.contentContainer, useLeftRailLayout ? { paddingBottom: insets.bottom + 16 } : { paddingBottom: tabBarHeight + insets.bottom + 16 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+          }
+        >
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Total Outstanding</Text>
+            <Text style={[styles.outstandingValue, { color: totalOutstanding > 0 ? theme.warning : theme.success }]}>
+              {formatCurrency(totalOutstanding)}
+            </Text>
+            <View style={styles.totalsRow}>
+              {AGING_BUCKETS.map(bucket => (
+                <View key={bucket} style={styles.totalBlock}>
+                  <Text style={[styles.totalLabel, { color: theme.textMuted }]}>{AGING_BUCKET_LABELS[bucket]}</Text>
+                  <Text style={[styles.agingValue, { color: bucket === 'current' ? theme.text : theme.error }]}>
+                    {formatCurrency(agingTotals[bucket])}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Customers ({customers.length})</Text>
+            {receivables.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                No customers yet. Add one to start recording credit sales.
+              </Text>
+            )}
+            {receivables.map(receivable => {
+              const { customer } = receivable;
+              const isExpanded = expandedCustomerId === customer.id;
+              const hasHistory = receivable.charged > 0 || receivable.paid > 0;
+              const agingSummary = AGING_BUCKETS
+                .filter(bucket => bucket !== 'current' && receivable.aging[bucket] > 0)
+                .map(bucket => `${AGING_BUCKET_LABELS[bucket]} ${formatCurrency(receivable.aging[bucket])}`)
+                .join(' · ');
+              return (
+                <View key={customer.id} style={[styles.listRow, { borderTopColor: theme.divider }]}>
+                  <TouchableOpacity
+                    style={styles.listRowMain}
+                    onPress={() => setExpandedCustomerId(isExpanded ? null : customer.id)}
+                  >
+                    <View style={styles.listInfo}>
+                      <Text style={[styles.listTitle, { color: theme.text }]}>{customer.name}</Text>
+                      {customer.phone ? (
+                        <Text style={[styles.metaText, { color: theme.textMuted }]}>{customer.phone}</Text>
+                      ) : null}
+                      {receivable.oldestUnpaidDate ? (
+                        <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                          Unpaid since {formatShortDate(receivable.oldestUnpaidDate)}
+                        </Text>
+                      ) : null}
+                      {agingSummary ? (
+                        <Text style={[styles.metaText, { color: theme.error }]}>{agingSummary}</Text>
+                      ) : null}
+                    </View>
+                    <View style={styles.listAmount}>
+                      <Text style={[styles.totalValue, { color: receivable.balance > 0 ? theme.warning : theme.success }]}>
+                        {formatCurrency(receivable.balance)}
+                      </Text>
+                      <Text style={[styles.metaText, { color: theme.textMuted }]}>balance</Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  <View style={styles.rowActions}>
+                    {receivable.balance > 0 && (
+                      <TouchableOpacity
+                        style={[styles.actionButton, { backgroundColor: theme.success + '20' }]}
+                        onPress={() => setPayingReceivable(receivable)}
+                      >
+                        <HandCoins color={theme.success} size={16} />
+                        <Text style={[styles.actionButtonText, { color: theme.success }]}>Record Payment</Text>
+                      </TouchableOpacity>
+                    )}
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                      onPress={() => openCustomerModal(customer)}
+                    >
+                      <Pencil color={theme.primary} size={16} />
+                    </TouchableOpacity>
+                    {!hasHistory && (
+                      <TouchableOpacity
+                        style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                        onPress={() => handleDeleteCustomer(customer)}
+                      >
+                        <Trash2 color={theme.error} size={16} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  {isExpanded && <View style={styles.history}>{renderHistory(customer)}</View>}
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <CustomerModal
+        visible={showCustomerModal}
+        theme={theme}
+        customer={editingCustomer}
+        onClose={closeCustomerModal}
+        onSubmit={handleSubmitCustomer}
+      />
+
+      <CustomerPaymentModal
+        visible={!!payingReceivable}
+        theme={theme}
+        customer={payingReceivable?.customer ?? null}
+        balance={payingReceivable?.balance ?? 0}
+        onClose={() => setPayingReceivable(null)}
+        onSubmit={handleSubmitPayment}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    marginLeft: 'auto',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 6,
+  },
+  metaText: {
+    fontSize: 12,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 8,
+  },
+  totalBlock: {
+    flex: 1,
+    minWidth: 70,
+  },
+  totalLabel: {
+    fontSize: 12,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  outstandingValue: {
+    fontSize: 28,
+    fontWeight: '700' as const,
+  },
+  agingValue: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  listRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    gap: 8,
+  },
+  listRowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  listInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  listTitle: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  listAmount: {
+    alignItems: 'flex-end',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+  },
+  actionButtonText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  history: {
+    gap: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  historyLabel: {
+    flex: 1,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,422 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ChevronLeft, Clock } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Colors } from '@/constants/colors';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, Shift, formatCurrency, formatShortDate, isInLocation } from '@/types';
+import { closeShift, getExpenses, getLocations, getSales, getShifts, getUsers, openShift } from '@/services/database';
+import { getActiveLocationFilter } from '@/services/locations';
+import {
+  SHIFT_PERIOD_LABELS,
+  getShiftStaffNames,
+  groupShiftSummariesByPeriod,
+  summarizeShifts,
+} from '@/services/shifts';
+import LaserBackground from '@/components/LaserBackground';
+import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
+
+const RECENT_SHIFT_LIMIT = 20;
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatShiftWindow(shift: Shift): string {
+  const start = `${formatShortDate(shift.openedAt)} ${formatTime(shift.openedAt)}`;
+  return shift.closedAt ? `${start} – ${formatTime(shift.closedAt)}` : `${start} – now`;
+}
+
+export default function ShiftsScreen() {
+  const { user, settings } = useAuth();
+  const { checkPendingCount } = useSync();
+  const theme = settings.darkMode ? Colors.dark : Colors.light;
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { width, height } = useWindowDimensions();
+  const useLeftRailLayout = width > height && width >= 900;
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const leftRailWidth = 108;
+
+  const [selectedStaffIds, setSelectedStaffIds] = useState<string[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
+  const activeLocationId = getActiveLocationFilter(settings, user?.role, locations);
+
+  const { data: allShifts = [], refetch: refetchShifts } = useQuery({
+    queryKey: ['shifts'],
+    queryFn: getShifts,
+  });
+
+  const shifts = useMemo(
+    () => allShifts.filter(shift => isInLocation(shift, activeLocationId)),
+    [activeLocationId, allShifts]
+  );
+
+  const { data: sales = [], refetch: refetchSales } = useQuery({
+    queryKey: ['sales', 'all'],
+    queryFn: getSales,
+  });
+
+  const { data: expenses = [], refetch: refetchExpenses } = useQuery({
+    queryKey: ['expenses', 'all'],
+    queryFn: getExpenses,
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
+  });
+
+  useEffect(() => {
+    if (user && selectedStaffIds.length === 0) {
+      setSelectedStaffIds([user.id]);
+    }
+  }, [selectedStaffIds.length, user]);
+
+  const summaries = useMemo(() => summarizeShifts(shifts, sales, expenses), [expenses, sales, shifts]);
+  const openShiftSummary = useMemo(() => summaries.find(summary => !summary.shift.closedAt) ?? null, [summaries]);
+  const closedSummaries = useMemo(() => summaries.filter(summary => summary.shift.closedAt), [summaries]);
+  const periodTotals = useMemo(() => groupShiftSummariesByPeriod(closedSummaries), [closedSummaries]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchShifts(), refetchSales(), refetchExpenses()]);
+    setRefreshing(false);
+  }, [refetchExpenses, refetchSales, refetchShifts]);
+
+  const openShiftMutation = useMutation({
+    mutationFn: () => openShift({ openedBy: user?.id || '', staffIds: selectedStaffIds, notes: null, locationId: activeLocationId }),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const closeShiftMutation = useMutation({
+    mutationFn: (shift: Shift) => closeShift(shift),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['shifts'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const toggleStaff = (id: string) => {
+    setSelectedStaffIds(prev => (prev.includes(id) ? prev.filter(staffId => staffId !== id) : [...prev, id]));
+    Haptics.selectionAsync();
+  };
+
+  const handleCloseShift = (shift: Shift) => {
+    const message = 'Close the current shift? New sales and expenses will no longer be attributed to it.';
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        closeShiftMutation.mutate(shift);
+      }
+    } else {
+      Alert.alert('Close Shift', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Close Shift', style: 'destructive', onPress: () => closeShiftMutation.mutate(shift) },
+      ]);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <LinearGradient
+        colors={[theme.backgroundGradientStart, theme.backgroundGradientEnd]}
+        style={StyleSheet.absoluteFill}
+      />
+      {settings.laserBackground && (
+        <LaserBackground isDarkMode={settings.darkMode} colorPalette={settings.backgroundColorPalette} intensity={settings.backgroundIntensity} />
+      )}
+
+      <SafeAreaView
+        style={[styles.safeArea, useLeftRailLayout && { paddingLeft: leftRailWidth + 16, paddingRight: 16 }]}
+        edges={['top']}
+      >
+        <View style={[styles.header, { borderBottomColor: theme.divider }]}>
+          <TouchableOpacity
+            style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => router.back()}
+          >
+            <ChevronLeft color={theme.primary} size={20} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Shifts</Text>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[styles.contentContainer, useLeftRailLayout ? { paddingBottom: insets.bottom + 16 } : { paddingBottom: tabBarHeight + insets.bottom + 16 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+          }
+        >
+          {openShiftSummary ? (
+            <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.success }]}>
+              <View style={styles.cardHeader}>
+                <Clock color={theme.success} size={18} />
+                <Text style={[styles.sectionTitle, styles.cardTitle, { color: theme.text }]}>
+                  {SHIFT_PERIOD_LABELS[openShiftSummary.period]} shift in progress
+                </Text>
+              </View>
+              <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                Opened {formatShiftWindow(openShiftSummary.shift)} by {users.find(u => u.id === openShiftSummary.shift.openedBy)?.name ?? 'Unknown user'}
+              </Text>
+              <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                Staff: {getShiftStaffNames(openShiftSummary.shift, users).join(', ')}
+              </Text>
+              <View style={styles.totalsRow}>
+                <View style={styles.totalBlock}>
+                  <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Sales ({openShiftSummary.salesCount})</Text>
+                  <Text style={[styles.totalValue, { color: theme.success }]}>{formatCurrency(openShiftSummary.salesTotal)}</Text>
+                </View>
+                <View style={styles.totalBlock}>
+                  <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Expenses</Text>
+                  <Text style={[styles.totalValue, { color: theme.error }]}>{formatCurrency(openShiftSummary.expensesTotal)}</Text>
+                </View>
+                <View style={styles.totalBlock}>
+                  <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Net</Text>
+                  <Text style={[styles.totalValue, { color: theme.primary }]}>{formatCurrency(openShiftSummary.netSales)}</Text>
+                </View>
+              </View>
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: theme.error }]}
+                onPress={() => handleCloseShift(openShiftSummary.shift)}
+                disabled={closeShiftMutation.isPending}
+              >
+                <Text style={styles.primaryButtonText}>Close Shift</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Open a Shift</Text>
+              <Text style={[styles.metaText, { color: theme.textSecondary }]}>
+                Sales and expenses recorded while the shift is open are attributed to it.
+              </Text>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Staff on shift</Text>
+              <View style={styles.chipGrid}>
+                {users.map(staff => {
+                  const isSelected = selectedStaffIds.includes(staff.id);
+                  return (
+                    <TouchableOpacity
+                      key={staff.id}
+                      style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                      onPress={() => toggleStaff(staff.id)}
+                    >
+                      <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>{staff.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: theme.success, opacity: selectedStaffIds.length === 0 ? 0.5 : 1 }]}
+                onPress={() => openShiftMutation.mutate()}
+                disabled={selectedStaffIds.length === 0 || openShiftMutation.isPending}
+              >
+                <Text style={styles.primaryButtonText}>Open Shift</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {periodTotals.length > 0 && (
+            <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Crew Comparison</Text>
+              {periodTotals.map(total => (
+                <View key={total.period} style={[styles.listRow, { borderTopColor: theme.divider }]}>
+                  <View style={styles.listInfo}>
+                    <Text style={[styles.listTitle, { color: theme.text }]}>{SHIFT_PERIOD_LABELS[total.period]}</Text>
+                    <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                      {total.shiftCount} {total.shiftCount === 1 ? 'shift' : 'shifts'} · {formatCurrency(total.salesTotal)} total
+                    </Text>
+                  </View>
+                  <View style={styles.listAmount}>
+                    <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Avg / shift</Text>
+                    <Text style={[styles.totalValue, { color: theme.success }]}>{formatCurrency(total.averageSales)}</Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Recent Shifts</Text>
+            {closedSummaries.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>No closed shifts yet</Text>
+            )}
+            {closedSummaries.slice(0, RECENT_SHIFT_LIMIT).map(summary => (
+              <View key={summary.shift.id} style={[styles.listRow, { borderTopColor: theme.divider }]}>
+                <View style={styles.listInfo}>
+                  <Text style={[styles.listTitle, { color: theme.text }]}>
+                    {SHIFT_PERIOD_LABELS[summary.period]} · {formatShiftWindow(summary.shift)}
+                  </Text>
+                  <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                    {getShiftStaffNames(summary.shift, users).join(', ')}
+                  </Text>
+                  <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                    {PAYMENT_METHODS.filter(method => summary.paymentTotals[method] !== 0)
+                      .map(method => `${PAYMENT_METHOD_LABELS[method]} ${formatCurrency(summary.paymentTotals[method])}`)
+                      .join(' · ') || 'No sales'}
+                  </Text>
+                </View>
+                <View style={styles.listAmount}>
+                  <Text style={[styles.totalValue, { color: theme.success }]}>{formatCurrency(summary.salesTotal)}</Text>
+                  <Text style={[styles.metaText, { color: theme.error }]}>-{formatCurrency(summary.expensesTotal)}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 6,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 6,
+  },
+  metaText: {
+    fontSize: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  totalBlock: {
+    flex: 1,
+  },
+  totalLabel: {
+    fontSize: 12,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  primaryButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: '600' as const,
+    fontSize: 15,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  listInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  listTitle: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  listAmount: {
+    alignItems: 'flex-end',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,444 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  Alert,
+  Platform,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { ChevronLeft, Pencil, Plus, Trash2 } from 'lucide-react-native';
+import { useRouter } from 'expo-router';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Colors } from '@/constants/colors';
+import { Supplier, formatCurrency, formatShortDate } from '@/types';
+import { createSupplier, deleteSupplier, getExpenses, getSuppliers, updateSupplier } from '@/services/database';
+import { buildSupplierSpendSummaries, getSupplierItemPriceHistory } from '@/services/suppliers';
+import { formatLocalDate } from '@/services/dateUtils';
+import SupplierModal from '@/components/SupplierModal';
+import LaserBackground from '@/components/LaserBackground';
+import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
+
+const PRICE_HISTORY_ENTRIES = 4;
+
+export default function SuppliersScreen() {
+  const { settings } = useAuth();
+  const { checkPendingCount, queueDeletion } = useSync();
+  const theme = settings.darkMode ? Colors.dark : Colors.light;
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const { width, height } = useWindowDimensions();
+  const useLeftRailLayout = width > height && width >= 900;
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const leftRailWidth = 108;
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedSupplierId, setExpandedSupplierId] = useState<string | null>(null);
+  const [showSupplierModal, setShowSupplierModal] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const { data: suppliers = [], refetch: refetchSuppliers } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+  });
+
+  const { data: expenses = [], refetch: refetchExpenses } = useQuery({
+    queryKey: ['expenses', 'all'],
+    queryFn: getExpenses,
+  });
+
+  const summaries = useMemo(() => buildSupplierSpendSummaries(suppliers, expenses), [expenses, suppliers]);
+  const totalRecentSpend = summaries.reduce((sum, summary) => sum + summary.recentTotal, 0);
+  const unassignedRecentSpend = useMemo(() => {
+    const supplierIds = new Set(suppliers.map(supplier => supplier.id));
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - 29);
+    const cutoffKey = formatLocalDate(cutoff);
+    return expenses
+      .filter(expense => !expense.supplierId || !supplierIds.has(expense.supplierId))
+      .filter(expense => expense.date.slice(0, 10) >= cutoffKey)
+      .reduce((sum, expense) => sum + expense.total, 0);
+  }, [expenses, suppliers]);
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchSuppliers(), refetchExpenses()]);
+    setRefreshing(false);
+  }, [refetchExpenses, refetchSuppliers]);
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async (payload: Pick<Supplier, 'name' | 'contact' | 'notes'>) => {
+      if (editingSupplier) {
+        await updateSupplier({ ...editingSupplier, ...payload });
+        return;
+      }
+      await createSupplier(payload);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteSupplierMutation = useMutation({
+    mutationFn: async (supplier: Supplier) => {
+      await queueDeletion('suppliers', supplier.id, { name: supplier.name });
+      await deleteSupplier(supplier.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const openSupplierModal = (supplier: Supplier | null) => {
+    setEditingSupplier(supplier);
+    setShowSupplierModal(true);
+  };
+
+  const closeSupplierModal = () => {
+    setShowSupplierModal(false);
+    setEditingSupplier(null);
+  };
+
+  const handleSubmitSupplier = async (payload: Pick<Supplier, 'name' | 'contact' | 'notes'>) => {
+    await saveSupplierMutation.mutateAsync(payload);
+    closeSupplierModal();
+  };
+
+  const handleDeleteSupplier = (supplier: Supplier) => {
+    const message = `Remove ${supplier.name} from the supplier list?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteSupplierMutation.mutate(supplier);
+      }
+    } else {
+      Alert.alert('Remove Supplier', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => deleteSupplierMutation.mutate(supplier) },
+      ]);
+    }
+  };
+
+  const renderPriceHistory = (supplier: Supplier) => {
+    const history = getSupplierItemPriceHistory(supplier.id, expenses);
+    if (history.length === 0) {
+      return <Text style={[styles.metaText, { color: theme.textMuted }]}>No priced items recorded yet.</Text>;
+    }
+
+    return history.map(item => {
+      const change = item.previousPrice !== null ? item.latestPrice - item.previousPrice : 0;
+      return (
+        <View key={item.name} style={styles.priceItem}>
+          <View style={styles.historyRow}>
+            <Text style={[styles.listTitle, styles.historyLabel, { color: theme.text }]}>{item.name}</Text>
+            <Text style={[styles.metaText, { color: theme.text }]}>{formatCurrency(item.latestPrice)}</Text>
+            {change !== 0 && (
+              <Text style={[styles.metaText, { color: change > 0 ? theme.error : theme.success }]}>
+                {change > 0 ? '▲' : '▼'} {formatCurrency(Math.abs(change))}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.metaText, { color: theme.textMuted }]}>
+            {item.entries
+              .slice(-PRICE_HISTORY_ENTRIES)
+              .reverse()
+              .map(entry => `${formatShortDate(entry.date)} ${formatCurrency(entry.price)}`)
+              .join(' · ')}
+          </Text>
+        </View>
+      );
+    });
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <LinearGradient
+        colors={[theme.backgroundGradientStart, theme.backgroundGradientEnd]}
+        style={StyleSheet.absoluteFill}
+      />
+      {settings.laserBackground && (
+        <LaserBackground isDarkMode={settings.darkMode} colorPalette={settings.backgroundColorPalette} intensity={settings.backgroundIntensity} />
+      )}
+
+      <SafeAreaView
+        style={[styles.safeArea, useLeftRailLayout && { paddingLeft: leftRailWidth + 16, paddingRight: 16 }]}
+        edges={['top']}
+      >
+        <View style={[styles.header, { borderBottomColor: theme.divider }]}>
+          <TouchableOpacity
+            style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => router.back()}
+          >
+            <ChevronLeft color={theme.primary} size={20} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Suppliers</Text>
+          <TouchableOpacity
+            style={[styles.headerButton, styles.headerActionButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+            onPress={() => openSupplierModal(null)}
+          >
+            <Plus color={theme.primary} size={20} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[styles.contentContainer, useLeftRailLayout ? { paddingBottom: insets.bottom + 16 } : { paddingBottom: tabBarHeight + insets.bottom + 16 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+          }
+        >
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.totalLabel, { color: theme.textMuted }]}>Spent with Suppliers (last 30 days)</Text>
+            <Text style={[styles.outstandingValue, { color: theme.error }]}>{formatCurrency(totalRecentSpend)}</Text>
+            <Text style={[styles.metaText, { color: theme.textMuted }]}>
+              {formatCurrency(unassignedRecentSpend)} in expenses with no supplier
+            </Text>
+          </View>
+
+          <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>Suppliers ({suppliers.length})</Text>
+            {summaries.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                No suppliers yet. Add one, then pick it when recording an expense.
+              </Text>
+            )}
+            {summaries.map(summary => {
+              const { supplier } = summary;
+              const isExpanded = expandedSupplierId === supplier.id;
+              const maxMonthly = Math.max(...summary.monthly.map(month => month.total), 0);
+              return (
+                <View key={supplier.id} style={[styles.listRow, { borderTopColor: theme.divider }]}>
+                  <TouchableOpacity
+                    style={styles.listRowMain}
+                    onPress={() => setExpandedSupplierId(isExpanded ? null : supplier.id)}
+                  >
+                    <View style={styles.listInfo}>
+                      <Text style={[styles.listTitle, { color: theme.text }]}>{supplier.name}</Text>
+                      {supplier.contact ? (
+                        <Text style={[styles.metaText, { color: theme.textMuted }]}>{supplier.contact}</Text>
+                      ) : null}
+                      <Text style={[styles.metaText, { color: theme.textMuted }]}>
+                        {summary.purchaseCount} {summary.purchaseCount === 1 ? 'purchase' : 'purchases'}
+                        {summary.lastPurchaseDate ? ` · last ${formatShortDate(summary.lastPurchaseDate)}` : ''}
+                      </Text>
+                    </View>
+                    <View style={styles.listAmount}>
+                      <Text style={[styles.totalValue, { color: theme.error }]}>{formatCurrency(summary.recentTotal)}</Text>
+                      <Text style={[styles.metaText, { color: theme.textMuted }]}>{formatCurrency(summary.total)} all time</Text>
+                    </View>
+                  </TouchableOpacity>
+
+                  <View style={styles.rowActions}>
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                      onPress={() => openSupplierModal(supplier)}
+                    >
+                      <Pencil color={theme.primary} size={16} />
+                    </TouchableOpacity>
+                    {summary.purchaseCount === 0 && (
+                      <TouchableOpacity
+                        style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                        onPress={() => handleDeleteSupplier(supplier)}
+                      >
+                        <Trash2 color={theme.error} size={16} />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  {isExpanded && (
+                    <View style={styles.history}>
+                      {supplier.notes ? (
+                        <Text style={[styles.metaText, { color: theme.textSecondary }]}>{supplier.notes}</Text>
+                      ) : null}
+                      <Text style={[styles.subsectionTitle, { color: theme.textSecondary }]}>Monthly Spend</Text>
+                      {summary.monthly.map(month => (
+                        <View key={month.monthKey} style={styles.monthRow}>
+                          <Text style={[styles.metaText, styles.monthLabel, { color: theme.textMuted }]}>{month.label}</Text>
+                          <View style={[styles.monthTrack, { backgroundColor: theme.divider }]}>
+                            <View
+                              style={[
+                                styles.monthBar,
+                                { backgroundColor: theme.error, width: `${maxMonthly > 0 ? (month.total / maxMonthly) * 100 : 0}%` },
+                              ]}
+                            />
+                          </View>
+                          <Text style={[styles.metaText, styles.monthValue, { color: theme.text }]}>{formatCurrency(month.total)}</Text>
+                        </View>
+                      ))}
+                      <Text style={[styles.subsectionTitle, { color: theme.textSecondary }]}>Item Prices</Text>
+                      {renderPriceHistory(supplier)}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        </ScrollView>
+      </SafeAreaView>
+
+      <SupplierModal
+        visible={showSupplierModal}
+        theme={theme}
+        supplier={editingSupplier}
+        onClose={closeSupplierModal}
+        onSubmit={handleSubmitSupplier}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+  },
+  headerButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 12,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerActionButton: {
+    marginLeft: 'auto',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 6,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 6,
+  },
+  metaText: {
+    fontSize: 12,
+  },
+  totalLabel: {
+    fontSize: 12,
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  outstandingValue: {
+    fontSize: 28,
+    fontWeight: '700' as const,
+  },
+  listRow: {
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    gap: 8,
+  },
+  listRowMain: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  listInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  listTitle: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+  },
+  listAmount: {
+    alignItems: 'flex-end',
+  },
+  rowActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  history: {
+    gap: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  historyLabel: {
+    flex: 1,
+  },
+  subsectionTitle: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    marginTop: 6,
+  },
+  monthRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  monthLabel: {
+    width: 48,
+  },
+  monthTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  monthBar: {
+    height: 8,
+    borderRadius: 4,
+  },
+  monthValue: {
+    width: 84,
+    textAlign: 'right',
+  },
+  priceItem: {
+    gap: 2,
+    paddingVertical: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+});
@@ -0,0 +1,842 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  RefreshControl,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+  useWindowDimensions,
+} from 'react-native';
+import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Plus, X, Trash2, Pencil, PackagePlus, ClipboardCheck, ChefHat, Scale } from 'lucide-react-native';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+import { Colors } from '@/constants/colors';
+import { StockEntry, StockItem, formatShortDate, isStockItemLow } from '@/types';
+import {
+  getStockItems,
+  getStockEntries,
+  getProducts,
+  createStockItem,
+  updateStockItem,
+  deleteStockItem,
+  createStockEntry,
+  createActivity,
+} from '@/services/database';
+import { formatLocalDate } from '@/services/dateUtils';
+import LaserBackground from '@/components/LaserBackground';
+import RecipesModal from '@/components/RecipesModal';
+import UsageReportModal from '@/components/UsageReportModal';
+import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
+
+const RECENT_ENTRY_LIMIT = 30;
+
+type MovementMode = 'stock_in' | 'count';
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? quantity.toString() : quantity.toFixed(2);
+}
+
+function getEntryLabel(entry: StockEntry): string {
+  switch (entry.type) {
+    case 'stock_in':
+      return 'Stock in';
+    case 'sale':
+      return entry.quantity < 0 ? 'Sold' : 'Sale reversed';
+    case 'count':
+      return 'Count adjustment';
+    default:
+      return entry.type;
+  }
+}
+
+export default function InventoryScreen() {
+  const { user, settings } = useAuth();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const theme = settings.darkMode ? Colors.dark : Colors.light;
+  const queryClient = useQueryClient();
+  const { width, height } = useWindowDimensions();
+  const isLandscape = width > height;
+  const useLeftRailLayout = isLandscape && width >= 900;
+  const insets = useSafeAreaInsets();
+  const tabBarHeight = useBottomTabBarHeight();
+  const leftRailWidth = 108;
+
+  const [refreshing, setRefreshing] = useState(false);
+  const [showItemModal, setShowItemModal] = useState(false);
+  const [editingItem, setEditingItem] = useState<StockItem | null>(null);
+  const [itemName, setItemName] = useState('');
+  const [itemUnit, setItemUnit] = useState('');
+  const [itemOnHand, setItemOnHand] = useState('');
+  const [itemProductId, setItemProductId] = useState<string | null>(null);
+  const [itemReorderPoint, setItemReorderPoint] = useState('');
+  const [itemSupplier, setItemSupplier] = useState('');
+  const [movementItem, setMovementItem] = useState<StockItem | null>(null);
+  const [movementMode, setMovementMode] = useState<MovementMode>('stock_in');
+  const [movementQuantity, setMovementQuantity] = useState('');
+  const [movementNote, setMovementNote] = useState('');
+  const [showRecipes, setShowRecipes] = useState(false);
+  const [showUsageReport, setShowUsageReport] = useState(false);
+  const [validationError, setValidationError] = useState('');
+
+  const { data: stockItems = [], refetch: refetchStockItems } = useQuery({
+    queryKey: ['stockItems'],
+    queryFn: getStockItems,
+  });
+
+  const { data: stockEntries = [], refetch: refetchStockEntries } = useQuery({
+    queryKey: ['stockEntries'],
+    queryFn: () => getStockEntries({ limit: RECENT_ENTRY_LIMIT }),
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+  });
+
+  const stockItemById = useMemo(
+    () => new Map(stockItems.map(item => [item.id, item])),
+    [stockItems]
+  );
+  const productById = useMemo(
+    () => new Map(products.map(product => [product.id, product])),
+    [products]
+  );
+
+  const invalidateInventory = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+    queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
+  }, [queryClient]);
+
+  const saveItemMutation = useMutation({
+    mutationFn: async (data: {
+      name: string;
+      unit: string;
+      onHand: number;
+      productId: string | null;
+      reorderPoint: number | null;
+      supplier: string;
+    }) => {
+      if (editingItem) {
+        const { onHand: _onHand, ...details } = data;
+        await updateStockItem({ ...editingItem, ...details });
+        return 'update' as const;
+      }
+      await createStockItem(data);
+      return 'add' as const;
+    },
+    onSuccess: async (mode, data) => {
+      invalidateInventory();
+      if (user) {
+        await createActivity({
+          type: mode === 'add' ? 'inventory_add' : 'inventory_update',
+          description: mode === 'add' ? `Stock item added: ${data.name}` : `Stock item updated: ${data.name}`,
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: (data: { item: StockItem; mode: MovementMode; quantity: number; note: string }) => {
+      if (!user) throw new Error('Not logged in');
+      return createStockEntry({
+        stockItemId: data.item.id,
+        type: data.mode,
+        quantity: data.mode === 'count' ? Number((data.quantity - data.item.onHand).toFixed(3)) : data.quantity,
+        note: data.note,
+        saleId: null,
+        date: formatLocalDate(new Date()),
+        createdBy: user.id,
+      });
+    },
+    onSuccess: async (_entry, data) => {
+      invalidateInventory();
+      if (user) {
+        await createActivity({
+          type: 'inventory_update',
+          description: data.mode === 'count'
+            ? `Counted ${formatQuantity(data.quantity)} ${data.item.unit} of ${data.item.name}`
+            : `Stocked in ${formatQuantity(data.quantity)} ${data.item.unit} of ${data.item.name}`,
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: async (item: StockItem) => {
+      await queueDeletion('stock_items', item.id, {
+        name: item.name,
+        amount: item.onHand,
+      });
+      return deleteStockItem(item.id);
+    },
+    onSuccess: async (_result, item) => {
+      invalidateInventory();
+      if (user) {
+        await createActivity({
+          type: 'inventory_delete',
+          description: `Stock item removed: ${item.name}`,
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await Promise.all([refetchStockItems(), refetchStockEntries()]);
+    setRefreshing(false);
+  }, [refetchStockItems, refetchStockEntries]);
+
+  const openItemModal = (item?: StockItem) => {
+    setEditingItem(item ?? null);
+    setItemName(item?.name ?? '');
+    setItemUnit(item?.unit ?? '');
+    setItemOnHand(item ? formatQuantity(item.onHand) : '');
+    setItemProductId(item?.productId ?? null);
+    setItemReorderPoint(typeof item?.reorderPoint === 'number' ? formatQuantity(item.reorderPoint) : '');
+    setItemSupplier(item?.supplier ?? '');
+    setValidationError('');
+    setShowItemModal(true);
+  };
+
+  const closeItemModal = () => {
+    setShowItemModal(false);
+    setEditingItem(null);
+    setValidationError('');
+  };
+
+  const handleSaveItem = async () => {
+    const trimmedName = itemName.trim();
+    const trimmedUnit = itemUnit.trim();
+    const parsedOnHand = itemOnHand.trim() ? Number.parseFloat(itemOnHand) : 0;
+    if (!trimmedName || !trimmedUnit) {
+      setValidationError('Enter a name and unit.');
+      return;
+    }
+    if (Number.isNaN(parsedOnHand) || parsedOnHand < 0) {
+      setValidationError('Enter a valid on-hand quantity.');
+      return;
+    }
+    const parsedReorderPoint = itemReorderPoint.trim() ? Number.parseFloat(itemReorderPoint) : null;
+    if (parsedReorderPoint !== null && (Number.isNaN(parsedReorderPoint) || parsedReorderPoint < 0)) {
+      setValidationError('Enter a valid reorder point.');
+      return;
+    }
+    try {
+      await saveItemMutation.mutateAsync({
+        name: trimmedName,
+        unit: trimmedUnit,
+        onHand: parsedOnHand,
+        productId: itemProductId,
+        reorderPoint: parsedReorderPoint,
+        supplier: itemSupplier,
+      });
+      closeItemModal();
+    } catch {
+      setValidationError('Unable to save stock item. Please try again.');
+    }
+  };
+
+  const openMovement = (item: StockItem, mode: MovementMode) => {
+    setMovementItem(item);
+    setMovementMode(mode);
+    setMovementQuantity(mode === 'count' ? formatQuantity(item.onHand) : '');
+    setMovementNote('');
+    setValidationError('');
+  };
+
+  const handleSaveMovement = async () => {
+    if (!movementItem) return;
+    const parsedQuantity = Number.parseFloat(movementQuantity);
+    const isCount = movementMode === 'count';
+    if (Number.isNaN(parsedQuantity) || parsedQuantity < 0 || (!isCount && parsedQuantity === 0)) {
+      setValidationError(isCount ? 'Enter the counted quantity.' : 'Enter a quantity greater than zero.');
+      return;
+    }
+    try {
+      await movementMutation.mutateAsync({
+        item: movementItem,
+        mode: movementMode,
+        quantity: parsedQuantity,
+        note: movementNote,
+      });
+      setMovementItem(null);
+    } catch {
+      setValidationError(isCount ? 'Unable to record count. Please try again.' : 'Unable to record stock in. Please try again.');
+    }
+  };
+
+  const handleDeleteItem = (item: StockItem) => {
+    if (Platform.OS === 'web') {
+      if (confirm(`Delete stock item "${item.name}"?`)) {
+        deleteItemMutation.mutate(item);
+      }
+    } else {
+      Alert.alert('Delete Stock Item', `Delete "${item.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteItemMutation.mutate(item) },
+      ]);
+    }
+  };
+
+  const activeProducts = products.filter(product => product.active);
+  const canViewUsageReport = user?.role === 'operation_manager' || user?.role === 'developer';
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.background }]}>
+      <LinearGradient
+        colors={[theme.backgroundGradientStart, theme.backgroundGradientEnd]}
+        style={StyleSheet.absoluteFill}
+      />
+      {settings.laserBackground && (
+        <LaserBackground isDarkMode={settings.darkMode} colorPalette={settings.backgroundColorPalette} intensity={settings.backgroundIntensity} />
+      )}
+
+      <SafeAreaView
+        style={[styles.safeArea, useLeftRailLayout && { paddingLeft: leftRailWidth + 16, paddingRight: 16 }]}
+        edges={['top']}
+      >
+        <View style={[styles.header, { borderBottomColor: theme.divider }]}>
+          <Text style={[styles.headerTitle, { color: theme.text }]}>Inventory</Text>
+          <View style={styles.headerActions}>
+            {canViewUsageReport && (
+              <TouchableOpacity
+                style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+                onPress={() => setShowUsageReport(true)}
+              >
+                <Scale color={theme.primary} size={20} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => setShowRecipes(true)}
+            >
+              <ChefHat color={theme.primary} size={20} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.headerButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => openItemModal()}
+            >
+              <Plus color={theme.primary} size={20} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <ScrollView
+          style={styles.content}
+          contentContainerStyle={[styles.contentContainer, useLeftRailLayout ? { paddingBottom: insets.bottom + 16 } : { paddingBottom: tabBarHeight + insets.bottom + 16 }]}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={theme.primary} />
+          }
+        >
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>Stock Levels ({stockItems.length})</Text>
+          {stockItems.map(item => {
+            const linkedProduct = item.productId ? productById.get(item.productId) : null;
+            const isLow = isStockItemLow(item);
+            return (
+              <View
+                key={item.id}
+                style={[styles.itemCard, { backgroundColor: theme.card, borderColor: isLow ? theme.warning : theme.cardBorder }]}
+              >
+                <View style={styles.itemInfo}>
+                  <Text style={[styles.itemName, { color: theme.text }]}>{item.name}</Text>
+                  <Text style={[styles.itemMeta, { color: theme.textSecondary }]}>
+                    {linkedProduct ? `Deducted by ${linkedProduct.name}` : 'Not linked to a product'}
+                    {item.supplier ? ` · ${item.supplier}` : ''}
+                  </Text>
+                  <View style={styles.amountRow}>
+                    <Text style={[styles.itemAmount, { color: item.onHand <= 0 ? theme.error : theme.primary }]}>
+                      {formatQuantity(item.onHand)} {item.unit}
+                    </Text>
+                    {typeof item.reorderPoint === 'number' && (
+                      <Text style={[styles.itemMeta, { color: isLow ? theme.warning : theme.textMuted }]}>
+                        {isLow ? 'Running low · ' : ''}Reorder at {formatQuantity(item.reorderPoint)}
+                      </Text>
+                    )}
+                  </View>
+                </View>
+                <View style={styles.itemActions}>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.success + '20' }]}
+                    onPress={() => openMovement(item, 'stock_in')}
+                  >
+                    <PackagePlus color={theme.success} size={18} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.warning + '20' }]}
+                    onPress={() => openMovement(item, 'count')}
+                  >
+                    <ClipboardCheck color={theme.warning} size={18} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => openItemModal(item)}
+                  >
+                    <Pencil color={theme.primary} size={18} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDeleteItem(item)}
+                  >
+                    <Trash2 color={theme.error} size={18} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            );
+          })}
+          {stockItems.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>No stock items yet</Text>
+          )}
+
+          <Text style={[styles.sectionTitle, styles.sectionSpacing, { color: theme.text }]}>Recent Movements</Text>
+          {stockEntries.map(entry => {
+            const stockItem = stockItemById.get(entry.stockItemId);
+            return (
+              <View key={entry.id} style={[styles.entryRow, { borderBottomColor: theme.divider }]}>
+                <View style={styles.itemInfo}>
+                  <Text style={[styles.entryName, { color: theme.text }]}>{stockItem?.name ?? 'Removed item'}</Text>
+                  <Text style={[styles.itemMeta, { color: theme.textMuted }]}>
+                    {getEntryLabel(entry)} · {formatShortDate(new Date(entry.createdAt))}
+                    {entry.note ? ` · ${entry.note}` : ''}
+                  </Text>
+                </View>
+                <Text style={[styles.entryQuantity, { color: entry.quantity < 0 ? theme.error : theme.success }]}>
+                  {entry.quantity > 0 ? '+' : ''}{formatQuantity(entry.quantity)} {stockItem?.unit ?? ''}
+                </Text>
+              </View>
+            );
+          })}
+          {stockEntries.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>No stock movements yet</Text>
+          )}
+        </ScrollView>
+      </SafeAreaView>
+
+      <Modal visible={showItemModal} transparent animationType="fade" onRequestClose={closeItemModal}>
+        <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+          <KeyboardAvoidingView
+            style={styles.keyboardAvoidingView}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+              <ScrollView contentContainerStyle={styles.formScrollContent} keyboardShouldPersistTaps="handled">
+                <View style={styles.modalHeader}>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>
+                    {editingItem ? 'Edit Stock Item' : 'New Stock Item'}
+                  </Text>
+                  <TouchableOpacity onPress={closeItemModal}>
+                    <X color={theme.textMuted} size={24} />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.formContent}>
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="e.g. Fishball pack"
+                    placeholderTextColor={theme.textMuted}
+                    value={itemName}
+                    onChangeText={setItemName}
+                  />
+                  <View style={styles.inputRow}>
+                    <View style={styles.inputFlex}>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Unit</Text>
+                      <TextInput
+                        style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                        placeholder="pcs, kg, cups"
+                        placeholderTextColor={theme.textMuted}
+                        value={itemUnit}
+                        onChangeText={setItemUnit}
+                      />
+                    </View>
+                    <View style={styles.inputFlex}>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>On Hand</Text>
+                      <TextInput
+                        style={[
+                          styles.input,
+                          { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text },
+                          editingItem && styles.inputDisabled,
+                        ]}
+                        placeholder="0"
+                        placeholderTextColor={theme.textMuted}
+                        value={itemOnHand}
+                        onChangeText={setItemOnHand}
+                        keyboardType="decimal-pad"
+                        editable={!editingItem}
+                      />
+                    </View>
+                  </View>
+                  {editingItem && (
+                    <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                      Use Stock In or Count to change the quantity of an existing item.
+                    </Text>
+                  )}
+                  <View style={styles.inputRow}>
+                    <View style={styles.inputFlex}>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Reorder Point</Text>
+                      <TextInput
+                        style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                        placeholder="Optional"
+                        placeholderTextColor={theme.textMuted}
+                        value={itemReorderPoint}
+                        onChangeText={setItemReorderPoint}
+                        keyboardType="decimal-pad"
+                      />
+                    </View>
+                    <View style={styles.inputFlex}>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Preferred Supplier</Text>
+                      <TextInput
+                        style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                        placeholder="Optional"
+                        placeholderTextColor={theme.textMuted}
+                        value={itemSupplier}
+                        onChangeText={setItemSupplier}
+                      />
+                    </View>
+                  </View>
+
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Deduct when sold</Text>
+                  <View style={styles.productGrid}>
+                    <TouchableOpacity
+                      style={[
+                        styles.productChip,
+                        { borderColor: itemProductId === null ? theme.primary : theme.cardBorder },
+                      ]}
+                      onPress={() => setItemProductId(null)}
+                    >
+                      <Text style={[styles.productChipText, { color: itemProductId === null ? theme.primary : theme.textSecondary }]}>
+                        None
+                      </Text>
+                    </TouchableOpacity>
+                    {activeProducts.map(product => (
+                      <TouchableOpacity
+                        key={product.id}
+                        style={[
+                          styles.productChip,
+                          { borderColor: itemProductId === product.id ? theme.primary : theme.cardBorder },
+                        ]}
+                        onPress={() => setItemProductId(product.id)}
+                      >
+                        <Text style={[styles.productChipText, { color: itemProductId === product.id ? theme.primary : theme.textSecondary }]}>
+                          {product.name}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+
+                  {validationError ? (
+                    <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                  ) : null}
+                </View>
+                <View style={styles.modalFooter}>
+                  <TouchableOpacity style={[styles.cancelButton, { borderColor: theme.cardBorder }]} onPress={closeItemModal}>
+                    <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.submitButton, { backgroundColor: theme.primary }]} onPress={handleSaveItem}>
+                    <Text style={styles.submitButtonText}>{editingItem ? 'Save Changes' : 'Add Item'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </ScrollView>
+            </View>
+          </KeyboardAvoidingView>
+        </View>
+      </Modal>
+
+      <Modal visible={movementItem !== null} transparent animationType="fade" onRequestClose={() => setMovementItem(null)}>
+        <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+          <KeyboardAvoidingView
+            style={styles.keyboardAvoidingView}
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          >
+            <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>
+                  {movementMode === 'count' ? 'Stock Count' : 'Stock In'} · {movementItem?.name}
+                </Text>
+                <TouchableOpacity onPress={() => setMovementItem(null)}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {movementMode === 'count' ? 'Counted on hand' : 'Quantity'} ({movementItem?.unit})
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0"
+                  placeholderTextColor={theme.textMuted}
+                  value={movementQuantity}
+                  onChangeText={setMovementQuantity}
+                  keyboardType="decimal-pad"
+                />
+                {movementMode === 'count' && movementItem && (
+                  <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                    System on hand: {formatQuantity(movementItem.onHand)} {movementItem.unit}
+                  </Text>
+                )}
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Note (optional)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="e.g. Delivery from market"
+                  placeholderTextColor={theme.textMuted}
+                  value={movementNote}
+                  onChangeText={setMovementNote}
+                />
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+              <View style={styles.modalFooter}>
+                <TouchableOpacity style={[styles.cancelButton, { borderColor: theme.cardBorder }]} onPress={() => setMovementItem(null)}>
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: movementMode === 'count' ? theme.warning : theme.success }]}
+                  onPress={handleSaveMovement}
+                >
+                  <Text style={styles.submitButtonText}>{movementMode === 'count' ? 'Save Count' : 'Add Stock'}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </KeyboardAvoidingView>
+        </View>
+      </Modal>
+
+      <RecipesModal visible={showRecipes} theme={theme} onClose={() => setShowRecipes(false)} />
+      <UsageReportModal visible={showUsageReport} theme={theme} onClose={() => setShowUsageReport(false)} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700' as const,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 12,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    marginBottom: 12,
+  },
+  sectionSpacing: {
+    marginTop: 24,
+  },
+  itemCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+    marginBottom: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  itemAmount: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  iconButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  entryName: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+    marginBottom: 2,
+  },
+  entryQuantity: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '90%',
+    borderRadius: 20,
+    overflow: 'hidden',
+  },
+  formScrollContent: {
+    paddingBottom: 8,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+  },
+  formContent: {
+    padding: 20,
+    gap: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '500' as const,
+    marginTop: 4,
+  },
+  input: {
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingHorizontal: 16,
+    fontSize: 16,
+  },
+  inputDisabled: {
+    opacity: 0.6,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  inputFlex: {
+    flex: 1,
+  },
+  helperText: {
+    fontSize: 12,
+  },
+  productGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  productChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  productChipText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  submitButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+});
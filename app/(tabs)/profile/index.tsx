@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -16,15 +16,20 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { Save } from 'lucide-react-native';
 import * as ImagePicker from 'expo-image-picker';
 import * as Haptics from 'expo-haptics';
+import { useQuery } from '@tanstack/react-query';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuth } from '@/contexts/AuthContext';
 import { Colors } from '@/constants/colors';
-import { ROLE_DISPLAY_NAMES } from '@/types';
+import { ROLE_DISPLAY_NAMES, formatCurrency, formatShortDate } from '@/types';
+import { getCashAdvances, getPayouts } from '@/services/database';
+import { getCashAdvanceLedger, summarizeCashAdvances } from '@/services/cashAdvances';
+import { parseLocalDateString } from '@/services/dateUtils';
 import ProfileAvatarGlow from '@/components/ProfileAvatarGlow';
 import LaserBackground from '@/components/LaserBackground';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 
 const BIO_STORAGE_KEY = '@myfoodcart_user_bio';
+const ADVANCE_HISTORY_LIMIT = 5;
 
 export default function ProfileScreen() {
   const { user, settings, updateCurrentUser } = useAuth();
@@ -43,6 +48,25 @@ export default function ProfileScreen() {
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
+  const { data: cashAdvances = [] } = useQuery({
+    queryKey: ['cashAdvances'],
+    queryFn: getCashAdvances,
+  });
+
+  const { data: payouts = [] } = useQuery({
+    queryKey: ['payouts'],
+    queryFn: getPayouts,
+  });
+
+  const advanceSummary = useMemo(
+    () => (user ? summarizeCashAdvances(user, cashAdvances, payouts) : null),
+    [cashAdvances, payouts, user]
+  );
+  const advanceLedger = useMemo(
+    () => (user ? getCashAdvanceLedger(user.id, cashAdvances, payouts).slice(0, ADVANCE_HISTORY_LIMIT) : []),
+    [cashAdvances, payouts, user]
+  );
+
   const loadUserData = useCallback(async () => {
     if (!user) return;
     
@@ -302,6 +326,38 @@ export default function ProfileScreen() {
               </View>
             )}
           </View>
+
+          {advanceSummary && advanceSummary.advanced > 0 && (
+            <View style={[styles.infoCard, styles.advancesCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+              <Text style={[styles.infoTitle, { color: theme.text }]}>Cash Advances</Text>
+
+              <View style={styles.infoRow}>
+                <Text style={[styles.infoLabel, { color: theme.textSecondary }]}>Outstanding</Text>
+                <Text style={[styles.infoValue, { color: advanceSummary.outstanding > 0 ? theme.warning : theme.success }]}>
+                  {formatCurrency(advanceSummary.outstanding)}
+                </Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={[styles.infoLabel, { color: theme.textSecondary }]}>Advanced</Text>
+                <Text style={[styles.infoValue, { color: theme.text }]}>{formatCurrency(advanceSummary.advanced)}</Text>
+              </View>
+              <View style={styles.infoRow}>
+                <Text style={[styles.infoLabel, { color: theme.textSecondary }]}>Deducted from payouts</Text>
+                <Text style={[styles.infoValue, { color: theme.text }]}>{formatCurrency(advanceSummary.repaid)}</Text>
+              </View>
+
+              {advanceLedger.map(entry => (
+                <View key={`${entry.type}-${entry.id}`} style={styles.infoRow}>
+                  <Text style={[styles.infoLabel, { color: theme.textMuted }]}>
+                    {formatShortDate(parseLocalDateString(entry.date))} · {entry.type === 'advance' ? 'Advance' : 'Payout deduction'}
+                  </Text>
+                  <Text style={[styles.infoValue, { color: entry.amount < 0 ? theme.success : theme.text }]}>
+                    {entry.amount < 0 ? `-${formatCurrency(-entry.amount)}` : formatCurrency(entry.amount)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
         </ScrollView>
       </SafeAreaView>
     </View>
@@ -393,6 +449,9 @@ const styles = StyleSheet.create({
     borderRadius: 16,
     borderWidth: 1,
   },
+  advancesCard: {
+    marginTop: 16,
+  },
   infoTitle: {
     fontSize: 16,
     fontWeight: '600' as const,
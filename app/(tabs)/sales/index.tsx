@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,30 +13,62 @@ import {
   KeyboardAvoidingView,
   ActivityIndicator,
   useWindowDimensions,
+  Image,
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Calendar, Plus, X, Trash2, PieChart, Save, AlertCircle, Clock, RefreshCw } from 'lucide-react-native';
+import { Calendar, Plus, Minus, X, Trash2, Pencil, PieChart, Save, AlertCircle, Clock, RefreshCw, UtensilsCrossed, Tags, Wallet, MapPin, Ban, Repeat, Target, HandCoins } from 'lucide-react-native';
 import CalendarModal from '@/components/CalendarModal';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as Haptics from 'expo-haptics';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSync } from '@/contexts/SyncContext';
 import { Colors } from '@/constants/colors';
-import { Expense, ExpenseItem, Sale, formatCurrency, formatDate, formatShortDate, ROLE_DISPLAY_NAMES } from '@/types';
-import { calculateNetSalesSplitAmounts } from '@/services/netSalesSplit';
+import { Expense, ExpenseItem, ExpenseReceipt, PaymentMethod, PAYMENT_METHODS, PAYMENT_METHOD_LABELS, Product, Sale, SaleDiscountType, SaleItem, SALE_DISCOUNT_TYPES, SALE_DISCOUNT_TYPE_LABELS, SENIOR_PWD_DISCOUNT_PERCENT, calculateSaleDiscount, formatCurrency, getSaleDiscountTotalsByType, getSaleNetTotal, getSalesTotalsByPaymentMethod, isSaleAdjusted, normalizePaymentMethod, SaleAdjustmentReason, SaleAdjustmentType, SALE_ADJUSTMENT_REASON_LABELS, SALE_ADJUSTMENT_TYPE_LABELS, formatDate, formatShortDate, generateId, SALES_TARGET_EDITOR_ROLES, Payout, PAYOUT_MANAGER_ROLES, SplitRecipient, isInLocation } from '@/types';
+import {
+  BASELINE_NET_SALES_SPLIT_DATE,
+  SPLIT_RECIPIENT_COLORS,
+  calculateNetSalesSplitAmounts,
+  getAllSplitRecipients,
+  getNetSalesSplitForDate,
+  getSplitRecipientName,
+  getSplitRecipientsError,
+  getSplitRecipientsTotal,
+} from '@/services/netSalesSplit';
+import { getExpenseCategoryName, UNCATEGORIZED_LABEL } from '@/services/expenseCategories';
+import { deleteReceiptImages, getReceiptDisplayUri, hasPendingReceiptUpload } from '@/services/receiptStorage';
+import { calculateCashDrawerTotals, calculateOverShort, formatOverShortLabel } from '@/services/cashDrawer';
 import { 
-  getSalesByDate, getExpensesByDate, createSale, createExpense,
-  deleteSale, deleteExpense, createActivity, getPendingSummaryAndItems, PendingSummary
+  getSalesByDate, getExpensesByDate, createSale, createExpense, updateSale, updateExpense,
+  deleteSale, deleteExpense, createActivity, getPendingSummaryAndItems, PendingSummary, getProducts,
+  getExpenseCategories, getCashDrawerCloseByDate, createCashDrawerClose, updateCashDrawerClose, getUsers, getLocations,
+  recordSaleAdjustment, getCustomers, getSuppliers, getSalesTargets, getNetSalesSplits, saveNetSalesSplit,
+  getPayouts, deletePayout, getCashAdvances, getCustomerPayments, getDailySalesExpenseTotals
 } from '@/services/database';
-import { formatLocalDate } from '@/services/dateUtils';
+import { canViewAllLocations, getActiveLocationFilter, getLocationName } from '@/services/locations';
+import { getSalesTargetForDate } from '@/services/salesTargets';
+import { buildPayoutBalances } from '@/services/payouts';
+import { captureSaleCoordinates } from '@/services/saleSpots';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
 import LaserBackground from '@/components/LaserBackground';
 import ExpenseModal from '@/components/ExpenseModal';
+import ProductCatalogModal from '@/components/ProductCatalogModal';
+import ExpenseCategoriesModal from '@/components/ExpenseCategoriesModal';
+import RecurringExpensesModal from '@/components/RecurringExpensesModal';
+import CashDrawerModal from '@/components/CashDrawerModal';
+import LocationSwitcher from '@/components/LocationSwitcher';
+import SalesBySpotModal from '@/components/SalesBySpotModal';
+import SaleAdjustmentModal from '@/components/SaleAdjustmentModal';
+import SalesTargetsModal from '@/components/SalesTargetsModal';
+import PayoutModal from '@/components/PayoutModal';
+import SalesTargetRing from '@/components/SalesTargetRing';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
 
+const ALL_EXPENSE_CATEGORIES = 'all';
+const UNCATEGORIZED_FILTER = 'uncategorized';
+
 export default function SalesScreen() {
-  const { user, settings } = useAuth();
+  const { user, settings, updateSettings } = useAuth();
   const { queueDeletion, pendingCount, triggerFullSync, checkPendingCount, isOnline } = useSync();
   const theme = settings.darkMode ? Colors.dark : Colors.light;
   const queryClient = useQueryClient();
@@ -53,24 +85,37 @@ export default function SalesScreen() {
   const [showSaleModal, setShowSaleModal] = useState(false);
   const [showExpenseModal, setShowExpenseModal] = useState(false);
   const [showPendingModal, setShowPendingModal] = useState(false);
+  const [showProductCatalog, setShowProductCatalog] = useState(false);
+  const [showExpenseCategories, setShowExpenseCategories] = useState(false);
+  const [showRecurringExpenses, setShowRecurringExpenses] = useState(false);
+  const [showCashDrawerModal, setShowCashDrawerModal] = useState(false);
+  const [showSpotsModal, setShowSpotsModal] = useState(false);
+  const [showSalesTargets, setShowSalesTargets] = useState(false);
+  const [showPayoutModal, setShowPayoutModal] = useState(false);
+  const [previewReceiptUri, setPreviewReceiptUri] = useState<string | null>(null);
+  const [expenseCategoryFilter, setExpenseCategoryFilter] = useState<string>(ALL_EXPENSE_CATEGORIES);
   const [pendingSummary, setPendingSummary] = useState<PendingSummary | null>(null);
   const [isSyncingPending, setIsSyncingPending] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   
   const [saleName, setSaleName] = useState('');
+  const [salePaymentMethod, setSalePaymentMethod] = useState<PaymentMethod>('cash');
+  const [saleCustomerId, setSaleCustomerId] = useState<string | null>(null);
   const [saleTotal, setSaleTotal] = useState('');
-  const [saleItems, setSaleItems] = useState<string[]>([]);
+  const [saleDiscountType, setSaleDiscountType] = useState<SaleDiscountType | null>(null);
+  const [saleDiscountValue, setSaleDiscountValue] = useState('');
+  const [saleItems, setSaleItems] = useState<SaleItem[]>([]);
   const [saleItemInput, setSaleItemInput] = useState('');
+  const [saleItemPriceInput, setSaleItemPriceInput] = useState('');
+  const [editingSale, setEditingSale] = useState<Sale | null>(null);
+  const [adjustingSale, setAdjustingSale] = useState<Sale | null>(null);
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
   
   
 
   const [showSplitModal, setShowSplitModal] = useState(false);
-  const [operationManagerPercent, setOperationManagerPercent] = useState(65);
-  const [generalManagerPercent, setGeneralManagerPercent] = useState(25);
-  const [foodCartPercent, setFoodCartPercent] = useState(10);
-  const [tempOperationPercent, setTempOperationPercent] = useState(65);
-  const [tempGeneralPercent, setTempGeneralPercent] = useState(25);
-  const [tempFoodCartPercent, setTempFoodCartPercent] = useState(10);
+  const [splitEffectiveDate, setSplitEffectiveDate] = useState(formatLocalDate(new Date()));
+  const [tempRecipients, setTempRecipients] = useState<SplitRecipient[]>([]);
   const [includeExpenses, setIncludeExpenses] = useState(true);
   
   const loadPendingSummary = useCallback(async () => {
@@ -89,73 +134,181 @@ export default function SalesScreen() {
   }, [showPendingModal, pendingCount, loadPendingSummary]);
 
 
-  useEffect(() => {
-    loadSplitPercentages();
-  }, []);
+  const dateStr = formatLocalDate(selectedDate);
 
-  const loadSplitPercentages = async () => {
-    try {
-      const stored = await AsyncStorage.getItem('netSalesSplit');
-      if (stored) {
-        const { operation, general, foodCart, includeExp } = JSON.parse(stored);
-        setOperationManagerPercent(operation);
-        setGeneralManagerPercent(general);
-        setFoodCartPercent(foodCart);
-        setTempOperationPercent(operation);
-        setTempGeneralPercent(general);
-        setTempFoodCartPercent(foodCart);
-        if (includeExp !== undefined) setIncludeExpenses(includeExp);
-      }
-    } catch (error) {
-      console.log('Error loading split percentages:', error);
-    }
-  };
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+  });
 
-  const dateStr = formatLocalDate(selectedDate);
+  const activeLocationId = getActiveLocationFilter(settings, user?.role, locations);
+  const isAllLocationsView = activeLocationId === null;
 
   const { data: sales = [], refetch: refetchSales } = useQuery({
-    queryKey: ['sales', dateStr],
-    queryFn: () => getSalesByDate(dateStr),
+    queryKey: ['sales', dateStr, activeLocationId],
+    queryFn: () => getSalesByDate(dateStr, activeLocationId),
   });
 
   const { data: expenses = [], refetch: refetchExpenses } = useQuery({
-    queryKey: ['expenses', dateStr],
-    queryFn: () => getExpensesByDate(dateStr),
+    queryKey: ['expenses', dateStr, activeLocationId],
+    queryFn: () => getExpensesByDate(dateStr, activeLocationId),
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+  });
+
+  const { data: expenseCategories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: getExpenseCategories,
+  });
+
+  const { data: cashDrawerClose = null } = useQuery({
+    queryKey: ['cashDrawerCloses', dateStr, activeLocationId],
+    queryFn: () => getCashDrawerCloseByDate(dateStr, activeLocationId),
+    enabled: !isAllLocationsView,
+  });
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
   });
 
-  const totalSales = sales.reduce((sum, s) => sum + s.total, 0);
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers'],
+    queryFn: getCustomers,
+  });
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+  });
+
+  const { data: salesTargets = [] } = useQuery({
+    queryKey: ['salesTargets'],
+    queryFn: getSalesTargets,
+  });
+
+  const { data: netSalesSplits = [] } = useQuery({
+    queryKey: ['netSalesSplits'],
+    queryFn: getNetSalesSplits,
+  });
+
+  const { data: payouts = [] } = useQuery({
+    queryKey: ['payouts'],
+    queryFn: getPayouts,
+  });
+
+  const { data: cashAdvances = [] } = useQuery({
+    queryKey: ['cashAdvances'],
+    queryFn: getCashAdvances,
+  });
+
+  const { data: customerPayments = [] } = useQuery({
+    queryKey: ['customerPayments'],
+    queryFn: getCustomerPayments,
+  });
+
+  const { data: dailyTotals = [] } = useQuery({
+    queryKey: ['dailyTotals', activeLocationId],
+    queryFn: () => getDailySalesExpenseTotals(activeLocationId),
+  });
+
+  const dayCashAdvances = useMemo(
+    () => cashAdvances.filter(advance => advance.date.slice(0, 10) === dateStr && isInLocation(advance, activeLocationId)),
+    [activeLocationId, cashAdvances, dateStr]
+  );
+
+  const dayCustomerPayments = useMemo(
+    () => customerPayments.filter(payment => payment.date.slice(0, 10) === dateStr && isInLocation(payment, activeLocationId)),
+    [activeLocationId, customerPayments, dateStr]
+  );
+
+  const locationPayouts = useMemo(
+    () => payouts.filter(payout => isInLocation(payout, activeLocationId)),
+    [activeLocationId, payouts]
+  );
+
+  const payoutBalances = useMemo(
+    () => buildPayoutBalances(dailyTotals, netSalesSplits, locationPayouts),
+    [dailyTotals, locationPayouts, netSalesSplits]
+  );
+
+  const daySplit = useMemo(() => getNetSalesSplitForDate(netSalesSplits, dateStr), [dateStr, netSalesSplits]);
+  const allSplitRecipients = useMemo(() => getAllSplitRecipients(netSalesSplits), [netSalesSplits]);
+
+  useEffect(() => {
+    setIncludeExpenses(daySplit.includeExp);
+  }, [daySplit]);
+
+  const cashDrawerClosedByName = useMemo(() => {
+    if (!cashDrawerClose) return null;
+    return users.find(u => u.id === cashDrawerClose.closedBy)?.name ?? 'Unknown user';
+  }, [cashDrawerClose, users]);
+
+  const activeProducts = useMemo(() => products.filter(product => product.active), [products]);
+
+  const filteredExpenses = useMemo(() => {
+    if (expenseCategoryFilter === ALL_EXPENSE_CATEGORIES) return expenses;
+    const knownIds = new Set(expenseCategories.map(category => category.id));
+    return expenses.filter(expense => {
+      const categoryId = expense.categoryId && knownIds.has(expense.categoryId) ? expense.categoryId : UNCATEGORIZED_FILTER;
+      return categoryId === expenseCategoryFilter;
+    });
+  }, [expenseCategories, expenseCategoryFilter, expenses]);
+
+  const saleItemsTotal = useMemo(() => {
+    return saleItems.reduce((sum, item) => sum + (typeof item.lineTotal === 'number' ? item.lineTotal : 0), 0);
+  }, [saleItems]);
+
+  const isSaleTotalLocked = saleItemsTotal > 0;
+
+  useEffect(() => {
+    if (saleItemsTotal > 0) {
+      setSaleTotal(saleItemsTotal.toFixed(2));
+    }
+  }, [saleItemsTotal]);
+
+  const saleGrossAmount = isSaleTotalLocked ? Number(saleItemsTotal.toFixed(2)) : parseFloat(saleTotal) || 0;
+  const saleDiscountAmount = calculateSaleDiscount(saleGrossAmount, saleDiscountType, parseFloat(saleDiscountValue) || 0);
+  const saleNetAmount = Number((saleGrossAmount - saleDiscountAmount).toFixed(2));
+
+  const totalSales = sales.reduce((sum, s) => sum + getSaleNetTotal(s), 0);
+  const salesByPaymentMethod = useMemo(() => getSalesTotalsByPaymentMethod(sales), [sales]);
+  const discountsByType = useMemo(() => getSaleDiscountTotalsByType(sales), [sales]);
+  const totalDiscounts = SALE_DISCOUNT_TYPES.reduce((sum, type) => sum + discountsByType[type].amount, 0);
   const totalExpenses = expenses.reduce((sum, e) => sum + e.total, 0);
 
   const netSales = totalSales - totalExpenses;
+  const dailyTarget = getSalesTargetForDate(salesTargets, dateStr, activeLocationId);
+  const canEditSalesTargets = !!user && SALES_TARGET_EDITOR_ROLES.includes(user.role);
+  const canManagePayouts = !!user && PAYOUT_MANAGER_ROLES.includes(user.role);
   const splitBase = includeExpenses ? netSales : totalSales;
   const isNegativeNet = splitBase < 0;
   const splitAmounts = calculateNetSalesSplitAmounts(totalSales, totalExpenses, {
-    operation: operationManagerPercent,
-    general: generalManagerPercent,
-    foodCart: foodCartPercent,
+    recipients: daySplit.recipients,
     includeExp: includeExpenses,
   });
-  const operationManagerAmount = splitAmounts.operation;
-  const generalManagerAmount = splitAmounts.general;
-  const foodCartAmount = splitAmounts.foodCart;
-  const currentSplitTotal = tempOperationPercent + tempGeneralPercent + tempFoodCartPercent;
+  const currentSplitTotal = getSplitRecipientsTotal(tempRecipients);
+  const splitError = getSplitRecipientsError(tempRecipients);
 
   const saveSplitPercentages = async () => {
     try {
-      const totalPercent = tempOperationPercent + tempGeneralPercent + tempFoodCartPercent;
-      if (totalPercent !== 100) {
-        Alert.alert('Total must equal 100%', 'Total must equal 100%');
+      if (splitError) {
+        Alert.alert('Invalid split', splitError);
         return;
       }
-      await AsyncStorage.setItem('netSalesSplit', JSON.stringify({
-        operation: tempOperationPercent,
-        general: tempGeneralPercent,
-        foodCart: tempFoodCartPercent,
-        includeExp: includeExpenses,
-      }));
-      setOperationManagerPercent(tempOperationPercent);
-      setGeneralManagerPercent(tempGeneralPercent);
-      setFoodCartPercent(tempFoodCartPercent);
+      await saveNetSalesSplit(
+        {
+          recipients: tempRecipients.map(recipient => ({ ...recipient, name: recipient.name.trim() })),
+          includeExp: includeExpenses,
+        },
+        splitEffectiveDate,
+        user?.id ?? null
+      );
+      queryClient.invalidateQueries({ queryKey: ['netSalesSplits'] });
+      await checkPendingCount();
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setShowSplitModal(false);
     } catch (error) {
@@ -163,45 +316,58 @@ export default function SalesScreen() {
     }
   };
 
-  const adjustPercentage = (type: 'operation' | 'general' | 'foodCart', delta: number) => {
-    const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
-    const applyValue = (setter: (value: number) => void, current: number) => {
-      const nextValue = clamp(current + delta, 0, 100);
-      if (nextValue === current) {
-        Haptics.selectionAsync();
-        return;
-      }
-      setter(nextValue);
-      Haptics.selectionAsync();
-    };
+  const adjustPercentage = (recipientId: string, delta: number) => {
+    setTempRecipients(prev => prev.map(recipient => {
+      if (recipient.id !== recipientId) return recipient;
+      return { ...recipient, percent: Math.max(0, Math.min(100, recipient.percent + delta)) };
+    }));
+    Haptics.selectionAsync();
+  };
 
-    if (type === 'operation') {
-      applyValue(setTempOperationPercent, tempOperationPercent);
-      return;
-    }
+  const renameRecipient = (recipientId: string, name: string) => {
+    setTempRecipients(prev => prev.map(recipient => (recipient.id === recipientId ? { ...recipient, name } : recipient)));
+  };
 
-    if (type === 'general') {
-      applyValue(setTempGeneralPercent, tempGeneralPercent);
-      return;
-    }
+  const addRecipient = () => {
+    setTempRecipients(prev => {
+      const usedColors = new Set(prev.map(recipient => recipient.color));
+      const color = SPLIT_RECIPIENT_COLORS.find(candidate => !usedColors.has(candidate))
+        ?? SPLIT_RECIPIENT_COLORS[prev.length % SPLIT_RECIPIENT_COLORS.length];
+      return [...prev, { id: generateId(), name: '', percent: 0, color }];
+    });
+    Haptics.selectionAsync();
+  };
 
-    applyValue(setTempFoodCartPercent, tempFoodCartPercent);
-    return;
+  const removeRecipient = (recipientId: string) => {
+    setTempRecipients(prev => prev.filter(recipient => recipient.id !== recipientId));
+    Haptics.selectionAsync();
   };
 
   const openSplitModal = () => {
-    setTempOperationPercent(operationManagerPercent);
-    setTempGeneralPercent(generalManagerPercent);
-    setTempFoodCartPercent(foodCartPercent);
+    setTempRecipients(daySplit.recipients);
+    setSplitEffectiveDate(formatLocalDate(new Date()));
     setShowSplitModal(true);
   };
 
   const createSaleMutation = useMutation({
-    mutationFn: (data: { name: string; total: number; items: string[] }) => 
-      createSale({ ...data, date: dateStr, createdBy: user?.id || '' }),
+    mutationFn: async (data: { name: string; total: number; items: SaleItem[]; paymentMethod: PaymentMethod } & Pick<Sale, 'customerId' | 'grossAmount' | 'discountType' | 'discountValue' | 'discountAmount'>) => {
+      const coordinates = settings.tagSalesWithGps ? await captureSaleCoordinates() : null;
+      return createSale({
+        ...data,
+        date: dateStr,
+        locationId: activeLocationId,
+        latitude: coordinates?.latitude ?? null,
+        longitude: coordinates?.longitude ?? null,
+        createdBy: user?.id || '',
+      });
+    },
     onSuccess: async () => {
       queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+      queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+      queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
       queryClient.invalidateQueries({ queryKey: ['weeklySalesTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
       if (user) {
         await createActivity({
           type: 'sale_add',
@@ -216,11 +382,12 @@ export default function SalesScreen() {
   });
 
   const createExpenseMutation = useMutation({
-    mutationFn: (data: { name: string; total: number; items: ExpenseItem[] }) => 
-      createExpense({ ...data, date: dateStr, createdBy: user?.id || '' }),
+    mutationFn: (data: { name: string; total: number; items: ExpenseItem[]; categoryId: string | null; supplierId: string | null; receipts: ExpenseReceipt[] }) => 
+      createExpense({ ...data, date: dateStr, locationId: activeLocationId, createdBy: user?.id || '' }),
     onSuccess: async () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
       queryClient.invalidateQueries({ queryKey: ['weeklyExpenseTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
       if (user) {
         await createActivity({
           type: 'expense_add',
@@ -234,6 +401,108 @@ export default function SalesScreen() {
     },
   });
 
+  const saveCashDrawerCloseMutation = useMutation({
+    mutationFn: async (data: { openingFloat: number; countedCash: number; notes: string | null }) => {
+      const totals = calculateCashDrawerTotals(data.openingFloat, sales, expenses, dayCashAdvances, dayCustomerPayments);
+      const close = {
+        ...data,
+        ...totals,
+        date: dateStr,
+        locationId: activeLocationId,
+        overShort: calculateOverShort(data.countedCash, totals.expectedCash),
+        closedBy: user?.id || '',
+      };
+      if (cashDrawerClose) {
+        await updateCashDrawerClose({ ...cashDrawerClose, ...close });
+        return;
+      }
+      await createCashDrawerClose(close);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['cashDrawerCloses'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const updateSaleMutation = useMutation({
+    mutationFn: ({ sale, ...data }: { sale: Sale; name: string; total: number; items: SaleItem[]; paymentMethod: PaymentMethod } & Pick<Sale, 'customerId' | 'grossAmount' | 'discountType' | 'discountValue' | 'discountAmount'>) =>
+      updateSale({ ...sale, ...data }),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+      queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+      queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySalesTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['monthlyTotals'] });
+      if (user) {
+        await createActivity({
+          type: 'sale_update',
+          description: 'Sale updated',
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const adjustSaleMutation = useMutation({
+    mutationFn: (data: { sale: Sale; type: SaleAdjustmentType; amount: number; reason: SaleAdjustmentReason; note: string | null; approvedBy: string }) =>
+      recordSaleAdjustment(data.sale, data),
+    onSuccess: async (sale) => {
+      queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklySalesTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['monthlyTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+      queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+      if (user) {
+        await createActivity({
+          type: 'sale_void',
+          description: `Sale ${sale.adjustmentType === 'refund' ? 'refunded' : 'voided'}`,
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const updateExpenseMutation = useMutation({
+    mutationFn: (data: { expense: Expense; name: string; total: number; items: ExpenseItem[]; categoryId: string | null; supplierId: string | null; receipts: ExpenseReceipt[] }) =>
+      updateExpense({
+        ...data.expense,
+        name: data.name,
+        total: data.total,
+        items: data.items,
+        categoryId: data.categoryId,
+        supplierId: data.supplierId,
+        receipts: data.receipts,
+      }),
+    onSuccess: async (_result, data) => {
+      const keptReceiptIds = new Set(data.receipts.map(receipt => receipt.id));
+      await deleteReceiptImages((data.expense.receipts ?? []).filter(receipt => !keptReceiptIds.has(receipt.id)));
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['weeklyExpenseTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
+      queryClient.invalidateQueries({ queryKey: ['monthlyTotals'] });
+      if (user) {
+        await createActivity({
+          type: 'expense_update',
+          description: 'Expense updated',
+          userId: user.id,
+        });
+        queryClient.invalidateQueries({ queryKey: ['activities'] });
+      }
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
   const deleteSaleMutation = useMutation({
     mutationFn: async (sale: Sale) => {
       await queueDeletion('sales', sale.id, {
@@ -245,6 +514,10 @@ export default function SalesScreen() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+      queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+      queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -256,10 +529,27 @@ export default function SalesScreen() {
         amount: expense.total,
         date: expense.date,
       });
-      return deleteExpense(expense.id);
+      await deleteExpense(expense.id);
+      await deleteReceiptImages(expense.receipts);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deletePayoutMutation = useMutation({
+    mutationFn: async (payout: Payout) => {
+      await queueDeletion('payouts', payout.id, {
+        name: `Payout · ${getSplitRecipientName(allSplitRecipients, payout.recipient)}`,
+        amount: payout.amount,
+        date: payout.date,
+      });
+      await deletePayout(payout.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payouts'] });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -272,31 +562,124 @@ export default function SalesScreen() {
 
   const handleAddSale = async () => {
     if (!saleTotal) return;
-    await createSaleMutation.mutateAsync({
+    if (salePaymentMethod === 'credit' && !saleCustomerId) {
+      Alert.alert('Choose a customer', 'Credit sales need a customer so the balance can be tracked.');
+      return;
+    }
+    const hasDiscount = !!saleDiscountType && saleDiscountAmount > 0;
+    const payload = {
       name: saleName.trim(),
-      total: parseFloat(saleTotal),
+      total: saleNetAmount,
       items: saleItems,
-    });
+      paymentMethod: salePaymentMethod,
+      customerId: salePaymentMethod === 'credit' ? saleCustomerId : null,
+      grossAmount: hasDiscount ? saleGrossAmount : null,
+      discountType: hasDiscount ? saleDiscountType : null,
+      discountValue: hasDiscount && saleDiscountType !== 'senior_pwd' ? parseFloat(saleDiscountValue) || 0 : null,
+      discountAmount: hasDiscount ? saleDiscountAmount : null,
+    };
+    if (editingSale) {
+      await updateSaleMutation.mutateAsync({ sale: editingSale, ...payload });
+    } else {
+      await createSaleMutation.mutateAsync(payload);
+    }
     resetSaleForm();
     setShowSaleModal(false);
   };
 
-  const handleSubmitExpense = useCallback(async (payload: { name: string; total: number; items: ExpenseItem[] }) => {
+  const handleSubmitExpense = useCallback(async (payload: { name: string; total: number; items: ExpenseItem[]; categoryId: string | null; supplierId: string | null; receipts: ExpenseReceipt[] }) => {
+    if (editingExpense) {
+      await updateExpenseMutation.mutateAsync({ expense: editingExpense, ...payload });
+      return;
+    }
     await createExpenseMutation.mutateAsync(payload);
-  }, [createExpenseMutation]);
+  }, [createExpenseMutation, editingExpense, updateExpenseMutation]);
+
+  const handleSubmitCashDrawerClose = async (payload: { openingFloat: number; countedCash: number; notes: string | null }) => {
+    await saveCashDrawerCloseMutation.mutateAsync(payload);
+    setShowCashDrawerModal(false);
+  };
+
+  const handleCloseExpenseModal = useCallback(() => {
+    setShowExpenseModal(false);
+    setEditingExpense(null);
+  }, []);
 
   const resetSaleForm = () => {
     setSaleName('');
+    setSalePaymentMethod('cash');
+    setSaleCustomerId(null);
     setSaleTotal('');
+    setSaleDiscountType(null);
+    setSaleDiscountValue('');
     setSaleItems([]);
     setSaleItemInput('');
+    setSaleItemPriceInput('');
+    setEditingSale(null);
+  };
+
+  const handleEditSale = (sale: Sale) => {
+    setEditingSale(sale);
+    setSaleName(sale.name ?? '');
+    setSalePaymentMethod(normalizePaymentMethod(sale.paymentMethod));
+    setSaleCustomerId(sale.customerId ?? null);
+    setSaleTotal((sale.grossAmount ?? sale.total).toFixed(2));
+    setSaleDiscountType(sale.discountType ?? null);
+    setSaleDiscountValue(typeof sale.discountValue === 'number' ? String(sale.discountValue) : '');
+    setSaleItems(Array.isArray(sale.items) ? sale.items : []);
+    setSaleItemInput('');
+    setSaleItemPriceInput('');
+    setShowSaleModal(true);
+  };
+
+  const handleEditExpense = (expense: Expense) => {
+    setEditingExpense(expense);
+    setShowExpenseModal(true);
   };
 
   const addSaleItem = () => {
     const trimmed = saleItemInput.trim();
     if (!trimmed) return;
-    setSaleItems(prev => [...prev, trimmed]);
+    const parsedPrice = saleItemPriceInput.trim() ? Number.parseFloat(saleItemPriceInput) : null;
+    const unitPrice = parsedPrice !== null && !Number.isNaN(parsedPrice) ? parsedPrice : null;
+    setSaleItems(prev => [
+      ...prev,
+      { id: generateId(), name: trimmed, quantity: 1, unitPrice, lineTotal: unitPrice, productId: null },
+    ]);
     setSaleItemInput('');
+    setSaleItemPriceInput('');
+  };
+
+  const addProductToSale = (product: Product) => {
+    setSaleItems(prev => {
+      const existing = prev.find(item => item.productId === product.id);
+      if (existing) {
+        return prev.map(item => item.id === existing.id
+          ? { ...item, quantity: item.quantity + 1, lineTotal: Number((product.price * (item.quantity + 1)).toFixed(2)) }
+          : item);
+      }
+      return [
+        ...prev,
+        { id: generateId(), name: product.name, quantity: 1, unitPrice: product.price, lineTotal: product.price, productId: product.id },
+      ];
+    });
+    Haptics.selectionAsync();
+  };
+
+  const changeSaleItemQuantity = (id: string, delta: number) => {
+    setSaleItems(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const quantity = Math.max(1, item.quantity + delta);
+      const lineTotal = typeof item.unitPrice === 'number' ? Number((item.unitPrice * quantity).toFixed(2)) : null;
+      return { ...item, quantity, lineTotal };
+    }));
+    Haptics.selectionAsync();
+  };
+
+  const handleSubmitSaleAdjustment = async (payload: { type: SaleAdjustmentType; amount: number; reason: SaleAdjustmentReason; note: string | null; approvedBy: string }) => {
+    if (!adjustingSale) return;
+    await adjustSaleMutation.mutateAsync({ sale: adjustingSale, ...payload });
+    setAdjustingSale(null);
   };
 
   const handleDeleteSale = (sale: Sale) => {
@@ -325,6 +708,20 @@ export default function SalesScreen() {
     }
   };
 
+  const handleDeletePayout = (payout: Payout) => {
+    const message = `Delete the ${formatCurrency(payout.amount)} payout to ${getSplitRecipientName(allSplitRecipients, payout.recipient)}?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deletePayoutMutation.mutate(payout);
+      }
+    } else {
+      Alert.alert('Delete Payout', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deletePayoutMutation.mutate(payout) },
+      ]);
+    }
+  };
+
   const handleCalendarConfirm = (date: Date) => {
     setSelectedDate(date);
     setShowCalendar(false);
@@ -414,6 +811,18 @@ export default function SalesScreen() {
                 </View>
               )}
             </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.calendarButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => setShowSpotsModal(true)}
+            >
+              <MapPin color={theme.primary} size={20} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.calendarButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+              onPress={() => setShowProductCatalog(true)}
+            >
+              <UtensilsCrossed color={theme.primary} size={20} />
+            </TouchableOpacity>
             <TouchableOpacity
               style={[styles.calendarButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
               onPress={() => setShowCalendar(true)}
@@ -427,24 +836,41 @@ export default function SalesScreen() {
           <Text style={[styles.selectedDate, { color: theme.text }]}>
             {formatDate(selectedDate)}
           </Text>
+
+          <View style={styles.locationSwitcher}>
+            <LocationSwitcher
+              theme={theme}
+              locations={locations}
+              activeLocationId={activeLocationId}
+              allowAllLocations={canViewAllLocations(user?.role)}
+              onSelect={selectedLocationId => updateSettings({ selectedLocationId })}
+            />
+          </View>
           
           <View style={styles.actionButtons}>
             <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.success }]}
+              style={[styles.actionButton, { backgroundColor: theme.success, opacity: isAllLocationsView ? 0.5 : 1 }]}
               onPress={() => setShowSaleModal(true)}
+              disabled={isAllLocationsView}
             >
               <Plus color="#fff" size={18} />
               <Text style={styles.actionButtonText}>Add New Sale</Text>
             </TouchableOpacity>
             
             <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.error }]}
+              style={[styles.actionButton, { backgroundColor: theme.error, opacity: isAllLocationsView ? 0.5 : 1 }]}
               onPress={() => setShowExpenseModal(true)}
+              disabled={isAllLocationsView}
             >
               <Plus color="#fff" size={18} />
               <Text style={styles.actionButtonText}>Add New Expense</Text>
             </TouchableOpacity>
           </View>
+          {isAllLocationsView && (
+            <Text style={[styles.locationHint, { color: theme.textMuted }]}>
+              Select a single location to add sales, expenses or close the drawer.
+            </Text>
+          )}
         </View>
 
         <ScrollView
@@ -460,6 +886,35 @@ export default function SalesScreen() {
               <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Total Sales</Text>
               <Text style={[styles.summaryValue, { color: theme.success }]}>{formatCurrency(totalSales)}</Text>
             </View>
+            {totalSales > 0 && (
+              <View style={styles.paymentTotalsRow}>
+                {PAYMENT_METHODS.filter(method => salesByPaymentMethod[method] !== 0).map(method => (
+                  <View key={method} style={[styles.paymentTotalPill, { backgroundColor: theme.success + '15' }]}>
+                    <Text style={[styles.paymentTotalLabel, { color: theme.textSecondary }]}>{PAYMENT_METHOD_LABELS[method]}</Text>
+                    <Text style={[styles.paymentTotalValue, { color: theme.success }]}>{formatCurrency(salesByPaymentMethod[method])}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {totalDiscounts > 0 && (
+              <>
+                <View style={[styles.summaryDivider, { backgroundColor: theme.divider }]} />
+                <View style={styles.summaryRow}>
+                  <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Discounts Given</Text>
+                  <Text style={[styles.summaryValue, { color: theme.warning }]}>{formatCurrency(totalDiscounts)}</Text>
+                </View>
+                <View style={styles.paymentTotalsRow}>
+                  {SALE_DISCOUNT_TYPES.filter(type => discountsByType[type].count > 0).map(type => (
+                    <View key={type} style={[styles.paymentTotalPill, { backgroundColor: theme.warning + '15' }]}>
+                      <Text style={[styles.paymentTotalLabel, { color: theme.textSecondary }]}>
+                        {SALE_DISCOUNT_TYPE_LABELS[type]} ({discountsByType[type].count})
+                      </Text>
+                      <Text style={[styles.paymentTotalValue, { color: theme.warning }]}>{formatCurrency(discountsByType[type].amount)}</Text>
+                    </View>
+                  ))}
+                </View>
+              </>
+            )}
             <View style={[styles.summaryDivider, { backgroundColor: theme.divider }]} />
             <View style={styles.summaryRow}>
               <Text style={[styles.summaryLabel, { color: theme.textSecondary }]}>Total Expenses</Text>
@@ -474,6 +929,103 @@ export default function SalesScreen() {
             </View>
           </View>
 
+          <View style={[styles.drawerCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <View style={styles.splitHeader}>
+              <View style={styles.splitTitleRow}>
+                <Target color={theme.primary} size={20} />
+                <Text style={[styles.splitTitle, { color: theme.text }]}>Daily Target</Text>
+              </View>
+              {canEditSalesTargets && (
+                <TouchableOpacity
+                  style={[styles.adjustButton, { backgroundColor: theme.primary + '20', opacity: isAllLocationsView ? 0.5 : 1 }]}
+                  onPress={() => setShowSalesTargets(true)}
+                  disabled={isAllLocationsView}
+                >
+                  <Text style={[styles.adjustButtonText, { color: theme.primary }]}>Set Targets</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {dailyTarget > 0 ? (
+              <View style={styles.targetBody}>
+                <SalesTargetRing theme={theme} actual={totalSales} target={dailyTarget} />
+                <View style={styles.targetDetails}>
+                  <View style={styles.drawerRow}>
+                    <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>Target</Text>
+                    <Text style={[styles.drawerValue, { color: theme.text }]}>{formatCurrency(dailyTarget)}</Text>
+                  </View>
+                  <View style={styles.drawerRow}>
+                    <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>Sales</Text>
+                    <Text style={[styles.drawerValue, { color: theme.success }]}>{formatCurrency(totalSales)}</Text>
+                  </View>
+                  <Text style={[styles.drawerMeta, { color: totalSales >= dailyTarget ? theme.success : theme.textMuted }]}>
+                    {totalSales >= dailyTarget
+                      ? `Target hit by ${formatCurrency(totalSales - dailyTarget)}`
+                      : `${formatCurrency(dailyTarget - totalSales)} to go`}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <Text style={[styles.drawerMeta, { color: theme.textMuted }]}>
+                {isAllLocationsView ? 'No location has a target for this day.' : 'No target set for this day.'}
+              </Text>
+            )}
+          </View>
+
+          <View style={[styles.drawerCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <View style={styles.splitHeader}>
+              <View style={styles.splitTitleRow}>
+                <Wallet color={theme.primary} size={20} />
+                <Text style={[styles.splitTitle, { color: theme.text }]}>Cash Drawer</Text>
+              </View>
+              <TouchableOpacity
+                style={[styles.adjustButton, { backgroundColor: theme.primary + '20', opacity: isAllLocationsView ? 0.5 : 1 }]}
+                onPress={() => setShowCashDrawerModal(true)}
+                disabled={isAllLocationsView}
+              >
+                <Text style={[styles.adjustButtonText, { color: theme.primary }]}>
+                  {cashDrawerClose ? 'Update' : 'Close Drawer'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            {cashDrawerClose ? (
+              <>
+                <View style={styles.drawerRow}>
+                  <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>Opening Float</Text>
+                  <Text style={[styles.drawerValue, { color: theme.text }]}>{formatCurrency(cashDrawerClose.openingFloat)}</Text>
+                </View>
+                <View style={styles.drawerRow}>
+                  <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>Expected Cash</Text>
+                  <Text style={[styles.drawerValue, { color: theme.text }]}>{formatCurrency(cashDrawerClose.expectedCash)}</Text>
+                </View>
+                <View style={styles.drawerRow}>
+                  <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>Counted Cash</Text>
+                  <Text style={[styles.drawerValue, { color: theme.text }]}>{formatCurrency(cashDrawerClose.countedCash)}</Text>
+                </View>
+                <View style={styles.drawerRow}>
+                  <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>{formatOverShortLabel(cashDrawerClose.overShort)}</Text>
+                  <Text
+                    style={[
+                      styles.drawerValue,
+                      { color: cashDrawerClose.overShort === 0 ? theme.text : cashDrawerClose.overShort > 0 ? theme.success : theme.error },
+                    ]}
+                  >
+                    {formatCurrency(cashDrawerClose.overShort)}
+                  </Text>
+                </View>
+                <Text style={[styles.drawerMeta, { color: theme.textMuted }]}>
+                  Closed by {cashDrawerClosedByName} · {new Date(cashDrawerClose.updatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </Text>
+                {cashDrawerClose.notes ? (
+                  <Text style={[styles.drawerMeta, { color: theme.textSecondary }]}>{cashDrawerClose.notes}</Text>
+                ) : null}
+              </>
+            ) : (
+              <Text style={[styles.drawerMeta, { color: theme.textMuted }]}>
+                {isAllLocationsView ? 'Drawer closes are tracked per location.' : 'The drawer has not been closed for this date.'}
+              </Text>
+            )}
+          </View>
+
           {/* Net Sales Split Section */}
           <View style={[styles.splitCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
             <View style={styles.splitHeader}>
@@ -514,48 +1066,103 @@ export default function SalesScreen() {
             )}
 
             <View style={styles.splitItems}>
-              <View style={styles.splitItem}>
-                <View style={styles.splitItemLeft}>
-                  <View style={[styles.splitDot, { backgroundColor: '#4CAF50' }]} />
-                  <Text style={[styles.splitItemLabel, { color: theme.textSecondary }]}>Operation Manager</Text>
-                </View>
-                <View style={styles.splitItemRight}>
-                  <Text style={[styles.splitPercent, { color: theme.textMuted }]}>{operationManagerPercent}%</Text>
-                  <Text style={[styles.splitAmount, { color: theme.text }]}>{formatCurrency(operationManagerAmount)}</Text>
-                </View>
-              </View>
-
-              <View style={styles.splitItem}>
-                <View style={styles.splitItemLeft}>
-                  <View style={[styles.splitDot, { backgroundColor: '#2196F3' }]} />
-                  <Text style={[styles.splitItemLabel, { color: theme.textSecondary }]}>{ROLE_DISPLAY_NAMES.general_manager}</Text>
-                </View>
-                <View style={styles.splitItemRight}>
-                  <Text style={[styles.splitPercent, { color: theme.textMuted }]}>{generalManagerPercent}%</Text>
-                  <Text style={[styles.splitAmount, { color: theme.text }]}>{formatCurrency(generalManagerAmount)}</Text>
-                </View>
-              </View>
-
-              <View style={styles.splitItem}>
-                <View style={styles.splitItemLeft}>
-                  <View style={[styles.splitDot, { backgroundColor: '#FF9800' }]} />
-                  <Text style={[styles.splitItemLabel, { color: theme.textSecondary }]}>Food Cart</Text>
-                </View>
-                <View style={styles.splitItemRight}>
-                  <Text style={[styles.splitPercent, { color: theme.textMuted }]}>{foodCartPercent}%</Text>
-                  <Text style={[styles.splitAmount, { color: theme.text }]}>{formatCurrency(foodCartAmount)}</Text>
+              {daySplit.recipients.map(recipient => (
+                <View key={recipient.id} style={styles.splitItem}>
+                  <View style={styles.splitItemLeft}>
+                    <View style={[styles.splitDot, { backgroundColor: recipient.color }]} />
+                    <Text style={[styles.splitItemLabel, { color: theme.textSecondary }]}>{recipient.name}</Text>
+                  </View>
+                  <View style={styles.splitItemRight}>
+                    <Text style={[styles.splitPercent, { color: theme.textMuted }]}>{recipient.percent}%</Text>
+                    <Text style={[styles.splitAmount, { color: theme.text }]}>
+                      {formatCurrency(splitAmounts.byRecipient[recipient.id] ?? 0)}
+                    </Text>
+                  </View>
                 </View>
-              </View>
+              ))}
             </View>
 
             {/* Visual Bar */}
             <View style={styles.splitBarContainer}>
-              <View style={[styles.splitBar, { width: `${operationManagerPercent}%`, backgroundColor: '#4CAF50' }]} />
-              <View style={[styles.splitBar, { width: `${generalManagerPercent}%`, backgroundColor: '#2196F3' }]} />
-              <View style={[styles.splitBar, { width: `${foodCartPercent}%`, backgroundColor: '#FF9800' }]} />
+              {daySplit.recipients.map(recipient => (
+                <View key={recipient.id} style={[styles.splitBar, { width: `${recipient.percent}%`, backgroundColor: recipient.color }]} />
+              ))}
             </View>
           </View>
 
+          <View style={[styles.drawerCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
+            <View style={styles.splitHeader}>
+              <View style={styles.splitTitleRow}>
+                <HandCoins color={theme.primary} size={20} />
+                <Text style={[styles.splitTitle, { color: theme.text }]}>Payouts</Text>
+              </View>
+              {canManagePayouts && (
+                <TouchableOpacity
+                  style={[styles.adjustButton, { backgroundColor: theme.primary + '20', opacity: isAllLocationsView ? 0.5 : 1 }]}
+                  onPress={() => setShowPayoutModal(true)}
+                  disabled={isAllLocationsView}
+                >
+                  <Text style={[styles.adjustButtonText, { color: theme.primary }]}>Record</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {payoutBalances.map(balance => (
+              <View key={balance.recipient.id} style={styles.payoutRow}>
+                <View style={styles.payoutInfo}>
+                  <Text style={[styles.drawerLabel, { color: theme.textSecondary }]}>{balance.recipient.name}</Text>
+                  <Text style={[styles.payoutMeta, { color: theme.textMuted }]}>
+                    Owed {formatCurrency(balance.owed)} · Paid {formatCurrency(balance.paid)}
+                  </Text>
+                </View>
+                <Text style={[styles.drawerValue, { color: balance.balance > 0.005 ? theme.warning : theme.success }]}>
+                  {balance.balance < -0.005 ? `${formatCurrency(-balance.balance)} over` : formatCurrency(Math.max(0, balance.balance))}
+                </Text>
+              </View>
+            ))}
+            <Text style={[styles.drawerMeta, { color: theme.textMuted }]}>
+              Balances cover every recorded day, each split by the percentages in effect that day.
+            </Text>
+
+            {locationPayouts.length > 0 && (
+              <>
+                <Text style={[styles.payoutHistoryTitle, { color: theme.text }]}>Recent Payouts</Text>
+                {locationPayouts.slice(0, 5).map(payout => {
+                  const recipientName = payout.recipientUserId
+                    ? users.find(candidate => candidate.id === payout.recipientUserId)?.name
+                    : null;
+                  return (
+                    <View key={payout.id} style={styles.payoutRow}>
+                      <View style={styles.payoutInfo}>
+                        <Text style={[styles.splitHistoryDate, { color: theme.text }]}>
+                          {getSplitRecipientName(allSplitRecipients, payout.recipient)}{recipientName ? ` · ${recipientName}` : ''}
+                        </Text>
+                        <Text style={[styles.payoutMeta, { color: theme.textMuted }]}>
+                          {formatShortDate(parseLocalDateString(payout.date))} · covers {formatShortDate(parseLocalDateString(payout.periodStart))} – {formatShortDate(parseLocalDateString(payout.periodEnd))}
+                          {payout.advanceDeduction ? ` · ${formatCurrency(payout.advanceDeduction)} to advances` : ''}
+                          {payout.notes ? ` · ${payout.notes}` : ''}
+                        </Text>
+                      </View>
+                      <Text style={[styles.drawerValue, { color: theme.text }]}>{formatCurrency(payout.amount)}</Text>
+                      {canManagePayouts && (
+                        <TouchableOpacity
+                          style={[styles.payoutDeleteButton, { backgroundColor: theme.error + '20' }]}
+                          onPress={() => handleDeletePayout(payout)}
+                        >
+                          <Trash2 color={theme.error} size={14} />
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  );
+                })}
+                {locationPayouts.length > 5 && (
+                  <Text style={[styles.drawerMeta, { color: theme.textMuted }]}>
+                    {locationPayouts.length - 5} earlier payouts are listed in the PDF summary.
+                  </Text>
+                )}
+              </>
+            )}
+          </View>
+
           <Text style={[styles.sectionTitle, { color: theme.text }]}>Sales ({sales.length})</Text>
           {sales.map(sale => {
             const saleNameLabel = sale.name?.trim() ? sale.name : 'Sale';
@@ -564,23 +1171,67 @@ export default function SalesScreen() {
               <View key={sale.id} style={[styles.itemCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
                 <View style={styles.itemInfo}>
                   <Text style={[styles.itemName, { color: theme.text }]}>{saleNameLabel}</Text>
+                  <Text style={[styles.itemCategoryText, { color: theme.textMuted }]}>
+                    {PAYMENT_METHOD_LABELS[normalizePaymentMethod(sale.paymentMethod)]}
+                    {sale.customerId ? ` · ${customers.find(customer => customer.id === sale.customerId)?.name ?? 'Unknown customer'}` : ''}
+                  </Text>
+                  {sale.discountType && sale.discountAmount ? (
+                    <Text style={[styles.itemCategoryText, { color: theme.warning }]}>
+                      {SALE_DISCOUNT_TYPE_LABELS[sale.discountType]} discount −{formatCurrency(sale.discountAmount)} (gross {formatCurrency(sale.grossAmount ?? sale.total + sale.discountAmount)})
+                    </Text>
+                  ) : null}
                   {saleItemsList.length > 0 && (
                     <View style={styles.itemList}>
-                      {saleItemsList.map((item, index) => (
-                        <Text key={`${sale.id}-item-${index}`} style={[styles.itemListText, { color: theme.textSecondary }]}>
-                          • {item}
+                      {saleItemsList.map(item => (
+                        <Text key={item.id} style={[styles.itemListText, { color: theme.textSecondary }]}>
+                          • {item.quantity}x {item.name}{typeof item.lineTotal === 'number' ? ` (${formatCurrency(item.lineTotal)})` : ''}
                         </Text>
                       ))}
                     </View>
                   )}
-                  <Text style={[styles.itemAmount, { color: theme.success }]}>{formatCurrency(sale.total)}</Text>
+                  {isSaleAdjusted(sale) ? (
+                    <>
+                      <Text style={[styles.itemCategoryText, { color: theme.error }]}>
+                        {SALE_ADJUSTMENT_TYPE_LABELS[sale.adjustmentType!]}
+                        {sale.adjustmentReason ? ` · ${SALE_ADJUSTMENT_REASON_LABELS[sale.adjustmentReason]}` : ''}
+                        {` · approved by ${users.find(u => u.id === sale.adjustmentApprovedBy)?.name ?? 'Unknown user'}`}
+                      </Text>
+                      {sale.adjustmentNote ? (
+                        <Text style={[styles.itemCategoryText, { color: theme.textMuted }]}>{sale.adjustmentNote}</Text>
+                      ) : null}
+                      <View style={styles.adjustedAmountRow}>
+                        <Text style={[styles.originalAmount, { color: theme.textMuted }]}>{formatCurrency(sale.total)}</Text>
+                        <Text style={[styles.itemAmount, { color: theme.success }]}>{formatCurrency(getSaleNetTotal(sale))}</Text>
+                      </View>
+                    </>
+                  ) : (
+                    <Text style={[styles.itemAmount, { color: theme.success }]}>{formatCurrency(sale.total)}</Text>
+                  )}
+                </View>
+                <View style={styles.itemActions}>
+                  {!isSaleAdjusted(sale) && (
+                    <>
+                      <TouchableOpacity
+                        style={[styles.deleteButton, { backgroundColor: theme.primary + '20' }]}
+                        onPress={() => handleEditSale(sale)}
+                      >
+                        <Pencil color={theme.primary} size={18} />
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.deleteButton, { backgroundColor: theme.warning + '20' }]}
+                        onPress={() => setAdjustingSale(sale)}
+                      >
+                        <Ban color={theme.warning} size={18} />
+                      </TouchableOpacity>
+                    </>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.deleteButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDeleteSale(sale)}
+                  >
+                    <Trash2 color={theme.error} size={18} />
+                  </TouchableOpacity>
                 </View>
-                <TouchableOpacity
-                  style={[styles.deleteButton, { backgroundColor: theme.error + '20' }]}
-                  onPress={() => handleDeleteSale(sale)}
-                >
-                  <Trash2 color={theme.error} size={18} />
-                </TouchableOpacity>
               </View>
             );
           })}
@@ -588,14 +1239,63 @@ export default function SalesScreen() {
             <Text style={[styles.emptyText, { color: theme.textMuted }]}>No sales for this date</Text>
           )}
 
-          <Text style={[styles.sectionTitle, { color: theme.text, marginTop: 24 }]}>Expenses ({expenses.length})</Text>
-          {expenses.map(expense => {
+          <View style={styles.sectionHeaderRow}>
+            <Text style={[styles.sectionTitle, styles.sectionHeaderTitle, { color: theme.text }]}>
+              Expenses ({filteredExpenses.length})
+            </Text>
+            <View style={styles.sectionHeaderActions}>
+              <TouchableOpacity
+                style={[styles.sectionHeaderButton, { backgroundColor: theme.card, borderColor: theme.cardBorder, opacity: isAllLocationsView ? 0.5 : 1 }]}
+                onPress={() => setShowRecurringExpenses(true)}
+                disabled={isAllLocationsView}
+              >
+                <Repeat color={theme.primary} size={16} />
+                <Text style={[styles.sectionHeaderButtonText, { color: theme.primary }]}>Recurring</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.sectionHeaderButton, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}
+                onPress={() => setShowExpenseCategories(true)}
+              >
+                <Tags color={theme.primary} size={16} />
+                <Text style={[styles.sectionHeaderButtonText, { color: theme.primary }]}>Categories</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+          {expenses.length > 0 && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterChipRow}>
+              {[
+                { id: ALL_EXPENSE_CATEGORIES, name: 'All' },
+                ...expenseCategories,
+                { id: UNCATEGORIZED_FILTER, name: UNCATEGORIZED_LABEL },
+              ].map(option => {
+                const isSelected = expenseCategoryFilter === option.id;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.filterChip,
+                      { borderColor: isSelected ? theme.error : theme.cardBorder, backgroundColor: isSelected ? theme.error + '15' : theme.card },
+                    ]}
+                    onPress={() => setExpenseCategoryFilter(option.id)}
+                  >
+                    <Text style={[styles.filterChipText, { color: isSelected ? theme.error : theme.textSecondary }]}>{option.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
+          {filteredExpenses.map(expense => {
             const expenseNameLabel = expense.name?.trim() ? expense.name : 'Expense';
             const expenseItemsList = Array.isArray(expense.items) ? expense.items : [];
             return (
               <View key={expense.id} style={[styles.itemCard, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
                 <View style={styles.itemInfo}>
                   <Text style={[styles.itemName, { color: theme.text }]}>{expenseNameLabel}</Text>
+                  <Text style={[styles.itemCategoryText, { color: theme.textMuted }]}>
+                    {getExpenseCategoryName(expense.categoryId, expenseCategories)}
+                    {expense.supplierId ? ` · ${suppliers.find(supplier => supplier.id === expense.supplierId)?.name ?? 'Unknown supplier'}` : ''}
+                    {expense.recurringExpenseId ? ' · Recurring' : ''}
+                  </Text>
                   {expenseItemsList.length > 0 && (
                     <View style={styles.itemList}>
                       {expenseItemsList.map(item => (
@@ -605,20 +1305,50 @@ export default function SalesScreen() {
                       ))}
                     </View>
                   )}
+                  {(expense.receipts ?? []).length > 0 && (
+                    <View style={styles.receiptRow}>
+                      {(expense.receipts ?? []).map(receipt => {
+                        const uri = getReceiptDisplayUri(receipt);
+                        if (!uri) return null;
+                        return (
+                          <TouchableOpacity key={receipt.id} onPress={() => setPreviewReceiptUri(uri)}>
+                            <Image
+                              source={{ uri }}
+                              style={[
+                                styles.receiptThumbnail,
+                                { borderColor: hasPendingReceiptUpload(receipt) ? theme.warning : theme.cardBorder },
+                              ]}
+                            />
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  )}
                   <Text style={[styles.itemAmount, { color: theme.error }]}>{formatCurrency(expense.total)}</Text>
                 </View>
-                <TouchableOpacity
-                  style={[styles.deleteButton, { backgroundColor: theme.error + '20' }]}
-                  onPress={() => handleDeleteExpense(expense)}
-                >
-                  <Trash2 color={theme.error} size={18} />
-                </TouchableOpacity>
+                <View style={styles.itemActions}>
+                  <TouchableOpacity
+                    style={[styles.deleteButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => handleEditExpense(expense)}
+                  >
+                    <Pencil color={theme.primary} size={18} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.deleteButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDeleteExpense(expense)}
+                  >
+                    <Trash2 color={theme.error} size={18} />
+                  </TouchableOpacity>
+                </View>
               </View>
             );
           })}
           {expenses.length === 0 && (
             <Text style={[styles.emptyText, { color: theme.textMuted }]}>No expenses for this date</Text>
           )}
+          {expenses.length > 0 && filteredExpenses.length === 0 && (
+            <Text style={[styles.emptyText, { color: theme.textMuted }]}>No expenses in this category</Text>
+          )}
         </ScrollView>
       </SafeAreaView>
 
@@ -644,7 +1374,7 @@ export default function SalesScreen() {
                 showsVerticalScrollIndicator={false}
               >
                 <View style={styles.modalHeader}>
-                  <Text style={[styles.modalTitle, { color: theme.text }]}>Add New Sale</Text>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>{editingSale ? 'Edit Sale' : 'Add New Sale'}</Text>
                   <TouchableOpacity onPress={() => { setShowSaleModal(false); resetSaleForm(); }}>
                     <X color={theme.textMuted} size={24} />
                   </TouchableOpacity>
@@ -659,16 +1389,135 @@ export default function SalesScreen() {
                     value={saleName}
                     onChangeText={setSaleName}
                   />
+
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Payment Method</Text>
+                  <View style={styles.paymentMethodRow}>
+                    {PAYMENT_METHODS.map(method => {
+                      const isSelected = salePaymentMethod === method;
+                      return (
+                        <TouchableOpacity
+                          key={method}
+                          style={[
+                            styles.paymentMethodChip,
+                            { borderColor: isSelected ? theme.success : theme.cardBorder, backgroundColor: isSelected ? theme.success + '15' : 'transparent' },
+                          ]}
+                          onPress={() => setSalePaymentMethod(method)}
+                        >
+                          <Text style={[styles.paymentMethodChipText, { color: isSelected ? theme.success : theme.textSecondary }]}>
+                            {PAYMENT_METHOD_LABELS[method]}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+
+                  {salePaymentMethod === 'credit' && (
+                    <>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Customer</Text>
+                      {customers.length > 0 ? (
+                        <View style={styles.paymentMethodRow}>
+                          {customers.map(customer => {
+                            const isSelected = saleCustomerId === customer.id;
+                            return (
+                              <TouchableOpacity
+                                key={customer.id}
+                                style={[
+                                  styles.paymentMethodChip,
+                                  { borderColor: isSelected ? theme.warning : theme.cardBorder, backgroundColor: isSelected ? theme.warning + '15' : 'transparent' },
+                                ]}
+                                onPress={() => setSaleCustomerId(customer.id)}
+                              >
+                                <Text style={[styles.paymentMethodChipText, { color: isSelected ? theme.warning : theme.textSecondary }]}>
+                                  {customer.name}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </View>
+                      ) : (
+                        <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                          No customers yet. Add one from Receivables on the Home screen.
+                        </Text>
+                      )}
+                    </>
+                  )}
                   
-                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Total (₱)</Text>
+                  {activeProducts.length > 0 && (
+                    <>
+                      <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Menu</Text>
+                      <View style={styles.productGrid}>
+                        {activeProducts.map(product => (
+                          <TouchableOpacity
+                            key={product.id}
+                            style={[styles.productChip, { backgroundColor: theme.primary + '15', borderColor: theme.primary + '40' }]}
+                            onPress={() => addProductToSale(product)}
+                          >
+                            <Text style={[styles.productChipName, { color: theme.text }]}>{product.name}</Text>
+                            <Text style={[styles.productChipPrice, { color: theme.primary }]}>{formatCurrency(product.price)}</Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      <Text style={[styles.helperText, { color: theme.textMuted }]}>Tap a product to add it to this sale.</Text>
+                    </>
+                  )}
+
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>{saleDiscountType ? 'Gross Total (₱)' : 'Total (₱)'}</Text>
                   <TextInput
-                    style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    style={[
+                      styles.input,
+                      { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text },
+                      isSaleTotalLocked && styles.inputDisabled,
+                    ]}
                     placeholder="0.00"
                     placeholderTextColor={theme.textMuted}
                     value={saleTotal}
                     onChangeText={setSaleTotal}
                     keyboardType="decimal-pad"
+                    editable={!isSaleTotalLocked}
                   />
+                  {isSaleTotalLocked && (
+                    <Text style={[styles.helperText, { color: theme.textMuted }]}>Total calculated from menu items.</Text>
+                  )}
+
+                  <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Discount</Text>
+                  <View style={styles.paymentMethodRow}>
+                    {[null, ...SALE_DISCOUNT_TYPES].map(type => {
+                      const isSelected = saleDiscountType === type;
+                      return (
+                        <TouchableOpacity
+                          key={type ?? 'none'}
+                          style={[
+                            styles.paymentMethodChip,
+                            { borderColor: isSelected ? theme.warning : theme.cardBorder, backgroundColor: isSelected ? theme.warning + '15' : 'transparent' },
+                          ]}
+                          onPress={() => {
+                            setSaleDiscountType(type);
+                            setSaleDiscountValue('');
+                          }}
+                        >
+                          <Text style={[styles.paymentMethodChipText, { color: isSelected ? theme.warning : theme.textSecondary }]}>
+                            {type ? SALE_DISCOUNT_TYPE_LABELS[type] : 'None'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                  {(saleDiscountType === 'percentage' || saleDiscountType === 'fixed') && (
+                    <TextInput
+                      style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder={saleDiscountType === 'percentage' ? 'Discount %' : 'Discount amount (₱)'}
+                      placeholderTextColor={theme.textMuted}
+                      value={saleDiscountValue}
+                      onChangeText={setSaleDiscountValue}
+                      keyboardType="decimal-pad"
+                    />
+                  )}
+                  {saleDiscountType && (
+                    <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                      {saleDiscountType === 'senior_pwd' ? `${SENIOR_PWD_DISCOUNT_PERCENT}% Senior / PWD discount. ` : ''}
+                      Discount {formatCurrency(saleDiscountAmount)} · Net total {formatCurrency(saleNetAmount)}
+                    </Text>
+                  )}
 
                   <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Items (optional)</Text>
                   <View style={styles.itemsInputRow}>
@@ -679,6 +1528,14 @@ export default function SalesScreen() {
                       value={saleItemInput}
                       onChangeText={setSaleItemInput}
                     />
+                    <TextInput
+                      style={[styles.itemsPriceInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="₱0.00"
+                      placeholderTextColor={theme.textMuted}
+                      value={saleItemPriceInput}
+                      onChangeText={setSaleItemPriceInput}
+                      keyboardType="decimal-pad"
+                    />
                     <TouchableOpacity
                       style={[styles.itemsAddButton, { backgroundColor: theme.primary }]}
                       onPress={addSaleItem}
@@ -688,12 +1545,34 @@ export default function SalesScreen() {
                   </View>
                   {saleItems.length > 0 && (
                     <View style={styles.itemsList}>
-                      {saleItems.map((item, index) => (
-                        <View key={`${item}-${index}`} style={[styles.itemsListItem, { borderColor: theme.cardBorder }]}>
-                          <Text style={[styles.itemsListText, { color: theme.text }]}>{item}</Text>
+                      {saleItems.map(item => (
+                        <View key={item.id} style={[styles.itemsListItem, { borderColor: theme.cardBorder }]}>
+                          <View style={styles.itemsListInfo}>
+                            <Text style={[styles.itemsListText, { color: theme.text }]}>{item.name}</Text>
+                            {typeof item.unitPrice === 'number' && (
+                              <Text style={[styles.itemsListMeta, { color: theme.textMuted }]}>
+                                {item.quantity} × {formatCurrency(item.unitPrice)} = {formatCurrency(item.lineTotal ?? 0)}
+                              </Text>
+                            )}
+                          </View>
+                          <View style={styles.quantityControls}>
+                            <TouchableOpacity
+                              style={[styles.quantityButton, { borderColor: theme.cardBorder }]}
+                              onPress={() => changeSaleItemQuantity(item.id, -1)}
+                            >
+                              <Minus color={theme.textSecondary} size={14} />
+                            </TouchableOpacity>
+                            <Text style={[styles.quantityValue, { color: theme.text }]}>{item.quantity}</Text>
+                            <TouchableOpacity
+                              style={[styles.quantityButton, { borderColor: theme.cardBorder }]}
+                              onPress={() => changeSaleItemQuantity(item.id, 1)}
+                            >
+                              <Plus color={theme.textSecondary} size={14} />
+                            </TouchableOpacity>
+                          </View>
                           <TouchableOpacity
                             style={styles.itemsRemoveButton}
-                            onPress={() => setSaleItems(prev => prev.filter((_, i) => i !== index))}
+                            onPress={() => setSaleItems(prev => prev.filter(entry => entry.id !== item.id))}
                           >
                             <X color={theme.textMuted} size={16} />
                           </TouchableOpacity>
@@ -714,7 +1593,7 @@ export default function SalesScreen() {
                     style={[styles.submitButton, { backgroundColor: theme.success }]}
                     onPress={handleAddSale}
                   >
-                    <Text style={styles.submitButtonText}>Add Sale</Text>
+                    <Text style={styles.submitButtonText}>{editingSale ? 'Save Changes' : 'Add Sale'}</Text>
                   </TouchableOpacity>
                 </View>
               </ScrollView>
@@ -723,13 +1602,97 @@ export default function SalesScreen() {
         </View>
       </Modal>
 
+      <SaleAdjustmentModal
+        visible={!!adjustingSale}
+        theme={theme}
+        sale={adjustingSale}
+        currentUser={user}
+        users={users}
+        onClose={() => setAdjustingSale(null)}
+        onSubmit={handleSubmitSaleAdjustment}
+      />
+
+      <SalesBySpotModal
+        visible={showSpotsModal}
+        theme={theme}
+        locationId={activeLocationId}
+        onClose={() => setShowSpotsModal(false)}
+      />
+
+      <CashDrawerModal
+        visible={showCashDrawerModal}
+        theme={theme}
+        dateLabel={formatDate(selectedDate)}
+        sales={sales}
+        expenses={expenses}
+        advances={dayCashAdvances}
+        customerPayments={dayCustomerPayments}
+        existingClose={cashDrawerClose}
+        onClose={() => setShowCashDrawerModal(false)}
+        onSubmit={handleSubmitCashDrawerClose}
+      />
+
       <ExpenseModal
         visible={showExpenseModal}
         theme={theme}
-        onClose={() => setShowExpenseModal(false)}
+        expense={editingExpense}
+        onClose={handleCloseExpenseModal}
         onSubmit={handleSubmitExpense}
       />
 
+      <ProductCatalogModal
+        visible={showProductCatalog}
+        theme={theme}
+        onClose={() => setShowProductCatalog(false)}
+      />
+
+      <ExpenseCategoriesModal
+        visible={showExpenseCategories}
+        theme={theme}
+        onClose={() => setShowExpenseCategories(false)}
+      />
+
+      <RecurringExpensesModal
+        visible={showRecurringExpenses}
+        theme={theme}
+        locationId={activeLocationId}
+        onClose={() => setShowRecurringExpenses(false)}
+      />
+
+      {activeLocationId && (
+        <SalesTargetsModal
+          visible={showSalesTargets}
+          theme={theme}
+          locationId={activeLocationId}
+          locationName={getLocationName(activeLocationId, locations)}
+          onClose={() => setShowSalesTargets(false)}
+        />
+      )}
+
+      {activeLocationId && (
+        <PayoutModal
+          visible={showPayoutModal}
+          theme={theme}
+          locationId={activeLocationId}
+          locationName={getLocationName(activeLocationId, locations)}
+          days={dailyTotals}
+          splitConfigs={netSalesSplits}
+          payouts={locationPayouts}
+          onClose={() => setShowPayoutModal(false)}
+        />
+      )}
+
+      <Modal visible={!!previewReceiptUri} transparent animationType="fade" onRequestClose={() => setPreviewReceiptUri(null)}>
+        <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+          <TouchableOpacity style={styles.receiptPreviewClose} onPress={() => setPreviewReceiptUri(null)}>
+            <X color="#fff" size={28} />
+          </TouchableOpacity>
+          {previewReceiptUri ? (
+            <Image source={{ uri: previewReceiptUri }} style={styles.receiptPreviewImage} resizeMode="contain" />
+          ) : null}
+        </View>
+      </Modal>
+
       {/* Net Sales Split Adjustment Modal */}
       <Modal visible={showSplitModal} transparent animationType="fade">
         <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
@@ -741,103 +1704,120 @@ export default function SalesScreen() {
               </TouchableOpacity>
             </View>
 
-            <View style={styles.splitModalContent}>
+            <ScrollView contentContainerStyle={styles.splitModalContent} showsVerticalScrollIndicator={false}>
               <Text style={[styles.splitModalNote, { color: theme.textMuted }]}>
                 Total must equal 100%
               </Text>
               <Text
                 style={[
                   styles.splitModalNote,
-                  { color: currentSplitTotal === 100 ? theme.textMuted : theme.error },
+                  { color: Math.abs(currentSplitTotal - 100) <= 0.01 ? theme.textMuted : theme.error },
                 ]}
               >
                 Current: {currentSplitTotal}%
               </Text>
-              {currentSplitTotal !== 100 && (
+              {splitError && (
                 <Text style={[styles.helperText, { color: theme.error }]}>
-                  Adjust values to total 100%.
+                  {splitError}
                 </Text>
               )}
 
-              {/* Operation Manager */}
-              <View style={styles.percentageRow}>
-                <View style={styles.percentageLabelRow}>
-                  <View style={[styles.splitDot, { backgroundColor: '#4CAF50' }]} />
-                  <Text style={[styles.percentageLabel, { color: theme.text }]}>OP - Operation Manager</Text>
-                </View>
-                <View style={styles.percentageControls}>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.error + '20' }]}
-                    onPress={() => adjustPercentage('operation', -1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.error }]}>-1</Text>
-                  </TouchableOpacity>
-                  <Text style={[styles.percentageValue, { color: theme.text }]}>{tempOperationPercent}%</Text>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.success + '20' }]}
-                    onPress={() => adjustPercentage('operation', 1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.success }]}>+1</Text>
-                  </TouchableOpacity>
-                </View>
-              </View>
-
-              {/* Assistant Cook */}
-              <View style={styles.percentageRow}>
-                <View style={styles.percentageLabelRow}>
-                  <View style={[styles.splitDot, { backgroundColor: '#2196F3' }]} />
-                  <Text style={[styles.percentageLabel, { color: theme.text }]}>GM - Assistant Cook</Text>
-                </View>
-                <View style={styles.percentageControls}>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.error + '20' }]}
-                    onPress={() => adjustPercentage('general', -1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.error }]}>-1</Text>
-                  </TouchableOpacity>
-                  <Text style={[styles.percentageValue, { color: theme.text }]}>{tempGeneralPercent}%</Text>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.success + '20' }]}
-                    onPress={() => adjustPercentage('general', 1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.success }]}>+1</Text>
-                  </TouchableOpacity>
+              {tempRecipients.map(recipient => (
+                <View key={recipient.id} style={styles.percentageRow}>
+                  <View style={styles.percentageLabelRow}>
+                    <View style={[styles.splitDot, { backgroundColor: recipient.color }]} />
+                    <TextInput
+                      style={[styles.recipientNameInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="Recipient name"
+                      placeholderTextColor={theme.textMuted}
+                      value={recipient.name}
+                      onChangeText={(name) => renameRecipient(recipient.id, name)}
+                    />
+                    <TouchableOpacity
+                      style={[styles.removeRecipientButton, { backgroundColor: theme.error + '20' }]}
+                      onPress={() => removeRecipient(recipient.id)}
+                    >
+                      <Trash2 color={theme.error} size={14} />
+                    </TouchableOpacity>
+                  </View>
+                  <View style={styles.percentageControls}>
+                    <TouchableOpacity
+                      style={[styles.percentageButton, { backgroundColor: theme.error + '20' }]}
+                      onPress={() => adjustPercentage(recipient.id, -1)}
+                    >
+                      <Text style={[styles.percentageButtonText, { color: theme.error }]}>-1</Text>
+                    </TouchableOpacity>
+                    <Text style={[styles.percentageValue, { color: theme.text }]}>{recipient.percent}%</Text>
+                    <TouchableOpacity
+                      style={[styles.percentageButton, { backgroundColor: theme.success + '20' }]}
+                      onPress={() => adjustPercentage(recipient.id, 1)}
+                    >
+                      <Text style={[styles.percentageButtonText, { color: theme.success }]}>+1</Text>
+                    </TouchableOpacity>
+                  </View>
                 </View>
-              </View>
+              ))}
 
-              {/* Food Cart */}
-              <View style={styles.percentageRow}>
-                <View style={styles.percentageLabelRow}>
-                  <View style={[styles.splitDot, { backgroundColor: '#FF9800' }]} />
-                  <Text style={[styles.percentageLabel, { color: theme.text }]}>FD - Food Cart</Text>
-                </View>
-                <View style={styles.percentageControls}>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.error + '20' }]}
-                    onPress={() => adjustPercentage('foodCart', -1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.error }]}>-1</Text>
-                  </TouchableOpacity>
-                  <Text style={[styles.percentageValue, { color: theme.text }]}>{tempFoodCartPercent}%</Text>
-                  <TouchableOpacity
-                    style={[styles.percentageButton, { backgroundColor: theme.success + '20' }]}
-                    onPress={() => adjustPercentage('foodCart', 1)}
-                  >
-                    <Text style={[styles.percentageButtonText, { color: theme.success }]}>+1</Text>
-                  </TouchableOpacity>
-                </View>
-              </View>
+              <TouchableOpacity
+                style={[styles.addRecipientButton, { borderColor: theme.primary }]}
+                onPress={addRecipient}
+              >
+                <Plus color={theme.primary} size={16} />
+                <Text style={[styles.adjustButtonText, { color: theme.primary }]}>Add Recipient</Text>
+              </TouchableOpacity>
 
               {/* Preview Bar */}
               <View style={styles.previewSection}>
                 <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Preview</Text>
                 <View style={styles.splitBarContainer}>
-                  <View style={[styles.splitBar, { width: `${tempOperationPercent}%`, backgroundColor: '#4CAF50' }]} />
-                  <View style={[styles.splitBar, { width: `${tempGeneralPercent}%`, backgroundColor: '#2196F3' }]} />
-                  <View style={[styles.splitBar, { width: `${tempFoodCartPercent}%`, backgroundColor: '#FF9800' }]} />
+                  {tempRecipients.map(recipient => (
+                    <View key={recipient.id} style={[styles.splitBar, { width: `${recipient.percent}%`, backgroundColor: recipient.color }]} />
+                  ))}
                 </View>
               </View>
-            </View>
+
+              <View style={styles.previewSection}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Applies From</Text>
+                <View style={styles.paymentMethodRow}>
+                  {Array.from(new Set([formatLocalDate(new Date()), dateStr])).map(option => {
+                    const isSelected = option === splitEffectiveDate;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[
+                          styles.paymentMethodChip,
+                          { borderColor: isSelected ? theme.primary : theme.cardBorder, backgroundColor: isSelected ? theme.primary + '15' : 'transparent' },
+                        ]}
+                        onPress={() => setSplitEffectiveDate(option)}
+                      >
+                        <Text style={[styles.paymentMethodChipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {option === formatLocalDate(new Date()) ? 'Today' : formatShortDate(parseLocalDateString(option))}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                  Days before {formatShortDate(parseLocalDateString(splitEffectiveDate))} keep the split that applied to them.
+                </Text>
+              </View>
+
+              {netSalesSplits.length > 0 && (
+                <View style={styles.previewSection}>
+                  <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Split History</Text>
+                  {netSalesSplits.map(config => (
+                    <View key={config.id} style={styles.splitHistoryRow}>
+                      <Text style={[styles.splitHistoryDate, { color: theme.text }]}>
+                        {config.effectiveDate <= BASELINE_NET_SALES_SPLIT_DATE ? 'Original' : `From ${formatShortDate(parseLocalDateString(config.effectiveDate))}`}
+                      </Text>
+                      <Text style={[styles.splitHistoryValue, { color: theme.textSecondary }]}>
+                        {config.recipients.map(recipient => `${recipient.name} ${recipient.percent}%`).join(' / ')} · {config.includeExp ? 'after expenses' : 'before expenses'}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              )}
+            </ScrollView>
 
             <View style={styles.modalFooter}>
               <TouchableOpacity
@@ -849,10 +1829,10 @@ export default function SalesScreen() {
               <TouchableOpacity
                 style={[
                   styles.submitButton, 
-                  { backgroundColor: currentSplitTotal === 100 ? theme.primary : theme.textMuted }
+                  { backgroundColor: splitError ? theme.textMuted : theme.primary }
                 ]}
                 onPress={saveSplitPercentages}
-                disabled={currentSplitTotal !== 100}
+                disabled={!!splitError}
               >
                 <Save color="#fff" size={18} />
                 <Text style={styles.submitButtonText}>Save</Text>
@@ -1015,7 +1995,14 @@ const styles = StyleSheet.create({
   selectedDate: {
     fontSize: 16,
     fontWeight: '500' as const,
-    marginBottom: 16,
+    marginBottom: 12,
+  },
+  locationSwitcher: {
+    marginBottom: 12,
+  },
+  locationHint: {
+    fontSize: 12,
+    marginTop: 8,
   },
   actionButtons: {
     flexDirection: 'row',
@@ -1064,6 +2051,42 @@ const styles = StyleSheet.create({
     height: 1,
     marginVertical: 8,
   },
+  paymentTotalsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingBottom: 4,
+  },
+  paymentTotalPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+  },
+  paymentTotalLabel: {
+    fontSize: 12,
+  },
+  paymentTotalValue: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+  },
+  paymentMethodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  paymentMethodChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  paymentMethodChipText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
   sectionTitle: {
     fontSize: 16,
     fontWeight: '600' as const,
@@ -1080,6 +2103,82 @@ const styles = StyleSheet.create({
   itemInfo: {
     flex: 1,
   },
+  receiptRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 6,
+  },
+  receiptThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  receiptPreviewImage: {
+    width: '90%',
+    height: '75%',
+  },
+  receiptPreviewClose: {
+    position: 'absolute',
+    top: 48,
+    right: 24,
+    padding: 8,
+  },
+  itemCategoryText: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  adjustedAmountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  originalAmount: {
+    fontSize: 13,
+    textDecorationLine: 'line-through' as const,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  sectionHeaderTitle: {
+    marginBottom: 0,
+  },
+  sectionHeaderActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  sectionHeaderButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  sectionHeaderButtonText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  filterChipRow: {
+    gap: 8,
+    paddingBottom: 12,
+  },
+  filterChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
   itemName: {
     fontSize: 14,
     fontWeight: '500' as const,
@@ -1097,6 +2196,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     lineHeight: 18,
   },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   deleteButton: {
     width: 36,
     height: 36,
@@ -1177,6 +2280,25 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600' as const,
   },
+  productGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  productChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  productChipName: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
+  productChipPrice: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   itemsList: {
     marginTop: 12,
     gap: 8,
@@ -1197,6 +2319,32 @@ const styles = StyleSheet.create({
   itemsRemoveButton: {
     marginLeft: 8,
   },
+  itemsListInfo: {
+    flex: 1,
+  },
+  itemsListMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  quantityControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  quantityButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quantityValue: {
+    minWidth: 20,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600' as const,
+  },
   helperText: {
     fontSize: 12,
     marginTop: 6,
@@ -1247,6 +2395,63 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600' as const,
   },
+  drawerCard: {
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 24,
+  },
+  drawerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  drawerLabel: {
+    fontSize: 14,
+  },
+  drawerValue: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+  },
+  drawerMeta: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  payoutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+  },
+  payoutInfo: {
+    flex: 1,
+  },
+  payoutMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  payoutHistoryTitle: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    marginTop: 14,
+    marginBottom: 4,
+  },
+  payoutDeleteButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  targetBody: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  targetDetails: {
+    flex: 1,
+  },
   splitCard: {
     padding: 16,
     borderRadius: 16,
@@ -1340,6 +2545,7 @@ const styles = StyleSheet.create({
   splitModal: {
     width: '100%',
     maxWidth: 400,
+    maxHeight: '90%',
     borderRadius: 20,
     overflow: 'hidden',
   },
@@ -1360,9 +2566,28 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 10,
   },
-  percentageLabel: {
+  recipientNameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
     fontSize: 14,
-    fontWeight: '500' as const,
+  },
+  removeRecipientButton: {
+    padding: 8,
+    borderRadius: 8,
+  },
+  addRecipientButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 10,
+    paddingVertical: 10,
+    marginBottom: 20,
   },
   percentageControls: {
     flexDirection: 'row',
@@ -1390,6 +2615,21 @@ const styles = StyleSheet.create({
   previewSection: {
     marginTop: 8,
   },
+  splitHistoryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  splitHistoryDate: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  splitHistoryValue: {
+    fontSize: 13,
+    flexShrink: 1,
+    textAlign: 'right',
+    marginLeft: 12,
+  },
   previewLabel: {
     fontSize: 12,
     marginBottom: 8,
@@ -16,7 +16,7 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Lock, Moon, HelpCircle, Info, LogOut, Eye, EyeOff, X, UserPlus, ChevronDown, ChevronRight, RefreshCw, Cloud, CloudOff, Database, AlertTriangle, Wrench, Sparkles, Palette, Zap } from 'lucide-react-native';
+import { Lock, Moon, HelpCircle, Info, LogOut, Eye, EyeOff, X, UserPlus, ChevronDown, ChevronRight, RefreshCw, Cloud, CloudOff, Database, AlertTriangle, Wrench, Sparkles, Palette, Zap, MapPin } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
@@ -26,6 +26,7 @@ import { UserRole, ROLE_DISPLAY_NAMES, BackgroundColorPalette, BackgroundIntensi
 import { createUser, isPinTaken, getPendingSummaryAndItems, PendingSummary } from '@/services/database';
 import { useSync } from '@/contexts/SyncContext';
 import { supabase, isSupabaseConfigured } from '@/services/supabase';
+import { requestSaleLocationPermission } from '@/services/saleSpots';
 import SyncProgressModal from '@/components/SyncProgressModal';
 import LaserBackground from '@/components/LaserBackground';
 import { useBottomTabBarHeight } from '@react-navigation/bottom-tabs';
@@ -446,6 +447,15 @@ export default function SettingsScreen() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
   };
 
+  const handleSaleGpsToggle = async (value: boolean) => {
+    if (value && !(await requestSaleLocationPermission())) {
+      Alert.alert('Location Permission Needed', 'Allow location access to tag sales with where they were made.');
+      return;
+    }
+    await updateSettings({ tagSalesWithGps: value });
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
   const handleColorPaletteChange = async (palette: BackgroundColorPalette) => {
     await updateSettings({ backgroundColorPalette: palette });
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -647,6 +657,19 @@ export default function SettingsScreen() {
               />
             </View>
 
+            <View style={styles.settingRow}>
+              <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                <MapPin color={theme.primary} size={20} />
+              </View>
+              <Text style={[styles.settingLabel, { color: theme.text }]}>Tag Sales with GPS</Text>
+              <Switch
+                value={!!settings.tagSalesWithGps}
+                onValueChange={handleSaleGpsToggle}
+                trackColor={{ false: theme.inputBorder, true: theme.primary + '60' }}
+                thumbColor={settings.tagSalesWithGps ? theme.primary : theme.textMuted}
+              />
+            </View>
+
             <View style={styles.colorPaletteSection}>
               <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
                 <Palette color={theme.primary} size={20} />
@@ -41,7 +41,7 @@ export default function IntroScreen() {
     if (!isLoading && isInitialized) {
       if (settings.hasSeenIntro) {
         if (user) {
-          const targetRoute = (user.role === 'inventory_clerk' ? '/chat' : '/home') as Href;
+          const targetRoute = (user.role === 'inventory_clerk' ? '/inventory' : '/home') as Href;
           console.log('[PIN FLOW] Intro auth redirect to:', targetRoute);
           router.replace(targetRoute);
         } else {
@@ -57,7 +57,7 @@ export default function WelcomeScreen() {
 
   useEffect(() => {
     if (isInitialized && user) {
-      const targetRoute = (user.role === 'inventory_clerk' ? '/chat' : '/home') as Href;
+      const targetRoute = (user.role === 'inventory_clerk' ? '/inventory' : '/home') as Href;
       console.log('[PIN FLOW] Existing authenticated user found; navigating to:', targetRoute);
       if (hasNavigatedRef.current) return;
       hasNavigatedRef.current = true;
@@ -106,7 +106,7 @@ export default function WelcomeScreen() {
       }
       
       setShowSyncModal(false);
-      const targetRoute = (result.user?.role === 'inventory_clerk' ? '/chat' : '/home') as Href;
+      const targetRoute = (result.user?.role === 'inventory_clerk' ? '/inventory' : '/home') as Href;
       console.log('[PIN FLOW] Post-login sync complete. Navigating to:', targetRoute);
       if (hasNavigatedRef.current) return;
       hasNavigatedRef.current = true;
@@ -16,9 +16,12 @@ import { getEntryDaysForMonth } from '@/services/database';
 interface CalendarModalProps {
   visible: boolean;
   onClose: () => void;
-  onConfirm: (date: Date) => void;
+  onConfirm?: (date: Date) => void;
   initialDate: Date;
   theme: ThemeColors;
+  selectRange?: boolean;
+  initialEndDate?: Date;
+  onConfirmRange?: (start: Date, end: Date) => void;
 }
 
 const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
@@ -37,10 +40,14 @@ export default function CalendarModal({
   onConfirm,
   initialDate,
   theme,
+  selectRange = false,
+  initialEndDate,
+  onConfirmRange,
 }: CalendarModalProps) {
   const [viewYear, setViewYear] = useState(initialDate.getFullYear());
   const [viewMonth, setViewMonth] = useState(initialDate.getMonth());
   const [selectedDate, setSelectedDate] = useState<Date>(initialDate);
+  const [rangeEndDate, setRangeEndDate] = useState<Date | null>(initialEndDate ?? null);
   const [entryDays, setEntryDays] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(false);
 
@@ -67,9 +74,10 @@ export default function CalendarModal({
       setViewYear(initialDate.getFullYear());
       setViewMonth(initialDate.getMonth());
       setSelectedDate(initialDate);
+      setRangeEndDate(initialEndDate ?? null);
       loadEntryDays(initialDate.getFullYear(), initialDate.getMonth());
     }
-  }, [visible, initialDate, loadEntryDays]);
+  }, [visible, initialDate, initialEndDate, loadEntryDays]);
 
   useEffect(() => {
     if (visible) {
@@ -97,15 +105,31 @@ export default function CalendarModal({
     }
   }, [viewMonth, viewYear]);
 
+  // In range mode the first tap picks the start and the second the end; a third tap starts over.
   const handleDayPress = useCallback((day: number) => {
     Haptics.selectionAsync();
-    setSelectedDate(new Date(viewYear, viewMonth, day));
-  }, [viewYear, viewMonth]);
+    const date = new Date(viewYear, viewMonth, day);
+    if (!selectRange || rangeEndDate) {
+      setSelectedDate(date);
+      setRangeEndDate(null);
+      return;
+    }
+    if (date < selectedDate) {
+      setRangeEndDate(selectedDate);
+      setSelectedDate(date);
+    } else {
+      setRangeEndDate(date);
+    }
+  }, [viewYear, viewMonth, selectRange, rangeEndDate, selectedDate]);
 
   const handleConfirm = useCallback(() => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    onConfirm(selectedDate);
-  }, [selectedDate, onConfirm]);
+    if (selectRange) {
+      onConfirmRange?.(selectedDate, rangeEndDate ?? selectedDate);
+      return;
+    }
+    onConfirm?.(selectedDate);
+  }, [selectedDate, rangeEndDate, selectRange, onConfirm, onConfirmRange]);
 
   const calendarDays = useMemo(() => {
     const firstDayOfMonth = new Date(viewYear, viewMonth, 1).getDay();
@@ -135,12 +159,27 @@ export default function CalendarModal({
   }, [viewYear, viewMonth]);
 
   const isSelectedDay = useCallback((day: number) => {
-    return (
-      selectedDate.getFullYear() === viewYear &&
-      selectedDate.getMonth() === viewMonth &&
-      selectedDate.getDate() === day
+    const matches = (date: Date) => (
+      date.getFullYear() === viewYear &&
+      date.getMonth() === viewMonth &&
+      date.getDate() === day
     );
-  }, [selectedDate, viewYear, viewMonth]);
+    return matches(selectedDate) || (rangeEndDate !== null && matches(rangeEndDate));
+  }, [selectedDate, rangeEndDate, viewYear, viewMonth]);
+
+  const isInRange = useCallback((day: number) => {
+    if (!rangeEndDate) return false;
+    const date = new Date(viewYear, viewMonth, day);
+    return date > selectedDate && date < rangeEndDate;
+  }, [selectedDate, rangeEndDate, viewYear, viewMonth]);
+
+  const rangeLabel = useMemo(() => {
+    if (!selectRange) return null;
+    const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return rangeEndDate
+      ? `${format(selectedDate)} – ${format(rangeEndDate)}`
+      : `${format(selectedDate)} – tap an end date`;
+  }, [selectRange, selectedDate, rangeEndDate]);
 
   const isToday = useCallback((day: number) => {
     return getDateString(day) === today;
@@ -156,6 +195,7 @@ export default function CalendarModal({
     }
 
     const selected = isSelectedDay(day);
+    const inRange = isInRange(day);
     const todayMark = isToday(day);
     const withEntry = hasEntry(day);
 
@@ -165,6 +205,7 @@ export default function CalendarModal({
         style={[
           styles.dayCell,
           selected && [styles.selectedDay, { backgroundColor: theme.primary }],
+          inRange && [styles.inRangeDay, { backgroundColor: theme.primary + '30' }],
           todayMark && !selected && [styles.todayDay, { borderColor: theme.primary }],
         ]}
         onPress={() => handleDayPress(day)}
@@ -184,20 +225,23 @@ export default function CalendarModal({
         </Text>
       </TouchableOpacity>
     );
-  }, [isSelectedDay, isToday, hasEntry, handleDayPress, theme]);
+  }, [isSelectedDay, isInRange, isToday, hasEntry, handleDayPress, theme]);
 
   return (
     <Modal visible={visible} transparent animationType="fade">
       <View style={[styles.overlay, { backgroundColor: theme.modalOverlay }]}>
         <View style={[styles.modal, { backgroundColor: theme.card, width: MODAL_WIDTH }]}>
           <View style={[styles.header, { borderBottomColor: theme.divider }]}>
-            <Text style={[styles.title, { color: theme.text }]}>Select Date</Text>
+            <Text style={[styles.title, { color: theme.text }]}>{selectRange ? 'Select Range' : 'Select Date'}</Text>
             <TouchableOpacity onPress={onClose} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
               <X color={theme.textMuted} size={24} />
             </TouchableOpacity>
           </View>
 
           <View style={styles.content}>
+            {rangeLabel && (
+              <Text style={[styles.rangeLabel, { color: theme.textSecondary }]}>{rangeLabel}</Text>
+            )}
             <View style={styles.monthNav}>
               <TouchableOpacity
                 style={[styles.navButton, { backgroundColor: theme.inputBackground }]}
@@ -292,6 +336,11 @@ const styles = StyleSheet.create({
   content: {
     padding: 16,
   },
+  rangeLabel: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
   monthNav: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -345,6 +394,9 @@ const styles = StyleSheet.create({
   selectedDay: {
     borderRadius: 100,
   },
+  inRangeDay: {
+    borderRadius: 8,
+  },
   selectedDayText: {
     color: '#ffffff',
     fontWeight: '700' as const,
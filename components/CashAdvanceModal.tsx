@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { User, formatCurrency } from '@/types';
+
+type Theme = typeof Colors.light;
+
+interface CashAdvanceModalProps {
+  visible: boolean;
+  theme: Theme;
+  users: User[];
+  dateLabel: string;
+  getOutstanding: (userId: string) => number;
+  onClose: () => void;
+  onSubmit: (payload: { userId: string; amount: number; notes: string | null }) => Promise<void>;
+}
+
+export default function CashAdvanceModal({
+  visible,
+  theme,
+  users,
+  dateLabel,
+  getOutstanding,
+  onClose,
+  onSubmit,
+}: CashAdvanceModalProps) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [amountInput, setAmountInput] = useState('');
+  const [notes, setNotes] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setUserId(null);
+    setAmountInput('');
+    setNotes('');
+    setValidationError('');
+  }, [visible]);
+
+  const outstanding = userId ? getOutstanding(userId) : 0;
+
+  const handleSubmit = async () => {
+    if (!userId) {
+      setValidationError('Choose who took the advance.');
+      return;
+    }
+    const amount = Number.parseFloat(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setValidationError('Enter the amount taken.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ userId, amount: Number(amount.toFixed(2)), notes: notes.trim() || null });
+    } catch {
+      setValidationError('Unable to save the advance. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <View>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>Record Cash Advance</Text>
+                  <Text style={[styles.modalSubtitle, { color: theme.textMuted }]}>
+                    Taken from the drawer · {dateLabel}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Staff Member</Text>
+                <View style={styles.chipRow}>
+                  {users.map(staff => {
+                    const isSelected = staff.id === userId;
+                    return (
+                      <TouchableOpacity
+                        key={staff.id}
+                        style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                        onPress={() => setUserId(staff.id)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {staff.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+                {userId && outstanding > 0 ? (
+                  <Text style={[styles.helperText, { color: theme.warning }]}>
+                    Already owes {formatCurrency(outstanding)} in unpaid advances.
+                  </Text>
+                ) : null}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount (₱)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={amountInput}
+                  onChangeText={setAmountInput}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Reason for the vale"
+                  placeholderTextColor={theme.textMuted}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary, opacity: isSubmitting ? 0.6 : 1 }]}
+                  onPress={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.submitButtonText}>Save Advance</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  formContent: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { CashAdvance, CashDrawerClose, CustomerPayment, Expense, Sale, formatCurrency } from '@/types';
+import { calculateCashDrawerTotals, calculateOverShort, formatOverShortLabel } from '@/services/cashDrawer';
+
+type Theme = typeof Colors.light;
+
+interface CashDrawerModalProps {
+  visible: boolean;
+  theme: Theme;
+  dateLabel: string;
+  sales: Sale[];
+  expenses: Expense[];
+  advances: CashAdvance[];
+  customerPayments: CustomerPayment[];
+  existingClose?: CashDrawerClose | null;
+  onClose: () => void;
+  onSubmit: (payload: { openingFloat: number; countedCash: number; notes: string | null }) => Promise<void>;
+}
+
+export default function CashDrawerModal({
+  visible,
+  theme,
+  dateLabel,
+  sales,
+  expenses,
+  advances,
+  customerPayments,
+  existingClose,
+  onClose,
+  onSubmit,
+}: CashDrawerModalProps) {
+  const [openingFloatInput, setOpeningFloatInput] = useState('');
+  const [countedCashInput, setCountedCashInput] = useState('');
+  const [notes, setNotes] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setOpeningFloatInput(existingClose ? existingClose.openingFloat.toString() : '');
+    setCountedCashInput(existingClose ? existingClose.countedCash.toString() : '');
+    setNotes(existingClose?.notes ?? '');
+    setValidationError('');
+  }, [existingClose, visible]);
+
+  const openingFloat = Number.parseFloat(openingFloatInput);
+  const countedCash = Number.parseFloat(countedCashInput);
+  const totals = useMemo(
+    () => calculateCashDrawerTotals(Number.isFinite(openingFloat) ? openingFloat : 0, sales, expenses, advances, customerPayments),
+    [advances, customerPayments, expenses, openingFloat, sales]
+  );
+  const overShort = Number.isFinite(countedCash) ? calculateOverShort(countedCash, totals.expectedCash) : null;
+  const overShortColor = overShort === null || overShort === 0 ? theme.text : overShort > 0 ? theme.success : theme.error;
+
+  const handleSubmit = async () => {
+    if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+      setValidationError('Enter the opening float.');
+      return;
+    }
+    if (!Number.isFinite(countedCash) || countedCash < 0) {
+      setValidationError('Enter the counted cash.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ openingFloat, countedCash, notes: notes.trim() || null });
+    } catch {
+      setValidationError('Unable to save the drawer close. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <View>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>
+                    {existingClose ? 'Update Drawer Close' : 'Close Cash Drawer'}
+                  </Text>
+                  <Text style={[styles.modalSubtitle, { color: theme.textMuted }]}>{dateLabel}</Text>
+                </View>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Opening Float (₱)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={openingFloatInput}
+                  onChangeText={setOpeningFloatInput}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Counted Cash (₱)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={countedCashInput}
+                  onChangeText={setCountedCashInput}
+                  keyboardType="decimal-pad"
+                />
+
+                <View style={[styles.breakdown, { borderColor: theme.cardBorder }]}>
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>Cash Sales</Text>
+                    <Text style={[styles.breakdownValue, { color: theme.success }]}>{formatCurrency(totals.cashSales)}</Text>
+                  </View>
+                  {totals.creditPayments > 0 && (
+                    <View style={styles.breakdownRow}>
+                      <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>Credit Payments</Text>
+                      <Text style={[styles.breakdownValue, { color: theme.success }]}>{formatCurrency(totals.creditPayments)}</Text>
+                    </View>
+                  )}
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>Cash Expenses</Text>
+                    <Text style={[styles.breakdownValue, { color: theme.error }]}>-{formatCurrency(totals.cashExpenses)}</Text>
+                  </View>
+                  {totals.cashAdvances > 0 && (
+                    <View style={styles.breakdownRow}>
+                      <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>Cash Advances</Text>
+                      <Text style={[styles.breakdownValue, { color: theme.error }]}>-{formatCurrency(totals.cashAdvances)}</Text>
+                    </View>
+                  )}
+                  <View style={[styles.breakdownDivider, { backgroundColor: theme.divider }]} />
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>Expected in Drawer</Text>
+                    <Text style={[styles.breakdownValue, { color: theme.text }]}>{formatCurrency(totals.expectedCash)}</Text>
+                  </View>
+                  <View style={styles.breakdownRow}>
+                    <Text style={[styles.breakdownLabel, { color: theme.textSecondary }]}>
+                      {overShort === null ? 'Over / Short' : formatOverShortLabel(overShort)}
+                    </Text>
+                    <Text style={[styles.breakdownValue, { color: overShortColor }]}>
+                      {overShort === null ? '—' : formatCurrency(overShort)}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                  Expected cash is the opening float plus cash sales, minus expenses paid from the drawer.
+                </Text>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="e.g. ₱20 coin roll missing"
+                  placeholderTextColor={theme.textMuted}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary, opacity: isSubmitting ? 0.6 : 1 }]}
+                  onPress={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.submitButtonText}>{existingClose ? 'Save Close' : 'Close Drawer'}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  formContent: {
+    gap: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  breakdown: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    gap: 8,
+    marginTop: 6,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  breakdownLabel: {
+    fontSize: 14,
+  },
+  breakdownValue: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  breakdownDivider: {
+    height: 1,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
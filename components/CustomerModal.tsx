@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { Customer } from '@/types';
+
+type Theme = typeof Colors.light;
+
+interface CustomerModalProps {
+  visible: boolean;
+  theme: Theme;
+  customer: Customer | null;
+  onClose: () => void;
+  onSubmit: (payload: Pick<Customer, 'name' | 'phone' | 'notes'>) => Promise<void>;
+}
+
+export default function CustomerModal({ visible, theme, customer, onClose, onSubmit }: CustomerModalProps) {
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(customer?.name ?? '');
+    setPhone(customer?.phone ?? '');
+    setNotes(customer?.notes ?? '');
+    setValidationError('');
+  }, [customer, visible]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) {
+      setValidationError('Enter the customer name.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ name: name.trim(), phone: phone.trim() || null, notes: notes.trim() || null });
+    } catch {
+      setValidationError('Unable to save the customer. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>{customer ? 'Edit Customer' : 'Add Customer'}</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Name</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Customer name"
+                  placeholderTextColor={theme.textMuted}
+                  value={name}
+                  onChangeText={setName}
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Phone (optional)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="09XX XXX XXXX"
+                  placeholderTextColor={theme.textMuted}
+                  value={phone}
+                  onChangeText={setPhone}
+                  keyboardType="phone-pad"
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Where they work, usual order, etc."
+                  placeholderTextColor={theme.textMuted}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary, opacity: isSubmitting ? 0.6 : 1 }]}
+                  onPress={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.submitButtonText}>{customer ? 'Save' : 'Add Customer'}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { Customer, PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod, formatCurrency } from '@/types';
+
+type Theme = typeof Colors.light;
+
+const COLLECTION_METHODS = PAYMENT_METHODS.filter(method => method !== 'credit');
+
+interface CustomerPaymentModalProps {
+  visible: boolean;
+  theme: Theme;
+  customer: Customer | null;
+  balance: number;
+  onClose: () => void;
+  onSubmit: (payload: { amount: number; paymentMethod: PaymentMethod; notes: string | null }) => Promise<void>;
+}
+
+export default function CustomerPaymentModal({
+  visible,
+  theme,
+  customer,
+  balance,
+  onClose,
+  onSubmit,
+}: CustomerPaymentModalProps) {
+  const [amountInput, setAmountInput] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [notes, setNotes] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setAmountInput(balance > 0 ? balance.toFixed(2) : '');
+    setPaymentMethod('cash');
+    setNotes('');
+    setValidationError('');
+  }, [balance, visible]);
+
+  if (!customer) return null;
+
+  const handleSubmit = async () => {
+    const amount = Number.parseFloat(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setValidationError('Enter the amount received.');
+      return;
+    }
+    if (amount > balance + 0.005) {
+      setValidationError(`Payment is more than the ${formatCurrency(balance)} balance.`);
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ amount: Number(amount.toFixed(2)), paymentMethod, notes: notes.trim() || null });
+    } catch {
+      setValidationError('Unable to save the payment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <View>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>Record Payment</Text>
+                  <Text style={[styles.modalSubtitle, { color: theme.textMuted }]}>
+                    {customer.name} · Balance {formatCurrency(balance)}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount (₱)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={amountInput}
+                  onChangeText={setAmountInput}
+                  keyboardType="decimal-pad"
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Paid With</Text>
+                <View style={styles.chipRow}>
+                  {COLLECTION_METHODS.map(method => {
+                    const isSelected = method === paymentMethod;
+                    return (
+                      <TouchableOpacity
+                        key={method}
+                        style={[styles.chip, { borderColor: isSelected ? theme.success : theme.cardBorder }]}
+                        onPress={() => setPaymentMethod(method)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.success : theme.textSecondary }]}>
+                          {PAYMENT_METHOD_LABELS[method]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Partial payment, paid by relative, etc."
+                  placeholderTextColor={theme.textMuted}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.success, opacity: isSubmitting ? 0.6 : 1 }]}
+                  onPress={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.submitButtonText}>Save Payment</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  formContent: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Pencil, Trash2, X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { ExpenseCategory } from '@/types';
+import {
+  createExpenseCategory,
+  deleteExpenseCategory,
+  getExpenseCategories,
+  updateExpenseCategory,
+} from '@/services/database';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+interface ExpenseCategoriesModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+}
+
+export default function ExpenseCategoriesModal({ visible, theme, onClose }: ExpenseCategoriesModalProps) {
+  const queryClient = useQueryClient();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const [editingCategory, setEditingCategory] = useState<ExpenseCategory | null>(null);
+  const [categoryName, setCategoryName] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: getExpenseCategories,
+    enabled: visible,
+  });
+
+  const resetForm = useCallback(() => {
+    setEditingCategory(null);
+    setCategoryName('');
+    setValidationError('');
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [resetForm, visible]);
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: async (name: string) => {
+      if (editingCategory) {
+        await updateExpenseCategory({ ...editingCategory, name });
+        return;
+      }
+      await createExpenseCategory(name);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['expenseCategories'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (category: ExpenseCategory) => {
+      await queueDeletion('expense_categories', category.id, { name: category.name });
+      return deleteExpenseCategory(category.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['expenseCategories'] });
+      queryClient.invalidateQueries({ queryKey: ['expenses'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleSubmit = async () => {
+    const trimmedName = categoryName.trim();
+    if (!trimmedName) {
+      setValidationError('Enter a category name.');
+      return;
+    }
+    const duplicate = categories.some(
+      category => category.id !== editingCategory?.id && category.name.toLowerCase() === trimmedName.toLowerCase()
+    );
+    if (duplicate) {
+      setValidationError('A category with this name already exists.');
+      return;
+    }
+    try {
+      await saveCategoryMutation.mutateAsync(trimmedName);
+      resetForm();
+    } catch {
+      setValidationError('Unable to save category. Please try again.');
+    }
+  };
+
+  const handleEdit = (category: ExpenseCategory) => {
+    setEditingCategory(category);
+    setCategoryName(category.name);
+    setValidationError('');
+  };
+
+  const handleDelete = (category: ExpenseCategory) => {
+    const message = `Delete category "${category.name}"? Expenses using it will show as Uncategorized.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteCategoryMutation.mutate(category);
+      }
+    } else {
+      Alert.alert('Delete Category', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteCategoryMutation.mutate(category) },
+      ]);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Expense Categories</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {editingCategory ? 'Rename Category' : 'New Category'}
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Category name"
+                  placeholderTextColor={theme.textMuted}
+                  value={categoryName}
+                  onChangeText={setCategoryName}
+                />
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+                <View style={styles.formActions}>
+                  {editingCategory && (
+                    <TouchableOpacity
+                      style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                      onPress={resetForm}
+                    >
+                      <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                    onPress={handleSubmit}
+                  >
+                    <Text style={styles.submitButtonText}>{editingCategory ? 'Save Category' : 'Add Category'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Categories ({categories.length})</Text>
+              {categories.map(category => (
+                <View key={category.id} style={[styles.categoryRow, { borderColor: theme.cardBorder }]}>
+                  <Text style={[styles.categoryName, { color: theme.text }]}>{category.name}</Text>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => handleEdit(category)}
+                  >
+                    <Pencil color={theme.primary} size={16} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDelete(category)}
+                  >
+                    <Trash2 color={theme.error} size={16} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {categories.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>No categories yet</Text>
+              )}
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  categoryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
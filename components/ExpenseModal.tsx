@@ -9,18 +9,26 @@ import {
   Platform,
   KeyboardAvoidingView,
   FlatList,
+  Image,
+  Alert,
 } from 'react-native';
-import { X } from 'lucide-react-native';
+import { Camera, X } from 'lucide-react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { useQuery } from '@tanstack/react-query';
 import { Colors } from '@/constants/colors';
-import { ExpenseItem, formatCurrency, generateId } from '@/types';
+import { Expense, ExpenseItem, ExpenseReceipt, formatCurrency, generateId } from '@/types';
+import { getExpenseCategories, getSuppliers } from '@/services/database';
+import { UNCATEGORIZED_LABEL } from '@/services/expenseCategories';
+import { getReceiptDisplayUri, saveReceiptImage } from '@/services/receiptStorage';
 
 type Theme = typeof Colors.light;
 
 interface ExpenseModalProps {
   visible: boolean;
   theme: Theme;
+  expense?: Expense | null;
   onClose: () => void;
-  onSubmit: (payload: { name: string; total: number; items: ExpenseItem[] }) => Promise<void>;
+  onSubmit: (payload: { name: string; total: number; items: ExpenseItem[]; categoryId: string | null; supplierId: string | null; receipts: ExpenseReceipt[] }) => Promise<void>;
 }
 
 interface ExpenseItemRowProps {
@@ -54,13 +62,29 @@ const ExpenseItemRow = memo(({ item, theme, disabled, onRemove }: ExpenseItemRow
 
 ExpenseItemRow.displayName = 'ExpenseItemRow';
 
-export default function ExpenseModal({ visible, theme, onClose, onSubmit }: ExpenseModalProps) {
+export default function ExpenseModal({ visible, theme, expense, onClose, onSubmit }: ExpenseModalProps) {
   const [expenseName, setExpenseName] = useState('');
   const [expenseTotal, setExpenseTotal] = useState('');
   const [expenseItems, setExpenseItems] = useState<ExpenseItem[]>([]);
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [supplierId, setSupplierId] = useState<string | null>(null);
+  const [receipts, setReceipts] = useState<ExpenseReceipt[]>([]);
   const [expenseItemNameInput, setExpenseItemNameInput] = useState('');
   const [expenseItemPriceInput, setExpenseItemPriceInput] = useState('');
   const [validationError, setValidationError] = useState('');
+  const isEditing = !!expense;
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: getExpenseCategories,
+    enabled: visible,
+  });
+
+  const { data: suppliers = [] } = useQuery({
+    queryKey: ['suppliers'],
+    queryFn: getSuppliers,
+    enabled: visible,
+  });
 
   const expenseItemsTotal = useMemo(() => {
     return expenseItems.reduce((sum, item) => {
@@ -81,6 +105,9 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
     setExpenseName('');
     setExpenseTotal('');
     setExpenseItems([]);
+    setCategoryId(null);
+    setSupplierId(null);
+    setReceipts([]);
     setExpenseItemNameInput('');
     setExpenseItemPriceInput('');
     setValidationError('');
@@ -90,9 +117,17 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
     if (!visible) {
       resetForm();
     } else {
+      if (expense) {
+        setExpenseName(expense.name ?? '');
+        setExpenseTotal(expense.total.toFixed(2));
+        setExpenseItems(Array.isArray(expense.items) ? expense.items : []);
+        setCategoryId(expense.categoryId ?? null);
+        setSupplierId(expense.supplierId ?? null);
+        setReceipts(Array.isArray(expense.receipts) ? expense.receipts : []);
+      }
       setValidationError('');
     }
-  }, [resetForm, visible]);
+  }, [expense, resetForm, visible]);
 
   const handleAddItem = useCallback(() => {
     if (isExpenseItemsLocked) return;
@@ -117,6 +152,44 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
     setExpenseItems(prev => prev.filter(item => item.id !== id));
   }, []);
 
+  const handlePickReceipt = useCallback(async (useCamera: boolean) => {
+    const permission = useCamera
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (permission.status !== 'granted') {
+      setValidationError(useCamera ? 'Camera permission is required to take photos.' : 'Media library permission is required to choose photos.');
+      return;
+    }
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.5,
+      base64: Platform.OS === 'web',
+    };
+    const result = useCamera
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled || !result.assets[0]) return;
+    const receipt = await saveReceiptImage(result.assets[0]);
+    setReceipts(prev => [...prev, receipt]);
+    setValidationError('');
+  }, []);
+
+  const handleAddReceipt = useCallback(() => {
+    if (Platform.OS === 'web') {
+      handlePickReceipt(false);
+      return;
+    }
+    Alert.alert('Attach Receipt', 'Select an option', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Take Photo', onPress: () => handlePickReceipt(true) },
+      { text: 'Choose from Library', onPress: () => handlePickReceipt(false) },
+    ], { cancelable: true });
+  }, [handlePickReceipt]);
+
+  const handleRemoveReceipt = useCallback((id: string) => {
+    setReceipts(prev => prev.filter(receipt => receipt.id !== id));
+  }, []);
+
   const handleSubmit = useCallback(async () => {
     const manualTotal = parseFloat(expenseTotal);
     const hasManualTotal = !Number.isNaN(manualTotal) && manualTotal > 0;
@@ -131,13 +204,16 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
         name: expenseName.trim(),
         total: totalValue,
         items: expenseItems,
+        categoryId,
+        supplierId,
+        receipts,
       });
       resetForm();
       onClose();
     } catch {
       setValidationError('Unable to save expense. Please try again.');
     }
-  }, [expenseItems, expenseItemsTotal, expenseName, expenseTotal, onClose, onSubmit, resetForm]);
+  }, [categoryId, supplierId, receipts, expenseItems, expenseItemsTotal, expenseName, expenseTotal, onClose, onSubmit, resetForm]);
 
   const handleClose = useCallback(() => {
     onClose();
@@ -159,7 +235,7 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
     return (
       <View>
         <View style={styles.modalHeader}>
-          <Text style={[styles.modalTitle, { color: theme.text }]}>Add New Expense</Text>
+          <Text style={[styles.modalTitle, { color: theme.text }]}>{isEditing ? 'Edit Expense' : 'Add New Expense'}</Text>
           <TouchableOpacity onPress={handleClose}>
             <X color={theme.textMuted} size={24} />
           </TouchableOpacity>
@@ -175,6 +251,43 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
             onChangeText={setExpenseName}
           />
 
+          <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Category</Text>
+          <View style={styles.chipGrid}>
+            {[{ id: null, name: UNCATEGORIZED_LABEL }, ...categories].map(category => (
+              <TouchableOpacity
+                key={category.id ?? 'uncategorized'}
+                style={[styles.chip, { borderColor: categoryId === category.id ? theme.error : theme.cardBorder }]}
+                onPress={() => setCategoryId(category.id)}
+              >
+                <Text style={[styles.chipText, { color: categoryId === category.id ? theme.error : theme.textSecondary }]}>
+                  {category.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {suppliers.length > 0 && (
+            <>
+              <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Supplier (optional)</Text>
+              <View style={styles.chipGrid}>
+                {suppliers.map(supplier => {
+                  const isSelected = supplierId === supplier.id;
+                  return (
+                    <TouchableOpacity
+                      key={supplier.id}
+                      style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                      onPress={() => setSupplierId(isSelected ? null : supplier.id)}
+                    >
+                      <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                        {supplier.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+            </>
+          )}
+
           <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Total (₱)</Text>
           <TextInput
             style={[
@@ -238,12 +351,17 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
       </View>
     );
   }, [
+    categories,
+    categoryId,
+    suppliers,
+    supplierId,
     expenseItemNameInput,
     expenseItemPriceInput,
     expenseName,
     expenseTotal,
     handleAddItem,
     handleClose,
+    isEditing,
     isExpenseItemsLocked,
     isExpenseTotalLocked,
     theme,
@@ -252,6 +370,30 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
   const listFooter = useMemo(() => {
     return (
       <View style={styles.footerContainer}>
+        <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Receipts (optional)</Text>
+        <View style={styles.receiptGrid}>
+          {receipts.map(receipt => {
+            const uri = getReceiptDisplayUri(receipt);
+            return (
+              <View key={receipt.id} style={[styles.receiptThumb, { borderColor: theme.cardBorder }]}>
+                {uri ? <Image source={{ uri }} style={styles.receiptImage} /> : null}
+                <TouchableOpacity
+                  style={[styles.receiptRemoveButton, { backgroundColor: theme.card }]}
+                  onPress={() => handleRemoveReceipt(receipt.id)}
+                >
+                  <X color={theme.textMuted} size={14} />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+          <TouchableOpacity
+            style={[styles.receiptThumb, styles.receiptAddButton, { borderColor: theme.inputBorder }]}
+            onPress={handleAddReceipt}
+          >
+            <Camera color={theme.primary} size={20} />
+            <Text style={[styles.receiptAddText, { color: theme.primary }]}>Add</Text>
+          </TouchableOpacity>
+        </View>
         {validationError ? (
           <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
         ) : null}
@@ -266,12 +408,12 @@ export default function ExpenseModal({ visible, theme, onClose, onSubmit }: Expe
             style={[styles.submitButton, { backgroundColor: theme.error }]}
             onPress={handleSubmit}
           >
-            <Text style={styles.submitButtonText}>Add Expense</Text>
+            <Text style={styles.submitButtonText}>{isEditing ? 'Save Changes' : 'Add Expense'}</Text>
           </TouchableOpacity>
         </View>
       </View>
     );
-  }, [handleClose, handleSubmit, theme, validationError]);
+  }, [handleAddReceipt, handleClose, handleRemoveReceipt, handleSubmit, isEditing, receipts, theme, validationError]);
 
   return (
     <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
@@ -349,6 +491,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 4,
   },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   itemsInputRow: {
     flexDirection: 'row',
     gap: 8,
@@ -397,6 +554,39 @@ const styles = StyleSheet.create({
   footerContainer: {
     marginTop: 12,
   },
+  receiptGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  receiptThumb: {
+    width: 64,
+    height: 64,
+    borderRadius: 10,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  receiptImage: {
+    width: '100%',
+    height: '100%',
+  },
+  receiptRemoveButton: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    borderRadius: 10,
+    padding: 2,
+  },
+  receiptAddButton: {
+    borderStyle: 'dashed',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 2,
+  },
+  receiptAddText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
   modalFooter: {
     flexDirection: 'row',
     justifyContent: 'flex-end',
@@ -0,0 +1,88 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { MapPin, Settings2 } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { ALL_LOCATIONS, Location } from '@/types';
+
+type Theme = typeof Colors.light;
+
+interface LocationSwitcherProps {
+  theme: Theme;
+  locations: Location[];
+  activeLocationId: string | null;
+  allowAllLocations: boolean;
+  onSelect: (selectedLocationId: string) => void;
+  onManage?: () => void;
+}
+
+export default function LocationSwitcher({
+  theme,
+  locations,
+  activeLocationId,
+  allowAllLocations,
+  onSelect,
+  onManage,
+}: LocationSwitcherProps) {
+  const renderChip = (id: string, label: string, isSelected: boolean) => (
+    <TouchableOpacity
+      key={id}
+      style={[
+        styles.chip,
+        {
+          borderColor: isSelected ? theme.primary : theme.cardBorder,
+          backgroundColor: isSelected ? theme.primary + '20' : theme.card,
+        },
+      ]}
+      onPress={() => onSelect(id)}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <MapPin color={theme.textMuted} size={16} />
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {allowAllLocations && renderChip(ALL_LOCATIONS, 'All Locations', activeLocationId === null)}
+        {locations.map(location => renderChip(location.id, location.name, activeLocationId === location.id))}
+      </ScrollView>
+      {onManage && (
+        <TouchableOpacity
+          style={[styles.manageButton, { backgroundColor: theme.primary + '20' }]}
+          onPress={onManage}
+        >
+          <Settings2 color={theme.primary} size={16} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  chipRow: {
+    gap: 8,
+    paddingRight: 4,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  manageButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
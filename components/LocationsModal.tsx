@@ -0,0 +1,318 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Pencil, Trash2, X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { DEFAULT_LOCATION, Location } from '@/types';
+import {
+  createLocation,
+  deleteLocation,
+  getLocations,
+  updateLocation,
+} from '@/services/database';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+interface LocationsModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+}
+
+export default function LocationsModal({ visible, theme, onClose }: LocationsModalProps) {
+  const queryClient = useQueryClient();
+  const { settings, updateSettings } = useAuth();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [locationName, setLocationName] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['locations'],
+    queryFn: getLocations,
+    enabled: visible,
+  });
+
+  const resetForm = useCallback(() => {
+    setEditingLocation(null);
+    setLocationName('');
+    setValidationError('');
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [resetForm, visible]);
+
+  const saveLocationMutation = useMutation({
+    mutationFn: async (name: string) => {
+      if (editingLocation) {
+        await updateLocation({ ...editingLocation, name });
+        return;
+      }
+      await createLocation(name);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteLocationMutation = useMutation({
+    mutationFn: async (location: Location) => {
+      await queueDeletion('locations', location.id, { name: location.name });
+      await deleteLocation(location.id);
+      return location;
+    },
+    onSuccess: async location => {
+      if (settings.selectedLocationId === location.id) {
+        await updateSettings({ selectedLocationId: DEFAULT_LOCATION.id });
+      }
+      queryClient.invalidateQueries({ queryKey: ['locations'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleSubmit = async () => {
+    const trimmedName = locationName.trim();
+    if (!trimmedName) {
+      setValidationError('Enter a location name.');
+      return;
+    }
+    const duplicate = locations.some(
+      location => location.id !== editingLocation?.id && location.name.toLowerCase() === trimmedName.toLowerCase()
+    );
+    if (duplicate) {
+      setValidationError('A location with this name already exists.');
+      return;
+    }
+    try {
+      await saveLocationMutation.mutateAsync(trimmedName);
+      resetForm();
+    } catch {
+      setValidationError('Unable to save location. Please try again.');
+    }
+  };
+
+  const handleEdit = (location: Location) => {
+    setEditingLocation(location);
+    setLocationName(location.name);
+    setValidationError('');
+  };
+
+  const handleDelete = (location: Location) => {
+    const message = `Delete location "${location.name}"? Entries already recorded there will only appear in the all-locations view.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteLocationMutation.mutate(location);
+      }
+    } else {
+      Alert.alert('Delete Location', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteLocationMutation.mutate(location) },
+      ]);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Locations</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {editingLocation ? 'Rename Location' : 'New Location'}
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Location name"
+                  placeholderTextColor={theme.textMuted}
+                  value={locationName}
+                  onChangeText={setLocationName}
+                />
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+                <View style={styles.formActions}>
+                  {editingLocation && (
+                    <TouchableOpacity
+                      style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                      onPress={resetForm}
+                    >
+                      <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                    onPress={handleSubmit}
+                  >
+                    <Text style={styles.submitButtonText}>{editingLocation ? 'Save Location' : 'Add Location'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>All Locations ({locations.length})</Text>
+              {locations.map(location => (
+                <View key={location.id} style={[styles.locationRow, { borderColor: theme.cardBorder }]}>
+                  <Text style={[styles.locationName, { color: theme.text }]}>{location.name}</Text>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => handleEdit(location)}
+                  >
+                    <Pencil color={theme.primary} size={16} />
+                  </TouchableOpacity>
+                  {location.id !== DEFAULT_LOCATION.id && (
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                      onPress={() => handleDelete(location)}
+                    >
+                      <Trash2 color={theme.error} size={16} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+              {locations.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>No locations yet</Text>
+              )}
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  locationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  locationName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
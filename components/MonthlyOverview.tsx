@@ -1,15 +1,14 @@
 import React, { useMemo, useState } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import Svg, { Rect, Text as SvgText } from 'react-native-svg';
-import { ROLE_DISPLAY_NAMES } from '@/types';
+import { SplitRecipient } from '@/types';
+import { ExpenseCategoryTotal } from '@/services/expenseCategories';
 
 type MonthlyPoint = {
   monthLabel: string;
   sales: number;
   expenses: number;
-  om: number;
-  gm: number;
-  fc: number;
+  shares: Record<string, number>;
 };
 
 function formatCompactNumberNoDecimals(value: number): string {
@@ -31,23 +30,27 @@ export default function MonthlyOverview({
   theme,
   year,
   points,
+  recipients,
   selectedMonthIndex,
   onSelectMonth,
   totalsForSelectedMonth,
   colors,
+  expenseCategoryTotals = [],
   isAndroidTablet = false,
 }: {
   theme: any;
   year: number;
   points: MonthlyPoint[];
+  recipients: SplitRecipient[];
   selectedMonthIndex: number;
   onSelectMonth: (index: number) => void;
   totalsForSelectedMonth: {
-    sales: number; expenses: number; om: number; gm: number; fc: number;
+    sales: number; expenses: number; shares: Record<string, number>;
   };
   colors: {
-    sales: string; expenses: string; om: string; gm: string; fc: string;
+    sales: string; expenses: string;
   };
+  expenseCategoryTotals?: ExpenseCategoryTotal[];
   isAndroidTablet?: boolean;
 }) {
   const [chartHostWidth, setChartHostWidth] = useState(0);
@@ -56,7 +59,7 @@ export default function MonthlyOverview({
     const chartHeight = 190;
     const chartTopPadding = 16;
     const chartBottomPadding = 28;
-    const barsPerGroup = 5;
+    const barsPerGroup = 2 + recipients.length;
     const monthCount = 12;
     const minBarWidth = isAndroidTablet ? 8 : 7;
     const targetGroupWidth = isAndroidTablet ? 52 : 49;
@@ -72,7 +75,7 @@ export default function MonthlyOverview({
     const groupWidth = groupInnerWidth + groupGap;
     const valueMax = Math.max(
       100,
-      ...points.map(point => Math.max(point.sales, point.expenses, point.om, point.gm, point.fc))
+      ...points.map(point => Math.max(point.sales, point.expenses, ...recipients.map(recipient => point.shares[recipient.id] ?? 0)))
     );
 
     const scaleY = (value: number) => {
@@ -100,16 +103,21 @@ export default function MonthlyOverview({
       scaleY,
       gridLines,
     };
-  }, [chartHostWidth, isAndroidTablet, points]);
+  }, [chartHostWidth, isAndroidTablet, points, recipients]);
 
   const totalCards = [
     { key: 'sales', label: 'Sales', value: totalsForSelectedMonth.sales, color: colors.sales },
     { key: 'expenses', label: 'Expenses', value: totalsForSelectedMonth.expenses, color: colors.expenses },
-    { key: 'om', label: 'Operation Manager', value: totalsForSelectedMonth.om, color: colors.om },
-    { key: 'gm', label: ROLE_DISPLAY_NAMES.general_manager, value: totalsForSelectedMonth.gm, color: colors.gm },
-    { key: 'fc', label: 'Food Cart', value: totalsForSelectedMonth.fc, color: colors.fc },
+    ...recipients.map(recipient => ({
+      key: recipient.id,
+      label: recipient.name,
+      value: totalsForSelectedMonth.shares[recipient.id] ?? 0,
+      color: recipient.color,
+    })),
   ];
 
+  const maxCategoryTotal = Math.max(0, ...expenseCategoryTotals.map(category => category.total));
+
   return (
     <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.cardBorder }]}>
       <View style={styles.header}>
@@ -160,8 +168,8 @@ export default function MonthlyOverview({
           ))}
 
           {points.map((point, monthIndex) => {
-            const values = [point.sales, point.expenses, point.om, point.gm, point.fc];
-            const fillColors = [colors.sales, colors.expenses, colors.om, colors.gm, colors.fc];
+            const values = [point.sales, point.expenses, ...recipients.map(recipient => point.shares[recipient.id] ?? 0)];
+            const fillColors = [colors.sales, colors.expenses, ...recipients.map(recipient => recipient.color)];
             const groupX = monthIndex * chart.groupWidth;
             const highlightPadding = 4;
             const isSelected = monthIndex === selectedMonthIndex;
@@ -250,6 +258,35 @@ export default function MonthlyOverview({
           </TouchableOpacity>
         ))}
       </ScrollView>
+
+      {expenseCategoryTotals.length > 0 && (
+        <View style={[styles.categorySection, { borderTopColor: theme.cardBorder }]}>
+          <Text style={[styles.categoryTitle, { color: theme.text }]}>
+            Expenses by Category · {points[selectedMonthIndex]?.monthLabel}
+          </Text>
+          {expenseCategoryTotals.map(category => (
+            <View key={category.categoryId ?? 'uncategorized'} style={styles.categoryRow}>
+              <View style={styles.categoryLabelRow}>
+                <Text style={[styles.categoryName, { color: theme.textSecondary }]} numberOfLines={1}>
+                  {category.name}
+                </Text>
+                <Text style={[styles.categoryValue, { color: theme.text }]}>{formatCurrency(category.total)}</Text>
+              </View>
+              <View style={[styles.categoryTrack, { backgroundColor: `${colors.expenses}15` }]}>
+                <View
+                  style={[
+                    styles.categoryBar,
+                    {
+                      backgroundColor: colors.expenses,
+                      width: `${maxCategoryTotal > 0 ? (category.total / maxCategoryTotal) * 100 : 0}%`,
+                    },
+                  ]}
+                />
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
     </View>
   );
 }
@@ -326,4 +363,39 @@ const styles = StyleSheet.create({
     fontSize: 10,
     fontWeight: '600',
   },
+  categorySection: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    gap: 8,
+  },
+  categoryTitle: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  categoryRow: {
+    gap: 4,
+  },
+  categoryLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  categoryName: {
+    flex: 1,
+    fontSize: 12,
+  },
+  categoryValue: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  categoryTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  categoryBar: {
+    height: 6,
+    borderRadius: 3,
+  },
 });
@@ -0,0 +1,443 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { NetSalesSplitConfig, Payout, formatCurrency } from '@/types';
+import { createPayout, getCashAdvances, getPayouts, getUsers } from '@/services/database';
+import { DailySplitTotals, getNetSalesSplitForDate, getSplitRecipientName } from '@/services/netSalesSplit';
+import { getOwedForPeriod } from '@/services/payouts';
+import { getOutstandingAdvance } from '@/services/cashAdvances';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+interface PayoutModalProps {
+  visible: boolean;
+  theme: Theme;
+  locationId: string;
+  locationName: string;
+  days: DailySplitTotals[];
+  splitConfigs: NetSalesSplitConfig[];
+  payouts: Payout[];
+  onClose: () => void;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = parseLocalDateString(dateKey);
+  date.setDate(date.getDate() + days);
+  return formatLocalDate(date);
+}
+
+export default function PayoutModal({
+  visible,
+  theme,
+  locationId,
+  locationName,
+  days,
+  splitConfigs,
+  payouts,
+  onClose,
+}: PayoutModalProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { checkPendingCount } = useSync();
+  const [recipient, setRecipient] = useState('');
+  const [recipientUserId, setRecipientUserId] = useState<string | null>(null);
+  const [periodStart, setPeriodStart] = useState(formatLocalDate(new Date()));
+  const [periodEnd, setPeriodEnd] = useState(formatLocalDate(new Date()));
+  const [amountInput, setAmountInput] = useState('');
+  const [deductionInput, setDeductionInput] = useState('');
+  const [notes, setNotes] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [hasDefaults, setHasDefaults] = useState(false);
+
+  const { data: users = [] } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
+    enabled: visible,
+  });
+
+  const { data: cashAdvances = [] } = useQuery({
+    queryKey: ['cashAdvances'],
+    queryFn: getCashAdvances,
+    enabled: visible,
+  });
+
+  const { data: allPayouts = [] } = useQuery({
+    queryKey: ['payouts'],
+    queryFn: getPayouts,
+    enabled: visible,
+  });
+
+  const recipients = useMemo(
+    () => getNetSalesSplitForDate(splitConfigs, formatLocalDate(new Date())).recipients,
+    [splitConfigs]
+  );
+
+  // A new payout picks up the day after the recipient's last covered period.
+  const selectRecipient = useCallback((next: string) => {
+    const today = formatLocalDate(new Date());
+    const lastPeriodEnd = payouts
+      .filter(payout => payout.recipient === next)
+      .map(payout => payout.periodEnd)
+      .sort()
+      .pop();
+    const start = lastPeriodEnd ? addDays(lastPeriodEnd, 1) : days[0]?.date ?? today;
+    const resolvedStart = start > today ? today : start;
+    const owed = getOwedForPeriod(next, days, splitConfigs, resolvedStart, today);
+
+    setRecipient(next);
+    setRecipientUserId(null);
+    setPeriodStart(resolvedStart);
+    setPeriodEnd(today);
+    setAmountInput(owed > 0 ? owed.toFixed(2) : '');
+    setDeductionInput('');
+    setValidationError('');
+  }, [days, payouts, splitConfigs]);
+
+  useEffect(() => {
+    if (!visible) {
+      setHasDefaults(false);
+      return;
+    }
+    if (!hasDefaults) {
+      selectRecipient(recipients[0]?.id ?? '');
+      setNotes('');
+      setHasDefaults(true);
+    }
+  }, [hasDefaults, recipients, selectRecipient, visible]);
+
+  const isPeriodValid = !Number.isNaN(parseLocalDateString(periodStart.trim()).getTime())
+    && !Number.isNaN(parseLocalDateString(periodEnd.trim()).getTime());
+  const periodOwed = isPeriodValid
+    ? getOwedForPeriod(recipient, days, splitConfigs, periodStart.trim(), periodEnd.trim())
+    : 0;
+
+  // Advances are repaid across every location, so the balance uses all payouts rather than this location's.
+  const outstandingAdvance = recipientUserId ? getOutstandingAdvance(recipientUserId, cashAdvances, allPayouts) : 0;
+  const parsedDeduction = Number.parseFloat(deductionInput);
+  const deduction = outstandingAdvance > 0 && Number.isFinite(parsedDeduction) ? parsedDeduction : 0;
+  const parsedAmount = Number.parseFloat(amountInput);
+
+  const selectRecipientUser = (userId: string | null) => {
+    setRecipientUserId(userId);
+    const outstanding = userId ? getOutstandingAdvance(userId, cashAdvances, allPayouts) : 0;
+    const amount = Number.parseFloat(amountInput);
+    setDeductionInput(outstanding > 0 && Number.isFinite(amount) && amount > 0 ? Math.min(outstanding, amount).toFixed(2) : '');
+  };
+
+  const createPayoutMutation = useMutation({
+    mutationFn: (payout: Omit<Payout, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>) => createPayout(payout),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['payouts'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    },
+  });
+
+  const handleSave = async () => {
+    if (!recipient) {
+      setValidationError('Choose who was paid.');
+      return;
+    }
+    const amount = Number.parseFloat(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      setValidationError('Enter the amount paid out.');
+      return;
+    }
+    if (deduction < 0 || deduction > outstandingAdvance + 0.005) {
+      setValidationError(`Deduction must be between ${formatCurrency(0)} and the ${formatCurrency(outstandingAdvance)} owed in advances.`);
+      return;
+    }
+    if (deduction > amount + 0.005) {
+      setValidationError('Deduction cannot be more than the payout amount.');
+      return;
+    }
+    if (!isPeriodValid) {
+      setValidationError('Enter the covered period as YYYY-MM-DD.');
+      return;
+    }
+    if (periodStart.trim() > periodEnd.trim()) {
+      setValidationError('The period must start on or before it ends.');
+      return;
+    }
+    try {
+      await createPayoutMutation.mutateAsync({
+        recipient,
+        recipientUserId,
+        amount: Number(amount.toFixed(2)),
+        advanceDeduction: deduction > 0 ? Number(deduction.toFixed(2)) : null,
+        date: formatLocalDate(new Date()),
+        periodStart: periodStart.trim(),
+        periodEnd: periodEnd.trim(),
+        notes,
+        locationId,
+        paidBy: user?.id || '',
+      });
+    } catch {
+      setValidationError('Unable to record payout. Please try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Record Payout</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.helperText, { color: theme.textSecondary }]}>{locationName}</Text>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Paid To</Text>
+                <View style={styles.chipRow}>
+                  {recipients.map(option => {
+                    const isSelected = option.id === recipient;
+                    return (
+                      <TouchableOpacity
+                        key={option.id}
+                        style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                        onPress={() => selectRecipient(option.id)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {option.name}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {users.length > 0 && (
+                  <>
+                    <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Received By (optional)</Text>
+                    <View style={styles.chipRow}>
+                      {users.map(candidate => {
+                        const isSelected = candidate.id === recipientUserId;
+                        return (
+                          <TouchableOpacity
+                            key={candidate.id}
+                            style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                            onPress={() => selectRecipientUser(isSelected ? null : candidate.id)}
+                          >
+                            <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                              {candidate.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                )}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Covers (YYYY-MM-DD)</Text>
+                <View style={styles.periodRow}>
+                  <TextInput
+                    style={[styles.input, styles.periodInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="2025-01-01"
+                    placeholderTextColor={theme.textMuted}
+                    value={periodStart}
+                    onChangeText={setPeriodStart}
+                  />
+                  <Text style={[styles.periodSeparator, { color: theme.textMuted }]}>to</Text>
+                  <TextInput
+                    style={[styles.input, styles.periodInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="2025-01-07"
+                    placeholderTextColor={theme.textMuted}
+                    value={periodEnd}
+                    onChangeText={setPeriodEnd}
+                  />
+                </View>
+                <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                  {getSplitRecipientName(recipients, recipient)} share for this period: {formatCurrency(periodOwed)}
+                </Text>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount Paid (₱)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={amountInput}
+                  onChangeText={setAmountInput}
+                  keyboardType="decimal-pad"
+                />
+
+                {outstandingAdvance > 0 && (
+                  <>
+                    <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Deduct From Advances (₱)</Text>
+                    <TextInput
+                      style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="0.00"
+                      placeholderTextColor={theme.textMuted}
+                      value={deductionInput}
+                      onChangeText={setDeductionInput}
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                      Owes {formatCurrency(outstandingAdvance)} in advances · Cash to hand over: {formatCurrency(Math.max(0, (Number.isFinite(parsedAmount) ? parsedAmount : 0) - deduction))}
+                    </Text>
+                  </>
+                )}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Notes (optional)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="GCash ref, cash handed over..."
+                  placeholderTextColor={theme.textMuted}
+                  value={notes}
+                  onChangeText={setNotes}
+                />
+              </View>
+
+              {validationError ? (
+                <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+              ) : null}
+              <View style={styles.formActions}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                  onPress={handleSave}
+                >
+                  <Text style={styles.submitButtonText}>Record Payout</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 420,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginTop: 14,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  periodInput: {
+    flex: 1,
+  },
+  periodSeparator: {
+    fontSize: 13,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,369 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { Pencil, Trash2, X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { Product, formatCurrency } from '@/types';
+import { createProduct, deleteProduct, getProducts, updateProduct } from '@/services/database';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+interface ProductCatalogModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+}
+
+export default function ProductCatalogModal({ visible, theme, onClose }: ProductCatalogModalProps) {
+  const queryClient = useQueryClient();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [productName, setProductName] = useState('');
+  const [productPrice, setProductPrice] = useState('');
+  const [productCategory, setProductCategory] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+    enabled: visible,
+  });
+
+  const resetForm = useCallback(() => {
+    setEditingProduct(null);
+    setProductName('');
+    setProductPrice('');
+    setProductCategory('');
+    setValidationError('');
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [resetForm, visible]);
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (data: { name: string; price: number; category: string }) => {
+      if (editingProduct) {
+        await updateProduct({ ...editingProduct, ...data });
+        return;
+      }
+      await createProduct({ ...data, active: true });
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: (product: Product) => updateProduct({ ...product, active: !product.active }),
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      await checkPendingCount();
+      Haptics.selectionAsync();
+    },
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (product: Product) => {
+      await queueDeletion('products', product.id, {
+        name: product.name,
+        amount: product.price,
+      });
+      return deleteProduct(product.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleSubmit = async () => {
+    const trimmedName = productName.trim();
+    const parsedPrice = Number.parseFloat(productPrice);
+    if (!trimmedName) {
+      setValidationError('Enter a product name.');
+      return;
+    }
+    if (Number.isNaN(parsedPrice) || parsedPrice < 0) {
+      setValidationError('Enter a valid price.');
+      return;
+    }
+    try {
+      await saveProductMutation.mutateAsync({
+        name: trimmedName,
+        price: Number(parsedPrice.toFixed(2)),
+        category: productCategory.trim(),
+      });
+      resetForm();
+    } catch {
+      setValidationError('Unable to save product. Please try again.');
+    }
+  };
+
+  const handleEdit = (product: Product) => {
+    setEditingProduct(product);
+    setProductName(product.name);
+    setProductPrice(product.price.toFixed(2));
+    setProductCategory(product.category ?? '');
+    setValidationError('');
+  };
+
+  const handleDelete = (product: Product) => {
+    if (Platform.OS === 'web') {
+      if (confirm(`Delete product "${product.name}"?`)) {
+        deleteProductMutation.mutate(product);
+      }
+    } else {
+      Alert.alert('Delete Product', `Delete "${product.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteProductMutation.mutate(product) },
+      ]);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Product Catalog</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {editingProduct ? 'Edit Product' : 'New Product'}
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Product name"
+                  placeholderTextColor={theme.textMuted}
+                  value={productName}
+                  onChangeText={setProductName}
+                />
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.inputFlex, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="₱0.00"
+                    placeholderTextColor={theme.textMuted}
+                    value={productPrice}
+                    onChangeText={setProductPrice}
+                    keyboardType="decimal-pad"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.inputFlex, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="Category (optional)"
+                    placeholderTextColor={theme.textMuted}
+                    value={productCategory}
+                    onChangeText={setProductCategory}
+                  />
+                </View>
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+                <View style={styles.formActions}>
+                  {editingProduct && (
+                    <TouchableOpacity
+                      style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                      onPress={resetForm}
+                    >
+                      <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                    onPress={handleSubmit}
+                  >
+                    <Text style={styles.submitButtonText}>{editingProduct ? 'Save Product' : 'Add Product'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Menu ({products.length})</Text>
+              {products.map(product => (
+                <View key={product.id} style={[styles.productRow, { borderColor: theme.cardBorder }]}>
+                  <View style={styles.productInfo}>
+                    <Text style={[styles.productName, { color: product.active ? theme.text : theme.textMuted }]}>
+                      {product.name}
+                    </Text>
+                    <Text style={[styles.productMeta, { color: theme.textSecondary }]}>
+                      {formatCurrency(product.price)}
+                      {product.category ? ` · ${product.category}` : ''}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={product.active}
+                    onValueChange={() => toggleActiveMutation.mutate(product)}
+                    trackColor={{ false: theme.inputBorder, true: theme.primary + '60' }}
+                    thumbColor={product.active ? theme.primary : theme.textMuted}
+                  />
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => handleEdit(product)}
+                  >
+                    <Pencil color={theme.primary} size={16} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDelete(product)}
+                  >
+                    <Trash2 color={theme.error} size={16} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {products.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>No products yet</Text>
+              )}
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputFlex: {
+    flex: 1,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  productRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  productInfo: {
+    flex: 1,
+  },
+  productName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  productMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import { getPreviousPeriod } from '@/services/profitLoss';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
+
+type Theme = typeof Colors.light;
+
+type RangePresetKey = 'thisMonth' | 'lastMonth' | 'last30' | 'thisYear';
+
+const RANGE_PRESETS: { key: RangePresetKey; label: string }[] = [
+  { key: 'thisMonth', label: 'This month' },
+  { key: 'lastMonth', label: 'Last month' },
+  { key: 'last30', label: 'Last 30 days' },
+  { key: 'thisYear', label: 'This year' },
+];
+
+interface ProfitLossModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+  onSubmit: (range: { startDate: string; endDate: string }) => void;
+}
+
+function getPresetRange(key: RangePresetKey, today: Date = new Date()): { startDate: string; endDate: string } {
+  switch (key) {
+    case 'lastMonth':
+      return {
+        startDate: formatLocalDate(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        endDate: formatLocalDate(new Date(today.getFullYear(), today.getMonth(), 0)),
+      };
+    case 'last30': {
+      const start = new Date(today);
+      start.setDate(today.getDate() - 29);
+      return { startDate: formatLocalDate(start), endDate: formatLocalDate(today) };
+    }
+    case 'thisYear':
+      return { startDate: formatLocalDate(new Date(today.getFullYear(), 0, 1)), endDate: formatLocalDate(today) };
+    default:
+      return { startDate: formatLocalDate(new Date(today.getFullYear(), today.getMonth(), 1)), endDate: formatLocalDate(today) };
+  }
+}
+
+function isValidDateKey(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(parseLocalDateString(value).getTime());
+}
+
+export default function ProfitLossModal({ visible, theme, onClose, onSubmit }: ProfitLossModalProps) {
+  const [presetKey, setPresetKey] = useState<RangePresetKey | null>('thisMonth');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    const range = getPresetRange('thisMonth');
+    setPresetKey('thisMonth');
+    setStartDate(range.startDate);
+    setEndDate(range.endDate);
+    setValidationError('');
+  }, [visible]);
+
+  const selectPreset = (key: RangePresetKey) => {
+    const range = getPresetRange(key);
+    setPresetKey(key);
+    setStartDate(range.startDate);
+    setEndDate(range.endDate);
+    setValidationError('');
+  };
+
+  const trimmedStart = startDate.trim();
+  const trimmedEnd = endDate.trim();
+  const isRangeValid = isValidDateKey(trimmedStart) && isValidDateKey(trimmedEnd) && trimmedStart <= trimmedEnd;
+  const previousRange = isRangeValid ? getPreviousPeriod(trimmedStart, trimmedEnd) : null;
+
+  const handleSubmit = () => {
+    if (!isValidDateKey(trimmedStart) || !isValidDateKey(trimmedEnd)) {
+      setValidationError('Enter the range as YYYY-MM-DD.');
+      return;
+    }
+    if (trimmedStart > trimmedEnd) {
+      setValidationError('The range must start on or before it ends.');
+      return;
+    }
+    onSubmit({ startDate: trimmedStart, endDate: trimmedEnd });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Profit & Loss Statement</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <View style={styles.chipRow}>
+                  {RANGE_PRESETS.map(option => {
+                    const isSelected = option.key === presetKey;
+                    return (
+                      <TouchableOpacity
+                        key={option.key}
+                        style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                        onPress={() => selectPreset(option.key)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {option.label}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Range (YYYY-MM-DD)</Text>
+                <View style={styles.periodRow}>
+                  <TextInput
+                    style={[styles.input, styles.periodInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="2025-01-01"
+                    placeholderTextColor={theme.textMuted}
+                    value={startDate}
+                    onChangeText={value => {
+                      setStartDate(value);
+                      setPresetKey(null);
+                    }}
+                  />
+                  <Text style={[styles.periodSeparator, { color: theme.textMuted }]}>to</Text>
+                  <TextInput
+                    style={[styles.input, styles.periodInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="2025-01-31"
+                    placeholderTextColor={theme.textMuted}
+                    value={endDate}
+                    onChangeText={value => {
+                      setEndDate(value);
+                      setPresetKey(null);
+                    }}
+                  />
+                </View>
+                {previousRange ? (
+                  <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                    Compared with {previousRange.start} to {previousRange.end}
+                  </Text>
+                ) : null}
+              </View>
+
+              {validationError ? (
+                <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+              ) : null}
+              <View style={styles.formActions}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                  onPress={handleSubmit}
+                >
+                  <Text style={styles.submitButtonText}>Generate PDF</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 420,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginTop: 14,
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  periodInput: {
+    flex: 1,
+  },
+  periodSeparator: {
+    fontSize: 13,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,484 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Pencil, Plus, Trash2, X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { Recipe, RecipeIngredient, StockItem } from '@/types';
+import { createRecipe, deleteRecipe, getProducts, getRecipes, getStockItems, updateRecipe } from '@/services/database';
+import { normalizeRecipeName } from '@/services/recipeUsage';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+interface RecipesModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+}
+
+function describeIngredients(ingredients: RecipeIngredient[], stockItemById: Map<string, StockItem>): string {
+  return ingredients
+    .map(ingredient => {
+      const stockItem = stockItemById.get(ingredient.stockItemId);
+      return stockItem ? `${ingredient.quantity} ${stockItem.unit} ${stockItem.name}` : null;
+    })
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export default function RecipesModal({ visible, theme, onClose }: RecipesModalProps) {
+  const queryClient = useQueryClient();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [itemName, setItemName] = useState('');
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>([]);
+  const [selectedStockItemId, setSelectedStockItemId] = useState<string | null>(null);
+  const [ingredientQuantity, setIngredientQuantity] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const { data: recipes = [] } = useQuery({
+    queryKey: ['recipes'],
+    queryFn: getRecipes,
+    enabled: visible,
+  });
+
+  const { data: stockItems = [] } = useQuery({
+    queryKey: ['stockItems'],
+    queryFn: getStockItems,
+    enabled: visible,
+  });
+
+  const { data: products = [] } = useQuery({
+    queryKey: ['products'],
+    queryFn: getProducts,
+    enabled: visible,
+  });
+
+  const stockItemById = useMemo(
+    () => new Map(stockItems.map(item => [item.id, item])),
+    [stockItems]
+  );
+
+  const resetForm = useCallback(() => {
+    setEditingRecipe(null);
+    setItemName('');
+    setIngredients([]);
+    setSelectedStockItemId(null);
+    setIngredientQuantity('');
+    setValidationError('');
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [resetForm, visible]);
+
+  const saveRecipeMutation = useMutation({
+    mutationFn: async (data: { itemName: string; ingredients: RecipeIngredient[] }) => {
+      if (editingRecipe) {
+        await updateRecipe({ ...editingRecipe, ...data });
+        return;
+      }
+      await createRecipe(data);
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteRecipeMutation = useMutation({
+    mutationFn: async (recipe: Recipe) => {
+      await queueDeletion('recipes', recipe.id, { name: recipe.itemName });
+      return deleteRecipe(recipe.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recipes'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const handleAddIngredient = () => {
+    const parsedQuantity = Number.parseFloat(ingredientQuantity);
+    if (!selectedStockItemId) {
+      setValidationError('Choose an ingredient.');
+      return;
+    }
+    if (Number.isNaN(parsedQuantity) || parsedQuantity <= 0) {
+      setValidationError('Enter a quantity greater than zero.');
+      return;
+    }
+    setIngredients(prev => [
+      ...prev.filter(ingredient => ingredient.stockItemId !== selectedStockItemId),
+      { stockItemId: selectedStockItemId, quantity: parsedQuantity },
+    ]);
+    setSelectedStockItemId(null);
+    setIngredientQuantity('');
+    setValidationError('');
+    Haptics.selectionAsync();
+  };
+
+  const handleSubmit = async () => {
+    const trimmedName = itemName.trim();
+    if (!trimmedName) {
+      setValidationError('Enter the menu item name.');
+      return;
+    }
+    if (ingredients.length === 0) {
+      setValidationError('Add at least one ingredient.');
+      return;
+    }
+    const duplicate = recipes.find(
+      recipe => recipe.id !== editingRecipe?.id && normalizeRecipeName(recipe.itemName) === normalizeRecipeName(trimmedName)
+    );
+    if (duplicate) {
+      setValidationError('A recipe for this item already exists.');
+      return;
+    }
+    try {
+      await saveRecipeMutation.mutateAsync({ itemName: trimmedName, ingredients });
+      resetForm();
+    } catch {
+      setValidationError('Unable to save recipe. Please try again.');
+    }
+  };
+
+  const handleEdit = (recipe: Recipe) => {
+    setEditingRecipe(recipe);
+    setItemName(recipe.itemName);
+    setIngredients(recipe.ingredients);
+    setSelectedStockItemId(null);
+    setIngredientQuantity('');
+    setValidationError('');
+  };
+
+  const handleDelete = (recipe: Recipe) => {
+    if (Platform.OS === 'web') {
+      if (confirm(`Delete recipe for "${recipe.itemName}"?`)) {
+        deleteRecipeMutation.mutate(recipe);
+      }
+    } else {
+      Alert.alert('Delete Recipe', `Delete recipe for "${recipe.itemName}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteRecipeMutation.mutate(recipe) },
+      ]);
+    }
+  };
+
+  const activeProducts = products.filter(product => product.active);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Recipes</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {editingRecipe ? 'Edit Recipe' : 'New Recipe'}
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Menu item name (e.g. Siomai Rice)"
+                  placeholderTextColor={theme.textMuted}
+                  value={itemName}
+                  onChangeText={setItemName}
+                />
+                {activeProducts.length > 0 && (
+                  <View style={styles.chipGrid}>
+                    {activeProducts.map(product => (
+                      <TouchableOpacity
+                        key={product.id}
+                        style={[styles.chip, { borderColor: theme.cardBorder }]}
+                        onPress={() => setItemName(product.name)}
+                      >
+                        <Text style={[styles.chipText, { color: theme.textSecondary }]}>{product.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Ingredients per item sold</Text>
+                <View style={styles.chipGrid}>
+                  {stockItems.map(stockItem => (
+                    <TouchableOpacity
+                      key={stockItem.id}
+                      style={[
+                        styles.chip,
+                        { borderColor: selectedStockItemId === stockItem.id ? theme.primary : theme.cardBorder },
+                      ]}
+                      onPress={() => setSelectedStockItemId(stockItem.id)}
+                    >
+                      <Text style={[styles.chipText, { color: selectedStockItemId === stockItem.id ? theme.primary : theme.textSecondary }]}>
+                        {stockItem.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {stockItems.length === 0 && (
+                  <Text style={[styles.helperText, { color: theme.textMuted }]}>Add stock items first to use them as ingredients.</Text>
+                )}
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.inputFlex, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder={selectedStockItemId ? `Quantity (${stockItemById.get(selectedStockItemId)?.unit ?? ''})` : 'Quantity'}
+                    placeholderTextColor={theme.textMuted}
+                    value={ingredientQuantity}
+                    onChangeText={setIngredientQuantity}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity
+                    style={[styles.addButton, { backgroundColor: theme.primary }]}
+                    onPress={handleAddIngredient}
+                  >
+                    <Plus color="#fff" size={18} />
+                  </TouchableOpacity>
+                </View>
+                {ingredients.map(ingredient => {
+                  const stockItem = stockItemById.get(ingredient.stockItemId);
+                  return (
+                    <View key={ingredient.stockItemId} style={[styles.ingredientRow, { borderColor: theme.cardBorder }]}>
+                      <Text style={[styles.ingredientText, { color: theme.text }]}>
+                        {ingredient.quantity} {stockItem?.unit ?? ''} {stockItem?.name ?? 'Removed item'}
+                      </Text>
+                      <TouchableOpacity
+                        onPress={() => setIngredients(prev => prev.filter(item => item.stockItemId !== ingredient.stockItemId))}
+                      >
+                        <X color={theme.textMuted} size={16} />
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })}
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+                <View style={styles.formActions}>
+                  {editingRecipe && (
+                    <TouchableOpacity
+                      style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                      onPress={resetForm}
+                    >
+                      <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                    onPress={handleSubmit}
+                  >
+                    <Text style={styles.submitButtonText}>{editingRecipe ? 'Save Recipe' : 'Add Recipe'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Recipes ({recipes.length})</Text>
+              {recipes.map(recipe => (
+                <View key={recipe.id} style={[styles.recipeRow, { borderColor: theme.cardBorder }]}>
+                  <View style={styles.recipeInfo}>
+                    <Text style={[styles.recipeName, { color: theme.text }]}>{recipe.itemName}</Text>
+                    <Text style={[styles.recipeMeta, { color: theme.textSecondary }]}>
+                      {describeIngredients(recipe.ingredients, stockItemById) || 'No ingredients'}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                    onPress={() => handleEdit(recipe)}
+                  >
+                    <Pencil color={theme.primary} size={16} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                    onPress={() => handleDelete(recipe)}
+                  >
+                    <Trash2 color={theme.error} size={16} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              {recipes.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>No recipes yet</Text>
+              )}
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputFlex: {
+    flex: 1,
+  },
+  addButton: {
+    width: 44,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  chipGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  ingredientRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  ingredientText: {
+    fontSize: 14,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  recipeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  recipeInfo: {
+    flex: 1,
+  },
+  recipeName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  recipeMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,577 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Pause, Pencil, Play, Trash2, X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import {
+  ExpenseItem,
+  RECURRING_EXPENSE_FREQUENCIES,
+  RECURRING_EXPENSE_FREQUENCY_LABELS,
+  RecurringExpense,
+  RecurringExpenseFrequency,
+  formatCurrency,
+  generateId,
+} from '@/types';
+import {
+  createRecurringExpense,
+  deleteRecurringExpense,
+  getExpenseCategories,
+  getRecurringExpenses,
+  materializeRecurringExpenses,
+  updateRecurringExpense,
+} from '@/services/database';
+import { getNextRecurringDate } from '@/services/recurringExpenses';
+import { getExpenseCategoryName } from '@/services/expenseCategories';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+type RecurringExpenseDraft = Pick<RecurringExpense, 'name' | 'items' | 'categoryId' | 'total' | 'frequency' | 'startDate'>;
+
+interface RecurringExpensesModalProps {
+  visible: boolean;
+  theme: Theme;
+  locationId: string | null;
+  onClose: () => void;
+}
+
+export default function RecurringExpensesModal({ visible, theme, locationId, onClose }: RecurringExpensesModalProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { queueDeletion, checkPendingCount } = useSync();
+  const [editingTemplate, setEditingTemplate] = useState<RecurringExpense | null>(null);
+  const [name, setName] = useState('');
+  const [totalInput, setTotalInput] = useState('');
+  const [frequency, setFrequency] = useState<RecurringExpenseFrequency>('monthly');
+  const [startDate, setStartDate] = useState(formatLocalDate(new Date()));
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [items, setItems] = useState<ExpenseItem[]>([]);
+  const [itemNameInput, setItemNameInput] = useState('');
+  const [itemPriceInput, setItemPriceInput] = useState('');
+  const [validationError, setValidationError] = useState('');
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['recurringExpenses'],
+    queryFn: getRecurringExpenses,
+    enabled: visible,
+  });
+
+  const { data: categories = [] } = useQuery({
+    queryKey: ['expenseCategories'],
+    queryFn: getExpenseCategories,
+    enabled: visible,
+  });
+
+  const visibleTemplates = useMemo(
+    () => templates.filter(template => !locationId || !template.locationId || template.locationId === locationId),
+    [locationId, templates]
+  );
+
+  const itemsTotal = useMemo(
+    () => items.reduce((sum, item) => sum + (typeof item.price === 'number' ? item.price : 0), 0),
+    [items]
+  );
+
+  useEffect(() => {
+    if (itemsTotal > 0) {
+      setTotalInput(itemsTotal.toFixed(2));
+    }
+  }, [itemsTotal]);
+
+  const resetForm = useCallback(() => {
+    setEditingTemplate(null);
+    setName('');
+    setTotalInput('');
+    setFrequency('monthly');
+    setStartDate(formatLocalDate(new Date()));
+    setCategoryId(null);
+    setItems([]);
+    setItemNameInput('');
+    setItemPriceInput('');
+    setValidationError('');
+  }, []);
+
+  useEffect(() => {
+    if (!visible) {
+      resetForm();
+    }
+  }, [resetForm, visible]);
+
+  const refreshExpenses = useCallback(async () => {
+    await materializeRecurringExpenses();
+    queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
+    queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['weeklyExpenseTotals'] });
+    queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
+    await checkPendingCount();
+  }, [checkPendingCount, queryClient]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (draft: RecurringExpenseDraft) => {
+      if (editingTemplate) {
+        await updateRecurringExpense({ ...editingTemplate, ...draft });
+        return;
+      }
+      await createRecurringExpense({ ...draft, locationId, active: true, createdBy: user?.id || '' });
+    },
+    onSuccess: async () => {
+      await refreshExpenses();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  // Resuming skips the paused stretch instead of back-filling every missed date.
+  const toggleTemplateMutation = useMutation({
+    mutationFn: async (template: RecurringExpense) => {
+      if (template.active) {
+        await updateRecurringExpense({ ...template, active: false });
+        return;
+      }
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      const skipThrough = formatLocalDate(yesterday);
+      const lastGeneratedDate = template.lastGeneratedDate && template.lastGeneratedDate > skipThrough
+        ? template.lastGeneratedDate
+        : skipThrough;
+      await updateRecurringExpense({ ...template, active: true, lastGeneratedDate });
+    },
+    onSuccess: async () => {
+      await refreshExpenses();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (template: RecurringExpense) => {
+      await queueDeletion('recurring_expenses', template.id, { name: template.name, amount: template.total });
+      return deleteRecurringExpense(template.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+  });
+
+  const addItem = () => {
+    const trimmed = itemNameInput.trim();
+    if (!trimmed) return;
+    const parsedPrice = itemPriceInput.trim() ? Number.parseFloat(itemPriceInput) : null;
+    const price = parsedPrice !== null && !Number.isNaN(parsedPrice) ? parsedPrice : null;
+    setItems(prev => [...prev, { id: generateId(), name: trimmed, price }]);
+    setItemNameInput('');
+    setItemPriceInput('');
+  };
+
+  const handleSubmit = async () => {
+    const trimmedName = name.trim();
+    const total = Number.parseFloat(totalInput);
+    if (!trimmedName) {
+      setValidationError('Enter a name for this expense.');
+      return;
+    }
+    if (!Number.isFinite(total) || total <= 0) {
+      setValidationError('Enter the amount to record each time.');
+      return;
+    }
+    if (Number.isNaN(parseLocalDateString(startDate.trim()).getTime())) {
+      setValidationError('Enter the start date as YYYY-MM-DD.');
+      return;
+    }
+    try {
+      await saveTemplateMutation.mutateAsync({
+        name: trimmedName,
+        items,
+        categoryId,
+        total: Number(total.toFixed(2)),
+        frequency,
+        startDate: startDate.trim(),
+      });
+      resetForm();
+    } catch {
+      setValidationError('Unable to save recurring expense. Please try again.');
+    }
+  };
+
+  const handleEdit = (template: RecurringExpense) => {
+    setEditingTemplate(template);
+    setName(template.name);
+    setTotalInput(template.total.toFixed(2));
+    setFrequency(template.frequency);
+    setStartDate(template.startDate);
+    setCategoryId(template.categoryId ?? null);
+    setItems(Array.isArray(template.items) ? template.items : []);
+    setValidationError('');
+  };
+
+  const handleDelete = (template: RecurringExpense) => {
+    const message = `Stop and delete "${template.name}"? Expenses already recorded from it are kept.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        deleteTemplateMutation.mutate(template);
+      }
+    } else {
+      Alert.alert('Delete Recurring Expense', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteTemplateMutation.mutate(template) },
+      ]);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Recurring Expenses</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>
+                  {editingTemplate ? 'Edit Recurring Expense' : 'New Recurring Expense'}
+                </Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="Rent, stall fee, LPG refill..."
+                  placeholderTextColor={theme.textMuted}
+                  value={name}
+                  onChangeText={setName}
+                />
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Repeats</Text>
+                <View style={styles.chipRow}>
+                  {RECURRING_EXPENSE_FREQUENCIES.map(option => {
+                    const isSelected = option === frequency;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                        onPress={() => setFrequency(option)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {RECURRING_EXPENSE_FREQUENCY_LABELS[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Starts On (YYYY-MM-DD)</Text>
+                <TextInput
+                  style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="2025-01-01"
+                  placeholderTextColor={theme.textMuted}
+                  value={startDate}
+                  onChangeText={setStartDate}
+                />
+
+                {categories.length > 0 && (
+                  <>
+                    <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Category</Text>
+                    <View style={styles.chipRow}>
+                      {categories.map(category => {
+                        const isSelected = category.id === categoryId;
+                        return (
+                          <TouchableOpacity
+                            key={category.id}
+                            style={[styles.chip, { borderColor: isSelected ? theme.error : theme.cardBorder }]}
+                            onPress={() => setCategoryId(isSelected ? null : category.id)}
+                          >
+                            <Text style={[styles.chipText, { color: isSelected ? theme.error : theme.textSecondary }]}>
+                              {category.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                )}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Items (optional)</Text>
+                <View style={styles.itemInputRow}>
+                  <TextInput
+                    style={[styles.input, styles.itemNameInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="Item"
+                    placeholderTextColor={theme.textMuted}
+                    value={itemNameInput}
+                    onChangeText={setItemNameInput}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.itemPriceInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                    placeholder="₱"
+                    placeholderTextColor={theme.textMuted}
+                    value={itemPriceInput}
+                    onChangeText={setItemPriceInput}
+                    keyboardType="decimal-pad"
+                  />
+                  <TouchableOpacity style={[styles.addItemButton, { backgroundColor: theme.primary }]} onPress={addItem}>
+                    <Text style={styles.submitButtonText}>Add</Text>
+                  </TouchableOpacity>
+                </View>
+                {items.map(item => (
+                  <View key={item.id} style={[styles.itemRow, { borderColor: theme.cardBorder }]}>
+                    <Text style={[styles.itemText, { color: theme.text }]}>
+                      {item.name}
+                      {typeof item.price === 'number' ? ` (${formatCurrency(item.price)})` : ''}
+                    </Text>
+                    <TouchableOpacity onPress={() => setItems(prev => prev.filter(entry => entry.id !== item.id))}>
+                      <X color={theme.textMuted} size={16} />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Amount (₱)</Text>
+                <TextInput
+                  style={[
+                    styles.input,
+                    { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text, opacity: itemsTotal > 0 ? 0.6 : 1 },
+                  ]}
+                  placeholder="0.00"
+                  placeholderTextColor={theme.textMuted}
+                  value={totalInput}
+                  onChangeText={setTotalInput}
+                  keyboardType="decimal-pad"
+                  editable={itemsTotal === 0}
+                />
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+                <View style={styles.formActions}>
+                  {editingTemplate && (
+                    <TouchableOpacity
+                      style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                      onPress={resetForm}
+                    >
+                      <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel Edit</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                    onPress={handleSubmit}
+                  >
+                    <Text style={styles.submitButtonText}>{editingTemplate ? 'Save Changes' : 'Add Recurring'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              <Text style={[styles.sectionTitle, { color: theme.text }]}>Schedules ({visibleTemplates.length})</Text>
+              {visibleTemplates.map(template => {
+                const nextDate = template.active ? getNextRecurringDate(template) : null;
+                return (
+                  <View key={template.id} style={[styles.templateRow, { borderColor: theme.cardBorder, opacity: template.active ? 1 : 0.6 }]}>
+                    <View style={styles.templateInfo}>
+                      <Text style={[styles.templateName, { color: theme.text }]}>{template.name}</Text>
+                      <Text style={[styles.templateMeta, { color: theme.textSecondary }]}>
+                        {RECURRING_EXPENSE_FREQUENCY_LABELS[template.frequency]} · {formatCurrency(template.total)} · {getExpenseCategoryName(template.categoryId, categories)}
+                      </Text>
+                      <Text style={[styles.templateMeta, { color: template.active ? theme.textMuted : theme.warning }]}>
+                        {template.active ? (nextDate ? `Next: ${nextDate}` : 'No upcoming date') : 'Paused'}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.warning + '20' }]}
+                      onPress={() => toggleTemplateMutation.mutate(template)}
+                    >
+                      {template.active ? <Pause color={theme.warning} size={16} /> : <Play color={theme.warning} size={16} />}
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                      onPress={() => handleEdit(template)}
+                    >
+                      <Pencil color={theme.primary} size={16} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.iconButton, { backgroundColor: theme.error + '20' }]}
+                      onPress={() => handleDelete(template)}
+                    >
+                      <Trash2 color={theme.error} size={16} />
+                    </TouchableOpacity>
+                  </View>
+                );
+              })}
+              {visibleTemplates.length === 0 && (
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>No recurring expenses yet</Text>
+              )}
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  itemInputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  itemNameInput: {
+    flex: 1,
+  },
+  itemPriceInput: {
+    width: 90,
+  },
+  addItemButton: {
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    justifyContent: 'center',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+  },
+  itemText: {
+    fontSize: 14,
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  templateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  templateMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,348 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { Colors } from '@/constants/colors';
+import {
+  Sale,
+  SaleAdjustmentReason,
+  SaleAdjustmentType,
+  SALE_ADJUSTMENT_APPROVER_ROLES,
+  SALE_ADJUSTMENT_REASONS,
+  SALE_ADJUSTMENT_REASON_LABELS,
+  SALE_ADJUSTMENT_TYPE_LABELS,
+  User,
+  formatCurrency,
+} from '@/types';
+
+type Theme = typeof Colors.light;
+
+const ADJUSTMENT_TYPES: SaleAdjustmentType[] = ['void', 'refund'];
+
+interface SaleAdjustmentModalProps {
+  visible: boolean;
+  theme: Theme;
+  sale: Sale | null;
+  currentUser: User | null;
+  users: User[];
+  onClose: () => void;
+  onSubmit: (payload: {
+    type: SaleAdjustmentType;
+    amount: number;
+    reason: SaleAdjustmentReason;
+    note: string | null;
+    approvedBy: string;
+  }) => Promise<void>;
+}
+
+export default function SaleAdjustmentModal({
+  visible,
+  theme,
+  sale,
+  currentUser,
+  users,
+  onClose,
+  onSubmit,
+}: SaleAdjustmentModalProps) {
+  const [type, setType] = useState<SaleAdjustmentType>('void');
+  const [amountInput, setAmountInput] = useState('');
+  const [reason, setReason] = useState<SaleAdjustmentReason | null>(null);
+  const [note, setNote] = useState('');
+  const [approverPin, setApproverPin] = useState('');
+  const [validationError, setValidationError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const canSelfApprove = !!currentUser && SALE_ADJUSTMENT_APPROVER_ROLES.includes(currentUser.role);
+
+  useEffect(() => {
+    if (!visible) return;
+    setType('void');
+    setAmountInput('');
+    setReason(null);
+    setNote('');
+    setApproverPin('');
+    setValidationError('');
+  }, [visible]);
+
+  if (!sale) return null;
+
+  const handleSubmit = async () => {
+    const amount = type === 'void' ? sale.total : Number.parseFloat(amountInput);
+    if (!Number.isFinite(amount) || amount <= 0 || amount > sale.total) {
+      setValidationError(`Enter a refund amount up to ${formatCurrency(sale.total)}.`);
+      return;
+    }
+    if (!reason) {
+      setValidationError('Choose a reason.');
+      return;
+    }
+    if (reason === 'other' && !note.trim()) {
+      setValidationError('Add a note explaining the reason.');
+      return;
+    }
+
+    let approvedBy = canSelfApprove ? currentUser?.id ?? null : null;
+    if (!approvedBy) {
+      const approver = users.find(
+        candidate => candidate.pin === approverPin.trim() && SALE_ADJUSTMENT_APPROVER_ROLES.includes(candidate.role)
+      );
+      if (!approver) {
+        setValidationError('Enter a valid manager PIN to approve.');
+        return;
+      }
+      approvedBy = approver.id;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ type, amount, reason, note: note.trim() || null, approvedBy });
+    } catch {
+      setValidationError('Unable to save the adjustment. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <View>
+                  <Text style={[styles.modalTitle, { color: theme.text }]}>Void / Refund Sale</Text>
+                  <Text style={[styles.modalSubtitle, { color: theme.textMuted }]}>
+                    {sale.name?.trim() || 'Sale'} · {formatCurrency(sale.total)}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+
+              <View style={styles.formContent}>
+                <View style={styles.chipRow}>
+                  {ADJUSTMENT_TYPES.map(option => {
+                    const isSelected = option === type;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.chip, { borderColor: isSelected ? theme.error : theme.cardBorder }]}
+                        onPress={() => setType(option)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.error : theme.textSecondary }]}>
+                          {SALE_ADJUSTMENT_TYPE_LABELS[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {type === 'refund' ? (
+                  <>
+                    <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Refund Amount (₱)</Text>
+                    <TextInput
+                      style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="0.00"
+                      placeholderTextColor={theme.textMuted}
+                      value={amountInput}
+                      onChangeText={setAmountInput}
+                      keyboardType="decimal-pad"
+                    />
+                    <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                      Refunds only change the money. Ingredients used by this sale are not returned to stock.
+                    </Text>
+                  </>
+                ) : (
+                  <Text style={[styles.helperText, { color: theme.textMuted }]}>
+                    The full {formatCurrency(sale.total)} is taken out of totals and its ingredients go back into stock. The sale stays on record.
+                  </Text>
+                )}
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Reason</Text>
+                <View style={styles.chipRow}>
+                  {SALE_ADJUSTMENT_REASONS.map(option => {
+                    const isSelected = option === reason;
+                    return (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.chip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                        onPress={() => setReason(option)}
+                      >
+                        <Text style={[styles.chipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                          {SALE_ADJUSTMENT_REASON_LABELS[option]}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Note {reason === 'other' ? '' : '(optional)'}</Text>
+                <TextInput
+                  style={[styles.input, styles.notesInput, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                  placeholder="What happened?"
+                  placeholderTextColor={theme.textMuted}
+                  value={note}
+                  onChangeText={setNote}
+                  multiline
+                />
+
+                {canSelfApprove ? (
+                  <Text style={[styles.helperText, { color: theme.textMuted }]}>Approved by {currentUser?.name}.</Text>
+                ) : (
+                  <>
+                    <Text style={[styles.inputLabel, { color: theme.textSecondary }]}>Manager PIN</Text>
+                    <TextInput
+                      style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="Approver PIN"
+                      placeholderTextColor={theme.textMuted}
+                      value={approverPin}
+                      onChangeText={setApproverPin}
+                      keyboardType="number-pad"
+                      secureTextEntry
+                    />
+                  </>
+                )}
+
+                {validationError ? (
+                  <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+                ) : null}
+              </View>
+
+              <View style={styles.modalFooter}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.error, opacity: isSubmitting ? 0.6 : 1 }]}
+                  onPress={handleSubmit}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.submitButtonText}>{type === 'void' ? 'Void Sale' : 'Record Refund'}</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 18,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  modalSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  formContent: {
+    gap: 10,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 14,
+    marginBottom: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  modalFooter: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
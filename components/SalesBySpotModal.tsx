@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Linking } from 'react-native';
+import { ExternalLink, MapPin, X } from 'lucide-react-native';
+import { useQuery } from '@tanstack/react-query';
+import { Colors } from '@/constants/colors';
+import { formatCurrency } from '@/types';
+import { getSalesByDateRange } from '@/services/database';
+import { formatLocalDate } from '@/services/dateUtils';
+import { clusterSalesBySpot, formatCoordinates, getMapsUrl, hasSaleCoordinates } from '@/services/saleSpots';
+
+type Theme = typeof Colors.light;
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+interface SalesBySpotModalProps {
+  visible: boolean;
+  theme: Theme;
+  locationId: string | null;
+  onClose: () => void;
+}
+
+export default function SalesBySpotModal({ visible, theme, locationId, onClose }: SalesBySpotModalProps) {
+  const [periodDays, setPeriodDays] = useState(30);
+
+  const endDate = formatLocalDate(new Date());
+  const startDate = formatLocalDate(new Date(Date.now() - (periodDays - 1) * 24 * 60 * 60 * 1000));
+
+  const { data: sales = [] } = useQuery({
+    queryKey: ['sales', 'spots', startDate, endDate, locationId],
+    queryFn: () => getSalesByDateRange(startDate, endDate, locationId),
+    enabled: visible,
+  });
+
+  const spots = useMemo(() => clusterSalesBySpot(sales), [sales]);
+  const untaggedCount = useMemo(() => sales.filter(sale => !hasSaleCoordinates(sale)).length, [sales]);
+
+  const openInMaps = (url: string) => {
+    Linking.openURL(url).catch(error => console.log('Error opening maps:', error));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <View style={[styles.modalCard, { backgroundColor: theme.card }]}>
+          <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>Sales by Spot</Text>
+              <TouchableOpacity onPress={onClose}>
+                <X color={theme.textMuted} size={24} />
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.periodRow}>
+              {PERIOD_OPTIONS.map(days => {
+                const isSelected = days === periodDays;
+                return (
+                  <TouchableOpacity
+                    key={days}
+                    style={[styles.periodChip, { borderColor: isSelected ? theme.primary : theme.cardBorder }]}
+                    onPress={() => setPeriodDays(days)}
+                  >
+                    <Text style={[styles.periodChipText, { color: isSelected ? theme.primary : theme.textSecondary }]}>
+                      Last {days} days
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {spots.map((spot, index) => (
+              <View key={spot.id} style={[styles.spotRow, { borderColor: theme.cardBorder }]}>
+                <View style={[styles.rankBadge, { backgroundColor: theme.primary + '20' }]}>
+                  <Text style={[styles.rankText, { color: theme.primary }]}>{index + 1}</Text>
+                </View>
+                <View style={styles.spotInfo}>
+                  <Text style={[styles.spotTotal, { color: theme.success }]}>{formatCurrency(spot.total)}</Text>
+                  <Text style={[styles.spotMeta, { color: theme.textSecondary }]}>
+                    {spot.salesCount} {spot.salesCount === 1 ? 'sale' : 'sales'} · {formatCoordinates(spot)}
+                  </Text>
+                  <Text style={[styles.spotMeta, { color: theme.textMuted }]}>
+                    Last sale {new Date(spot.lastSaleAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  style={[styles.iconButton, { backgroundColor: theme.primary + '20' }]}
+                  onPress={() => openInMaps(getMapsUrl(spot))}
+                >
+                  <ExternalLink color={theme.primary} size={16} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {spots.length === 0 && (
+              <View style={styles.emptyState}>
+                <MapPin color={theme.textMuted} size={28} />
+                <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+                  No GPS-tagged sales in this period. Turn on sale location tagging in Settings.
+                </Text>
+              </View>
+            )}
+
+            {untaggedCount > 0 && (
+              <Text style={[styles.footnote, { color: theme.textMuted }]}>
+                {untaggedCount} {untaggedCount === 1 ? 'sale has' : 'sales have'} no location and {untaggedCount === 1 ? 'is' : 'are'} not included.
+              </Text>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalCard: {
+    width: '90%',
+    maxWidth: 520,
+    borderRadius: 16,
+    maxHeight: '85%',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  periodRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  periodChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  periodChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  spotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  rankBadge: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rankText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  spotInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  spotTotal: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  spotMeta: {
+    fontSize: 12,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 24,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  footnote: {
+    fontSize: 12,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+import { Colors } from '@/constants/colors';
+
+type Theme = typeof Colors.light;
+
+interface SalesTargetRingProps {
+  theme: Theme;
+  actual: number;
+  target: number;
+  size?: number;
+  strokeWidth?: number;
+}
+
+export default function SalesTargetRing({ theme, actual, target, size = 88, strokeWidth = 9 }: SalesTargetRingProps) {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const progress = target > 0 ? Math.max(0, actual) / target : 0;
+  const clampedProgress = Math.min(1, progress);
+  const color = progress >= 1 ? theme.success : theme.primary;
+
+  return (
+    <View style={{ width: size, height: size }}>
+      <Svg width={size} height={size}>
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={theme.divider}
+          strokeWidth={strokeWidth}
+          fill="none"
+        />
+        <Circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          stroke={color}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          strokeDasharray={`${circumference} ${circumference}`}
+          strokeDashoffset={circumference * (1 - clampedProgress)}
+          fill="none"
+          transform={`rotate(-90 ${size / 2} ${size / 2})`}
+        />
+      </Svg>
+      <View style={styles.labelContainer}>
+        <Text style={[styles.percentText, { color }]}>{Math.round(progress * 100)}%</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  labelContainer: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  percentText: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,248 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Platform,
+  KeyboardAvoidingView,
+  ScrollView,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/colors';
+import { formatCurrency } from '@/types';
+import { getSalesTargets, setSalesTarget } from '@/services/database';
+import { getSalesTargetForWeekday } from '@/services/salesTargets';
+import { getWeekdayLabels } from '@/services/dateUtils';
+import { useAuth } from '@/contexts/AuthContext';
+import { useSync } from '@/contexts/SyncContext';
+
+type Theme = typeof Colors.light;
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+const WEEKDAY_LABELS = getWeekdayLabels();
+
+interface SalesTargetsModalProps {
+  visible: boolean;
+  theme: Theme;
+  locationId: string;
+  locationName: string;
+  onClose: () => void;
+}
+
+export default function SalesTargetsModal({ visible, theme, locationId, locationName, onClose }: SalesTargetsModalProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { checkPendingCount } = useSync();
+  const [inputs, setInputs] = useState<string[]>(WEEKDAYS.map(() => ''));
+  const [validationError, setValidationError] = useState('');
+
+  const { data: targets = [] } = useQuery({
+    queryKey: ['salesTargets'],
+    queryFn: getSalesTargets,
+    enabled: visible,
+  });
+
+  const savedAmounts = useMemo(
+    () => WEEKDAYS.map(weekday => getSalesTargetForWeekday(targets, weekday, locationId)),
+    [locationId, targets]
+  );
+
+  useEffect(() => {
+    if (visible) {
+      setInputs(savedAmounts.map(amount => (amount > 0 ? amount.toFixed(2) : '')));
+      setValidationError('');
+    }
+  }, [savedAmounts, visible]);
+
+  const weeklyTotal = inputs.reduce((sum, input) => sum + (Number.parseFloat(input) || 0), 0);
+
+  const saveTargetsMutation = useMutation({
+    mutationFn: async (amounts: number[]) => {
+      for (const weekday of WEEKDAYS) {
+        if (amounts[weekday] !== savedAmounts[weekday]) {
+          await setSalesTarget(locationId, weekday, amounts[weekday], user?.id || '');
+        }
+      }
+    },
+    onSuccess: async () => {
+      queryClient.invalidateQueries({ queryKey: ['salesTargets'] });
+      await checkPendingCount();
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    },
+  });
+
+  const handleSave = () => {
+    const amounts = inputs.map(input => (input.trim() ? Number.parseFloat(input) : 0));
+    if (amounts.some(amount => !Number.isFinite(amount) || amount < 0)) {
+      setValidationError('Targets must be zero or a positive amount.');
+      return;
+    }
+    saveTargetsMutation.mutate(amounts.map(amount => Number(amount.toFixed(2))));
+  };
+
+  const updateInput = (weekday: number, value: string) => {
+    setInputs(prev => prev.map((input, index) => (index === weekday ? value : input)));
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <KeyboardAvoidingView
+          style={styles.keyboardAvoidingView}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          keyboardVerticalOffset={Platform.OS === 'ios' ? 64 : 0}
+        >
+          <View style={[styles.formModal, { backgroundColor: theme.card }]}>
+            <ScrollView
+              contentContainerStyle={styles.formScrollContent}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              <View style={styles.modalHeader}>
+                <Text style={[styles.modalTitle, { color: theme.text }]}>Daily Sales Targets</Text>
+                <TouchableOpacity onPress={onClose}>
+                  <X color={theme.textMuted} size={24} />
+                </TouchableOpacity>
+              </View>
+              <Text style={[styles.helperText, { color: theme.textSecondary }]}>
+                {locationName} · leave a day blank for no target
+              </Text>
+
+              <View style={styles.formContent}>
+                {WEEKDAYS.map(weekday => (
+                  <View key={weekday} style={styles.targetRow}>
+                    <Text style={[styles.weekdayLabel, { color: theme.text }]}>{WEEKDAY_LABELS[weekday]}</Text>
+                    <TextInput
+                      style={[styles.input, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder, color: theme.text }]}
+                      placeholder="₱0.00"
+                      placeholderTextColor={theme.textMuted}
+                      value={inputs[weekday]}
+                      onChangeText={value => updateInput(weekday, value)}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ))}
+                <View style={styles.targetRow}>
+                  <Text style={[styles.weekdayLabel, { color: theme.textSecondary }]}>Week</Text>
+                  <Text style={[styles.weeklyTotal, { color: theme.primary }]}>{formatCurrency(weeklyTotal)}</Text>
+                </View>
+              </View>
+
+              {validationError ? (
+                <Text style={[styles.helperText, { color: theme.error }]}>{validationError}</Text>
+              ) : null}
+              <View style={styles.formActions}>
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: theme.cardBorder }]}
+                  onPress={onClose}
+                >
+                  <Text style={[styles.cancelButtonText, { color: theme.textSecondary }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.submitButton, { backgroundColor: theme.primary }]}
+                  onPress={handleSave}
+                >
+                  <Text style={styles.submitButtonText}>Save Targets</Text>
+                </TouchableOpacity>
+              </View>
+            </ScrollView>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyboardAvoidingView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  formModal: {
+    width: '90%',
+    maxWidth: 420,
+    borderRadius: 16,
+    maxHeight: '90%',
+  },
+  formScrollContent: {
+    padding: 20,
+    paddingBottom: 24,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  formContent: {
+    gap: 10,
+    marginTop: 14,
+    marginBottom: 16,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  weekdayLabel: {
+    width: 48,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+  },
+  weeklyTotal: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    textAlign: 'right',
+  },
+  helperText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  cancelButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelButtonText: {
+    fontWeight: '600',
+  },
+  submitButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 10,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
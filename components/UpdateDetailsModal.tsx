@@ -28,7 +28,11 @@ function getActivityIcon(type: ActivityType, color: string) {
     case 'inventory_delete':
       return <Package color={color} size={24} />;
     case 'sale_add':
+    case 'sale_update':
+    case 'sale_void':
+    case 'credit_payment':
     case 'expense_add':
+    case 'expense_update':
       return <ShoppingCart color={color} size={24} />;
     case 'profile_update':
       return <User color={color} size={24} />;
@@ -49,8 +53,16 @@ function getActivityTypeLabel(type: ActivityType): string {
       return 'Inventory Deleted';
     case 'sale_add':
       return 'Sale Recorded';
+    case 'sale_update':
+      return 'Sale Updated';
+    case 'sale_void':
+      return 'Sale Voided / Refunded';
+    case 'credit_payment':
+      return 'Credit Payment Received';
     case 'expense_add':
       return 'Expense Recorded';
+    case 'expense_update':
+      return 'Expense Updated';
     case 'profile_update':
       return 'Profile Updated';
     case 'settings_change':
@@ -70,8 +82,16 @@ function getWhatChangedText(activity: Activity): string {
       return 'An inventory item was removed from the system. All associated records remain for historical purposes.';
     case 'sale_add':
       return 'A new sale transaction was recorded. This contributes to the daily sales total and revenue tracking.';
+    case 'sale_update':
+      return 'An existing sale was edited. The daily sales total and revenue tracking now reflect the corrected values.';
+    case 'sale_void':
+      return 'A sale was voided or refunded with manager approval. The original sale is kept and the adjustment is taken out of the sales totals.';
+    case 'credit_payment':
+      return 'A customer paid toward their credit balance. The payment reduces what they owe on the receivables list.';
     case 'expense_add':
       return 'A new expense was logged. This will be reflected in the daily expenses and profit calculations.';
+    case 'expense_update':
+      return 'An existing expense was edited. The daily expenses and profit calculations now reflect the corrected values.';
     case 'profile_update':
       return 'User profile information was updated. Changes may include name, display settings, or other personal details.';
     case 'settings_change':
@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { X } from 'lucide-react-native';
+import { useQuery } from '@tanstack/react-query';
+import { Colors } from '@/constants/colors';
+import { getRecipes, getSalesByDateRange, getStockEntries, getStockItems } from '@/services/database';
+import { buildIngredientUsageReport } from '@/services/recipeUsage';
+import { formatLocalDate } from '@/services/dateUtils';
+
+type Theme = typeof Colors.light;
+
+type UsageRangeKey = 'today' | 'week' | 'month';
+
+const USAGE_RANGES: { key: UsageRangeKey; label: string; days: number }[] = [
+  { key: 'today', label: 'Today', days: 1 },
+  { key: 'week', label: 'Last 7 days', days: 7 },
+  { key: 'month', label: 'Last 30 days', days: 30 },
+];
+
+interface UsageReportModalProps {
+  visible: boolean;
+  theme: Theme;
+  onClose: () => void;
+}
+
+function formatQuantity(quantity: number): string {
+  return Number.isInteger(quantity) ? quantity.toString() : quantity.toFixed(2);
+}
+
+export default function UsageReportModal({ visible, theme, onClose }: UsageReportModalProps) {
+  const [rangeKey, setRangeKey] = useState<UsageRangeKey>('week');
+
+  const { startDate, endDate } = useMemo(() => {
+    const range = USAGE_RANGES.find(option => option.key === rangeKey) ?? USAGE_RANGES[1];
+    const end = new Date();
+    const start = new Date(end);
+    start.setDate(end.getDate() - (range.days - 1));
+    return { startDate: formatLocalDate(start), endDate: formatLocalDate(end) };
+  }, [rangeKey]);
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['ingredientUsage', startDate, endDate],
+    queryFn: async () => {
+      const [stockItems, entries, sales, recipes] = await Promise.all([
+        getStockItems(),
+        getStockEntries({ startDate }),
+        getSalesByDateRange(startDate, endDate),
+        getRecipes(),
+      ]);
+      return buildIngredientUsageReport({ stockItems, entries, sales, recipes, startDate, endDate });
+    },
+    enabled: visible,
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={[styles.modalOverlay, { backgroundColor: theme.modalOverlay }]}>
+        <View style={[styles.reportModal, { backgroundColor: theme.card }]}>
+          <View style={styles.modalHeader}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Theoretical vs Actual Usage</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X color={theme.textMuted} size={24} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.rangeRow}>
+            {USAGE_RANGES.map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={[
+                  styles.rangeChip,
+                  { borderColor: rangeKey === option.key ? theme.primary : theme.cardBorder },
+                ]}
+                onPress={() => setRangeKey(option.key)}
+              >
+                <Text style={[styles.rangeChipText, { color: rangeKey === option.key ? theme.primary : theme.textSecondary }]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={[styles.helperText, { color: theme.textMuted }]}>
+            Theoretical usage comes from recipes × items sold. Actual usage is opening stock + stock in − closing stock.
+          </Text>
+
+          <ScrollView style={styles.reportScroll} showsVerticalScrollIndicator={false}>
+            <View style={[styles.tableRow, styles.tableHeader, { borderBottomColor: theme.divider }]}>
+              <Text style={[styles.nameCell, styles.headerText, { color: theme.textSecondary }]}>Ingredient</Text>
+              <Text style={[styles.valueCell, styles.headerText, { color: theme.textSecondary }]}>Theory</Text>
+              <Text style={[styles.valueCell, styles.headerText, { color: theme.textSecondary }]}>Actual</Text>
+              <Text style={[styles.valueCell, styles.headerText, { color: theme.textSecondary }]}>Variance</Text>
+            </View>
+            {isLoading ? (
+              <ActivityIndicator color={theme.primary} style={styles.loader} />
+            ) : (
+              rows.map(row => (
+                <View key={row.stockItemId} style={[styles.tableRow, { borderBottomColor: theme.divider }]}>
+                  <View style={styles.nameCell}>
+                    <Text style={[styles.rowName, { color: theme.text }]}>{row.name}</Text>
+                    <Text style={[styles.rowMeta, { color: theme.textMuted }]}>
+                      {formatQuantity(row.openingOnHand)} → {formatQuantity(row.closingOnHand)} {row.unit}
+                      {row.stockIn > 0 ? ` · +${formatQuantity(row.stockIn)} in` : ''}
+                    </Text>
+                  </View>
+                  <Text style={[styles.valueCell, { color: theme.text }]}>{formatQuantity(row.theoretical)}</Text>
+                  <Text style={[styles.valueCell, { color: theme.text }]}>{formatQuantity(row.actual)}</Text>
+                  <Text
+                    style={[
+                      styles.valueCell,
+                      styles.varianceText,
+                      { color: row.variance > 0 ? theme.error : row.variance < 0 ? theme.warning : theme.success },
+                    ]}
+                  >
+                    {row.variance > 0 ? '+' : ''}{formatQuantity(row.variance)}
+                  </Text>
+                </View>
+              ))
+            )}
+            {!isLoading && rows.length === 0 && (
+              <Text style={[styles.emptyText, { color: theme.textMuted }]}>No ingredient movement in this range</Text>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  reportModal: {
+    width: '90%',
+    maxWidth: 560,
+    maxHeight: '85%',
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    flex: 1,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  rangeChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  rangeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  helperText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  reportScroll: {
+    flexGrow: 0,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  tableHeader: {
+    paddingVertical: 6,
+  },
+  headerText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  nameCell: {
+    flex: 2,
+  },
+  valueCell: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 13,
+  },
+  varianceText: {
+    fontWeight: '600',
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  rowMeta: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  loader: {
+    paddingVertical: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+});
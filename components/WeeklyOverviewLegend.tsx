@@ -1,34 +1,37 @@
 import React, { useMemo } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { ThemeColors } from '@/constants/colors';
-import { ROLE_DISPLAY_NAMES } from '@/types';
+import { SplitRecipient } from '@/types';
+import { getSplitRecipientAbbreviation } from '@/services/netSalesSplit';
 
 interface WeeklyOverviewLegendProps {
   theme: ThemeColors;
   salesColor: string;
   expensesColor: string;
-  omColor: string;
-  gmColor: string;
-  fcColor: string;
+  recipients: SplitRecipient[];
+  targetColor: string;
 }
 
 export default function WeeklyOverviewLegend({
   theme,
   salesColor,
   expensesColor,
-  omColor,
-  gmColor,
-  fcColor,
+  recipients,
+  targetColor,
 }: WeeklyOverviewLegendProps) {
   const legendRows = useMemo(
     () => [
-      { key: 'S', label: 'Sales', color: salesColor },
-      { key: 'E', label: 'Expenses', color: expensesColor },
-      { key: 'OM', label: 'Operation Manager', color: omColor },
-      { key: 'AC', label: ROLE_DISPLAY_NAMES.general_manager, color: gmColor },
-      { key: 'FC', label: 'Food Cart', color: fcColor },
+      { key: 'S', abbrev: 'S', label: 'Sales', color: salesColor },
+      { key: 'E', abbrev: 'E', label: 'Expenses', color: expensesColor },
+      ...recipients.map(recipient => ({
+        key: recipient.id,
+        abbrev: getSplitRecipientAbbreviation(recipient.name),
+        label: recipient.name,
+        color: recipient.color,
+      })),
+      { key: 'T', abbrev: 'T', label: 'Daily sales target (dashed line)', color: targetColor },
     ],
-    [salesColor, expensesColor, omColor, gmColor, fcColor]
+    [salesColor, expensesColor, recipients, targetColor]
   );
 
   return (
@@ -47,7 +50,7 @@ export default function WeeklyOverviewLegend({
         {legendRows.map((row) => (
           <View key={row.key} style={styles.row}>
             <View style={[styles.dot, { backgroundColor: row.color }]} />
-            <Text style={[styles.abbrev, { color: theme.text }]}>{row.key}</Text>
+            <Text style={[styles.abbrev, { color: theme.text }]}>{row.abbrev}</Text>
             <Text style={[styles.separator, { color: theme.textMuted }]}>—</Text>
             <Text style={[styles.label, { color: theme.textSecondary }]}>{row.label}</Text>
           </View>
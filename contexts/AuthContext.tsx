@@ -2,7 +2,7 @@ import createContextHook from '@nkzw/create-context-hook';
 import { useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { User, AppSettings } from '@/types';
-import { initDatabase, getUserByPin, updateUser, isPinTaken, createActivity } from '@/services/database';
+import { initDatabase, getUserByPin, updateUser, isPinTaken, createActivity, materializeRecurringExpenses, migrateLegacyNetSalesSplit } from '@/services/database';
 import { bindSupabaseSessionToAppUser, clearSupabaseSessionBinding } from '@/services/supabase';
 
 const SETTINGS_KEY = '@myfoodcart_settings';
@@ -28,6 +28,8 @@ export const [AuthProvider, useAuth] = createContextHook(() => {
     console.log('Initializing app...');
     try {
       await initDatabase();
+      await materializeRecurringExpenses();
+      await migrateLegacyNetSalesSplit();
       
       const savedSettings = await AsyncStorage.getItem(SETTINGS_KEY);
       if (savedSettings) {
@@ -3,13 +3,31 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import NetInfo from '@react-native-community/netinfo';
 import { useQueryClient } from '@tanstack/react-query';
-import { ChatMessage, OutboxEntityType, OutboxItem } from '@/types';
+import { ChatMessage, ExpenseReceipt, OutboxEntityType, OutboxItem } from '@/types';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   getUsers,
   getSales,
   getExpenses,
+  getExpenseCategories,
+  getRecurringExpenses,
+  materializeRecurringExpenses,
+  getCashDrawerCloses,
+  getShifts,
+  getLocations,
+  getCustomers,
+  getCustomerPayments,
+  getSuppliers,
+  getSalesTargets,
+  getNetSalesSplits,
+  getPayouts,
+  getCashAdvances,
+  getProducts,
+  getStockItems,
+  getStockEntries,
+  getRecipes,
   getActivities,
+  updateExpense,
   getChatMessages,
   getPendingSyncCount,
   getOutboxItems,
@@ -19,6 +37,22 @@ import {
   upsertUsersFromServer,
   upsertSalesFromServer,
   upsertExpensesFromServer,
+  upsertExpenseCategoriesFromServer,
+  upsertRecurringExpensesFromServer,
+  upsertCashDrawerClosesFromServer,
+  upsertShiftsFromServer,
+  upsertLocationsFromServer,
+  upsertCustomersFromServer,
+  upsertCustomerPaymentsFromServer,
+  upsertSuppliersFromServer,
+  upsertSalesTargetsFromServer,
+  upsertNetSalesSplitsFromServer,
+  upsertPayoutsFromServer,
+  upsertCashAdvancesFromServer,
+  upsertProductsFromServer,
+  upsertStockItemsFromServer,
+  upsertStockEntriesFromServer,
+  upsertRecipesFromServer,
   upsertActivitiesFromServer,
   upsertChatMessagesFromServer,
   migrateLocalUserIdsToServerIds,
@@ -26,6 +60,22 @@ import {
   markUsersSynced,
   markSalesSynced,
   markExpensesSynced,
+  markExpenseCategoriesSynced,
+  markRecurringExpensesSynced,
+  markCashDrawerClosesSynced,
+  markShiftsSynced,
+  markLocationsSynced,
+  markCustomersSynced,
+  markCustomerPaymentsSynced,
+  markSuppliersSynced,
+  markSalesTargetsSynced,
+  markNetSalesSplitsSynced,
+  markPayoutsSynced,
+  markCashAdvancesSynced,
+  markProductsSynced,
+  markStockItemsSynced,
+  markStockEntriesSynced,
+  markRecipesSynced,
   markActivitiesSynced,
   markChatMessagesSynced,
 } from '@/services/database';
@@ -35,6 +85,22 @@ import {
   syncUsersToSupabase,
   syncSalesToSupabase,
   syncExpensesToSupabase,
+  syncExpenseCategoriesToSupabase,
+  syncRecurringExpensesToSupabase,
+  syncCashDrawerClosesToSupabase,
+  syncShiftsToSupabase,
+  syncLocationsToSupabase,
+  syncCustomersToSupabase,
+  syncCustomerPaymentsToSupabase,
+  syncSuppliersToSupabase,
+  syncSalesTargetsToSupabase,
+  syncNetSalesSplitsToSupabase,
+  syncPayoutsToSupabase,
+  syncCashAdvancesToSupabase,
+  syncProductsToSupabase,
+  syncStockItemsToSupabase,
+  syncStockEntriesToSupabase,
+  syncRecipesToSupabase,
   syncActivitiesToSupabase,
   syncChatMessagesToSupabase,
   deleteChatMessageFromSupabase,
@@ -42,10 +108,28 @@ import {
   fetchUsersFromSupabase,
   fetchSalesFromSupabase,
   fetchExpensesFromSupabase,
+  fetchExpenseCategoriesFromSupabase,
+  fetchRecurringExpensesFromSupabase,
+  fetchCashDrawerClosesFromSupabase,
+  fetchShiftsFromSupabase,
+  fetchLocationsFromSupabase,
+  fetchCustomersFromSupabase,
+  fetchCustomerPaymentsFromSupabase,
+  fetchSuppliersFromSupabase,
+  fetchSalesTargetsFromSupabase,
+  fetchNetSalesSplitsFromSupabase,
+  fetchPayoutsFromSupabase,
+  fetchCashAdvancesFromSupabase,
+  fetchProductsFromSupabase,
+  fetchStockItemsFromSupabase,
+  fetchStockEntriesFromSupabase,
+  fetchRecipesFromSupabase,
   fetchActivitiesFromSupabase,
   fetchChatMessagesFromSupabase,
   findUserByPinInSupabase,
+  uploadReceiptToSupabase,
 } from '@/services/supabase';
+import { hasPendingReceiptUpload } from '@/services/receiptStorage';
 
 export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline';
 
@@ -55,7 +139,7 @@ const DEVELOPER_PIN = '2345';
 const LAST_SYNC_TIME_KEY = '@myfoodcart_last_sync_time';
 const CHAT_SYNC_FETCH_LIMIT = 200;
 
-type DeletionTable = 'users' | 'sales' | 'expenses' | 'activities' | 'chat_messages';
+type DeletionTable = 'users' | 'sales' | 'expenses' | 'expense_categories' | 'recurring_expenses' | 'locations' | 'customers' | 'customer_payments' | 'suppliers' | 'payouts' | 'cash_advances' | 'products' | 'stock_items' | 'stock_entries' | 'recipes' | 'activities' | 'chat_messages';
 
 function getDeletionTableName(entityType: OutboxEntityType): string | null {
   switch (entityType) {
@@ -63,6 +147,30 @@ function getDeletionTableName(entityType: OutboxEntityType): string | null {
       return 'sales';
     case 'expense':
       return 'expenses';
+    case 'expense_category':
+      return 'expense_categories';
+    case 'recurring_expense':
+      return 'recurring_expenses';
+    case 'location':
+      return 'locations';
+    case 'customer':
+      return 'customers';
+    case 'customer_payment':
+      return 'customer_payments';
+    case 'supplier':
+      return 'suppliers';
+    case 'payout':
+      return 'payouts';
+    case 'cash_advance':
+      return 'cash_advances';
+    case 'product':
+      return 'products';
+    case 'stock_item':
+      return 'stock_items';
+    case 'stock_entry':
+      return 'stock_entries';
+    case 'recipe':
+      return 'recipes';
     case 'user':
       return 'users';
     case 'activity':
@@ -74,6 +182,71 @@ function getDeletionTableName(entityType: OutboxEntityType): string | null {
   }
 }
 
+async function pushPendingRecords<T extends { id: string }>(
+  entityType: OutboxEntityType,
+  pendingRecords: T[],
+  syncRecords: (records: T[]) => Promise<boolean>,
+  markSynced: (ids: string[]) => Promise<void>
+): Promise<boolean> {
+  if (pendingRecords.length === 0) return true;
+
+  const pendingIds = new Set(pendingRecords.map(record => record.id));
+  const upsertItems = (await getOutboxItems()).filter(
+    (item): item is OutboxItem =>
+      item.operation === 'upsert' &&
+      item.entityType === entityType &&
+      pendingIds.has(item.entityId)
+  );
+  for (const item of upsertItems) {
+    await updateOutboxItemStatus(item.id, 'in_progress');
+  }
+  const result = await syncRecords(pendingRecords);
+  if (result) {
+    await markSynced(Array.from(pendingIds));
+    for (const item of upsertItems) {
+      await removeOutboxItem(item.id);
+    }
+    return true;
+  }
+  for (const item of upsertItems) {
+    await updateOutboxItemStatus(item.id, 'failed');
+  }
+  return false;
+}
+
+// Uploaded receipt URLs are written back onto the expense so the next push carries them.
+async function uploadPendingReceipts(): Promise<boolean> {
+  const expenses = await getExpenses();
+  let success = true;
+
+  for (const expense of expenses) {
+    const receipts = expense.receipts ?? [];
+    if (!receipts.some(hasPendingReceiptUpload)) continue;
+
+    let uploadedCount = 0;
+    const updatedReceipts: ExpenseReceipt[] = [];
+    for (const receipt of receipts) {
+      if (!hasPendingReceiptUpload(receipt) || !receipt.localUri) {
+        updatedReceipts.push(receipt);
+        continue;
+      }
+      const remoteUrl = await uploadReceiptToSupabase(`${expense.id}/${receipt.id}.jpg`, receipt.localUri);
+      if (remoteUrl) {
+        uploadedCount += 1;
+      } else {
+        success = false;
+      }
+      updatedReceipts.push({ ...receipt, remoteUrl });
+    }
+
+    if (uploadedCount > 0) {
+      await updateExpense({ ...expense, receipts: updatedReceipts });
+    }
+  }
+
+  return success;
+}
+
 export const [SyncProvider, useSync] = createContextHook(() => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -89,9 +262,26 @@ export const [SyncProvider, useSync] = createContextHook(() => {
     queryClient.invalidateQueries({ queryKey: ['users'] });
     queryClient.invalidateQueries({ queryKey: ['sales'] });
     queryClient.invalidateQueries({ queryKey: ['expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['expenseCategories'] });
+    queryClient.invalidateQueries({ queryKey: ['recurringExpenses'] });
+    queryClient.invalidateQueries({ queryKey: ['cashDrawerCloses'] });
+    queryClient.invalidateQueries({ queryKey: ['shifts'] });
+    queryClient.invalidateQueries({ queryKey: ['locations'] });
+    queryClient.invalidateQueries({ queryKey: ['customers'] });
+    queryClient.invalidateQueries({ queryKey: ['customerPayments'] });
+    queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    queryClient.invalidateQueries({ queryKey: ['salesTargets'] });
+    queryClient.invalidateQueries({ queryKey: ['netSalesSplits'] });
+    queryClient.invalidateQueries({ queryKey: ['payouts'] });
+    queryClient.invalidateQueries({ queryKey: ['cashAdvances'] });
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    queryClient.invalidateQueries({ queryKey: ['stockItems'] });
+    queryClient.invalidateQueries({ queryKey: ['stockEntries'] });
+    queryClient.invalidateQueries({ queryKey: ['recipes'] });
     queryClient.invalidateQueries({ queryKey: ['activities'] });
     queryClient.invalidateQueries({ queryKey: ['weeklySalesTotals'] });
     queryClient.invalidateQueries({ queryKey: ['weeklyExpenseTotals'] });
+    queryClient.invalidateQueries({ queryKey: ['dailyTotals'] });
     queryClient.invalidateQueries({ queryKey: ['monthlyTotals'] });
     queryClient.invalidateQueries({ queryKey: ['chatMessages'] });
     queryClient.invalidateQueries({ queryKey: ['chatMessageCount'] });
@@ -346,11 +536,34 @@ export const [SyncProvider, useSync] = createContextHook(() => {
         }
       }
 
+      console.log('Uploading pending receipts...');
+      if (!(await uploadPendingReceipts())) {
+        pushSuccess = false;
+      }
+
+      await materializeRecurringExpenses();
+
       console.log('Fetching local data...');
-      let [users, sales, expenses, activities, chatMessages] = await Promise.all([
+      let [users, sales, expenses, expenseCategories, recurringExpenses, cashDrawerCloses, shifts, locations, customers, customerPayments, suppliers, salesTargets, netSalesSplits, payouts, cashAdvances, products, stockItems, stockEntries, recipes, activities, chatMessages] = await Promise.all([
         getUsers(),
         getSales(),
         getExpenses(),
+        getExpenseCategories(),
+        getRecurringExpenses(),
+        getCashDrawerCloses(),
+        getShifts(),
+        getLocations(),
+        getCustomers(),
+        getCustomerPayments(),
+        getSuppliers(),
+        getSalesTargets(),
+        getNetSalesSplits(),
+        getPayouts(),
+        getCashAdvances(),
+        getProducts(),
+        getStockItems(),
+        getStockEntries(),
+        getRecipes(),
         getActivities(),
         getChatMessages({ limit: CHAT_SYNC_FETCH_LIMIT }),
       ]);
@@ -358,6 +571,24 @@ export const [SyncProvider, useSync] = createContextHook(() => {
 
       const saleById = new Map(sales.map(sale => [sale.id, sale]));
       const expenseById = new Map(expenses.map(expense => [expense.id, expense]));
+      const localRecordsByType: Partial<Record<OutboxEntityType, Map<string, { syncStatus: string }>>> = {
+        expense_category: new Map(expenseCategories.map(category => [category.id, category])),
+        recurring_expense: new Map(recurringExpenses.map(template => [template.id, template])),
+        cash_drawer_close: new Map(cashDrawerCloses.map(close => [close.id, close])),
+        shift: new Map(shifts.map(shift => [shift.id, shift])),
+        location: new Map(locations.map(location => [location.id, location])),
+        customer: new Map(customers.map(customer => [customer.id, customer])),
+        customer_payment: new Map(customerPayments.map(payment => [payment.id, payment])),
+        supplier: new Map(suppliers.map(supplier => [supplier.id, supplier])),
+        sales_target: new Map(salesTargets.map(target => [target.id, target])),
+        net_sales_split: new Map(netSalesSplits.map(config => [config.id, config])),
+        payout: new Map(payouts.map(payout => [payout.id, payout])),
+        cash_advance: new Map(cashAdvances.map(advance => [advance.id, advance])),
+        product: new Map(products.map(product => [product.id, product])),
+        stock_item: new Map(stockItems.map(stockItem => [stockItem.id, stockItem])),
+        stock_entry: new Map(stockEntries.map(entry => [entry.id, entry])),
+        recipe: new Map(recipes.map(recipe => [recipe.id, recipe])),
+      };
       const chatMessageById = new Map(chatMessages.map(message => [message.id, message]));
       const staleUpserts = outboxSnapshot.filter(item => {
         if (item.operation !== 'upsert') return false;
@@ -369,6 +600,11 @@ export const [SyncProvider, useSync] = createContextHook(() => {
           const local = expenseById.get(item.entityId);
           return !local || local.syncStatus !== 'pending';
         }
+        const localRecords = localRecordsByType[item.entityType];
+        if (localRecords) {
+          const local = localRecords.get(item.entityId);
+          return !local || local.syncStatus !== 'pending';
+        }
         if (item.entityType === 'chat_message') {
           const local = chatMessageById.get(item.entityId);
           return !local || local.syncStatus !== 'pending';
@@ -382,11 +618,27 @@ export const [SyncProvider, useSync] = createContextHook(() => {
       let pendingUsers = users.filter(localUser => localUser.syncStatus === 'pending');
       const pendingSales = sales.filter(sale => sale.syncStatus === 'pending');
       const pendingExpenses = expenses.filter(expense => expense.syncStatus === 'pending');
+      const pendingExpenseCategories = expenseCategories.filter(category => category.syncStatus === 'pending');
+      const pendingRecurringExpenses = recurringExpenses.filter(template => template.syncStatus === 'pending');
+      const pendingCashDrawerCloses = cashDrawerCloses.filter(close => close.syncStatus === 'pending');
+      const pendingShifts = shifts.filter(shift => shift.syncStatus === 'pending');
+      const pendingLocations = locations.filter(location => location.syncStatus === 'pending');
+      const pendingCustomers = customers.filter(customer => customer.syncStatus === 'pending');
+      const pendingCustomerPayments = customerPayments.filter(payment => payment.syncStatus === 'pending');
+      const pendingSuppliers = suppliers.filter(supplier => supplier.syncStatus === 'pending');
+      const pendingSalesTargets = salesTargets.filter(target => target.syncStatus === 'pending');
+      const pendingNetSalesSplits = netSalesSplits.filter(config => config.syncStatus === 'pending');
+      const pendingPayouts = payouts.filter(payout => payout.syncStatus === 'pending');
+      const pendingCashAdvances = cashAdvances.filter(advance => advance.syncStatus === 'pending');
+      const pendingProducts = products.filter(product => product.syncStatus === 'pending');
+      const pendingStockItems = stockItems.filter(stockItem => stockItem.syncStatus === 'pending');
+      const pendingStockEntries = stockEntries.filter(entry => entry.syncStatus === 'pending');
+      const pendingRecipes = recipes.filter(recipe => recipe.syncStatus === 'pending');
       const pendingActivities = activities.filter(activity => activity.syncStatus === 'pending');
       const pendingChatMessages = chatMessages.filter(message => message.syncStatus === 'pending');
 
       console.log(
-        `Pushing pending changes: ${pendingUsers.length} users, ${pendingSales.length} sales, ${pendingExpenses.length} expenses, ${pendingActivities.length} activities, ${pendingChatMessages.length} chat messages`
+        `Pushing pending changes: ${pendingUsers.length} users, ${pendingSales.length} sales, ${pendingExpenses.length} expenses, ${pendingExpenseCategories.length} expense categories, ${pendingRecurringExpenses.length} recurring expenses, ${pendingCashDrawerCloses.length} cash drawer closes, ${pendingShifts.length} shifts, ${pendingLocations.length} locations, ${pendingCustomers.length} customers, ${pendingCustomerPayments.length} customer payments, ${pendingSuppliers.length} suppliers, ${pendingSalesTargets.length} sales targets, ${pendingNetSalesSplits.length} net sales splits, ${pendingPayouts.length} payouts, ${pendingCashAdvances.length} cash advances, ${pendingProducts.length} products, ${pendingStockItems.length} stock items, ${pendingStockEntries.length} stock entries, ${pendingRecipes.length} recipes, ${pendingActivities.length} activities, ${pendingChatMessages.length} chat messages`
       );
 
       if (pendingUsers.length > 0) {
@@ -422,6 +674,69 @@ export const [SyncProvider, useSync] = createContextHook(() => {
         }
       }
 
+      if (pendingLocations.length > 0) {
+        console.log('Pushing locations...');
+        if (!(await pushPendingRecords('location', pendingLocations, syncLocationsToSupabase, markLocationsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingCustomers.length > 0) {
+        console.log('Pushing customers...');
+        if (!(await pushPendingRecords('customer', pendingCustomers, syncCustomersToSupabase, markCustomersSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingSuppliers.length > 0) {
+        console.log('Pushing suppliers...');
+        if (!(await pushPendingRecords('supplier', pendingSuppliers, syncSuppliersToSupabase, markSuppliersSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingSalesTargets.length > 0) {
+        console.log('Pushing sales targets...');
+        if (!(await pushPendingRecords('sales_target', pendingSalesTargets, syncSalesTargetsToSupabase, markSalesTargetsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingNetSalesSplits.length > 0) {
+        console.log('Pushing net sales splits...');
+        if (!(await pushPendingRecords('net_sales_split', pendingNetSalesSplits, syncNetSalesSplitsToSupabase, markNetSalesSplitsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingPayouts.length > 0) {
+        console.log('Pushing payouts...');
+        if (!(await pushPendingRecords('payout', pendingPayouts, syncPayoutsToSupabase, markPayoutsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingCashAdvances.length > 0) {
+        console.log('Pushing cash advances...');
+        if (!(await pushPendingRecords('cash_advance', pendingCashAdvances, syncCashAdvancesToSupabase, markCashAdvancesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingCustomerPayments.length > 0) {
+        console.log('Pushing customer payments...');
+        if (!(await pushPendingRecords('customer_payment', pendingCustomerPayments, syncCustomerPaymentsToSupabase, markCustomerPaymentsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingShifts.length > 0) {
+        console.log('Pushing shifts...');
+        if (!(await pushPendingRecords('shift', pendingShifts, syncShiftsToSupabase, markShiftsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
       if (pendingSales.length > 0) {
         console.log('Pushing sales...');
         const saleUpsertItems = (await getOutboxItems()).filter(
@@ -447,6 +762,20 @@ export const [SyncProvider, useSync] = createContextHook(() => {
         }
       }
 
+      if (pendingExpenseCategories.length > 0) {
+        console.log('Pushing expense categories...');
+        if (!(await pushPendingRecords('expense_category', pendingExpenseCategories, syncExpenseCategoriesToSupabase, markExpenseCategoriesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingRecurringExpenses.length > 0) {
+        console.log('Pushing recurring expenses...');
+        if (!(await pushPendingRecords('recurring_expense', pendingRecurringExpenses, syncRecurringExpensesToSupabase, markRecurringExpensesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
       if (pendingExpenses.length > 0) {
         console.log('Pushing expenses...');
         const expenseUpsertItems = (await getOutboxItems()).filter(
@@ -472,6 +801,41 @@ export const [SyncProvider, useSync] = createContextHook(() => {
         }
       }
 
+      if (pendingCashDrawerCloses.length > 0) {
+        console.log('Pushing cash drawer closes...');
+        if (!(await pushPendingRecords('cash_drawer_close', pendingCashDrawerCloses, syncCashDrawerClosesToSupabase, markCashDrawerClosesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingProducts.length > 0) {
+        console.log('Pushing products...');
+        if (!(await pushPendingRecords('product', pendingProducts, syncProductsToSupabase, markProductsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingStockItems.length > 0) {
+        console.log('Pushing stock items...');
+        if (!(await pushPendingRecords('stock_item', pendingStockItems, syncStockItemsToSupabase, markStockItemsSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingStockEntries.length > 0) {
+        console.log('Pushing stock entries...');
+        if (!(await pushPendingRecords('stock_entry', pendingStockEntries, syncStockEntriesToSupabase, markStockEntriesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
+      if (pendingRecipes.length > 0) {
+        console.log('Pushing recipes...');
+        if (!(await pushPendingRecords('recipe', pendingRecipes, syncRecipesToSupabase, markRecipesSynced))) {
+          pushSuccess = false;
+        }
+      }
+
       if (pendingActivities.length > 0) {
         console.log('Pushing activities...');
         const result = await syncActivitiesToSupabase(pendingActivities);
@@ -511,20 +875,52 @@ export const [SyncProvider, useSync] = createContextHook(() => {
       console.log(`Push completed: ${pushSuccess ? 'success' : 'some failures'}`);
 
       console.log('Pulling data from Supabase...');
-      const [serverSales, serverExpenses, serverActivities, serverChatMessages] = await Promise.all([
+      const [serverSales, serverExpenses, serverExpenseCategories, serverRecurringExpenses, serverCashDrawerCloses, serverShifts, serverLocations, serverCustomers, serverCustomerPayments, serverSuppliers, serverSalesTargets, serverNetSalesSplits, serverPayouts, serverCashAdvances, serverProducts, serverStockItems, serverStockEntries, serverRecipes, serverActivities, serverChatMessages] = await Promise.all([
         fetchSalesFromSupabase(),
         fetchExpensesFromSupabase(),
+        fetchExpenseCategoriesFromSupabase(),
+        fetchRecurringExpensesFromSupabase(),
+        fetchCashDrawerClosesFromSupabase(),
+        fetchShiftsFromSupabase(),
+        fetchLocationsFromSupabase(),
+        fetchCustomersFromSupabase(),
+        fetchCustomerPaymentsFromSupabase(),
+        fetchSuppliersFromSupabase(),
+        fetchSalesTargetsFromSupabase(),
+        fetchNetSalesSplitsFromSupabase(),
+        fetchPayoutsFromSupabase(),
+        fetchCashAdvancesFromSupabase(),
+        fetchProductsFromSupabase(),
+        fetchStockItemsFromSupabase(),
+        fetchStockEntriesFromSupabase(),
+        fetchRecipesFromSupabase(),
         fetchActivitiesFromSupabase(),
         user ? fetchChatMessagesFromSupabase({ limit: CHAT_SYNC_FETCH_LIMIT, user }) : Promise.resolve(null),
       ]);
 
       console.log(
-        `Pulled from server: ${serverUsers?.length || 0} users, ${serverSales?.length || 0} sales, ${serverExpenses?.length || 0} expenses, ${serverActivities?.length || 0} activities, ${serverChatMessages?.length || 0} chat messages`
+        `Pulled from server: ${serverUsers?.length || 0} users, ${serverSales?.length || 0} sales, ${serverExpenses?.length || 0} expenses, ${serverExpenseCategories?.length || 0} expense categories, ${serverRecurringExpenses?.length || 0} recurring expenses, ${serverCashDrawerCloses?.length || 0} cash drawer closes, ${serverShifts?.length || 0} shifts, ${serverLocations?.length || 0} locations, ${serverCustomers?.length || 0} customers, ${serverCustomerPayments?.length || 0} customer payments, ${serverSuppliers?.length || 0} suppliers, ${serverSalesTargets?.length || 0} sales targets, ${serverNetSalesSplits?.length || 0} net sales splits, ${serverPayouts?.length || 0} payouts, ${serverCashAdvances?.length || 0} cash advances, ${serverProducts?.length || 0} products, ${serverStockItems?.length || 0} stock items, ${serverStockEntries?.length || 0} stock entries, ${serverRecipes?.length || 0} recipes, ${serverActivities?.length || 0} activities, ${serverChatMessages?.length || 0} chat messages`
       );
 
       if (serverUsers) await upsertUsersFromServer(serverUsers);
       if (serverSales) await upsertSalesFromServer(serverSales);
       if (serverExpenses) await upsertExpensesFromServer(serverExpenses);
+      if (serverExpenseCategories) await upsertExpenseCategoriesFromServer(serverExpenseCategories);
+      if (serverRecurringExpenses) await upsertRecurringExpensesFromServer(serverRecurringExpenses);
+      if (serverCashDrawerCloses) await upsertCashDrawerClosesFromServer(serverCashDrawerCloses);
+      if (serverShifts) await upsertShiftsFromServer(serverShifts);
+      if (serverLocations) await upsertLocationsFromServer(serverLocations);
+      if (serverCustomers) await upsertCustomersFromServer(serverCustomers);
+      if (serverCustomerPayments) await upsertCustomerPaymentsFromServer(serverCustomerPayments);
+      if (serverSuppliers) await upsertSuppliersFromServer(serverSuppliers);
+      if (serverSalesTargets) await upsertSalesTargetsFromServer(serverSalesTargets);
+      if (serverNetSalesSplits) await upsertNetSalesSplitsFromServer(serverNetSalesSplits);
+      if (serverPayouts) await upsertPayoutsFromServer(serverPayouts);
+      if (serverCashAdvances) await upsertCashAdvancesFromServer(serverCashAdvances);
+      if (serverProducts) await upsertProductsFromServer(serverProducts);
+      if (serverStockItems) await upsertStockItemsFromServer(serverStockItems);
+      if (serverStockEntries) await upsertStockEntriesFromServer(serverStockEntries);
+      if (serverRecipes) await upsertRecipesFromServer(serverRecipes);
       if (serverActivities) await upsertActivitiesFromServer(serverActivities);
       if (serverChatMessages) await upsertChatMessagesFromServer(serverChatMessages);
 
@@ -625,6 +1021,30 @@ export const [SyncProvider, useSync] = createContextHook(() => {
           return 'sale';
         case 'expenses':
           return 'expense';
+        case 'expense_categories':
+          return 'expense_category';
+        case 'recurring_expenses':
+          return 'recurring_expense';
+        case 'locations':
+          return 'location';
+        case 'customers':
+          return 'customer';
+        case 'customer_payments':
+          return 'customer_payment';
+        case 'suppliers':
+          return 'supplier';
+        case 'payouts':
+          return 'payout';
+        case 'cash_advances':
+          return 'cash_advance';
+        case 'products':
+          return 'product';
+        case 'stock_items':
+          return 'stock_item';
+        case 'stock_entries':
+          return 'stock_entry';
+        case 'recipes':
+          return 'recipe';
         case 'chat_messages':
           return 'chat_message';
         default:
@@ -0,0 +1,83 @@
+import { CashAdvance, Payout, User } from '@/types';
+
+export type CashAdvanceBalance = {
+  user: User;
+  advanced: number;
+  repaid: number;
+  outstanding: number;
+  lastAdvanceDate: string | null;
+};
+
+export type CashAdvanceLedgerEntry = {
+  id: string;
+  type: 'advance' | 'repayment';
+  date: string;
+  amount: number;
+  notes: string | null;
+};
+
+function getRepayments(userId: string, payouts: Payout[]): Payout[] {
+  return payouts.filter(payout => payout.recipientUserId === userId && (payout.advanceDeduction ?? 0) > 0);
+}
+
+function getAdvanceTotals(userId: string, advances: CashAdvance[], payouts: Payout[]): { advanced: number; repaid: number } {
+  return {
+    advanced: advances
+      .filter(advance => advance.userId === userId)
+      .reduce((sum, advance) => sum + advance.amount, 0),
+    repaid: getRepayments(userId, payouts).reduce((sum, payout) => sum + (payout.advanceDeduction ?? 0), 0),
+  };
+}
+
+export function getOutstandingAdvance(userId: string, advances: CashAdvance[], payouts: Payout[]): number {
+  const { advanced, repaid } = getAdvanceTotals(userId, advances, payouts);
+  return Math.max(0, advanced - repaid);
+}
+
+export function summarizeCashAdvances(user: User, advances: CashAdvance[], payouts: Payout[]): CashAdvanceBalance {
+  const { advanced, repaid } = getAdvanceTotals(user.id, advances, payouts);
+  const dates = advances
+    .filter(advance => advance.userId === user.id)
+    .map(advance => advance.date.slice(0, 10))
+    .sort();
+
+  return {
+    user,
+    advanced,
+    repaid,
+    outstanding: Math.max(0, advanced - repaid),
+    lastAdvanceDate: dates[dates.length - 1] ?? null,
+  };
+}
+
+// Only staff who have ever taken an advance are listed, largest outstanding balance first.
+export function buildCashAdvanceBalances(users: User[], advances: CashAdvance[], payouts: Payout[]): CashAdvanceBalance[] {
+  return users
+    .filter(user => advances.some(advance => advance.userId === user.id))
+    .map(user => summarizeCashAdvances(user, advances, payouts))
+    .sort((a, b) => b.outstanding - a.outstanding || a.user.name.localeCompare(b.user.name));
+}
+
+// Advances are positive and repayments (payout deductions) negative, newest first.
+export function getCashAdvanceLedger(userId: string, advances: CashAdvance[], payouts: Payout[]): CashAdvanceLedgerEntry[] {
+  const entries: CashAdvanceLedgerEntry[] = [
+    ...advances
+      .filter(advance => advance.userId === userId)
+      .map(advance => ({
+        id: advance.id,
+        type: 'advance' as const,
+        date: advance.date,
+        amount: advance.amount,
+        notes: advance.notes ?? null,
+      })),
+    ...getRepayments(userId, payouts).map(payout => ({
+      id: payout.id,
+      type: 'repayment' as const,
+      date: payout.date,
+      amount: -(payout.advanceDeduction ?? 0),
+      notes: payout.notes ?? null,
+    })),
+  ];
+
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
@@ -0,0 +1,50 @@
+import { CashAdvance, CustomerPayment, Expense, Sale, getSaleNetTotal, normalizePaymentMethod } from '@/types';
+
+export type CashDrawerTotals = {
+  cashSales: number;
+  cashExpenses: number;
+  cashAdvances: number;
+  creditPayments: number;
+  expectedCash: number;
+};
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Expenses have no payment method, so every expense is treated as paid out of the drawer, as are staff cash advances.
+// Cash paid against a customer's credit balance goes into the drawer like a cash sale.
+export function calculateCashDrawerTotals(
+  openingFloat: number,
+  sales: Pick<Sale, 'total' | 'paymentMethod' | 'adjustmentType' | 'adjustmentAmount'>[],
+  expenses: Pick<Expense, 'total'>[],
+  advances: Pick<CashAdvance, 'amount'>[] = [],
+  customerPayments: Pick<CustomerPayment, 'amount' | 'paymentMethod'>[] = []
+): CashDrawerTotals {
+  const cashSales = sales
+    .filter(sale => normalizePaymentMethod(sale.paymentMethod) === 'cash')
+    .reduce((sum, sale) => sum + getSaleNetTotal(sale), 0);
+  const cashExpenses = expenses.reduce((sum, expense) => sum + expense.total, 0);
+  const cashAdvances = advances.reduce((sum, advance) => sum + advance.amount, 0);
+  const creditPayments = customerPayments
+    .filter(payment => normalizePaymentMethod(payment.paymentMethod) === 'cash')
+    .reduce((sum, payment) => sum + payment.amount, 0);
+
+  return {
+    cashSales: roundCurrency(cashSales),
+    cashExpenses: roundCurrency(cashExpenses),
+    cashAdvances: roundCurrency(cashAdvances),
+    creditPayments: roundCurrency(creditPayments),
+    expectedCash: roundCurrency(openingFloat + cashSales + creditPayments - cashExpenses - cashAdvances),
+  };
+}
+
+export function calculateOverShort(countedCash: number, expectedCash: number): number {
+  return roundCurrency(countedCash - expectedCash);
+}
+
+export function formatOverShortLabel(overShort: number): string {
+  if (overShort > 0) return 'Over';
+  if (overShort < 0) return 'Short';
+  return 'Balanced';
+}
@@ -0,0 +1,104 @@
+import { Customer, CustomerPayment, Sale, getSaleNetTotal } from '@/types';
+import { parseLocalDateString } from '@/services/dateUtils';
+
+export type AgingBucket = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days31to60', 'days61to90', 'over90'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: '0–30 days',
+  days31to60: '31–60 days',
+  days61to90: '61–90 days',
+  over90: '90+ days',
+};
+
+export type CustomerReceivable = {
+  customer: Customer;
+  charged: number;
+  paid: number;
+  balance: number;
+  aging: Record<AgingBucket, number>;
+  oldestUnpaidDate: string | null;
+  lastActivityDate: string | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function createEmptyAging(): Record<AgingBucket, number> {
+  return { current: 0, days31to60: 0, days61to90: 0, over90: 0 };
+}
+
+export function getAgingBucket(date: string, today: Date = new Date()): AgingBucket {
+  const start = parseLocalDateString(date.slice(0, 10));
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const days = Math.floor((end.getTime() - start.getTime()) / DAY_MS);
+  if (days > 90) return 'over90';
+  if (days > 60) return 'days61to90';
+  if (days > 30) return 'days31to60';
+  return 'current';
+}
+
+export function isCreditSale(sale: Pick<Sale, 'paymentMethod' | 'customerId'>): boolean {
+  return sale.paymentMethod === 'credit' && !!sale.customerId;
+}
+
+// Payments settle the oldest credit sales first, so whatever is left unpaid is aged from its sale date.
+export function buildCustomerReceivable(
+  customer: Customer,
+  sales: Sale[],
+  payments: CustomerPayment[],
+  today: Date = new Date()
+): CustomerReceivable {
+  const creditSales = sales
+    .filter(sale => sale.customerId === customer.id && isCreditSale(sale))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  const customerPayments = payments.filter(payment => payment.customerId === customer.id);
+
+  const charged = creditSales.reduce((sum, sale) => sum + getSaleNetTotal(sale), 0);
+  const paid = customerPayments.reduce((sum, payment) => sum + payment.amount, 0);
+
+  const aging = createEmptyAging();
+  let unallocated = paid;
+  let oldestUnpaidDate: string | null = null;
+  for (const sale of creditSales) {
+    const saleTotal = getSaleNetTotal(sale);
+    const applied = Math.min(unallocated, saleTotal);
+    unallocated -= applied;
+    const remaining = saleTotal - applied;
+    if (remaining <= 0.005) continue;
+    aging[getAgingBucket(sale.date, today)] += remaining;
+    oldestUnpaidDate = oldestUnpaidDate ?? sale.date;
+  }
+
+  const activityDates = [...creditSales.map(sale => sale.date), ...customerPayments.map(payment => payment.date)].sort();
+
+  return {
+    customer,
+    charged,
+    paid,
+    balance: Number((charged - paid).toFixed(2)),
+    aging,
+    oldestUnpaidDate,
+    lastActivityDate: activityDates[activityDates.length - 1] ?? null,
+  };
+}
+
+export function buildReceivables(
+  customers: Customer[],
+  sales: Sale[],
+  payments: CustomerPayment[],
+  today: Date = new Date()
+): CustomerReceivable[] {
+  return customers
+    .map(customer => buildCustomerReceivable(customer, sales, payments, today))
+    .sort((a, b) => b.balance - a.balance || a.customer.name.localeCompare(b.customer.name));
+}
+
+export function sumAging(receivables: CustomerReceivable[]): Record<AgingBucket, number> {
+  return receivables.reduce((totals, receivable) => {
+    AGING_BUCKETS.forEach(bucket => {
+      totals[bucket] += receivable.aging[bucket];
+    });
+    return totals;
+  }, createEmptyAging());
+}
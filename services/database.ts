@@ -4,16 +4,61 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { 
   User,
   Sale,
+  SaleItem,
+  SaleAdjustmentReason,
+  SaleAdjustmentType,
   Expense,
   ExpenseItem,
+  ExpenseCategory,
+  ExpenseReceipt,
+  CashDrawerClose,
+  Shift,
+  Location,
+  Customer,
+  CustomerPayment,
+  Supplier,
+  SalesTarget,
+  NetSalesSplitConfig,
+  SplitRecipient,
+  Payout,
+  CashAdvance,
+  Product,
+  StockItem,
+  StockEntry,
+  Recipe,
+  RecipeIngredient,
+  RecurringExpense,
   Activity,
   ChatMessage,
   DEFAULT_USERS,
+  DEFAULT_EXPENSE_CATEGORIES,
+  DEFAULT_LOCATION,
+  isInLocation,
+  getSaleNetTotal,
   generateId,
+  isStockItemLow,
+  normalizePaymentMethod,
+  normalizeSaleDiscountType,
+  normalizeRecurringExpenseFrequency,
+  resolveLocationId,
   OutboxItem,
   OutboxEntityType,
   OutboxStatus,
 } from '@/types';
+import { calculateIngredientConsumption } from '@/services/recipeUsage';
+import { getDueRecurringDates, getRecurringExpenseOccurrenceId } from '@/services/recurringExpenses';
+import { getSalesTargetId } from '@/services/salesTargets';
+import {
+  BASELINE_NET_SALES_SPLIT_DATE,
+  DEFAULT_NET_SALES_SPLIT,
+  DailySplitTotals,
+  NetSalesSplit,
+  SPLIT_RECIPIENT_COLORS,
+  buildLegacySplitRecipients,
+  getAllSplitRecipients,
+  getLegacySplitPercents,
+  getSplitRecipientName,
+} from '@/services/netSalesSplit';
 import { bucketByLocalDay, getDayKeysForWeek, parseLocalDateString, toLocalDayKey } from '@/services/dateUtils';
 
 let db: SQLite.SQLiteDatabase | null = null;
@@ -24,6 +69,25 @@ const STORAGE_KEYS = {
   users: '@myfoodcart_users',
   sales: '@myfoodcart_sales',
   expenses: '@myfoodcart_expenses',
+  expenseCategories: '@myfoodcart_expense_categories',
+  expenseCategorySeed: '@myfoodcart_expense_categories_seeded_v1',
+  recurringExpenses: '@myfoodcart_recurring_expenses',
+  cashDrawerCloses: '@myfoodcart_cash_drawer_closes',
+  shifts: '@myfoodcart_shifts',
+  locations: '@myfoodcart_locations',
+  customers: '@myfoodcart_customers',
+  customerPayments: '@myfoodcart_customer_payments',
+  suppliers: '@myfoodcart_suppliers',
+  salesTargets: '@myfoodcart_sales_targets',
+  netSalesSplits: '@myfoodcart_net_sales_splits',
+  netSalesSplitMigration: '@myfoodcart_net_sales_split_migrated_v1',
+  payouts: '@myfoodcart_payouts',
+  cashAdvances: '@myfoodcart_cash_advances',
+  locationSeed: '@myfoodcart_locations_seeded_v1',
+  products: '@myfoodcart_products',
+  stockItems: '@myfoodcart_stock_items',
+  stockEntries: '@myfoodcart_stock_entries',
+  recipes: '@myfoodcart_recipes',
   activities: '@myfoodcart_activities',
   chatMessages: '@myfoodcart_chat_messages',
   outbox: '@myfoodcart_outbox',
@@ -55,20 +119,70 @@ async function setToStorage<T>(key: string, value: T): Promise<void> {
 }
 
 type SaleRow = Omit<Sale, 'items'> & { items?: string | null };
-type ExpenseRow = Omit<Expense, 'items'> & { items?: string | null };
+type ExpenseRow = Omit<Expense, 'items' | 'receipts'> & { items?: string | null; receipts?: string | null };
+type RecurringExpenseRow = Omit<RecurringExpense, 'items' | 'active'> & { items?: string | null; active: number | boolean };
+type ProductRow = Omit<Product, 'active'> & { active: number | boolean };
+type RecipeRow = Omit<Recipe, 'ingredients'> & { ingredients?: string | RecipeIngredient[] | null };
+type ShiftRow = Omit<Shift, 'staffIds'> & { staffIds?: string | string[] | null };
 type ChatMessageRow = ChatMessage;
 type OutboxRow = Omit<OutboxItem, 'syncStatus'> & { syncStatus?: string | null };
 
-export function serializeItems(items?: Array<string | ExpenseItem> | null): string {
+export function serializeItems(items?: (SaleItem | ExpenseItem)[] | null): string {
   const normalized = Array.isArray(items) ? items : [];
   return JSON.stringify(normalized);
 }
 
-export function parseItems(itemsText?: string | null): string[] {
+export function normalizeSaleItems(items: unknown): SaleItem[] {
+  if (!Array.isArray(items)) return [];
+  return items.reduce<SaleItem[]>((acc, item) => {
+    if (typeof item === 'string') {
+      const name = item.trim();
+      if (name) acc.push({ id: generateId(), name, quantity: 1, unitPrice: null, lineTotal: null, productId: null });
+      return acc;
+    }
+    if (item && typeof item === 'object') {
+      const maybeItem = item as {
+        id?: unknown;
+        name?: unknown;
+        quantity?: unknown;
+        unitPrice?: unknown;
+        lineTotal?: unknown;
+        productId?: unknown;
+      };
+      if (typeof maybeItem.name === 'string' && maybeItem.name.trim()) {
+        const quantityValue = typeof maybeItem.quantity === 'number' && maybeItem.quantity > 0
+          ? maybeItem.quantity
+          : 1;
+        const unitPriceValue = typeof maybeItem.unitPrice === 'number' && !Number.isNaN(maybeItem.unitPrice)
+          ? maybeItem.unitPrice
+          : null;
+        const lineTotalValue = typeof maybeItem.lineTotal === 'number' && !Number.isNaN(maybeItem.lineTotal)
+          ? maybeItem.lineTotal
+          : unitPriceValue !== null
+            ? Number((unitPriceValue * quantityValue).toFixed(2))
+            : null;
+        const idValue = typeof maybeItem.id === 'string' && maybeItem.id.trim()
+          ? maybeItem.id
+          : generateId();
+        acc.push({
+          id: idValue,
+          name: maybeItem.name.trim(),
+          quantity: quantityValue,
+          unitPrice: unitPriceValue,
+          lineTotal: lineTotalValue,
+          productId: typeof maybeItem.productId === 'string' ? maybeItem.productId : null,
+        });
+      }
+    }
+    return acc;
+  }, []);
+}
+
+export function parseItems(itemsText?: string | null): SaleItem[] {
   if (!itemsText) return [];
   try {
     const parsed = JSON.parse(itemsText);
-    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === 'string') : [];
+    return normalizeSaleItems(parsed);
   } catch (error) {
     console.log('Error parsing items JSON:', error);
     return [];
@@ -99,6 +213,42 @@ function normalizeExpenseItems(items: unknown): ExpenseItem[] {
   }, []);
 }
 
+export function normalizeExpenseReceipts(receipts: unknown): ExpenseReceipt[] {
+  let value = receipts;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      console.log('Error parsing expense receipts JSON:', error);
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+  return value.reduce<ExpenseReceipt[]>((acc, receipt) => {
+    if (!receipt || typeof receipt !== 'object') return acc;
+    const maybeReceipt = receipt as { id?: unknown; localUri?: unknown; remoteUrl?: unknown };
+    const localUri = typeof maybeReceipt.localUri === 'string' && maybeReceipt.localUri ? maybeReceipt.localUri : null;
+    const remoteUrl = typeof maybeReceipt.remoteUrl === 'string' && maybeReceipt.remoteUrl ? maybeReceipt.remoteUrl : null;
+    if (!localUri && !remoteUrl) return acc;
+    const id = typeof maybeReceipt.id === 'string' && maybeReceipt.id ? maybeReceipt.id : generateId();
+    acc.push({ id, localUri, remoteUrl });
+    return acc;
+  }, []);
+}
+
+function serializeReceipts(receipts?: ExpenseReceipt[] | null): string {
+  return JSON.stringify(normalizeExpenseReceipts(receipts ?? []));
+}
+
+// Server rows only carry the uploaded URL, so keep the on-device copy when the ids match.
+function mergeReceiptLocalUris(serverReceipts: ExpenseReceipt[], localReceipts: ExpenseReceipt[]): ExpenseReceipt[] {
+  const localById = new Map(localReceipts.map(receipt => [receipt.id, receipt]));
+  return serverReceipts.map(receipt => ({
+    ...receipt,
+    localUri: receipt.localUri ?? localById.get(receipt.id)?.localUri ?? null,
+  }));
+}
+
 export function parseExpenseItems(itemsText?: string | null): ExpenseItem[] {
   if (!itemsText) return [];
   try {
@@ -114,7 +264,9 @@ function normalizeSale(sale: Sale): Sale {
   return {
     ...sale,
     name: sale.name ?? '',
-    items: Array.isArray(sale.items) ? sale.items : [],
+    items: normalizeSaleItems(sale.items),
+    paymentMethod: normalizePaymentMethod(sale.paymentMethod),
+    discountType: normalizeSaleDiscountType(sale.discountType),
   };
 }
 
@@ -123,6 +275,8 @@ function normalizeSaleRow(row: SaleRow): Sale {
     ...row,
     name: row.name ?? '',
     items: parseItems(row.items),
+    paymentMethod: normalizePaymentMethod(row.paymentMethod),
+    discountType: normalizeSaleDiscountType(row.discountType),
   };
 }
 
@@ -131,6 +285,8 @@ function normalizeExpense(expense: Expense): Expense {
     ...expense,
     name: expense.name ?? '',
     items: normalizeExpenseItems(expense.items),
+    categoryId: expense.categoryId ?? null,
+    receipts: normalizeExpenseReceipts(expense.receipts),
   };
 }
 
@@ -139,6 +295,121 @@ function normalizeExpenseRow(row: ExpenseRow): Expense {
     ...row,
     name: row.name ?? '',
     items: parseExpenseItems(row.items),
+    categoryId: row.categoryId ?? null,
+    receipts: normalizeExpenseReceipts(row.receipts),
+  };
+}
+
+function normalizeRecurringExpense(template: RecurringExpense): RecurringExpense {
+  return {
+    ...template,
+    name: template.name ?? '',
+    items: normalizeExpenseItems(template.items),
+    categoryId: template.categoryId ?? null,
+    frequency: normalizeRecurringExpenseFrequency(template.frequency),
+    lastGeneratedDate: template.lastGeneratedDate ?? null,
+    active: template.active !== false,
+  };
+}
+
+function normalizeRecurringExpenseRow(row: RecurringExpenseRow): RecurringExpense {
+  return {
+    ...row,
+    name: row.name ?? '',
+    items: parseExpenseItems(row.items),
+    categoryId: row.categoryId ?? null,
+    frequency: normalizeRecurringExpenseFrequency(row.frequency),
+    lastGeneratedDate: row.lastGeneratedDate ?? null,
+    active: row.active === true || row.active === 1,
+  };
+}
+
+function normalizeProductRow(row: ProductRow): Product {
+  return {
+    ...row,
+    name: row.name ?? '',
+    price: typeof row.price === 'number' ? row.price : 0,
+    category: row.category ?? null,
+    active: row.active === true || row.active === 1,
+  };
+}
+
+export function normalizeRecipeIngredients(ingredients: unknown): RecipeIngredient[] {
+  let parsed = ingredients;
+  if (typeof ingredients === 'string') {
+    try {
+      parsed = JSON.parse(ingredients);
+    } catch (error) {
+      console.log('Error parsing recipe ingredients:', error);
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed.reduce<RecipeIngredient[]>((acc, ingredient) => {
+    if (!ingredient || typeof ingredient !== 'object') return acc;
+    const candidate = ingredient as Partial<RecipeIngredient>;
+    const quantity = Number(candidate.quantity);
+    if (typeof candidate.stockItemId !== 'string' || !Number.isFinite(quantity) || quantity <= 0) return acc;
+    acc.push({ stockItemId: candidate.stockItemId, quantity });
+    return acc;
+  }, []);
+}
+
+export function normalizeSplitRecipients(recipients: unknown): SplitRecipient[] {
+  let parsed = recipients;
+  if (typeof recipients === 'string') {
+    try {
+      parsed = JSON.parse(recipients);
+    } catch (error) {
+      console.log('Error parsing split recipients:', error);
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed.reduce<SplitRecipient[]>((acc, recipient, index) => {
+    if (!recipient || typeof recipient !== 'object') return acc;
+    const candidate = recipient as Partial<SplitRecipient>;
+    const percent = Number(candidate.percent);
+    if (typeof candidate.id !== 'string' || typeof candidate.name !== 'string' || !Number.isFinite(percent)) return acc;
+    acc.push({
+      id: candidate.id,
+      name: candidate.name,
+      percent,
+      color: typeof candidate.color === 'string' ? candidate.color : SPLIT_RECIPIENT_COLORS[index % SPLIT_RECIPIENT_COLORS.length],
+    });
+    return acc;
+  }, []);
+}
+
+export function normalizeShiftStaffIds(staffIds: unknown): string[] {
+  let parsed = staffIds;
+  if (typeof staffIds === 'string') {
+    try {
+      parsed = JSON.parse(staffIds);
+    } catch (error) {
+      console.log('Error parsing shift staff:', error);
+      return [];
+    }
+  }
+  if (!Array.isArray(parsed)) return [];
+  return Array.from(new Set(parsed.filter((id): id is string => typeof id === 'string' && id.length > 0)));
+}
+
+function normalizeShiftRow(row: ShiftRow): Shift {
+  return {
+    ...row,
+    closedAt: row.closedAt ?? null,
+    notes: row.notes ?? null,
+    locationId: row.locationId ?? null,
+    staffIds: normalizeShiftStaffIds(row.staffIds),
+  };
+}
+
+function normalizeRecipeRow(row: RecipeRow): Recipe {
+  return {
+    ...row,
+    itemName: row.itemName ?? '',
+    ingredients: normalizeRecipeIngredients(row.ingredients),
   };
 }
 
@@ -149,6 +420,7 @@ function normalizeChatMessage(message: ChatMessageRow): ChatMessage {
     userAvatarUrl: message.userAvatarUrl ?? null,
     localAvatarUri: message.localAvatarUri ?? null,
     messageText: message.messageText ?? '',
+    messageType: message.messageType === 'system' ? 'system' : 'user',
   };
 }
 
@@ -314,13 +586,40 @@ async function ensureDb(): Promise<SQLite.SQLiteDatabase | null> {
   return null;
 }
 
-async function ensureItemsColumn(table: 'sales' | 'expenses'): Promise<void> {
+async function ensureColumn(table: string, column: string, definition: string): Promise<void> {
   if (!db) return;
   const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
-  const hasItems = columns.some(column => column.name === 'items');
-  if (!hasItems) {
-    await db.runAsync(`ALTER TABLE ${table} ADD COLUMN items TEXT`);
+  const hasColumn = columns.some(existing => existing.name === column);
+  if (!hasColumn) {
+    await db.runAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// On hand is always computed on read; only rows written before that change still carry a stored running total.
+type StoredStockItem = Omit<StockItem, 'onHand'> & { onHand?: number };
+
+function toStoredStockItem(stockItem: StockItem): StoredStockItem {
+  const { onHand: _onHand, ...stored } = stockItem;
+  return stored;
+}
+
+// Items created before on-hand was derived from entries stored a running total; recover their opening quantity from it.
+async function backfillStockOpeningQuantities(): Promise<void> {
+  if (Platform.OS === 'web') {
+    const stockItems = await getFromStorage<StoredStockItem[]>(STORAGE_KEYS.stockItems, []);
+    if (!stockItems.some(item => item.openingQuantity == null)) return;
+    const entryTotals = await getStockEntryTotals();
+    await setToStorage(STORAGE_KEYS.stockItems, stockItems.map(item => item.openingQuantity != null ? item : {
+      ...item,
+      openingQuantity: roundStockQuantity((item.onHand ?? 0) - (entryTotals.get(item.id) ?? 0)),
+    }));
+    return;
   }
+
+  if (!db) return;
+  await db.runAsync(
+    'UPDATE stock_items SET openingQuantity = ROUND(onHand - COALESCE((SELECT SUM(quantity) FROM stock_entries WHERE stock_entries.stockItemId = stock_items.id), 0), 3) WHERE openingQuantity IS NULL'
+  );
 }
 
 async function cleanupLegacyInventoryData(): Promise<void> {
@@ -401,6 +700,22 @@ export async function initDatabase(): Promise<void> {
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
         items TEXT,
+        paymentMethod TEXT NOT NULL DEFAULT 'cash',
+        customerId TEXT,
+        shiftId TEXT,
+        locationId TEXT,
+        latitude REAL,
+        longitude REAL,
+        grossAmount REAL,
+        discountType TEXT,
+        discountValue REAL,
+        discountAmount REAL,
+        adjustmentType TEXT,
+        adjustmentAmount REAL,
+        adjustmentReason TEXT,
+        adjustmentNote TEXT,
+        adjustmentApprovedBy TEXT,
+        adjustedAt TEXT,
         total REAL NOT NULL,
         date TEXT NOT NULL,
         createdBy TEXT NOT NULL,
@@ -413,7 +728,204 @@ export async function initDatabase(): Promise<void> {
         id TEXT PRIMARY KEY,
         name TEXT NOT NULL,
         items TEXT,
+        categoryId TEXT,
+        receipts TEXT,
+        shiftId TEXT,
+        locationId TEXT,
+        total REAL NOT NULL,
+        date TEXT NOT NULL,
+        createdBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS recurring_expenses (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        items TEXT,
+        categoryId TEXT,
+        locationId TEXT,
         total REAL NOT NULL,
+        frequency TEXT NOT NULL DEFAULT 'monthly',
+        startDate TEXT NOT NULL,
+        lastGeneratedDate TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        createdBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS expense_categories (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS customers (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        phone TEXT,
+        notes TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS suppliers (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        contact TEXT,
+        notes TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS sales_targets (
+        id TEXT PRIMARY KEY,
+        locationId TEXT NOT NULL,
+        weekday INTEGER NOT NULL,
+        amount REAL NOT NULL DEFAULT 0,
+        updatedBy TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS net_sales_splits (
+        id TEXT PRIMARY KEY,
+        effectiveDate TEXT NOT NULL,
+        operation REAL NOT NULL,
+        general REAL NOT NULL,
+        foodCart REAL NOT NULL,
+        recipients TEXT,
+        includeExp INTEGER NOT NULL DEFAULT 1,
+        createdBy TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS payouts (
+        id TEXT PRIMARY KEY,
+        recipient TEXT NOT NULL,
+        recipientUserId TEXT,
+        amount REAL NOT NULL,
+        advanceDeduction REAL,
+        date TEXT NOT NULL,
+        periodStart TEXT NOT NULL,
+        periodEnd TEXT NOT NULL,
+        notes TEXT,
+        locationId TEXT,
+        paidBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS cash_advances (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        amount REAL NOT NULL,
+        date TEXT NOT NULL,
+        notes TEXT,
+        locationId TEXT,
+        recordedBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS customer_payments (
+        id TEXT PRIMARY KEY,
+        customerId TEXT NOT NULL,
+        amount REAL NOT NULL,
+        paymentMethod TEXT NOT NULL DEFAULT 'cash',
+        notes TEXT,
+        date TEXT NOT NULL,
+        locationId TEXT,
+        receivedBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS locations (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS shifts (
+        id TEXT PRIMARY KEY,
+        openedBy TEXT NOT NULL,
+        openedAt TEXT NOT NULL,
+        closedAt TEXT,
+        staffIds TEXT,
+        notes TEXT,
+        locationId TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS cash_drawer_closes (
+        id TEXT PRIMARY KEY,
+        date TEXT NOT NULL,
+        openingFloat REAL NOT NULL,
+        countedCash REAL NOT NULL,
+        cashSales REAL NOT NULL,
+        cashExpenses REAL NOT NULL,
+        cashAdvances REAL,
+        creditPayments REAL,
+        expectedCash REAL NOT NULL,
+        overShort REAL NOT NULL,
+        notes TEXT,
+        locationId TEXT,
+        closedBy TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS products (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        price REAL NOT NULL,
+        category TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS stock_items (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        unit TEXT NOT NULL,
+        onHand REAL NOT NULL DEFAULT 0,
+        openingQuantity REAL,
+        productId TEXT,
+        reorderPoint REAL,
+        supplier TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
+      CREATE TABLE IF NOT EXISTS stock_entries (
+        id TEXT PRIMARY KEY,
+        stockItemId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        quantity REAL NOT NULL,
+        note TEXT,
+        saleId TEXT,
         date TEXT NOT NULL,
         createdBy TEXT NOT NULL,
         createdAt TEXT NOT NULL,
@@ -421,6 +933,15 @@ export async function initDatabase(): Promise<void> {
         syncStatus TEXT DEFAULT 'pending'
       );
 
+      CREATE TABLE IF NOT EXISTS recipes (
+        id TEXT PRIMARY KEY,
+        itemName TEXT NOT NULL,
+        ingredients TEXT NOT NULL DEFAULT '[]',
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        syncStatus TEXT DEFAULT 'pending'
+      );
+
       CREATE TABLE IF NOT EXISTS activities (
         id TEXT PRIMARY KEY,
         type TEXT NOT NULL,
@@ -437,6 +958,7 @@ export async function initDatabase(): Promise<void> {
         userAvatarUrl TEXT,
         localAvatarUri TEXT,
         messageText TEXT NOT NULL,
+        messageType TEXT DEFAULT 'user',
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL,
         syncStatus TEXT DEFAULT 'pending'
@@ -456,14 +978,52 @@ export async function initDatabase(): Promise<void> {
 
       CREATE INDEX IF NOT EXISTS idx_chat_messages_createdAt ON chat_messages(createdAt DESC);
       CREATE INDEX IF NOT EXISTS idx_chat_messages_userId ON chat_messages(userId);
+      CREATE INDEX IF NOT EXISTS idx_stock_entries_stockItemId ON stock_entries(stockItemId);
+      CREATE INDEX IF NOT EXISTS idx_stock_entries_saleId ON stock_entries(saleId);
     `);
 
-      await ensureItemsColumn('sales');
-      await ensureItemsColumn('expenses');
+      await ensureColumn('sales', 'items', 'TEXT');
+      await ensureColumn('sales', 'paymentMethod', "TEXT NOT NULL DEFAULT 'cash'");
+      await ensureColumn('sales', 'customerId', 'TEXT');
+      await ensureColumn('sales', 'shiftId', 'TEXT');
+      await ensureColumn('sales', 'locationId', 'TEXT');
+      await ensureColumn('sales', 'latitude', 'REAL');
+      await ensureColumn('sales', 'longitude', 'REAL');
+      await ensureColumn('sales', 'grossAmount', 'REAL');
+      await ensureColumn('sales', 'discountType', 'TEXT');
+      await ensureColumn('sales', 'discountValue', 'REAL');
+      await ensureColumn('sales', 'discountAmount', 'REAL');
+      await ensureColumn('sales', 'adjustmentType', 'TEXT');
+      await ensureColumn('sales', 'adjustmentAmount', 'REAL');
+      await ensureColumn('sales', 'adjustmentReason', 'TEXT');
+      await ensureColumn('sales', 'adjustmentNote', 'TEXT');
+      await ensureColumn('sales', 'adjustmentApprovedBy', 'TEXT');
+      await ensureColumn('sales', 'adjustedAt', 'TEXT');
+      await ensureColumn('expenses', 'items', 'TEXT');
+      await ensureColumn('expenses', 'categoryId', 'TEXT');
+      await ensureColumn('expenses', 'receipts', 'TEXT');
+      await ensureColumn('expenses', 'shiftId', 'TEXT');
+      await ensureColumn('expenses', 'locationId', 'TEXT');
+      await ensureColumn('expenses', 'recurringExpenseId', 'TEXT');
+      await ensureColumn('expenses', 'supplierId', 'TEXT');
+      await ensureColumn('cash_drawer_closes', 'locationId', 'TEXT');
+      await ensureColumn('shifts', 'locationId', 'TEXT');
+      await ensureColumn('customer_payments', 'locationId', 'TEXT');
+      await ensureColumn('stock_items', 'reorderPoint', 'REAL');
+      await ensureColumn('stock_items', 'supplier', 'TEXT');
+      await ensureColumn('stock_items', 'openingQuantity', 'REAL');
+      await ensureColumn('chat_messages', 'messageType', "TEXT DEFAULT 'user'");
+      await ensureColumn('net_sales_splits', 'recipients', 'TEXT');
+      await ensureColumn('payouts', 'advanceDeduction', 'REAL');
+      await ensureColumn('cash_drawer_closes', 'cashAdvances', 'REAL');
+      await ensureColumn('cash_drawer_closes', 'creditPayments', 'REAL');
       await cleanupLegacyInventoryData();
+      await backfillStockOpeningQuantities();
 
       console.log('Database tables created');
       await seedDefaultData();
+      await seedDefaultExpenseCategories();
+      await seedDefaultLocation();
       dbInitialized = true;
       console.log('Database initialization complete');
     } catch (error) {
@@ -483,6 +1043,9 @@ async function initWebDatabase(): Promise<void> {
     await seedDefaultDataWeb();
   }
   await cleanupLegacyInventoryData();
+  await backfillStockOpeningQuantities();
+  await seedDefaultExpenseCategories();
+  await seedDefaultLocation();
 }
 
 async function seedDefaultData(): Promise<void> {
@@ -502,6 +1065,55 @@ async function seedDefaultData(): Promise<void> {
   }
 }
 
+// Defaults use fixed ids so every device seeds the same rows; they stay local until edited.
+async function seedDefaultExpenseCategories(): Promise<void> {
+  const seeded = await AsyncStorage.getItem(STORAGE_KEYS.expenseCategorySeed);
+  if (seeded) return;
+
+  const now = new Date().toISOString();
+  if (Platform.OS === 'web') {
+    const categories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    const existingIds = new Set(categories.map(category => category.id));
+    DEFAULT_EXPENSE_CATEGORIES.forEach(category => {
+      if (existingIds.has(category.id)) return;
+      categories.push({ ...category, createdAt: now, updatedAt: now, syncStatus: 'synced' });
+    });
+    await setToStorage(STORAGE_KEYS.expenseCategories, categories);
+  } else {
+    if (!db) return;
+    for (const category of DEFAULT_EXPENSE_CATEGORIES) {
+      await db.runAsync(
+        'INSERT OR IGNORE INTO expense_categories (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+        [category.id, category.name, now, now, 'synced']
+      );
+    }
+  }
+
+  await AsyncStorage.setItem(STORAGE_KEYS.expenseCategorySeed, 'true');
+}
+
+async function seedDefaultLocation(): Promise<void> {
+  const seeded = await AsyncStorage.getItem(STORAGE_KEYS.locationSeed);
+  if (seeded) return;
+
+  const now = new Date().toISOString();
+  if (Platform.OS === 'web') {
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    if (!locations.some(location => location.id === DEFAULT_LOCATION.id)) {
+      locations.push({ ...DEFAULT_LOCATION, createdAt: now, updatedAt: now, syncStatus: 'synced' });
+      await setToStorage(STORAGE_KEYS.locations, locations);
+    }
+  } else {
+    if (!db) return;
+    await db.runAsync(
+      'INSERT OR IGNORE INTO locations (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+      [DEFAULT_LOCATION.id, DEFAULT_LOCATION.name, now, now, 'synced']
+    );
+  }
+
+  await AsyncStorage.setItem(STORAGE_KEYS.locationSeed, 'true');
+}
+
 async function seedDefaultDataWeb(): Promise<void> {
   console.log('Seeding default data for web...');
   const now = new Date().toISOString();
@@ -516,6 +1128,10 @@ async function seedDefaultDataWeb(): Promise<void> {
   await setToStorage(STORAGE_KEYS.users, users);
   await setToStorage(STORAGE_KEYS.sales, []);
   await setToStorage(STORAGE_KEYS.expenses, []);
+  await setToStorage(STORAGE_KEYS.products, []);
+  await setToStorage(STORAGE_KEYS.stockItems, []);
+  await setToStorage(STORAGE_KEYS.stockEntries, []);
+  await setToStorage(STORAGE_KEYS.recipes, []);
   await setToStorage(STORAGE_KEYS.activities, []);
   await setToStorage(STORAGE_KEYS.chatMessages, []);
   await setToStorage(STORAGE_KEYS.outbox, []);
@@ -703,6 +1319,7 @@ export async function createChatMessage(
     userAvatarUrl: message.userAvatarUrl ?? null,
     localAvatarUri: message.localAvatarUri ?? null,
     messageText: trimmedText,
+    messageType: message.messageType ?? 'user',
     createdAt: now,
     updatedAt: now,
     syncStatus: 'pending',
@@ -722,7 +1339,7 @@ export async function createChatMessage(
   const database = await ensureDb();
   if (!database) throw new Error('Database not initialized');
   await database.runAsync(
-    'INSERT INTO chat_messages (id, userId, userName, userAvatarUrl, localAvatarUri, messageText, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    'INSERT INTO chat_messages (id, userId, userName, userAvatarUrl, localAvatarUri, messageText, messageType, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
     [
       newMessage.id,
       newMessage.userId,
@@ -730,6 +1347,7 @@ export async function createChatMessage(
       newMessage.userAvatarUrl ?? null,
       newMessage.localAvatarUri ?? null,
       newMessage.messageText,
+      newMessage.messageType ?? 'user',
       now,
       now,
       'pending',
@@ -770,35 +1388,35 @@ export async function getSales(): Promise<Sale[]> {
   }
 }
 
-export async function getSalesByDate(date: string): Promise<Sale[]> {
+export async function getSalesByDate(date: string, locationId?: string | null): Promise<Sale[]> {
   if (Platform.OS === 'web') {
     const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
     return sales.filter(s => {
       const normalizedDate = s.date ? s.date.substring(0, 10) : '';
-      return normalizedDate === date;
+      return normalizedDate === date && isInLocation(s, locationId);
     }).map(normalizeSale);
   }
   const database = await ensureDb();
   if (!database) return [];
   try {
     const rows = await database.getAllAsync<SaleRow>('SELECT * FROM sales WHERE substr(date, 1, 10) = ? ORDER BY createdAt DESC', [date]);
-    return rows.map(normalizeSaleRow);
+    return rows.map(normalizeSaleRow).filter(sale => isInLocation(sale, locationId));
   } catch (error) {
     console.log('Error getting sales by date:', error);
     return [];
   }
 }
 
-export async function getSalesByDateRange(startDate: string, endDate: string): Promise<Sale[]> {
+export async function getSalesByDateRange(startDate: string, endDate: string, locationId?: string | null): Promise<Sale[]> {
   if (Platform.OS === 'web') {
     const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
-    return sales.filter(s => s.date >= startDate && s.date <= endDate).map(normalizeSale);
+    return sales.filter(s => s.date >= startDate && s.date <= endDate && isInLocation(s, locationId)).map(normalizeSale);
   }
   const database = await ensureDb();
   if (!database) return [];
   try {
     const rows = await database.getAllAsync<SaleRow>('SELECT * FROM sales WHERE date >= ? AND date <= ? ORDER BY date DESC', [startDate, endDate]);
-    return rows.map(normalizeSaleRow);
+    return rows.map(normalizeSaleRow).filter(sale => isInLocation(sale, locationId));
   } catch (error) {
     console.log('Error getting sales by date range:', error);
     return [];
@@ -811,6 +1429,8 @@ export async function createSale(sale: Omit<Sale, 'id' | 'createdAt' | 'updatedA
     ...sale,
     name: sale.name ?? '',
     items: Array.isArray(sale.items) ? sale.items : [],
+    paymentMethod: normalizePaymentMethod(sale.paymentMethod),
+    shiftId: sale.shiftId !== undefined ? sale.shiftId : await getOpenShiftIdForRecord(sale.date, sale.locationId),
     id: generateId(),
     createdAt: now,
     updatedAt: now,
@@ -826,37 +1446,126 @@ export async function createSale(sale: Omit<Sale, 'id' | 'createdAt' | 'updatedA
       amount: newSale.total,
       date: newSale.date,
     });
+    await applySaleStockDeductions(newSale.id, newSale.items ?? [], newSale);
     return newSale;
   }
 
   const database = await ensureDb();
   if (!database) throw new Error('Database not initialized');
   await database.runAsync(
-    'INSERT INTO sales (id, name, items, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [newSale.id, newSale.name, serializeItems(newSale.items), newSale.total, newSale.date, newSale.createdBy, now, now, 'pending']
+    'INSERT INTO sales (id, name, items, paymentMethod, customerId, shiftId, locationId, latitude, longitude, grossAmount, discountType, discountValue, discountAmount, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newSale.id, newSale.name, serializeItems(newSale.items), newSale.paymentMethod ?? 'cash', newSale.customerId ?? null, newSale.shiftId ?? null, newSale.locationId ?? null, newSale.latitude ?? null, newSale.longitude ?? null, newSale.grossAmount ?? null, newSale.discountType ?? null, newSale.discountValue ?? null, newSale.discountAmount ?? null, newSale.total, newSale.date, newSale.createdBy, now, now, 'pending']
   );
   await enqueueOutboxUpsert('sale', newSale.id, {
     name: newSale.name,
     amount: newSale.total,
     date: newSale.date,
   });
+  await applySaleStockDeductions(newSale.id, newSale.items ?? [], newSale);
   return newSale;
 }
 
-export async function deleteSale(id: string): Promise<void> {
+export async function updateSale(sale: Sale): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedSale: Sale = {
+    ...sale,
+    name: sale.name ?? '',
+    items: Array.isArray(sale.items) ? sale.items : [],
+    paymentMethod: normalizePaymentMethod(sale.paymentMethod),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
   if (Platform.OS === 'web') {
     const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
-    await setToStorage(STORAGE_KEYS.sales, sales.filter(s => s.id !== id));
+    const index = sales.findIndex(s => s.id === sale.id);
+    if (index === -1) return;
+    sales[index] = updatedSale;
+    await setToStorage(STORAGE_KEYS.sales, sales);
+    await enqueueOutboxUpsert('sale', updatedSale.id, {
+      name: updatedSale.name,
+      amount: updatedSale.total,
+      date: updatedSale.date,
+    });
+    await applySaleStockDeductions(updatedSale.id, updatedSale.items ?? [], updatedSale);
     return;
   }
+
   const database = await ensureDb();
-  if (!database) return;
-  await database.runAsync('DELETE FROM sales WHERE id = ?', [id]);
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE sales SET name = ?, items = ?, paymentMethod = ?, customerId = ?, grossAmount = ?, discountType = ?, discountValue = ?, discountAmount = ?, total = ?, date = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedSale.name, serializeItems(updatedSale.items), updatedSale.paymentMethod ?? 'cash', updatedSale.customerId ?? null, updatedSale.grossAmount ?? null, updatedSale.discountType ?? null, updatedSale.discountValue ?? null, updatedSale.discountAmount ?? null, updatedSale.total, updatedSale.date, now, 'pending', updatedSale.id]
+  );
+  await enqueueOutboxUpsert('sale', updatedSale.id, {
+    name: updatedSale.name,
+    amount: updatedSale.total,
+    date: updatedSale.date,
+  });
+  await applySaleStockDeductions(updatedSale.id, updatedSale.items ?? [], updatedSale);
 }
 
-export async function getExpenses(): Promise<Expense[]> {
-  if (Platform.OS === 'web') {
-    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+// Voids and refunds keep the original sale; the negative adjustment is applied on top of its total.
+export async function recordSaleAdjustment(
+  sale: Sale,
+  adjustment: { type: SaleAdjustmentType; amount: number; reason: SaleAdjustmentReason; note: string | null; approvedBy: string }
+): Promise<Sale> {
+  const now = new Date().toISOString();
+  const refundAmount = adjustment.type === 'void' ? sale.total : Math.min(Math.abs(adjustment.amount), sale.total);
+  const adjustedSale: Sale = {
+    ...sale,
+    adjustmentType: adjustment.type,
+    adjustmentAmount: -refundAmount,
+    adjustmentReason: adjustment.reason,
+    adjustmentNote: adjustment.note,
+    adjustmentApprovedBy: adjustment.approvedBy,
+    adjustedAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    const index = sales.findIndex(s => s.id === sale.id);
+    if (index === -1) return adjustedSale;
+    sales[index] = adjustedSale;
+    await setToStorage(STORAGE_KEYS.sales, sales);
+  } else {
+    const database = await ensureDb();
+    if (!database) throw new Error('Database not initialized');
+    await database.runAsync(
+      'UPDATE sales SET adjustmentType = ?, adjustmentAmount = ?, adjustmentReason = ?, adjustmentNote = ?, adjustmentApprovedBy = ?, adjustedAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+      [adjustedSale.adjustmentType ?? null, adjustedSale.adjustmentAmount ?? null, adjustedSale.adjustmentReason ?? null, adjustedSale.adjustmentNote ?? null, adjustedSale.adjustmentApprovedBy ?? null, now, now, 'pending', adjustedSale.id]
+    );
+  }
+
+  await enqueueOutboxUpsert('sale', adjustedSale.id, {
+    name: adjustedSale.name,
+    amount: getSaleNetTotal(adjustedSale),
+    date: adjustedSale.date,
+  });
+  // A void hands the ingredients back; refunds are money-only and leave stock as sold.
+  if (adjustedSale.adjustmentType === 'void') {
+    await applySaleStockDeductions(adjustedSale.id, [], adjustedSale);
+  }
+  return adjustedSale;
+}
+
+export async function deleteSale(id: string): Promise<void> {
+  await applySaleStockDeductions(id, []);
+  if (Platform.OS === 'web') {
+    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    await setToStorage(STORAGE_KEYS.sales, sales.filter(s => s.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM sales WHERE id = ?', [id]);
+}
+
+export async function getExpenses(): Promise<Expense[]> {
+  if (Platform.OS === 'web') {
+    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
     return expenses.map(normalizeExpense);
   }
   const database = await ensureDb();
@@ -870,35 +1579,35 @@ export async function getExpenses(): Promise<Expense[]> {
   }
 }
 
-export async function getExpensesByDate(date: string): Promise<Expense[]> {
+export async function getExpensesByDate(date: string, locationId?: string | null): Promise<Expense[]> {
   if (Platform.OS === 'web') {
     const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
     return expenses.filter(e => {
       const normalizedDate = e.date ? e.date.substring(0, 10) : '';
-      return normalizedDate === date;
+      return normalizedDate === date && isInLocation(e, locationId);
     }).map(normalizeExpense);
   }
   const database = await ensureDb();
   if (!database) return [];
   try {
     const rows = await database.getAllAsync<ExpenseRow>('SELECT * FROM expenses WHERE substr(date, 1, 10) = ? ORDER BY createdAt DESC', [date]);
-    return rows.map(normalizeExpenseRow);
+    return rows.map(normalizeExpenseRow).filter(expense => isInLocation(expense, locationId));
   } catch (error) {
     console.log('Error getting expenses by date:', error);
     return [];
   }
 }
 
-export async function getExpensesByDateRange(startDate: string, endDate: string): Promise<Expense[]> {
+export async function getExpensesByDateRange(startDate: string, endDate: string, locationId?: string | null): Promise<Expense[]> {
   if (Platform.OS === 'web') {
     const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
-    return expenses.filter(e => e.date >= startDate && e.date <= endDate).map(normalizeExpense);
+    return expenses.filter(e => e.date >= startDate && e.date <= endDate && isInLocation(e, locationId)).map(normalizeExpense);
   }
   const database = await ensureDb();
   if (!database) return [];
   try {
     const rows = await database.getAllAsync<ExpenseRow>('SELECT * FROM expenses WHERE date >= ? AND date <= ? ORDER BY date DESC', [startDate, endDate]);
-    return rows.map(normalizeExpenseRow);
+    return rows.map(normalizeExpenseRow).filter(expense => isInLocation(expense, locationId));
   } catch (error) {
     console.log('Error getting expenses by date range:', error);
     return [];
@@ -911,6 +1620,8 @@ export async function createExpense(expense: Omit<Expense, 'id' | 'createdAt' |
     ...expense,
     name: expense.name ?? '',
     items: Array.isArray(expense.items) ? expense.items : [],
+    receipts: normalizeExpenseReceipts(expense.receipts ?? []),
+    shiftId: expense.shiftId !== undefined ? expense.shiftId : await getOpenShiftIdForRecord(expense.date, expense.locationId),
     id: generateId(),
     createdAt: now,
     updatedAt: now,
@@ -932,8 +1643,8 @@ export async function createExpense(expense: Omit<Expense, 'id' | 'createdAt' |
   const database = await ensureDb();
   if (!database) throw new Error('Database not initialized');
   await database.runAsync(
-    'INSERT INTO expenses (id, name, items, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-    [newExpense.id, newExpense.name, serializeItems(newExpense.items), newExpense.total, newExpense.date, newExpense.createdBy, now, now, 'pending']
+    'INSERT INTO expenses (id, name, items, categoryId, receipts, shiftId, locationId, recurringExpenseId, supplierId, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newExpense.id, newExpense.name, serializeItems(newExpense.items), newExpense.categoryId ?? null, serializeReceipts(newExpense.receipts), newExpense.shiftId ?? null, newExpense.locationId ?? null, newExpense.recurringExpenseId ?? null, newExpense.supplierId ?? null, newExpense.total, newExpense.date, newExpense.createdBy, now, now, 'pending']
   );
   await enqueueOutboxUpsert('expense', newExpense.id, {
     name: newExpense.name,
@@ -943,6 +1654,44 @@ export async function createExpense(expense: Omit<Expense, 'id' | 'createdAt' |
   return newExpense;
 }
 
+export async function updateExpense(expense: Expense): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedExpense: Expense = {
+    ...expense,
+    name: expense.name ?? '',
+    items: Array.isArray(expense.items) ? expense.items : [],
+    receipts: normalizeExpenseReceipts(expense.receipts ?? []),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    const index = expenses.findIndex(e => e.id === expense.id);
+    if (index === -1) return;
+    expenses[index] = updatedExpense;
+    await setToStorage(STORAGE_KEYS.expenses, expenses);
+    await enqueueOutboxUpsert('expense', updatedExpense.id, {
+      name: updatedExpense.name,
+      amount: updatedExpense.total,
+      date: updatedExpense.date,
+    });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE expenses SET name = ?, items = ?, categoryId = ?, supplierId = ?, receipts = ?, total = ?, date = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedExpense.name, serializeItems(updatedExpense.items), updatedExpense.categoryId ?? null, updatedExpense.supplierId ?? null, serializeReceipts(updatedExpense.receipts), updatedExpense.total, updatedExpense.date, now, 'pending', updatedExpense.id]
+  );
+  await enqueueOutboxUpsert('expense', updatedExpense.id, {
+    name: updatedExpense.name,
+    amount: updatedExpense.total,
+    date: updatedExpense.date,
+  });
+}
+
 export async function deleteExpense(id: string): Promise<void> {
   if (Platform.OS === 'web') {
     const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
@@ -954,409 +1703,2750 @@ export async function deleteExpense(id: string): Promise<void> {
   await database.runAsync('DELETE FROM expenses WHERE id = ?', [id]);
 }
 
-export async function getActivities(): Promise<Activity[]> {
+export async function getRecurringExpenses(): Promise<RecurringExpense[]> {
   if (Platform.OS === 'web') {
-    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
-    return activities.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const templates = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    return templates.map(normalizeRecurringExpense).sort((a, b) => a.name.localeCompare(b.name));
   }
   const database = await ensureDb();
   if (!database) return [];
   try {
-    return await database.getAllAsync<Activity>('SELECT * FROM activities ORDER BY createdAt DESC LIMIT 50');
+    const rows = await database.getAllAsync<RecurringExpenseRow>('SELECT * FROM recurring_expenses ORDER BY name ASC');
+    return rows.map(normalizeRecurringExpenseRow);
   } catch (error) {
-    console.log('Error getting activities:', error);
+    console.log('Error getting recurring expenses:', error);
     return [];
   }
 }
 
-export async function createActivity(activity: Omit<Activity, 'id' | 'createdAt' | 'syncStatus'>): Promise<Activity> {
+export async function createRecurringExpense(
+  template: Omit<RecurringExpense, 'id' | 'lastGeneratedDate' | 'createdAt' | 'updatedAt' | 'syncStatus'>
+): Promise<RecurringExpense> {
   const now = new Date().toISOString();
-  const newActivity: Activity = {
-    ...activity,
+  const newTemplate: RecurringExpense = {
+    ...template,
+    name: template.name.trim(),
+    items: Array.isArray(template.items) ? template.items : [],
+    categoryId: template.categoryId ?? null,
+    locationId: template.locationId ?? null,
+    lastGeneratedDate: null,
     id: generateId(),
     createdAt: now,
+    updatedAt: now,
     syncStatus: 'pending',
   };
 
   if (Platform.OS === 'web') {
-    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
-    activities.unshift(newActivity);
-    await setToStorage(STORAGE_KEYS.activities, activities.slice(0, 100));
-    return newActivity;
+    const templates = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    templates.push(newTemplate);
+    await setToStorage(STORAGE_KEYS.recurringExpenses, templates);
+    await enqueueOutboxUpsert('recurring_expense', newTemplate.id, { name: newTemplate.name, amount: newTemplate.total });
+    return newTemplate;
   }
 
   const database = await ensureDb();
   if (!database) throw new Error('Database not initialized');
   await database.runAsync(
-    'INSERT INTO activities (id, type, description, userId, createdAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?)',
-    [newActivity.id, newActivity.type, newActivity.description, newActivity.userId, now, 'pending']
+    'INSERT INTO recurring_expenses (id, name, items, categoryId, locationId, total, frequency, startDate, lastGeneratedDate, active, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newTemplate.id, newTemplate.name, serializeItems(newTemplate.items), newTemplate.categoryId ?? null, newTemplate.locationId ?? null, newTemplate.total, newTemplate.frequency, newTemplate.startDate, null, newTemplate.active ? 1 : 0, newTemplate.createdBy, now, now, 'pending']
   );
-  return newActivity;
+  await enqueueOutboxUpsert('recurring_expense', newTemplate.id, { name: newTemplate.name, amount: newTemplate.total });
+  return newTemplate;
 }
 
-export async function getOutboxItems(): Promise<OutboxItem[]> {
+export async function updateRecurringExpense(template: RecurringExpense): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedTemplate: RecurringExpense = {
+    ...normalizeRecurringExpense(template),
+    name: template.name.trim(),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
   if (Platform.OS === 'web') {
-    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
-    return outbox.map(normalizeOutboxRow);
+    const templates = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    const index = templates.findIndex(t => t.id === template.id);
+    if (index === -1) return;
+    templates[index] = updatedTemplate;
+    await setToStorage(STORAGE_KEYS.recurringExpenses, templates);
+    await enqueueOutboxUpsert('recurring_expense', updatedTemplate.id, { name: updatedTemplate.name, amount: updatedTemplate.total });
+    return;
   }
+
   const database = await ensureDb();
-  if (!database) return [];
-  try {
-    const rows = await database.getAllAsync<OutboxRow>('SELECT * FROM outbox ORDER BY createdAt DESC');
-    return rows.map(normalizeOutboxRow);
-  } catch (error) {
-    console.log('Error getting outbox items:', error);
-    return [];
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE recurring_expenses SET name = ?, items = ?, categoryId = ?, locationId = ?, total = ?, frequency = ?, startDate = ?, lastGeneratedDate = ?, active = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedTemplate.name, serializeItems(updatedTemplate.items), updatedTemplate.categoryId ?? null, updatedTemplate.locationId ?? null, updatedTemplate.total, updatedTemplate.frequency, updatedTemplate.startDate, updatedTemplate.lastGeneratedDate ?? null, updatedTemplate.active ? 1 : 0, now, 'pending', updatedTemplate.id]
+  );
+  await enqueueOutboxUpsert('recurring_expense', updatedTemplate.id, { name: updatedTemplate.name, amount: updatedTemplate.total });
+}
+
+export async function deleteRecurringExpense(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const templates = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    await setToStorage(STORAGE_KEYS.recurringExpenses, templates.filter(t => t.id !== id));
+    return;
   }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM recurring_expenses WHERE id = ?', [id]);
 }
 
-export async function enqueueDeletion(
-  entityType: OutboxEntityType,
-  entityId: string,
-  metadata?: { name?: string; amount?: number | null; date?: string | null },
-  options?: { isSyncing?: boolean }
-): Promise<OutboxItem | null> {
+async function insertRecurringExpenseOccurrence(template: RecurringExpense, date: string): Promise<boolean> {
   const now = new Date().toISOString();
-  const isSyncing = options?.isSyncing ?? false;
+  const expense: Expense = {
+    id: getRecurringExpenseOccurrenceId(template.id, date),
+    name: template.name,
+    items: (template.items ?? []).map(item => ({ ...item, id: generateId() })),
+    categoryId: template.categoryId ?? null,
+    receipts: [],
+    shiftId: null,
+    locationId: template.locationId ?? null,
+    recurringExpenseId: template.id,
+    total: template.total,
+    date,
+    createdBy: template.createdBy,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
 
   if (Platform.OS === 'web') {
-    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
-    const upsertIndex = outbox.findIndex(item => item.entityType === entityType && item.entityId === entityId && item.operation === 'upsert');
-    if (upsertIndex >= 0) {
-      const existingUpsert = normalizeOutboxRow(outbox[upsertIndex]);
-      if (existingUpsert.syncStatus === 'pending' && !isSyncing) {
-        outbox.splice(upsertIndex, 1);
-        await setToStorage(STORAGE_KEYS.outbox, outbox);
-        return null;
-      }
-      if (existingUpsert.syncStatus !== 'in_progress' && !isSyncing) {
-        outbox.splice(upsertIndex, 1);
+    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    if (expenses.some(e => e.id === expense.id)) return false;
+    expenses.push(expense);
+    await setToStorage(STORAGE_KEYS.expenses, expenses);
+  } else {
+    const database = await ensureDb();
+    if (!database) return false;
+    const result = await database.runAsync(
+      'INSERT OR IGNORE INTO expenses (id, name, items, categoryId, receipts, shiftId, locationId, recurringExpenseId, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [expense.id, expense.name, serializeItems(expense.items), expense.categoryId ?? null, serializeReceipts(expense.receipts), null, expense.locationId ?? null, expense.recurringExpenseId ?? null, expense.total, expense.date, expense.createdBy, now, now, 'pending']
+    );
+    if (result.changes === 0) return false;
+  }
+
+  await enqueueOutboxUpsert('expense', expense.id, {
+    name: expense.name,
+    amount: expense.total,
+    date: expense.date,
+  });
+  return true;
+}
+
+// Occurrence ids are derived from the template and date, so devices catching up the same template converge on one expense.
+export async function materializeRecurringExpenses(today: Date = new Date()): Promise<number> {
+  try {
+    const templates = await getRecurringExpenses();
+    let created = 0;
+    for (const template of templates) {
+      if (!template.active) continue;
+      const dueDates = getDueRecurringDates(template, today);
+      if (dueDates.length === 0) continue;
+      for (const date of dueDates) {
+        if (await insertRecurringExpenseOccurrence(template, date)) {
+          created += 1;
+        }
       }
+      await updateRecurringExpense({ ...template, lastGeneratedDate: dueDates[dueDates.length - 1] });
     }
-
-    const existing = outbox.find(item => item.entityType === entityType && item.entityId === entityId && item.operation === 'delete');
-    if (existing) {
-      await setToStorage(STORAGE_KEYS.outbox, outbox);
-      return normalizeOutboxRow(existing);
+    if (created > 0) {
+      console.log(`Created ${created} expenses from recurring templates`);
     }
-    const newItem: OutboxItem = {
-      id: generateId(),
-      entityType,
-      entityId,
-      operation: 'delete',
-      createdAt: now,
-      syncStatus: 'pending',
-      name: metadata?.name ?? null,
-      amount: metadata?.amount ?? null,
-      date: metadata?.date ?? null,
-    };
-    outbox.unshift(newItem);
-    await setToStorage(STORAGE_KEYS.outbox, outbox);
-    return newItem;
+    return created;
+  } catch (error) {
+    console.log('Error materializing recurring expenses:', error);
+    return 0;
   }
+}
 
+export async function getExpenseCategories(): Promise<ExpenseCategory[]> {
+  if (Platform.OS === 'web') {
+    const categories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    return categories.sort((a, b) => a.name.localeCompare(b.name));
+  }
   const database = await ensureDb();
-  if (!database) return null;
+  if (!database) return [];
   try {
-    const existingUpsert = await database.getFirstAsync<OutboxRow>(
-      'SELECT * FROM outbox WHERE entityType = ? AND entityId = ? AND operation = ? LIMIT 1',
-      [entityType, entityId, 'upsert']
-    );
-    if (existingUpsert) {
-      const normalizedUpsert = normalizeOutboxRow(existingUpsert);
-      if (normalizedUpsert.syncStatus === 'pending' && !isSyncing) {
-        await database.runAsync('DELETE FROM outbox WHERE id = ?', [normalizedUpsert.id]);
-        return null;
-      }
-      if (normalizedUpsert.syncStatus !== 'in_progress' && !isSyncing) {
-        await database.runAsync('DELETE FROM outbox WHERE id = ?', [normalizedUpsert.id]);
-      }
-    }
-
-    const existing = await database.getFirstAsync<OutboxRow>(
-      'SELECT * FROM outbox WHERE entityType = ? AND entityId = ? AND operation = ? LIMIT 1',
-      [entityType, entityId, 'delete']
-    );
-    if (existing) {
-      return normalizeOutboxRow(existing);
-    }
-    const id = generateId();
-    await database.runAsync(
-      'INSERT INTO outbox (id, entityType, entityId, operation, createdAt, syncStatus, name, amount, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-      [
-        id,
-        entityType,
-        entityId,
-        'delete',
-        now,
-        'pending',
-        metadata?.name ?? null,
-        metadata?.amount ?? null,
-        metadata?.date ?? null,
-      ]
-    );
-    return {
-      id,
-      entityType,
-      entityId,
-      operation: 'delete',
-      createdAt: now,
-      syncStatus: 'pending',
-      name: metadata?.name ?? null,
-      amount: metadata?.amount ?? null,
-      date: metadata?.date ?? null,
-    };
+    return await database.getAllAsync<ExpenseCategory>('SELECT * FROM expense_categories ORDER BY name ASC');
   } catch (error) {
-    console.log('Error enqueueing deletion:', error);
-    return null;
+    console.log('Error getting expense categories:', error);
+    return [];
   }
 }
 
-export async function updateOutboxItemStatus(id: string, status: OutboxStatus): Promise<void> {
+export async function createExpenseCategory(name: string): Promise<ExpenseCategory> {
+  const now = new Date().toISOString();
+  const newCategory: ExpenseCategory = {
+    id: generateId(),
+    name: name.trim(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
   if (Platform.OS === 'web') {
-    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
-    const index = outbox.findIndex(item => item.id === id);
-    if (index >= 0) {
-      outbox[index] = { ...outbox[index], syncStatus: status };
-      await setToStorage(STORAGE_KEYS.outbox, outbox);
-    }
+    const categories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    categories.push(newCategory);
+    await setToStorage(STORAGE_KEYS.expenseCategories, categories);
+    await enqueueOutboxUpsert('expense_category', newCategory.id, { name: newCategory.name });
+    return newCategory;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO expense_categories (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+    [newCategory.id, newCategory.name, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('expense_category', newCategory.id, { name: newCategory.name });
+  return newCategory;
+}
+
+export async function updateExpenseCategory(category: ExpenseCategory): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedCategory: ExpenseCategory = {
+    ...category,
+    name: category.name.trim(),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const categories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    const index = categories.findIndex(c => c.id === category.id);
+    if (index === -1) return;
+    categories[index] = updatedCategory;
+    await setToStorage(STORAGE_KEYS.expenseCategories, categories);
+    await enqueueOutboxUpsert('expense_category', updatedCategory.id, { name: updatedCategory.name });
     return;
   }
+
   const database = await ensureDb();
-  if (!database) return;
-  await database.runAsync('UPDATE outbox SET syncStatus = ? WHERE id = ?', [status, id]);
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE expense_categories SET name = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedCategory.name, now, 'pending', updatedCategory.id]
+  );
+  await enqueueOutboxUpsert('expense_category', updatedCategory.id, { name: updatedCategory.name });
 }
 
-export async function removeOutboxItem(id: string): Promise<void> {
+export async function deleteExpenseCategory(id: string): Promise<void> {
   if (Platform.OS === 'web') {
-    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
-    await setToStorage(STORAGE_KEYS.outbox, outbox.filter(item => item.id !== id));
+    const categories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    await setToStorage(STORAGE_KEYS.expenseCategories, categories.filter(c => c.id !== id));
     return;
   }
-  const database = await ensureDb();
-  if (!database) return;
-  await database.runAsync('DELETE FROM outbox WHERE id = ?', [id]);
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM expense_categories WHERE id = ?', [id]);
+}
+
+export async function getLocations(): Promise<Location[]> {
+  if (Platform.OS === 'web') {
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    return locations.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<Location>('SELECT * FROM locations ORDER BY name ASC');
+  } catch (error) {
+    console.log('Error getting locations:', error);
+    return [];
+  }
+}
+
+export async function createLocation(name: string): Promise<Location> {
+  const now = new Date().toISOString();
+  const newLocation: Location = {
+    id: generateId(),
+    name: name.trim(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    locations.push(newLocation);
+    await setToStorage(STORAGE_KEYS.locations, locations);
+    await enqueueOutboxUpsert('location', newLocation.id, { name: newLocation.name });
+    return newLocation;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO locations (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+    [newLocation.id, newLocation.name, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('location', newLocation.id, { name: newLocation.name });
+  return newLocation;
+}
+
+export async function updateLocation(location: Location): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedLocation: Location = {
+    ...location,
+    name: location.name.trim(),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    const index = locations.findIndex(l => l.id === location.id);
+    if (index === -1) return;
+    locations[index] = updatedLocation;
+    await setToStorage(STORAGE_KEYS.locations, locations);
+    await enqueueOutboxUpsert('location', updatedLocation.id, { name: updatedLocation.name });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE locations SET name = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedLocation.name, now, 'pending', updatedLocation.id]
+  );
+  await enqueueOutboxUpsert('location', updatedLocation.id, { name: updatedLocation.name });
+}
+
+export async function deleteLocation(id: string): Promise<void> {
+  if (id === DEFAULT_LOCATION.id) return;
+  if (Platform.OS === 'web') {
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    await setToStorage(STORAGE_KEYS.locations, locations.filter(l => l.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM locations WHERE id = ?', [id]);
+}
+
+export async function getCustomers(): Promise<Customer[]> {
+  if (Platform.OS === 'web') {
+    const customers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    return customers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<Customer>('SELECT * FROM customers ORDER BY name ASC');
+  } catch (error) {
+    console.log('Error getting customers:', error);
+    return [];
+  }
+}
+
+export async function createCustomer(customer: Pick<Customer, 'name' | 'phone' | 'notes'>): Promise<Customer> {
+  const now = new Date().toISOString();
+  const newCustomer: Customer = {
+    id: generateId(),
+    name: customer.name.trim(),
+    phone: customer.phone?.trim() || null,
+    notes: customer.notes?.trim() || null,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const customers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    customers.push(newCustomer);
+    await setToStorage(STORAGE_KEYS.customers, customers);
+    await enqueueOutboxUpsert('customer', newCustomer.id, { name: newCustomer.name });
+    return newCustomer;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO customers (id, name, phone, notes, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [newCustomer.id, newCustomer.name, newCustomer.phone ?? null, newCustomer.notes ?? null, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('customer', newCustomer.id, { name: newCustomer.name });
+  return newCustomer;
+}
+
+export async function updateCustomer(customer: Customer): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedCustomer: Customer = {
+    ...customer,
+    name: customer.name.trim(),
+    phone: customer.phone?.trim() || null,
+    notes: customer.notes?.trim() || null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const customers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    const index = customers.findIndex(c => c.id === customer.id);
+    if (index === -1) return;
+    customers[index] = updatedCustomer;
+    await setToStorage(STORAGE_KEYS.customers, customers);
+    await enqueueOutboxUpsert('customer', updatedCustomer.id, { name: updatedCustomer.name });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE customers SET name = ?, phone = ?, notes = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedCustomer.name, updatedCustomer.phone ?? null, updatedCustomer.notes ?? null, now, 'pending', updatedCustomer.id]
+  );
+  await enqueueOutboxUpsert('customer', updatedCustomer.id, { name: updatedCustomer.name });
+}
+
+export async function deleteCustomer(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const customers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    await setToStorage(STORAGE_KEYS.customers, customers.filter(c => c.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM customers WHERE id = ?', [id]);
+}
+
+export async function getSuppliers(): Promise<Supplier[]> {
+  if (Platform.OS === 'web') {
+    const suppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<Supplier>('SELECT * FROM suppliers ORDER BY name ASC');
+  } catch (error) {
+    console.log('Error getting suppliers:', error);
+    return [];
+  }
+}
+
+export async function createSupplier(supplier: Pick<Supplier, 'name' | 'contact' | 'notes'>): Promise<Supplier> {
+  const now = new Date().toISOString();
+  const newSupplier: Supplier = {
+    id: generateId(),
+    name: supplier.name.trim(),
+    contact: supplier.contact?.trim() || null,
+    notes: supplier.notes?.trim() || null,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const suppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    suppliers.push(newSupplier);
+    await setToStorage(STORAGE_KEYS.suppliers, suppliers);
+    await enqueueOutboxUpsert('supplier', newSupplier.id, { name: newSupplier.name });
+    return newSupplier;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO suppliers (id, name, contact, notes, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [newSupplier.id, newSupplier.name, newSupplier.contact ?? null, newSupplier.notes ?? null, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('supplier', newSupplier.id, { name: newSupplier.name });
+  return newSupplier;
+}
+
+export async function updateSupplier(supplier: Supplier): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedSupplier: Supplier = {
+    ...supplier,
+    name: supplier.name.trim(),
+    contact: supplier.contact?.trim() || null,
+    notes: supplier.notes?.trim() || null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const suppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    const index = suppliers.findIndex(c => c.id === supplier.id);
+    if (index === -1) return;
+    suppliers[index] = updatedSupplier;
+    await setToStorage(STORAGE_KEYS.suppliers, suppliers);
+    await enqueueOutboxUpsert('supplier', updatedSupplier.id, { name: updatedSupplier.name });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE suppliers SET name = ?, contact = ?, notes = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedSupplier.name, updatedSupplier.contact ?? null, updatedSupplier.notes ?? null, now, 'pending', updatedSupplier.id]
+  );
+  await enqueueOutboxUpsert('supplier', updatedSupplier.id, { name: updatedSupplier.name });
+}
+
+export async function deleteSupplier(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const suppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    await setToStorage(STORAGE_KEYS.suppliers, suppliers.filter(c => c.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM suppliers WHERE id = ?', [id]);
+}
+
+export async function getCreditSales(): Promise<Sale[]> {
+  if (Platform.OS === 'web') {
+    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    return sales.filter(s => s.paymentMethod === 'credit' && !!s.customerId).map(normalizeSale);
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<SaleRow>(
+      `SELECT * FROM sales WHERE paymentMethod = 'credit' AND customerId IS NOT NULL ORDER BY date ASC, createdAt ASC`
+    );
+    return rows.map(normalizeSaleRow);
+  } catch (error) {
+    console.log('Error getting credit sales:', error);
+    return [];
+  }
+}
+
+export async function getCustomerPayments(): Promise<CustomerPayment[]> {
+  if (Platform.OS === 'web') {
+    const payments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    return payments
+      .map(payment => ({ ...payment, paymentMethod: normalizePaymentMethod(payment.paymentMethod) }))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<CustomerPayment>('SELECT * FROM customer_payments ORDER BY date DESC, createdAt DESC');
+    return rows.map(row => ({ ...row, paymentMethod: normalizePaymentMethod(row.paymentMethod) }));
+  } catch (error) {
+    console.log('Error getting customer payments:', error);
+    return [];
+  }
+}
+
+export async function createCustomerPayment(payment: Omit<CustomerPayment, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<CustomerPayment> {
+  const now = new Date().toISOString();
+  const newPayment: CustomerPayment = {
+    ...payment,
+    paymentMethod: normalizePaymentMethod(payment.paymentMethod),
+    notes: payment.notes?.trim() || null,
+    locationId: resolveLocationId(payment.locationId),
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const payments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    payments.push(newPayment);
+    await setToStorage(STORAGE_KEYS.customerPayments, payments);
+    await enqueueOutboxUpsert('customer_payment', newPayment.id, {
+      name: 'Customer payment',
+      amount: newPayment.amount,
+      date: newPayment.date,
+    });
+    return newPayment;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO customer_payments (id, customerId, amount, paymentMethod, notes, date, locationId, receivedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newPayment.id, newPayment.customerId, newPayment.amount, newPayment.paymentMethod, newPayment.notes ?? null, newPayment.date, newPayment.locationId ?? null, newPayment.receivedBy, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('customer_payment', newPayment.id, {
+    name: 'Customer payment',
+    amount: newPayment.amount,
+    date: newPayment.date,
+  });
+  return newPayment;
+}
+
+export async function deleteCustomerPayment(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const payments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    await setToStorage(STORAGE_KEYS.customerPayments, payments.filter(payment => payment.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM customer_payments WHERE id = ?', [id]);
+}
+
+export async function getSalesTargets(): Promise<SalesTarget[]> {
+  if (Platform.OS === 'web') {
+    const targets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    return targets.sort((a, b) => a.locationId.localeCompare(b.locationId) || a.weekday - b.weekday);
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<SalesTarget>('SELECT * FROM sales_targets ORDER BY locationId ASC, weekday ASC');
+  } catch (error) {
+    console.log('Error getting sales targets:', error);
+    return [];
+  }
+}
+
+// One row per location and weekday; an amount of 0 clears the target for that day.
+export async function setSalesTarget(locationId: string, weekday: number, amount: number, updatedBy: string): Promise<SalesTarget> {
+  const now = new Date().toISOString();
+  const id = getSalesTargetId(locationId, weekday);
+  const nextAmount = Math.max(0, amount);
+
+  if (Platform.OS === 'web') {
+    const targets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    const index = targets.findIndex(target => target.id === id);
+    const target: SalesTarget = {
+      id,
+      locationId,
+      weekday,
+      amount: nextAmount,
+      updatedBy,
+      createdAt: index === -1 ? now : targets[index].createdAt,
+      updatedAt: now,
+      syncStatus: 'pending',
+    };
+    if (index === -1) {
+      targets.push(target);
+    } else {
+      targets[index] = target;
+    }
+    await setToStorage(STORAGE_KEYS.salesTargets, targets);
+    await enqueueOutboxUpsert('sales_target', id, { amount: nextAmount });
+    return target;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  const existing = await database.getFirstAsync<SalesTarget>('SELECT * FROM sales_targets WHERE id = ?', [id]);
+  if (existing) {
+    await database.runAsync(
+      'UPDATE sales_targets SET amount = ?, updatedBy = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+      [nextAmount, updatedBy, now, 'pending', id]
+    );
+  } else {
+    await database.runAsync(
+      'INSERT INTO sales_targets (id, locationId, weekday, amount, updatedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, locationId, weekday, nextAmount, updatedBy, now, now, 'pending']
+    );
+  }
+  await enqueueOutboxUpsert('sales_target', id, { amount: nextAmount });
+  return {
+    id,
+    locationId,
+    weekday,
+    amount: nextAmount,
+    updatedBy,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+}
+
+type NetSalesSplitRow = Omit<NetSalesSplitConfig, 'includeExp' | 'recipients'> & {
+  operation?: number | null;
+  general?: number | null;
+  foodCart?: number | null;
+  recipients?: unknown;
+  includeExp: number | boolean;
+};
+
+// Rows saved before recipients were configurable only have the three fixed percentages.
+function normalizeNetSalesSplitRow(row: NetSalesSplitRow): NetSalesSplitConfig {
+  const recipients = normalizeSplitRecipients(row.recipients);
+  return {
+    id: row.id,
+    effectiveDate: row.effectiveDate,
+    recipients: recipients.length > 0 ? recipients : buildLegacySplitRecipients(row.operation ?? 0, row.general ?? 0, row.foodCart ?? 0),
+    includeExp: row.includeExp === true || row.includeExp === 1,
+    createdBy: row.createdBy ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    syncStatus: row.syncStatus,
+  };
+}
+
+export async function getNetSalesSplits(): Promise<NetSalesSplitConfig[]> {
+  if (Platform.OS === 'web') {
+    const configs = await getFromStorage<NetSalesSplitRow[]>(STORAGE_KEYS.netSalesSplits, []);
+    return configs.map(normalizeNetSalesSplitRow).sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<NetSalesSplitRow>('SELECT * FROM net_sales_splits ORDER BY effectiveDate DESC');
+    return rows.map(normalizeNetSalesSplitRow);
+  } catch (error) {
+    console.log('Error getting net sales splits:', error);
+    return [];
+  }
+}
+
+// Saving twice for the same effective date replaces that day's entry instead of stacking a second one.
+export async function saveNetSalesSplit(
+  split: NetSalesSplit,
+  effectiveDate: string,
+  createdBy: string | null,
+  id?: string
+): Promise<NetSalesSplitConfig> {
+  const now = new Date().toISOString();
+  const existing = (await getNetSalesSplits()).find(config => config.effectiveDate === effectiveDate) ?? null;
+  const config: NetSalesSplitConfig = {
+    id: existing?.id ?? id ?? generateId(),
+    effectiveDate,
+    recipients: split.recipients,
+    includeExp: split.includeExp,
+    createdBy: createdBy ?? existing?.createdBy ?? null,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+  const outboxName = `${config.recipients.map(recipient => `${recipient.percent}`).join('/')} from ${effectiveDate}`;
+
+  if (Platform.OS === 'web') {
+    const configs = await getFromStorage<NetSalesSplitConfig[]>(STORAGE_KEYS.netSalesSplits, []);
+    await setToStorage(STORAGE_KEYS.netSalesSplits, [...configs.filter(item => item.id !== config.id), config]);
+    await enqueueOutboxUpsert('net_sales_split', config.id, { name: outboxName, date: effectiveDate });
+    return config;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  const recipientsText = JSON.stringify(config.recipients);
+  if (existing) {
+    await database.runAsync(
+      'UPDATE net_sales_splits SET operation = ?, general = ?, foodCart = ?, recipients = ?, includeExp = ?, createdBy = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+      [...getLegacySplitPercents(config.recipients), recipientsText, config.includeExp ? 1 : 0, config.createdBy ?? null, now, 'pending', config.id]
+    );
+  } else {
+    await database.runAsync(
+      'INSERT INTO net_sales_splits (id, effectiveDate, operation, general, foodCart, recipients, includeExp, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [config.id, effectiveDate, ...getLegacySplitPercents(config.recipients), recipientsText, config.includeExp ? 1 : 0, config.createdBy ?? null, now, now, 'pending']
+    );
+  }
+  await enqueueOutboxUpsert('net_sales_split', config.id, { name: outboxName, date: effectiveDate });
+  return config;
+}
+
+const LEGACY_NET_SALES_SPLIT_KEY = 'netSalesSplit';
+const LEGACY_NET_SALES_SPLIT_ID = 'net-sales-split-legacy';
+
+// The split used to live in one AsyncStorage entry that applied to every date; it becomes the baseline history entry.
+export async function migrateLegacyNetSalesSplit(): Promise<void> {
+  const migrated = await AsyncStorage.getItem(STORAGE_KEYS.netSalesSplitMigration);
+  if (migrated) return;
+
+  try {
+    const stored = await AsyncStorage.getItem(LEGACY_NET_SALES_SPLIT_KEY);
+    const existing = await getNetSalesSplits();
+    if (stored && !existing.some(config => config.effectiveDate === BASELINE_NET_SALES_SPLIT_DATE)) {
+      const parsed = JSON.parse(stored) as { operation?: unknown; general?: unknown; foodCart?: unknown; includeExp?: unknown };
+      const toPercent = (value: unknown, fallback: number) => {
+        const parsedValue = typeof value === 'number' ? value : Number(value);
+        return Number.isFinite(parsedValue) ? parsedValue : fallback;
+      };
+      const [operation, general, foodCart] = getLegacySplitPercents(DEFAULT_NET_SALES_SPLIT.recipients);
+      await saveNetSalesSplit(
+        {
+          recipients: buildLegacySplitRecipients(
+            toPercent(parsed.operation, operation),
+            toPercent(parsed.general, general),
+            toPercent(parsed.foodCart, foodCart)
+          ),
+          includeExp: typeof parsed.includeExp === 'boolean' ? parsed.includeExp : DEFAULT_NET_SALES_SPLIT.includeExp,
+        },
+        BASELINE_NET_SALES_SPLIT_DATE,
+        null,
+        LEGACY_NET_SALES_SPLIT_ID
+      );
+    }
+    await AsyncStorage.setItem(STORAGE_KEYS.netSalesSplitMigration, 'true');
+  } catch (error) {
+    console.log('Error migrating legacy net sales split:', error);
+  }
+}
+
+export async function getPayouts(): Promise<Payout[]> {
+  if (Platform.OS === 'web') {
+    const payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    return payouts.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<Payout>('SELECT * FROM payouts ORDER BY date DESC, createdAt DESC');
+  } catch (error) {
+    console.log('Error getting payouts:', error);
+    return [];
+  }
+}
+
+export async function createPayout(payout: Omit<Payout, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<Payout> {
+  const now = new Date().toISOString();
+  const newPayout: Payout = {
+    ...payout,
+    recipientUserId: payout.recipientUserId || null,
+    advanceDeduction: payout.recipientUserId && payout.advanceDeduction ? payout.advanceDeduction : null,
+    notes: payout.notes?.trim() || null,
+    locationId: resolveLocationId(payout.locationId),
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+  const outboxMetadata = {
+    name: `Payout · ${getSplitRecipientName(getAllSplitRecipients(await getNetSalesSplits()), newPayout.recipient)}`,
+    amount: newPayout.amount,
+    date: newPayout.date,
+  };
+
+  if (Platform.OS === 'web') {
+    const payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    payouts.push(newPayout);
+    await setToStorage(STORAGE_KEYS.payouts, payouts);
+    await enqueueOutboxUpsert('payout', newPayout.id, outboxMetadata);
+    return newPayout;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO payouts (id, recipient, recipientUserId, amount, advanceDeduction, date, periodStart, periodEnd, notes, locationId, paidBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newPayout.id, newPayout.recipient, newPayout.recipientUserId ?? null, newPayout.amount, newPayout.advanceDeduction ?? null, newPayout.date, newPayout.periodStart, newPayout.periodEnd, newPayout.notes ?? null, newPayout.locationId ?? null, newPayout.paidBy, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('payout', newPayout.id, outboxMetadata);
+  return newPayout;
+}
+
+export async function deletePayout(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    await setToStorage(STORAGE_KEYS.payouts, payouts.filter(payout => payout.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM payouts WHERE id = ?', [id]);
+}
+
+export async function getCashAdvances(): Promise<CashAdvance[]> {
+  if (Platform.OS === 'web') {
+    const advances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
+    return advances.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<CashAdvance>('SELECT * FROM cash_advances ORDER BY date DESC, createdAt DESC');
+  } catch (error) {
+    console.log('Error getting cash advances:', error);
+    return [];
+  }
+}
+
+export async function createCashAdvance(advance: Omit<CashAdvance, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<CashAdvance> {
+  const now = new Date().toISOString();
+  const newAdvance: CashAdvance = {
+    ...advance,
+    notes: advance.notes?.trim() || null,
+    locationId: resolveLocationId(advance.locationId),
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+  const outboxMetadata = {
+    name: 'Cash advance',
+    amount: newAdvance.amount,
+    date: newAdvance.date,
+  };
+
+  if (Platform.OS === 'web') {
+    const advances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
+    advances.push(newAdvance);
+    await setToStorage(STORAGE_KEYS.cashAdvances, advances);
+    await enqueueOutboxUpsert('cash_advance', newAdvance.id, outboxMetadata);
+    return newAdvance;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO cash_advances (id, userId, amount, date, notes, locationId, recordedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newAdvance.id, newAdvance.userId, newAdvance.amount, newAdvance.date, newAdvance.notes ?? null, newAdvance.locationId ?? null, newAdvance.recordedBy, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('cash_advance', newAdvance.id, outboxMetadata);
+  return newAdvance;
+}
+
+export async function deleteCashAdvance(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const advances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
+    await setToStorage(STORAGE_KEYS.cashAdvances, advances.filter(advance => advance.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM cash_advances WHERE id = ?', [id]);
+}
+
+export async function getCashDrawerCloses(): Promise<CashDrawerClose[]> {
+  if (Platform.OS === 'web') {
+    const closes = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    return closes.sort((a, b) => b.date.localeCompare(a.date));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<CashDrawerClose>('SELECT * FROM cash_drawer_closes ORDER BY date DESC');
+  } catch (error) {
+    console.log('Error getting cash drawer closes:', error);
+    return [];
+  }
+}
+
+export async function getCashDrawerCloseByDate(date: string, locationId?: string | null): Promise<CashDrawerClose | null> {
+  if (Platform.OS === 'web') {
+    const closes = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    return closes
+      .filter(close => close.date === date && isInLocation(close, locationId))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] ?? null;
+  }
+  const database = await ensureDb();
+  if (!database) return null;
+  try {
+    const closes = await database.getAllAsync<CashDrawerClose>(
+      'SELECT * FROM cash_drawer_closes WHERE date = ? ORDER BY updatedAt DESC',
+      [date]
+    );
+    return closes.find(close => isInLocation(close, locationId)) ?? null;
+  } catch (error) {
+    console.log('Error getting cash drawer close by date:', error);
+    return null;
+  }
+}
+
+export async function getCashDrawerClosesByDateRange(startDate: string, endDate: string, locationId?: string | null): Promise<CashDrawerClose[]> {
+  if (Platform.OS === 'web') {
+    const closes = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    return closes.filter(close => close.date >= startDate && close.date <= endDate && isInLocation(close, locationId));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const closes = await database.getAllAsync<CashDrawerClose>(
+      'SELECT * FROM cash_drawer_closes WHERE date >= ? AND date <= ? ORDER BY date ASC',
+      [startDate, endDate]
+    );
+    return closes.filter(close => isInLocation(close, locationId));
+  } catch (error) {
+    console.log('Error getting cash drawer closes by date range:', error);
+    return [];
+  }
+}
+
+export async function createCashDrawerClose(close: Omit<CashDrawerClose, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<CashDrawerClose> {
+  const now = new Date().toISOString();
+  const newClose: CashDrawerClose = {
+    ...close,
+    id: generateId(),
+    notes: close.notes ?? null,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const closes = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    closes.push(newClose);
+    await setToStorage(STORAGE_KEYS.cashDrawerCloses, closes);
+    await enqueueOutboxUpsert('cash_drawer_close', newClose.id, {
+      name: 'Cash drawer close',
+      amount: newClose.overShort,
+      date: newClose.date,
+    });
+    return newClose;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO cash_drawer_closes (id, date, openingFloat, countedCash, cashSales, cashExpenses, cashAdvances, creditPayments, expectedCash, overShort, notes, locationId, closedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newClose.id, newClose.date, newClose.openingFloat, newClose.countedCash, newClose.cashSales, newClose.cashExpenses, newClose.cashAdvances ?? null, newClose.creditPayments ?? null, newClose.expectedCash, newClose.overShort, newClose.notes ?? null, newClose.locationId ?? null, newClose.closedBy, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('cash_drawer_close', newClose.id, {
+    name: 'Cash drawer close',
+    amount: newClose.overShort,
+    date: newClose.date,
+  });
+  return newClose;
+}
+
+export async function updateCashDrawerClose(close: CashDrawerClose): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedClose: CashDrawerClose = {
+    ...close,
+    notes: close.notes ?? null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const closes = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    const index = closes.findIndex(c => c.id === close.id);
+    if (index === -1) return;
+    closes[index] = updatedClose;
+    await setToStorage(STORAGE_KEYS.cashDrawerCloses, closes);
+    await enqueueOutboxUpsert('cash_drawer_close', updatedClose.id, {
+      name: 'Cash drawer close',
+      amount: updatedClose.overShort,
+      date: updatedClose.date,
+    });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE cash_drawer_closes SET date = ?, openingFloat = ?, countedCash = ?, cashSales = ?, cashExpenses = ?, cashAdvances = ?, creditPayments = ?, expectedCash = ?, overShort = ?, notes = ?, locationId = ?, closedBy = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedClose.date, updatedClose.openingFloat, updatedClose.countedCash, updatedClose.cashSales, updatedClose.cashExpenses, updatedClose.cashAdvances ?? null, updatedClose.creditPayments ?? null, updatedClose.expectedCash, updatedClose.overShort, updatedClose.notes ?? null, updatedClose.locationId ?? null, updatedClose.closedBy, now, 'pending', updatedClose.id]
+  );
+  await enqueueOutboxUpsert('cash_drawer_close', updatedClose.id, {
+    name: 'Cash drawer close',
+    amount: updatedClose.overShort,
+    date: updatedClose.date,
+  });
+}
+
+export async function getShifts(): Promise<Shift[]> {
+  if (Platform.OS === 'web') {
+    const shifts = await getFromStorage<ShiftRow[]>(STORAGE_KEYS.shifts, []);
+    return shifts.map(normalizeShiftRow).sort((a, b) => b.openedAt.localeCompare(a.openedAt));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<ShiftRow>('SELECT * FROM shifts ORDER BY openedAt DESC');
+    return rows.map(normalizeShiftRow);
+  } catch (error) {
+    console.log('Error getting shifts:', error);
+    return [];
+  }
+}
+
+// Each location runs its own shift, so only a shift opened at the same location is returned.
+export async function getOpenShift(locationId?: string | null): Promise<Shift | null> {
+  const shifts = await getShifts();
+  return shifts.find(shift => !shift.closedAt && isInLocation(shift, resolveLocationId(locationId))) ?? null;
+}
+
+// Records back-dated before the open shift started stay unattached so they don't inflate its totals.
+async function getOpenShiftIdForRecord(date: string, locationId?: string | null): Promise<string | null> {
+  const shift = await getOpenShift(locationId);
+  if (!shift) return null;
+  const dayKey = toLocalDayKey(date);
+  const inShiftWindow = dayKey >= toLocalDayKey(shift.openedAt) && dayKey <= toLocalDayKey(new Date());
+  return inShiftWindow ? shift.id : null;
+}
+
+export async function openShift(shift: Pick<Shift, 'openedBy' | 'staffIds' | 'notes' | 'locationId'>): Promise<Shift> {
+  const now = new Date().toISOString();
+  const newShift: Shift = {
+    id: generateId(),
+    openedBy: shift.openedBy,
+    openedAt: now,
+    closedAt: null,
+    staffIds: normalizeShiftStaffIds(shift.staffIds),
+    notes: shift.notes ?? null,
+    locationId: resolveLocationId(shift.locationId),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const shifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    shifts.push(newShift);
+    await setToStorage(STORAGE_KEYS.shifts, shifts);
+    await enqueueOutboxUpsert('shift', newShift.id, { name: 'Shift', date: newShift.openedAt });
+    return newShift;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO shifts (id, openedBy, openedAt, closedAt, staffIds, notes, locationId, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newShift.id, newShift.openedBy, newShift.openedAt, null, JSON.stringify(newShift.staffIds), newShift.notes ?? null, newShift.locationId ?? null, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('shift', newShift.id, { name: 'Shift', date: newShift.openedAt });
+  return newShift;
+}
+
+export async function updateShift(shift: Shift): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedShift: Shift = {
+    ...shift,
+    closedAt: shift.closedAt ?? null,
+    staffIds: normalizeShiftStaffIds(shift.staffIds),
+    notes: shift.notes ?? null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const shifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    const index = shifts.findIndex(s => s.id === shift.id);
+    if (index === -1) return;
+    shifts[index] = updatedShift;
+    await setToStorage(STORAGE_KEYS.shifts, shifts);
+    await enqueueOutboxUpsert('shift', updatedShift.id, { name: 'Shift', date: updatedShift.openedAt });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE shifts SET openedBy = ?, openedAt = ?, closedAt = ?, staffIds = ?, notes = ?, locationId = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedShift.openedBy, updatedShift.openedAt, updatedShift.closedAt ?? null, JSON.stringify(updatedShift.staffIds), updatedShift.notes ?? null, updatedShift.locationId ?? null, now, 'pending', updatedShift.id]
+  );
+  await enqueueOutboxUpsert('shift', updatedShift.id, { name: 'Shift', date: updatedShift.openedAt });
+}
+
+export async function closeShift(shift: Shift): Promise<void> {
+  await updateShift({ ...shift, closedAt: new Date().toISOString() });
+}
+
+export async function getProducts(): Promise<Product[]> {
+  if (Platform.OS === 'web') {
+    const products = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    return products
+      .map(normalizeProductRow)
+      .sort((a, b) => (a.category ?? '').localeCompare(b.category ?? '') || a.name.localeCompare(b.name));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<ProductRow>('SELECT * FROM products ORDER BY category ASC, name ASC');
+    return rows.map(normalizeProductRow);
+  } catch (error) {
+    console.log('Error getting products:', error);
+    return [];
+  }
+}
+
+export async function createProduct(product: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<Product> {
+  const now = new Date().toISOString();
+  const newProduct: Product = {
+    ...product,
+    name: product.name.trim(),
+    category: product.category?.trim() || null,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const products = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    products.push(newProduct);
+    await setToStorage(STORAGE_KEYS.products, products);
+    await enqueueOutboxUpsert('product', newProduct.id, {
+      name: newProduct.name,
+      amount: newProduct.price,
+    });
+    return newProduct;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO products (id, name, price, category, active, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+    [newProduct.id, newProduct.name, newProduct.price, newProduct.category ?? null, newProduct.active ? 1 : 0, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('product', newProduct.id, {
+    name: newProduct.name,
+    amount: newProduct.price,
+  });
+  return newProduct;
+}
+
+export async function updateProduct(product: Product): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedProduct: Product = {
+    ...product,
+    name: product.name.trim(),
+    category: product.category?.trim() || null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const products = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    const index = products.findIndex(p => p.id === product.id);
+    if (index === -1) return;
+    products[index] = updatedProduct;
+    await setToStorage(STORAGE_KEYS.products, products);
+    await enqueueOutboxUpsert('product', updatedProduct.id, {
+      name: updatedProduct.name,
+      amount: updatedProduct.price,
+    });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE products SET name = ?, price = ?, category = ?, active = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedProduct.name, updatedProduct.price, updatedProduct.category ?? null, updatedProduct.active ? 1 : 0, now, 'pending', updatedProduct.id]
+  );
+  await enqueueOutboxUpsert('product', updatedProduct.id, {
+    name: updatedProduct.name,
+    amount: updatedProduct.price,
+  });
+}
+
+export async function deleteProduct(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const products = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    await setToStorage(STORAGE_KEYS.products, products.filter(p => p.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM products WHERE id = ?', [id]);
+}
+
+function roundStockQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+async function getStockEntryTotals(): Promise<Map<string, number>> {
+  const totals = new Map<string, number>();
+  if (Platform.OS === 'web') {
+    const entries = await getFromStorage<StockEntry[]>(STORAGE_KEYS.stockEntries, []);
+    entries.forEach(entry => totals.set(entry.stockItemId, (totals.get(entry.stockItemId) ?? 0) + entry.quantity));
+    return totals;
+  }
+  const database = await ensureDb();
+  if (!database) return totals;
+  const rows = await database.getAllAsync<{ stockItemId: string; total: number }>(
+    'SELECT stockItemId, SUM(quantity) as total FROM stock_entries GROUP BY stockItemId'
+  );
+  rows.forEach(row => totals.set(row.stockItemId, row.total ?? 0));
+  return totals;
+}
+
+// On hand is the opening quantity plus every stock entry, so movements recorded on other devices add up once synced.
+export async function getStockItems(): Promise<StockItem[]> {
+  try {
+    const entryTotals = await getStockEntryTotals();
+    const withOnHand = (item: StoredStockItem): StockItem => ({
+      ...item,
+      onHand: roundStockQuantity((item.openingQuantity ?? 0) + (entryTotals.get(item.id) ?? 0)),
+    });
+
+    if (Platform.OS === 'web') {
+      const stockItems = await getFromStorage<StoredStockItem[]>(STORAGE_KEYS.stockItems, []);
+      return stockItems.map(withOnHand).sort((a, b) => a.name.localeCompare(b.name));
+    }
+    const database = await ensureDb();
+    if (!database) return [];
+    const rows = await database.getAllAsync<StoredStockItem>('SELECT * FROM stock_items ORDER BY name ASC');
+    return rows.map(withOnHand);
+  } catch (error) {
+    console.log('Error getting stock items:', error);
+    return [];
+  }
+}
+
+export async function createStockItem(stockItem: Omit<StockItem, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<StockItem> {
+  const now = new Date().toISOString();
+  const newStockItem: StockItem = {
+    ...stockItem,
+    name: stockItem.name.trim(),
+    unit: stockItem.unit.trim(),
+    productId: stockItem.productId ?? null,
+    reorderPoint: stockItem.reorderPoint ?? null,
+    supplier: stockItem.supplier?.trim() || null,
+    openingQuantity: stockItem.openingQuantity ?? stockItem.onHand,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const stockItems = await getFromStorage<StoredStockItem[]>(STORAGE_KEYS.stockItems, []);
+    stockItems.push(toStoredStockItem(newStockItem));
+    await setToStorage(STORAGE_KEYS.stockItems, stockItems);
+    await enqueueOutboxUpsert('stock_item', newStockItem.id, {
+      name: newStockItem.name,
+      amount: newStockItem.onHand,
+    });
+    return newStockItem;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO stock_items (id, name, unit, openingQuantity, productId, reorderPoint, supplier, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [newStockItem.id, newStockItem.name, newStockItem.unit, newStockItem.openingQuantity ?? null, newStockItem.productId ?? null, newStockItem.reorderPoint ?? null, newStockItem.supplier ?? null, now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('stock_item', newStockItem.id, {
+    name: newStockItem.name,
+    amount: newStockItem.onHand,
+  });
+  return newStockItem;
+}
+
+export async function updateStockItem(stockItem: StockItem): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedStockItem: StockItem = {
+    ...stockItem,
+    name: stockItem.name.trim(),
+    unit: stockItem.unit.trim(),
+    productId: stockItem.productId ?? null,
+    reorderPoint: stockItem.reorderPoint ?? null,
+    supplier: stockItem.supplier?.trim() || null,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const stockItems = await getFromStorage<StoredStockItem[]>(STORAGE_KEYS.stockItems, []);
+    const index = stockItems.findIndex(item => item.id === stockItem.id);
+    if (index === -1) return;
+    stockItems[index] = toStoredStockItem(updatedStockItem);
+    await setToStorage(STORAGE_KEYS.stockItems, stockItems);
+    await enqueueOutboxUpsert('stock_item', updatedStockItem.id, {
+      name: updatedStockItem.name,
+      amount: updatedStockItem.onHand,
+    });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE stock_items SET name = ?, unit = ?, openingQuantity = ?, productId = ?, reorderPoint = ?, supplier = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedStockItem.name, updatedStockItem.unit, updatedStockItem.openingQuantity ?? null, updatedStockItem.productId ?? null, updatedStockItem.reorderPoint ?? null, updatedStockItem.supplier ?? null, now, 'pending', updatedStockItem.id]
+  );
+  await enqueueOutboxUpsert('stock_item', updatedStockItem.id, {
+    name: updatedStockItem.name,
+    amount: updatedStockItem.onHand,
+  });
+}
+
+export async function deleteStockItem(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const stockItems = await getFromStorage<StockItem[]>(STORAGE_KEYS.stockItems, []);
+    await setToStorage(STORAGE_KEYS.stockItems, stockItems.filter(item => item.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM stock_items WHERE id = ?', [id]);
+}
+
+export async function getStockEntries(options?: {
+  stockItemId?: string;
+  saleId?: string;
+  startDate?: string;
+  limit?: number;
+}): Promise<StockEntry[]> {
+  const limit = options?.limit;
+
+  if (Platform.OS === 'web') {
+    const entries = await getFromStorage<StockEntry[]>(STORAGE_KEYS.stockEntries, []);
+    const filtered = entries
+      .filter(entry => !options?.stockItemId || entry.stockItemId === options.stockItemId)
+      .filter(entry => !options?.saleId || entry.saleId === options.saleId)
+      .filter(entry => !options?.startDate || entry.date >= options.startDate)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    return limit ? filtered.slice(0, limit) : filtered;
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (options?.stockItemId) {
+      conditions.push('stockItemId = ?');
+      params.push(options.stockItemId);
+    }
+    if (options?.saleId) {
+      conditions.push('saleId = ?');
+      params.push(options.saleId);
+    }
+    if (options?.startDate) {
+      conditions.push('date >= ?');
+      params.push(options.startDate);
+    }
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limitClause = limit ? 'LIMIT ?' : '';
+    return await database.getAllAsync<StockEntry>(
+      `SELECT * FROM stock_entries ${whereClause} ORDER BY createdAt DESC ${limitClause}`,
+      limit ? [...params, limit] : params
+    );
+  } catch (error) {
+    console.log('Error getting stock entries:', error);
+    return [];
+  }
+}
+
+export const LOW_STOCK_ALERT_SENDER = 'Inventory Alert';
+
+async function postLowStockAlert(stockItem: StockItem, userId: string): Promise<void> {
+  try {
+    const supplierText = stockItem.supplier ? ` Reorder from ${stockItem.supplier}.` : '';
+    await createChatMessage({
+      userId,
+      userName: LOW_STOCK_ALERT_SENDER,
+      messageType: 'system',
+      messageText: `${stockItem.name} is running low: ${stockItem.onHand} ${stockItem.unit} left (reorder point ${stockItem.reorderPoint} ${stockItem.unit}).${supplierText}`,
+    });
+  } catch (error) {
+    console.log('Error posting low stock alert:', error);
+  }
+}
+
+async function alertIfStockWentLow(stockItemId: string, delta: number, userId: string): Promise<void> {
+  const stockItems = await getStockItems();
+  const stockItem = stockItems.find(item => item.id === stockItemId);
+  if (!stockItem) return;
+  const previousStockItem = { ...stockItem, onHand: roundStockQuantity(stockItem.onHand - delta) };
+  if (!isStockItemLow(previousStockItem) && isStockItemLow(stockItem)) {
+    await postLowStockAlert(stockItem, userId);
+  }
+}
+
+export async function createStockEntry(entry: Omit<StockEntry, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<StockEntry> {
+  const now = new Date().toISOString();
+  const newEntry: StockEntry = {
+    ...entry,
+    note: entry.note?.trim() || null,
+    saleId: entry.saleId ?? null,
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const entries = await getFromStorage<StockEntry[]>(STORAGE_KEYS.stockEntries, []);
+    entries.push(newEntry);
+    await setToStorage(STORAGE_KEYS.stockEntries, entries);
+  } else {
+    const database = await ensureDb();
+    if (!database) throw new Error('Database not initialized');
+    await database.runAsync(
+      'INSERT INTO stock_entries (id, stockItemId, type, quantity, note, saleId, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [newEntry.id, newEntry.stockItemId, newEntry.type, newEntry.quantity, newEntry.note ?? null, newEntry.saleId ?? null, newEntry.date, newEntry.createdBy, now, now, 'pending']
+    );
+  }
+
+  await enqueueOutboxUpsert('stock_entry', newEntry.id, {
+    name: newEntry.type,
+    amount: newEntry.quantity,
+    date: newEntry.date,
+  });
+  await alertIfStockWentLow(newEntry.stockItemId, newEntry.quantity, newEntry.createdBy);
+  return newEntry;
+}
+
+async function applySaleStockDeductions(
+  saleId: string,
+  items: SaleItem[],
+  sale?: { date: string; createdBy: string }
+): Promise<void> {
+  try {
+    const stockItems = await getStockItems();
+    if (stockItems.length === 0) return;
+
+    const existingEntries = await getStockEntries({ saleId });
+    const applied = new Map<string, number>();
+    existingEntries.forEach(entry => {
+      applied.set(entry.stockItemId, (applied.get(entry.stockItemId) ?? 0) + entry.quantity);
+    });
+
+    const recipes = await getRecipes();
+    const consumption = calculateIngredientConsumption(items, recipes, stockItems);
+
+    const date = sale?.date ?? existingEntries[0]?.date;
+    const createdBy = sale?.createdBy ?? existingEntries[0]?.createdBy;
+    if (!date || !createdBy) return;
+
+    for (const stockItem of stockItems) {
+      const delta = roundStockQuantity(-(consumption.get(stockItem.id) ?? 0) - (applied.get(stockItem.id) ?? 0));
+      if (delta === 0) continue;
+      await createStockEntry({
+        stockItemId: stockItem.id,
+        type: 'sale',
+        quantity: delta,
+        note: null,
+        saleId,
+        date,
+        createdBy,
+      });
+    }
+  } catch (error) {
+    console.log('Error applying sale stock deductions:', error);
+  }
+}
+
+export async function getRecipes(): Promise<Recipe[]> {
+  if (Platform.OS === 'web') {
+    const recipes = await getFromStorage<RecipeRow[]>(STORAGE_KEYS.recipes, []);
+    return recipes.map(normalizeRecipeRow).sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<RecipeRow>('SELECT * FROM recipes ORDER BY itemName ASC');
+    return rows.map(normalizeRecipeRow);
+  } catch (error) {
+    console.log('Error getting recipes:', error);
+    return [];
+  }
+}
+
+export async function createRecipe(recipe: Omit<Recipe, 'id' | 'createdAt' | 'updatedAt' | 'syncStatus'>): Promise<Recipe> {
+  const now = new Date().toISOString();
+  const newRecipe: Recipe = {
+    ...recipe,
+    itemName: recipe.itemName.trim(),
+    ingredients: normalizeRecipeIngredients(recipe.ingredients),
+    id: generateId(),
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const recipes = await getFromStorage<Recipe[]>(STORAGE_KEYS.recipes, []);
+    recipes.push(newRecipe);
+    await setToStorage(STORAGE_KEYS.recipes, recipes);
+    await enqueueOutboxUpsert('recipe', newRecipe.id, { name: newRecipe.itemName });
+    return newRecipe;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO recipes (id, itemName, ingredients, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?)',
+    [newRecipe.id, newRecipe.itemName, JSON.stringify(newRecipe.ingredients), now, now, 'pending']
+  );
+  await enqueueOutboxUpsert('recipe', newRecipe.id, { name: newRecipe.itemName });
+  return newRecipe;
+}
+
+export async function updateRecipe(recipe: Recipe): Promise<void> {
+  const now = new Date().toISOString();
+  const updatedRecipe: Recipe = {
+    ...recipe,
+    itemName: recipe.itemName.trim(),
+    ingredients: normalizeRecipeIngredients(recipe.ingredients),
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const recipes = await getFromStorage<Recipe[]>(STORAGE_KEYS.recipes, []);
+    const index = recipes.findIndex(r => r.id === recipe.id);
+    if (index === -1) return;
+    recipes[index] = updatedRecipe;
+    await setToStorage(STORAGE_KEYS.recipes, recipes);
+    await enqueueOutboxUpsert('recipe', updatedRecipe.id, { name: updatedRecipe.itemName });
+    return;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'UPDATE recipes SET itemName = ?, ingredients = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+    [updatedRecipe.itemName, JSON.stringify(updatedRecipe.ingredients), now, 'pending', updatedRecipe.id]
+  );
+  await enqueueOutboxUpsert('recipe', updatedRecipe.id, { name: updatedRecipe.itemName });
+}
+
+export async function deleteRecipe(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const recipes = await getFromStorage<Recipe[]>(STORAGE_KEYS.recipes, []);
+    await setToStorage(STORAGE_KEYS.recipes, recipes.filter(r => r.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM recipes WHERE id = ?', [id]);
+}
+
+export async function getActivities(): Promise<Activity[]> {
+  if (Platform.OS === 'web') {
+    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
+    return activities.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    return await database.getAllAsync<Activity>('SELECT * FROM activities ORDER BY createdAt DESC LIMIT 50');
+  } catch (error) {
+    console.log('Error getting activities:', error);
+    return [];
+  }
+}
+
+export async function createActivity(activity: Omit<Activity, 'id' | 'createdAt' | 'syncStatus'>): Promise<Activity> {
+  const now = new Date().toISOString();
+  const newActivity: Activity = {
+    ...activity,
+    id: generateId(),
+    createdAt: now,
+    syncStatus: 'pending',
+  };
+
+  if (Platform.OS === 'web') {
+    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
+    activities.unshift(newActivity);
+    await setToStorage(STORAGE_KEYS.activities, activities.slice(0, 100));
+    return newActivity;
+  }
+
+  const database = await ensureDb();
+  if (!database) throw new Error('Database not initialized');
+  await database.runAsync(
+    'INSERT INTO activities (id, type, description, userId, createdAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?)',
+    [newActivity.id, newActivity.type, newActivity.description, newActivity.userId, now, 'pending']
+  );
+  return newActivity;
+}
+
+export async function getOutboxItems(): Promise<OutboxItem[]> {
+  if (Platform.OS === 'web') {
+    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
+    return outbox.map(normalizeOutboxRow);
+  }
+  const database = await ensureDb();
+  if (!database) return [];
+  try {
+    const rows = await database.getAllAsync<OutboxRow>('SELECT * FROM outbox ORDER BY createdAt DESC');
+    return rows.map(normalizeOutboxRow);
+  } catch (error) {
+    console.log('Error getting outbox items:', error);
+    return [];
+  }
+}
+
+export async function enqueueDeletion(
+  entityType: OutboxEntityType,
+  entityId: string,
+  metadata?: { name?: string; amount?: number | null; date?: string | null },
+  options?: { isSyncing?: boolean }
+): Promise<OutboxItem | null> {
+  const now = new Date().toISOString();
+  const isSyncing = options?.isSyncing ?? false;
+
+  if (Platform.OS === 'web') {
+    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
+    const upsertIndex = outbox.findIndex(item => item.entityType === entityType && item.entityId === entityId && item.operation === 'upsert');
+    if (upsertIndex >= 0) {
+      const existingUpsert = normalizeOutboxRow(outbox[upsertIndex]);
+      if (existingUpsert.syncStatus === 'pending' && !isSyncing) {
+        outbox.splice(upsertIndex, 1);
+        await setToStorage(STORAGE_KEYS.outbox, outbox);
+        return null;
+      }
+      if (existingUpsert.syncStatus !== 'in_progress' && !isSyncing) {
+        outbox.splice(upsertIndex, 1);
+      }
+    }
+
+    const existing = outbox.find(item => item.entityType === entityType && item.entityId === entityId && item.operation === 'delete');
+    if (existing) {
+      await setToStorage(STORAGE_KEYS.outbox, outbox);
+      return normalizeOutboxRow(existing);
+    }
+    const newItem: OutboxItem = {
+      id: generateId(),
+      entityType,
+      entityId,
+      operation: 'delete',
+      createdAt: now,
+      syncStatus: 'pending',
+      name: metadata?.name ?? null,
+      amount: metadata?.amount ?? null,
+      date: metadata?.date ?? null,
+    };
+    outbox.unshift(newItem);
+    await setToStorage(STORAGE_KEYS.outbox, outbox);
+    return newItem;
+  }
+
+  const database = await ensureDb();
+  if (!database) return null;
+  try {
+    const existingUpsert = await database.getFirstAsync<OutboxRow>(
+      'SELECT * FROM outbox WHERE entityType = ? AND entityId = ? AND operation = ? LIMIT 1',
+      [entityType, entityId, 'upsert']
+    );
+    if (existingUpsert) {
+      const normalizedUpsert = normalizeOutboxRow(existingUpsert);
+      if (normalizedUpsert.syncStatus === 'pending' && !isSyncing) {
+        await database.runAsync('DELETE FROM outbox WHERE id = ?', [normalizedUpsert.id]);
+        return null;
+      }
+      if (normalizedUpsert.syncStatus !== 'in_progress' && !isSyncing) {
+        await database.runAsync('DELETE FROM outbox WHERE id = ?', [normalizedUpsert.id]);
+      }
+    }
+
+    const existing = await database.getFirstAsync<OutboxRow>(
+      'SELECT * FROM outbox WHERE entityType = ? AND entityId = ? AND operation = ? LIMIT 1',
+      [entityType, entityId, 'delete']
+    );
+    if (existing) {
+      return normalizeOutboxRow(existing);
+    }
+    const id = generateId();
+    await database.runAsync(
+      'INSERT INTO outbox (id, entityType, entityId, operation, createdAt, syncStatus, name, amount, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        id,
+        entityType,
+        entityId,
+        'delete',
+        now,
+        'pending',
+        metadata?.name ?? null,
+        metadata?.amount ?? null,
+        metadata?.date ?? null,
+      ]
+    );
+    return {
+      id,
+      entityType,
+      entityId,
+      operation: 'delete',
+      createdAt: now,
+      syncStatus: 'pending',
+      name: metadata?.name ?? null,
+      amount: metadata?.amount ?? null,
+      date: metadata?.date ?? null,
+    };
+  } catch (error) {
+    console.log('Error enqueueing deletion:', error);
+    return null;
+  }
+}
+
+export async function updateOutboxItemStatus(id: string, status: OutboxStatus): Promise<void> {
+  if (Platform.OS === 'web') {
+    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
+    const index = outbox.findIndex(item => item.id === id);
+    if (index >= 0) {
+      outbox[index] = { ...outbox[index], syncStatus: status };
+      await setToStorage(STORAGE_KEYS.outbox, outbox);
+    }
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('UPDATE outbox SET syncStatus = ? WHERE id = ?', [status, id]);
+}
+
+export async function removeOutboxItem(id: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
+    await setToStorage(STORAGE_KEYS.outbox, outbox.filter(item => item.id !== id));
+    return;
+  }
+  const database = await ensureDb();
+  if (!database) return;
+  await database.runAsync('DELETE FROM outbox WHERE id = ?', [id]);
+}
+
+export async function getPendingSyncCount(): Promise<number> {
+  if (Platform.OS === 'web') {
+    const users = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
+    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    const expenseCategories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    const recurringExpenses = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    const cashDrawerCloses = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    const shifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    const locations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    const customers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    const customerPayments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    const suppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    const salesTargets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    const netSalesSplits = await getFromStorage<NetSalesSplitConfig[]>(STORAGE_KEYS.netSalesSplits, []);
+    const payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    const cashAdvances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
+    const products = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    const stockItems = await getFromStorage<StockItem[]>(STORAGE_KEYS.stockItems, []);
+    const stockEntries = await getFromStorage<StockEntry[]>(STORAGE_KEYS.stockEntries, []);
+    const recipes = await getFromStorage<Recipe[]>(STORAGE_KEYS.recipes, []);
+    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
+    const chatMessages = await getFromStorage<ChatMessage[]>(STORAGE_KEYS.chatMessages, []);
+    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
+    const deletionOutbox = outbox.filter(item => item.operation === 'delete');
+    
+    return [
+      ...users.filter(u => u.syncStatus === 'pending'),
+      ...sales.filter(s => s.syncStatus === 'pending'),
+      ...expenses.filter(e => e.syncStatus === 'pending'),
+      ...expenseCategories.filter(category => category.syncStatus === 'pending'),
+      ...recurringExpenses.filter(template => template.syncStatus === 'pending'),
+      ...cashDrawerCloses.filter(close => close.syncStatus === 'pending'),
+      ...shifts.filter(shift => shift.syncStatus === 'pending'),
+      ...locations.filter(location => location.syncStatus === 'pending'),
+      ...customers.filter(customer => customer.syncStatus === 'pending'),
+      ...customerPayments.filter(payment => payment.syncStatus === 'pending'),
+      ...suppliers.filter(supplier => supplier.syncStatus === 'pending'),
+      ...salesTargets.filter(target => target.syncStatus === 'pending'),
+      ...netSalesSplits.filter(config => config.syncStatus === 'pending'),
+      ...payouts.filter(payout => payout.syncStatus === 'pending'),
+      ...cashAdvances.filter(advance => advance.syncStatus === 'pending'),
+      ...products.filter(p => p.syncStatus === 'pending'),
+      ...stockItems.filter(item => item.syncStatus === 'pending'),
+      ...stockEntries.filter(entry => entry.syncStatus === 'pending'),
+      ...recipes.filter(recipe => recipe.syncStatus === 'pending'),
+      ...activities.filter(a => a.syncStatus === 'pending'),
+      ...chatMessages.filter(message => message.syncStatus === 'pending'),
+      ...deletionOutbox,
+    ].length;
+  }
+
+  if (!db) return 0;
+  
+  const counts = await Promise.all([
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM users WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM sales WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM expenses WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM expense_categories WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM recurring_expenses WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM cash_drawer_closes WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM shifts WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM locations WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM customers WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM customer_payments WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM suppliers WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM sales_targets WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM net_sales_splits WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM payouts WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM cash_advances WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM products WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM stock_items WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM stock_entries WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM recipes WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM activities WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM chat_messages WHERE syncStatus = ?', ['pending']),
+    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM outbox WHERE operation = ?', ['delete']),
+  ]);
+
+  return counts.reduce((sum, result) => sum + (result?.count || 0), 0);
+}
+
+type SyncableEntityTable = 'users' | 'sales' | 'expenses' | 'expense_categories' | 'recurring_expenses' | 'cash_drawer_closes' | 'shifts' | 'locations' | 'customers' | 'customer_payments' | 'suppliers' | 'sales_targets' | 'net_sales_splits' | 'payouts' | 'cash_advances' | 'products' | 'stock_items' | 'stock_entries' | 'recipes' | 'activities' | 'chat_messages';
+
+async function markRecordsSynced(table: SyncableEntityTable, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+
+  if (Platform.OS === 'web') {
+    const idSet = new Set(ids);
+    const updateList = async <T extends { id: string; syncStatus: 'synced' | 'pending' }>(
+      key: string
+    ) => {
+      const items = await getFromStorage<T[]>(key, []);
+      await setToStorage(
+        key,
+        items.map(item => (idSet.has(item.id) ? { ...item, syncStatus: 'synced' as const } : item))
+      );
+    };
+
+    if (table === 'users') {
+      await updateList<User>(STORAGE_KEYS.users);
+    } else if (table === 'sales') {
+      await updateList<Sale>(STORAGE_KEYS.sales);
+    } else if (table === 'expenses') {
+      await updateList<Expense>(STORAGE_KEYS.expenses);
+    } else if (table === 'expense_categories') {
+      await updateList<ExpenseCategory>(STORAGE_KEYS.expenseCategories);
+    } else if (table === 'recurring_expenses') {
+      await updateList<RecurringExpense>(STORAGE_KEYS.recurringExpenses);
+    } else if (table === 'cash_drawer_closes') {
+      await updateList<CashDrawerClose>(STORAGE_KEYS.cashDrawerCloses);
+    } else if (table === 'shifts') {
+      await updateList<Shift>(STORAGE_KEYS.shifts);
+    } else if (table === 'locations') {
+      await updateList<Location>(STORAGE_KEYS.locations);
+    } else if (table === 'customers') {
+      await updateList<Customer>(STORAGE_KEYS.customers);
+    } else if (table === 'customer_payments') {
+      await updateList<CustomerPayment>(STORAGE_KEYS.customerPayments);
+    } else if (table === 'suppliers') {
+      await updateList<Supplier>(STORAGE_KEYS.suppliers);
+    } else if (table === 'sales_targets') {
+      await updateList<SalesTarget>(STORAGE_KEYS.salesTargets);
+    } else if (table === 'net_sales_splits') {
+      await updateList<NetSalesSplitConfig>(STORAGE_KEYS.netSalesSplits);
+    } else if (table === 'payouts') {
+      await updateList<Payout>(STORAGE_KEYS.payouts);
+    } else if (table === 'cash_advances') {
+      await updateList<CashAdvance>(STORAGE_KEYS.cashAdvances);
+    } else if (table === 'products') {
+      await updateList<Product>(STORAGE_KEYS.products);
+    } else if (table === 'stock_items') {
+      await updateList<StockItem>(STORAGE_KEYS.stockItems);
+    } else if (table === 'stock_entries') {
+      await updateList<StockEntry>(STORAGE_KEYS.stockEntries);
+    } else if (table === 'recipes') {
+      await updateList<Recipe>(STORAGE_KEYS.recipes);
+    } else if (table === 'activities') {
+      await updateList<Activity>(STORAGE_KEYS.activities);
+    } else if (table === 'chat_messages') {
+      await updateList<ChatMessage>(STORAGE_KEYS.chatMessages);
+    }
+    return;
+  }
+
+  if (!db) return;
+  const placeholders = ids.map(() => '?').join(', ');
+  await db.runAsync(
+    `UPDATE ${table} SET syncStatus = 'synced' WHERE id IN (${placeholders})`,
+    ids
+  );
+}
+
+export async function markUsersSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('users', ids);
+}
+
+export async function markSalesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('sales', ids);
+}
+
+export async function markExpensesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('expenses', ids);
+}
+
+export async function markExpenseCategoriesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('expense_categories', ids);
+}
+
+export async function markRecurringExpensesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('recurring_expenses', ids);
+}
+
+export async function markCashDrawerClosesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('cash_drawer_closes', ids);
+}
+
+export async function markShiftsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('shifts', ids);
+}
+
+export async function markLocationsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('locations', ids);
+}
+
+export async function markCustomersSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('customers', ids);
+}
+
+export async function markCustomerPaymentsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('customer_payments', ids);
+}
+
+export async function markSuppliersSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('suppliers', ids);
+}
+
+export async function markSalesTargetsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('sales_targets', ids);
+}
+
+export async function markNetSalesSplitsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('net_sales_splits', ids);
+}
+
+export async function markPayoutsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('payouts', ids);
+}
+
+export async function markCashAdvancesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('cash_advances', ids);
+}
+
+export async function markProductsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('products', ids);
+}
+
+export async function markStockItemsSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('stock_items', ids);
+}
+
+export async function markStockEntriesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('stock_entries', ids);
+}
+
+export async function markRecipesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('recipes', ids);
+}
+
+export async function markActivitiesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('activities', ids);
+}
+
+export async function markChatMessagesSynced(ids: string[]): Promise<void> {
+  await markRecordsSynced('chat_messages', ids);
+}
+
+export async function upsertUsersFromServer(serverUsers: User[]): Promise<void> {
+  if (serverUsers.length === 0) return;
+  console.log(`Upserting ${serverUsers.length} users from server`);
+
+  if (Platform.OS === 'web') {
+    const localUsers = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
+    const localMap = new Map(localUsers.map(u => [u.id, u]));
+    
+    for (const serverUser of serverUsers) {
+      const local = localMap.get(serverUser.id);
+      if (!local) {
+        localMap.set(serverUser.id, { ...serverUser, syncStatus: 'synced' });
+      } else if (local.syncStatus !== 'pending') {
+        localMap.set(serverUser.id, {
+          ...serverUser,
+          bio: serverUser.bio ?? local.bio,
+          profilePicture: serverUser.profilePicture ?? local.profilePicture,
+          syncStatus: 'synced',
+        });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.users, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverUser of serverUsers) {
+    const existing = await db.getFirstAsync<User>('SELECT * FROM users WHERE id = ?', [serverUser.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO users (id, name, pin, role, bio, profilePicture, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverUser.id, serverUser.name, serverUser.pin, serverUser.role, serverUser.bio || null, serverUser.profilePicture || null, serverUser.createdAt, serverUser.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE users SET name = ?, pin = ?, role = ?, bio = ?, profilePicture = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [
+          serverUser.name,
+          serverUser.pin,
+          serverUser.role,
+          serverUser.bio ?? existing.bio ?? null,
+          serverUser.profilePicture ?? existing.profilePicture ?? null,
+          serverUser.createdAt,
+          serverUser.updatedAt,
+          'synced',
+          serverUser.id,
+        ]
+      );
+    }
+  }
+}
+
+export async function upsertSalesFromServer(serverSales: Sale[]): Promise<void> {
+  if (serverSales.length === 0) return;
+  console.log(`Upserting ${serverSales.length} sales from server`);
+
+  if (Platform.OS === 'web') {
+    const localSales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    const localMap = new Map(localSales.map(s => [s.id, s]));
+    
+    for (const serverSale of serverSales) {
+      const normalizedSale = normalizeSale(serverSale);
+      const local = localMap.get(serverSale.id);
+      if (!local) {
+        localMap.set(serverSale.id, { ...normalizedSale, syncStatus: 'synced' });
+      } else if (local.syncStatus !== 'pending') {
+        localMap.set(serverSale.id, { ...normalizedSale, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.sales, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverSale of serverSales) {
+    const existing = await db.getFirstAsync<Sale>('SELECT * FROM sales WHERE id = ?', [serverSale.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO sales (id, name, items, paymentMethod, customerId, shiftId, locationId, latitude, longitude, grossAmount, discountType, discountValue, discountAmount, adjustmentType, adjustmentAmount, adjustmentReason, adjustmentNote, adjustmentApprovedBy, adjustedAt, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverSale.id, serverSale.name, serializeItems(serverSale.items), normalizePaymentMethod(serverSale.paymentMethod), serverSale.customerId ?? null, serverSale.shiftId ?? null, serverSale.locationId ?? null, serverSale.latitude ?? null, serverSale.longitude ?? null, serverSale.grossAmount ?? null, serverSale.discountType ?? null, serverSale.discountValue ?? null, serverSale.discountAmount ?? null, serverSale.adjustmentType ?? null, serverSale.adjustmentAmount ?? null, serverSale.adjustmentReason ?? null, serverSale.adjustmentNote ?? null, serverSale.adjustmentApprovedBy ?? null, serverSale.adjustedAt ?? null, serverSale.total, serverSale.date, serverSale.createdBy, serverSale.createdAt, serverSale.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE sales SET name = ?, items = ?, paymentMethod = ?, customerId = ?, shiftId = ?, locationId = ?, latitude = ?, longitude = ?, grossAmount = ?, discountType = ?, discountValue = ?, discountAmount = ?, adjustmentType = ?, adjustmentAmount = ?, adjustmentReason = ?, adjustmentNote = ?, adjustmentApprovedBy = ?, adjustedAt = ?, total = ?, date = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverSale.name, serializeItems(serverSale.items), normalizePaymentMethod(serverSale.paymentMethod), serverSale.customerId ?? null, serverSale.shiftId ?? null, serverSale.locationId ?? null, serverSale.latitude ?? null, serverSale.longitude ?? null, serverSale.grossAmount ?? null, serverSale.discountType ?? null, serverSale.discountValue ?? null, serverSale.discountAmount ?? null, serverSale.adjustmentType ?? null, serverSale.adjustmentAmount ?? null, serverSale.adjustmentReason ?? null, serverSale.adjustmentNote ?? null, serverSale.adjustmentApprovedBy ?? null, serverSale.adjustedAt ?? null, serverSale.total, serverSale.date, serverSale.createdBy, serverSale.createdAt, serverSale.updatedAt, 'synced', serverSale.id]
+      );
+    }
+  }
+}
+
+export async function upsertExpensesFromServer(serverExpenses: Expense[]): Promise<void> {
+  if (serverExpenses.length === 0) return;
+  console.log(`Upserting ${serverExpenses.length} expenses from server`);
+
+  if (Platform.OS === 'web') {
+    const localExpenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    const localMap = new Map(localExpenses.map(e => [e.id, e]));
+    
+    for (const serverExpense of serverExpenses) {
+      const normalizedExpense = normalizeExpense(serverExpense);
+      const local = localMap.get(serverExpense.id);
+      if (!local) {
+        localMap.set(serverExpense.id, { ...normalizedExpense, syncStatus: 'synced' });
+      } else if (local.syncStatus !== 'pending') {
+        localMap.set(serverExpense.id, {
+          ...normalizedExpense,
+          receipts: mergeReceiptLocalUris(normalizedExpense.receipts ?? [], normalizeExpenseReceipts(local.receipts)),
+          syncStatus: 'synced',
+        });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.expenses, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverExpense of serverExpenses) {
+    const existing = await db.getFirstAsync<ExpenseRow>('SELECT * FROM expenses WHERE id = ?', [serverExpense.id]);
+    const serverReceipts = normalizeExpenseReceipts(serverExpense.receipts);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO expenses (id, name, items, categoryId, receipts, shiftId, locationId, recurringExpenseId, supplierId, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverExpense.id, serverExpense.name, serializeItems(serverExpense.items), serverExpense.categoryId ?? null, serializeReceipts(serverReceipts), serverExpense.shiftId ?? null, serverExpense.locationId ?? null, serverExpense.recurringExpenseId ?? null, serverExpense.supplierId ?? null, serverExpense.total, serverExpense.date, serverExpense.createdBy, serverExpense.createdAt, serverExpense.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE expenses SET name = ?, items = ?, categoryId = ?, receipts = ?, shiftId = ?, locationId = ?, recurringExpenseId = ?, supplierId = ?, total = ?, date = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [
+          serverExpense.name,
+          serializeItems(serverExpense.items),
+          serverExpense.categoryId ?? null,
+          serializeReceipts(mergeReceiptLocalUris(serverReceipts, normalizeExpenseReceipts(existing.receipts))),
+          serverExpense.shiftId ?? null,
+          serverExpense.locationId ?? null,
+          serverExpense.recurringExpenseId ?? null,
+          serverExpense.supplierId ?? null,
+          serverExpense.total,
+          serverExpense.date,
+          serverExpense.createdBy,
+          serverExpense.createdAt,
+          serverExpense.updatedAt,
+          'synced',
+          serverExpense.id,
+        ]
+      );
+    }
+  }
+}
+
+export async function upsertRecurringExpensesFromServer(serverTemplates: RecurringExpense[]): Promise<void> {
+  if (serverTemplates.length === 0) return;
+  console.log(`Upserting ${serverTemplates.length} recurring expenses from server`);
+
+  if (Platform.OS === 'web') {
+    const localTemplates = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    const localMap = new Map(localTemplates.map(template => [template.id, template]));
+
+    for (const serverTemplate of serverTemplates) {
+      const local = localMap.get(serverTemplate.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverTemplate.id, { ...normalizeRecurringExpense(serverTemplate), syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.recurringExpenses, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverTemplate of serverTemplates) {
+    const existing = await db.getFirstAsync<RecurringExpenseRow>('SELECT * FROM recurring_expenses WHERE id = ?', [serverTemplate.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO recurring_expenses (id, name, items, categoryId, locationId, total, frequency, startDate, lastGeneratedDate, active, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverTemplate.id, serverTemplate.name, serializeItems(serverTemplate.items), serverTemplate.categoryId ?? null, serverTemplate.locationId ?? null, serverTemplate.total, serverTemplate.frequency, serverTemplate.startDate, serverTemplate.lastGeneratedDate ?? null, serverTemplate.active ? 1 : 0, serverTemplate.createdBy, serverTemplate.createdAt, serverTemplate.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE recurring_expenses SET name = ?, items = ?, categoryId = ?, locationId = ?, total = ?, frequency = ?, startDate = ?, lastGeneratedDate = ?, active = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverTemplate.name, serializeItems(serverTemplate.items), serverTemplate.categoryId ?? null, serverTemplate.locationId ?? null, serverTemplate.total, serverTemplate.frequency, serverTemplate.startDate, serverTemplate.lastGeneratedDate ?? null, serverTemplate.active ? 1 : 0, serverTemplate.createdBy, serverTemplate.createdAt, serverTemplate.updatedAt, 'synced', serverTemplate.id]
+      );
+    }
+  }
+}
+
+export async function upsertExpenseCategoriesFromServer(serverCategories: ExpenseCategory[]): Promise<void> {
+  if (serverCategories.length === 0) return;
+  console.log(`Upserting ${serverCategories.length} expense categories from server`);
+
+  if (Platform.OS === 'web') {
+    const localCategories = await getFromStorage<ExpenseCategory[]>(STORAGE_KEYS.expenseCategories, []);
+    const localMap = new Map(localCategories.map(category => [category.id, category]));
+
+    for (const serverCategory of serverCategories) {
+      const local = localMap.get(serverCategory.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverCategory.id, { ...serverCategory, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.expenseCategories, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverCategory of serverCategories) {
+    const existing = await db.getFirstAsync<ExpenseCategory>('SELECT * FROM expense_categories WHERE id = ?', [serverCategory.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO expense_categories (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+        [serverCategory.id, serverCategory.name, serverCategory.createdAt, serverCategory.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE expense_categories SET name = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverCategory.name, serverCategory.createdAt, serverCategory.updatedAt, 'synced', serverCategory.id]
+      );
+    }
+  }
+}
+
+export async function upsertLocationsFromServer(serverLocations: Location[]): Promise<void> {
+  if (serverLocations.length === 0) return;
+  console.log(`Upserting ${serverLocations.length} locations from server`);
+
+  if (Platform.OS === 'web') {
+    const localLocations = await getFromStorage<Location[]>(STORAGE_KEYS.locations, []);
+    const localMap = new Map(localLocations.map(location => [location.id, location]));
+
+    for (const serverLocation of serverLocations) {
+      const local = localMap.get(serverLocation.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverLocation.id, { ...serverLocation, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.locations, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverLocation of serverLocations) {
+    const existing = await db.getFirstAsync<Location>('SELECT * FROM locations WHERE id = ?', [serverLocation.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO locations (id, name, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?)',
+        [serverLocation.id, serverLocation.name, serverLocation.createdAt, serverLocation.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE locations SET name = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverLocation.name, serverLocation.createdAt, serverLocation.updatedAt, 'synced', serverLocation.id]
+      );
+    }
+  }
+}
+
+export async function upsertCustomersFromServer(serverCustomers: Customer[]): Promise<void> {
+  if (serverCustomers.length === 0) return;
+  console.log(`Upserting ${serverCustomers.length} customers from server`);
+
+  if (Platform.OS === 'web') {
+    const localCustomers = await getFromStorage<Customer[]>(STORAGE_KEYS.customers, []);
+    const localMap = new Map(localCustomers.map(customer => [customer.id, customer]));
+
+    for (const serverCustomer of serverCustomers) {
+      const local = localMap.get(serverCustomer.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverCustomer.id, { ...serverCustomer, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.customers, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverCustomer of serverCustomers) {
+    const existing = await db.getFirstAsync<Customer>('SELECT * FROM customers WHERE id = ?', [serverCustomer.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO customers (id, name, phone, notes, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [serverCustomer.id, serverCustomer.name, serverCustomer.phone ?? null, serverCustomer.notes ?? null, serverCustomer.createdAt, serverCustomer.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE customers SET name = ?, phone = ?, notes = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverCustomer.name, serverCustomer.phone ?? null, serverCustomer.notes ?? null, serverCustomer.createdAt, serverCustomer.updatedAt, 'synced', serverCustomer.id]
+      );
+    }
+  }
+}
+
+export async function upsertSuppliersFromServer(serverSuppliers: Supplier[]): Promise<void> {
+  if (serverSuppliers.length === 0) return;
+  console.log(`Upserting ${serverSuppliers.length} suppliers from server`);
+
+  if (Platform.OS === 'web') {
+    const localSuppliers = await getFromStorage<Supplier[]>(STORAGE_KEYS.suppliers, []);
+    const localMap = new Map(localSuppliers.map(supplier => [supplier.id, supplier]));
+
+    for (const serverSupplier of serverSuppliers) {
+      const local = localMap.get(serverSupplier.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverSupplier.id, { ...serverSupplier, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.suppliers, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverSupplier of serverSuppliers) {
+    const existing = await db.getFirstAsync<Supplier>('SELECT * FROM suppliers WHERE id = ?', [serverSupplier.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO suppliers (id, name, contact, notes, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?)',
+        [serverSupplier.id, serverSupplier.name, serverSupplier.contact ?? null, serverSupplier.notes ?? null, serverSupplier.createdAt, serverSupplier.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE suppliers SET name = ?, contact = ?, notes = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverSupplier.name, serverSupplier.contact ?? null, serverSupplier.notes ?? null, serverSupplier.createdAt, serverSupplier.updatedAt, 'synced', serverSupplier.id]
+      );
+    }
+  }
+}
+
+export async function upsertSalesTargetsFromServer(serverTargets: SalesTarget[]): Promise<void> {
+  if (serverTargets.length === 0) return;
+  console.log(`Upserting ${serverTargets.length} sales targets from server`);
+
+  if (Platform.OS === 'web') {
+    const localTargets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    const localMap = new Map(localTargets.map(target => [target.id, target]));
+
+    for (const serverTarget of serverTargets) {
+      const local = localMap.get(serverTarget.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverTarget.id, { ...serverTarget, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.salesTargets, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverTarget of serverTargets) {
+    const existing = await db.getFirstAsync<SalesTarget>('SELECT * FROM sales_targets WHERE id = ?', [serverTarget.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO sales_targets (id, locationId, weekday, amount, updatedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverTarget.id, serverTarget.locationId, serverTarget.weekday, serverTarget.amount, serverTarget.updatedBy ?? null, serverTarget.createdAt, serverTarget.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE sales_targets SET locationId = ?, weekday = ?, amount = ?, updatedBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverTarget.locationId, serverTarget.weekday, serverTarget.amount, serverTarget.updatedBy ?? null, serverTarget.createdAt, serverTarget.updatedAt, 'synced', serverTarget.id]
+      );
+    }
+  }
+}
+
+export async function upsertNetSalesSplitsFromServer(serverConfigs: NetSalesSplitConfig[]): Promise<void> {
+  if (serverConfigs.length === 0) return;
+  console.log(`Upserting ${serverConfigs.length} net sales splits from server`);
+
+  if (Platform.OS === 'web') {
+    const localConfigs = await getFromStorage<NetSalesSplitConfig[]>(STORAGE_KEYS.netSalesSplits, []);
+    const localMap = new Map(localConfigs.map(config => [config.id, config]));
+
+    for (const serverConfig of serverConfigs) {
+      const local = localMap.get(serverConfig.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverConfig.id, { ...serverConfig, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.netSalesSplits, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverConfig of serverConfigs) {
+    const existing = await db.getFirstAsync<NetSalesSplitRow>('SELECT * FROM net_sales_splits WHERE id = ?', [serverConfig.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO net_sales_splits (id, effectiveDate, operation, general, foodCart, recipients, includeExp, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverConfig.id, serverConfig.effectiveDate, ...getLegacySplitPercents(serverConfig.recipients), JSON.stringify(serverConfig.recipients), serverConfig.includeExp ? 1 : 0, serverConfig.createdBy ?? null, serverConfig.createdAt, serverConfig.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE net_sales_splits SET effectiveDate = ?, operation = ?, general = ?, foodCart = ?, recipients = ?, includeExp = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverConfig.effectiveDate, ...getLegacySplitPercents(serverConfig.recipients), JSON.stringify(serverConfig.recipients), serverConfig.includeExp ? 1 : 0, serverConfig.createdBy ?? null, serverConfig.createdAt, serverConfig.updatedAt, 'synced', serverConfig.id]
+      );
+    }
+  }
+}
+
+export async function upsertCustomerPaymentsFromServer(serverPayments: CustomerPayment[]): Promise<void> {
+  if (serverPayments.length === 0) return;
+  console.log(`Upserting ${serverPayments.length} customer payments from server`);
+
+  if (Platform.OS === 'web') {
+    const localPayments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    const localMap = new Map(localPayments.map(payment => [payment.id, payment]));
+
+    for (const serverPayment of serverPayments) {
+      const local = localMap.get(serverPayment.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverPayment.id, { ...serverPayment, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.customerPayments, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverPayment of serverPayments) {
+    const existing = await db.getFirstAsync<CustomerPayment>('SELECT * FROM customer_payments WHERE id = ?', [serverPayment.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO customer_payments (id, customerId, amount, paymentMethod, notes, date, locationId, receivedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverPayment.id, serverPayment.customerId, serverPayment.amount, normalizePaymentMethod(serverPayment.paymentMethod), serverPayment.notes ?? null, serverPayment.date, serverPayment.locationId ?? null, serverPayment.receivedBy, serverPayment.createdAt, serverPayment.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE customer_payments SET customerId = ?, amount = ?, paymentMethod = ?, notes = ?, date = ?, locationId = ?, receivedBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverPayment.customerId, serverPayment.amount, normalizePaymentMethod(serverPayment.paymentMethod), serverPayment.notes ?? null, serverPayment.date, serverPayment.locationId ?? null, serverPayment.receivedBy, serverPayment.createdAt, serverPayment.updatedAt, 'synced', serverPayment.id]
+      );
+    }
+  }
+}
+
+export async function upsertPayoutsFromServer(serverPayouts: Payout[]): Promise<void> {
+  if (serverPayouts.length === 0) return;
+  console.log(`Upserting ${serverPayouts.length} payouts from server`);
+
+  if (Platform.OS === 'web') {
+    const localPayouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    const localMap = new Map(localPayouts.map(payout => [payout.id, payout]));
+
+    for (const serverPayout of serverPayouts) {
+      const local = localMap.get(serverPayout.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverPayout.id, { ...serverPayout, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.payouts, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverPayout of serverPayouts) {
+    const existing = await db.getFirstAsync<Payout>('SELECT * FROM payouts WHERE id = ?', [serverPayout.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO payouts (id, recipient, recipientUserId, amount, advanceDeduction, date, periodStart, periodEnd, notes, locationId, paidBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverPayout.id, serverPayout.recipient, serverPayout.recipientUserId ?? null, serverPayout.amount, serverPayout.advanceDeduction ?? null, serverPayout.date, serverPayout.periodStart, serverPayout.periodEnd, serverPayout.notes ?? null, serverPayout.locationId ?? null, serverPayout.paidBy, serverPayout.createdAt, serverPayout.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE payouts SET recipient = ?, recipientUserId = ?, amount = ?, advanceDeduction = ?, date = ?, periodStart = ?, periodEnd = ?, notes = ?, locationId = ?, paidBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverPayout.recipient, serverPayout.recipientUserId ?? null, serverPayout.amount, serverPayout.advanceDeduction ?? null, serverPayout.date, serverPayout.periodStart, serverPayout.periodEnd, serverPayout.notes ?? null, serverPayout.locationId ?? null, serverPayout.paidBy, serverPayout.createdAt, serverPayout.updatedAt, 'synced', serverPayout.id]
+      );
+    }
+  }
+}
+
+export async function upsertCashAdvancesFromServer(serverAdvances: CashAdvance[]): Promise<void> {
+  if (serverAdvances.length === 0) return;
+  console.log(`Upserting ${serverAdvances.length} cash advances from server`);
+
+  if (Platform.OS === 'web') {
+    const localAdvances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
+    const localMap = new Map(localAdvances.map(advance => [advance.id, advance]));
+
+    for (const serverAdvance of serverAdvances) {
+      const local = localMap.get(serverAdvance.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverAdvance.id, { ...serverAdvance, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.cashAdvances, Array.from(localMap.values()));
+    return;
+  }
+
+  if (!db) return;
+
+  for (const serverAdvance of serverAdvances) {
+    const existing = await db.getFirstAsync<CashAdvance>('SELECT * FROM cash_advances WHERE id = ?', [serverAdvance.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO cash_advances (id, userId, amount, date, notes, locationId, recordedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverAdvance.id, serverAdvance.userId, serverAdvance.amount, serverAdvance.date, serverAdvance.notes ?? null, serverAdvance.locationId ?? null, serverAdvance.recordedBy, serverAdvance.createdAt, serverAdvance.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE cash_advances SET userId = ?, amount = ?, date = ?, notes = ?, locationId = ?, recordedBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverAdvance.userId, serverAdvance.amount, serverAdvance.date, serverAdvance.notes ?? null, serverAdvance.locationId ?? null, serverAdvance.recordedBy, serverAdvance.createdAt, serverAdvance.updatedAt, 'synced', serverAdvance.id]
+      );
+    }
+  }
 }
 
-export async function getPendingSyncCount(): Promise<number> {
+export async function upsertCashDrawerClosesFromServer(serverCloses: CashDrawerClose[]): Promise<void> {
+  if (serverCloses.length === 0) return;
+  console.log(`Upserting ${serverCloses.length} cash drawer closes from server`);
+
   if (Platform.OS === 'web') {
-    const users = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
-    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
-    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
-    const activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
-    const chatMessages = await getFromStorage<ChatMessage[]>(STORAGE_KEYS.chatMessages, []);
-    const outbox = await getFromStorage<OutboxItem[]>(STORAGE_KEYS.outbox, []);
-    const deletionOutbox = outbox.filter(item => item.operation === 'delete');
-    
-    return [
-      ...users.filter(u => u.syncStatus === 'pending'),
-      ...sales.filter(s => s.syncStatus === 'pending'),
-      ...expenses.filter(e => e.syncStatus === 'pending'),
-      ...activities.filter(a => a.syncStatus === 'pending'),
-      ...chatMessages.filter(message => message.syncStatus === 'pending'),
-      ...deletionOutbox,
-    ].length;
+    const localCloses = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    const localMap = new Map(localCloses.map(close => [close.id, close]));
+
+    for (const serverClose of serverCloses) {
+      const local = localMap.get(serverClose.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverClose.id, { ...serverClose, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.cashDrawerCloses, Array.from(localMap.values()));
+    return;
   }
 
-  if (!db) return 0;
-  
-  const counts = await Promise.all([
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM users WHERE syncStatus = ?', ['pending']),
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM sales WHERE syncStatus = ?', ['pending']),
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM expenses WHERE syncStatus = ?', ['pending']),
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM activities WHERE syncStatus = ?', ['pending']),
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM chat_messages WHERE syncStatus = ?', ['pending']),
-    db.getFirstAsync<{ count: number }>('SELECT COUNT(*) as count FROM outbox WHERE operation = ?', ['delete']),
-  ]);
+  if (!db) return;
 
-  return counts.reduce((sum, result) => sum + (result?.count || 0), 0);
+  for (const serverClose of serverCloses) {
+    const existing = await db.getFirstAsync<CashDrawerClose>('SELECT * FROM cash_drawer_closes WHERE id = ?', [serverClose.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO cash_drawer_closes (id, date, openingFloat, countedCash, cashSales, cashExpenses, cashAdvances, creditPayments, expectedCash, overShort, notes, locationId, closedBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverClose.id, serverClose.date, serverClose.openingFloat, serverClose.countedCash, serverClose.cashSales, serverClose.cashExpenses, serverClose.cashAdvances ?? null, serverClose.creditPayments ?? null, serverClose.expectedCash, serverClose.overShort, serverClose.notes ?? null, serverClose.locationId ?? null, serverClose.closedBy, serverClose.createdAt, serverClose.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE cash_drawer_closes SET date = ?, openingFloat = ?, countedCash = ?, cashSales = ?, cashExpenses = ?, cashAdvances = ?, creditPayments = ?, expectedCash = ?, overShort = ?, notes = ?, locationId = ?, closedBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverClose.date, serverClose.openingFloat, serverClose.countedCash, serverClose.cashSales, serverClose.cashExpenses, serverClose.cashAdvances ?? null, serverClose.creditPayments ?? null, serverClose.expectedCash, serverClose.overShort, serverClose.notes ?? null, serverClose.locationId ?? null, serverClose.closedBy, serverClose.createdAt, serverClose.updatedAt, 'synced', serverClose.id]
+      );
+    }
+  }
 }
 
-type SyncableEntityTable = 'users' | 'sales' | 'expenses' | 'activities' | 'chat_messages';
-
-async function markRecordsSynced(table: SyncableEntityTable, ids: string[]): Promise<void> {
-  if (ids.length === 0) return;
+export async function upsertShiftsFromServer(serverShifts: Shift[]): Promise<void> {
+  if (serverShifts.length === 0) return;
+  console.log(`Upserting ${serverShifts.length} shifts from server`);
 
   if (Platform.OS === 'web') {
-    const idSet = new Set(ids);
-    const updateList = async <T extends { id: string; syncStatus: 'synced' | 'pending' }>(
-      key: string
-    ) => {
-      const items = await getFromStorage<T[]>(key, []);
-      await setToStorage(
-        key,
-        items.map(item => (idSet.has(item.id) ? { ...item, syncStatus: 'synced' as const } : item))
-      );
-    };
+    const localShifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    const localMap = new Map(localShifts.map(shift => [shift.id, shift]));
 
-    if (table === 'users') {
-      await updateList<User>(STORAGE_KEYS.users);
-    } else if (table === 'sales') {
-      await updateList<Sale>(STORAGE_KEYS.sales);
-    } else if (table === 'expenses') {
-      await updateList<Expense>(STORAGE_KEYS.expenses);
-    } else if (table === 'activities') {
-      await updateList<Activity>(STORAGE_KEYS.activities);
-    } else if (table === 'chat_messages') {
-      await updateList<ChatMessage>(STORAGE_KEYS.chatMessages);
+    for (const serverShift of serverShifts) {
+      const local = localMap.get(serverShift.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverShift.id, { ...normalizeShiftRow(serverShift), syncStatus: 'synced' });
+      }
     }
+    await setToStorage(STORAGE_KEYS.shifts, Array.from(localMap.values()));
     return;
   }
 
   if (!db) return;
-  const placeholders = ids.map(() => '?').join(', ');
-  await db.runAsync(
-    `UPDATE ${table} SET syncStatus = 'synced' WHERE id IN (${placeholders})`,
-    ids
-  );
-}
 
-export async function markUsersSynced(ids: string[]): Promise<void> {
-  await markRecordsSynced('users', ids);
+  for (const serverShift of serverShifts) {
+    const existing = await db.getFirstAsync<ShiftRow>('SELECT * FROM shifts WHERE id = ?', [serverShift.id]);
+    const staffIds = JSON.stringify(normalizeShiftStaffIds(serverShift.staffIds));
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO shifts (id, openedBy, openedAt, closedAt, staffIds, notes, locationId, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverShift.id, serverShift.openedBy, serverShift.openedAt, serverShift.closedAt ?? null, staffIds, serverShift.notes ?? null, serverShift.locationId ?? null, serverShift.createdAt, serverShift.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE shifts SET openedBy = ?, openedAt = ?, closedAt = ?, staffIds = ?, notes = ?, locationId = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverShift.openedBy, serverShift.openedAt, serverShift.closedAt ?? null, staffIds, serverShift.notes ?? null, serverShift.locationId ?? null, serverShift.createdAt, serverShift.updatedAt, 'synced', serverShift.id]
+      );
+    }
+  }
 }
 
-export async function markSalesSynced(ids: string[]): Promise<void> {
-  await markRecordsSynced('sales', ids);
-}
+export async function upsertProductsFromServer(serverProducts: Product[]): Promise<void> {
+  if (serverProducts.length === 0) return;
+  console.log(`Upserting ${serverProducts.length} products from server`);
 
-export async function markExpensesSynced(ids: string[]): Promise<void> {
-  await markRecordsSynced('expenses', ids);
-}
+  if (Platform.OS === 'web') {
+    const localProducts = await getFromStorage<Product[]>(STORAGE_KEYS.products, []);
+    const localMap = new Map(localProducts.map(p => [p.id, p]));
 
-export async function markActivitiesSynced(ids: string[]): Promise<void> {
-  await markRecordsSynced('activities', ids);
-}
+    for (const serverProduct of serverProducts) {
+      const local = localMap.get(serverProduct.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverProduct.id, { ...serverProduct, syncStatus: 'synced' });
+      }
+    }
+    await setToStorage(STORAGE_KEYS.products, Array.from(localMap.values()));
+    return;
+  }
 
-export async function markChatMessagesSynced(ids: string[]): Promise<void> {
-  await markRecordsSynced('chat_messages', ids);
+  if (!db) return;
+
+  for (const serverProduct of serverProducts) {
+    const existing = await db.getFirstAsync<ProductRow>('SELECT * FROM products WHERE id = ?', [serverProduct.id]);
+    if (!existing) {
+      await db.runAsync(
+        'INSERT INTO products (id, name, price, category, active, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverProduct.id, serverProduct.name, serverProduct.price, serverProduct.category ?? null, serverProduct.active ? 1 : 0, serverProduct.createdAt, serverProduct.updatedAt, 'synced']
+      );
+    } else if (existing.syncStatus !== 'pending') {
+      await db.runAsync(
+        'UPDATE products SET name = ?, price = ?, category = ?, active = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverProduct.name, serverProduct.price, serverProduct.category ?? null, serverProduct.active ? 1 : 0, serverProduct.createdAt, serverProduct.updatedAt, 'synced', serverProduct.id]
+      );
+    }
+  }
 }
 
-export async function upsertUsersFromServer(serverUsers: User[]): Promise<void> {
-  if (serverUsers.length === 0) return;
-  console.log(`Upserting ${serverUsers.length} users from server`);
+export async function upsertStockItemsFromServer(serverStockItems: StockItem[]): Promise<void> {
+  if (serverStockItems.length === 0) return;
+  console.log(`Upserting ${serverStockItems.length} stock items from server`);
+
+  // Rows pushed by older clients only carry the running total, so recover an opening quantity from the local entries.
+  const entryTotals = await getStockEntryTotals();
+  const resolveOpeningQuantity = (item: StockItem) =>
+    item.openingQuantity ?? roundStockQuantity(item.onHand - (entryTotals.get(item.id) ?? 0));
 
   if (Platform.OS === 'web') {
-    const localUsers = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
-    const localMap = new Map(localUsers.map(u => [u.id, u]));
-    
-    for (const serverUser of serverUsers) {
-      const local = localMap.get(serverUser.id);
-      if (!local) {
-        localMap.set(serverUser.id, { ...serverUser, syncStatus: 'synced' });
-      } else if (local.syncStatus !== 'pending') {
-        localMap.set(serverUser.id, {
-          ...serverUser,
-          bio: serverUser.bio ?? local.bio,
-          profilePicture: serverUser.profilePicture ?? local.profilePicture,
+    const localStockItems = await getFromStorage<StoredStockItem[]>(STORAGE_KEYS.stockItems, []);
+    const localMap = new Map(localStockItems.map(item => [item.id, item]));
+
+    for (const serverStockItem of serverStockItems) {
+      const local = localMap.get(serverStockItem.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverStockItem.id, {
+          ...toStoredStockItem(serverStockItem),
+          openingQuantity: resolveOpeningQuantity(serverStockItem),
           syncStatus: 'synced',
         });
       }
     }
-    await setToStorage(STORAGE_KEYS.users, Array.from(localMap.values()));
+    await setToStorage(STORAGE_KEYS.stockItems, Array.from(localMap.values()));
     return;
   }
 
   if (!db) return;
 
-  for (const serverUser of serverUsers) {
-    const existing = await db.getFirstAsync<User>('SELECT * FROM users WHERE id = ?', [serverUser.id]);
+  for (const serverStockItem of serverStockItems) {
+    const existing = await db.getFirstAsync<StockItem>('SELECT * FROM stock_items WHERE id = ?', [serverStockItem.id]);
+    const openingQuantity = resolveOpeningQuantity(serverStockItem);
     if (!existing) {
       await db.runAsync(
-        'INSERT INTO users (id, name, pin, role, bio, profilePicture, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [serverUser.id, serverUser.name, serverUser.pin, serverUser.role, serverUser.bio || null, serverUser.profilePicture || null, serverUser.createdAt, serverUser.updatedAt, 'synced']
+        'INSERT INTO stock_items (id, name, unit, openingQuantity, productId, reorderPoint, supplier, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverStockItem.id, serverStockItem.name, serverStockItem.unit, openingQuantity, serverStockItem.productId ?? null, serverStockItem.reorderPoint ?? null, serverStockItem.supplier ?? null, serverStockItem.createdAt, serverStockItem.updatedAt, 'synced']
       );
     } else if (existing.syncStatus !== 'pending') {
       await db.runAsync(
-        'UPDATE users SET name = ?, pin = ?, role = ?, bio = ?, profilePicture = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
-        [
-          serverUser.name,
-          serverUser.pin,
-          serverUser.role,
-          serverUser.bio ?? existing.bio ?? null,
-          serverUser.profilePicture ?? existing.profilePicture ?? null,
-          serverUser.createdAt,
-          serverUser.updatedAt,
-          'synced',
-          serverUser.id,
-        ]
+        'UPDATE stock_items SET name = ?, unit = ?, openingQuantity = ?, productId = ?, reorderPoint = ?, supplier = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverStockItem.name, serverStockItem.unit, openingQuantity, serverStockItem.productId ?? null, serverStockItem.reorderPoint ?? null, serverStockItem.supplier ?? null, serverStockItem.createdAt, serverStockItem.updatedAt, 'synced', serverStockItem.id]
       );
     }
   }
 }
 
-export async function upsertSalesFromServer(serverSales: Sale[]): Promise<void> {
-  if (serverSales.length === 0) return;
-  console.log(`Upserting ${serverSales.length} sales from server`);
+export async function upsertStockEntriesFromServer(serverEntries: StockEntry[]): Promise<void> {
+  if (serverEntries.length === 0) return;
+  console.log(`Upserting ${serverEntries.length} stock entries from server`);
 
   if (Platform.OS === 'web') {
-    const localSales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
-    const localMap = new Map(localSales.map(s => [s.id, s]));
-    
-    for (const serverSale of serverSales) {
-      const normalizedSale = normalizeSale(serverSale);
-      const local = localMap.get(serverSale.id);
-      if (!local) {
-        localMap.set(serverSale.id, { ...normalizedSale, syncStatus: 'synced' });
-      } else if (local.syncStatus !== 'pending') {
-        localMap.set(serverSale.id, { ...normalizedSale, syncStatus: 'synced' });
+    const localEntries = await getFromStorage<StockEntry[]>(STORAGE_KEYS.stockEntries, []);
+    const localMap = new Map(localEntries.map(entry => [entry.id, entry]));
+
+    for (const serverEntry of serverEntries) {
+      const local = localMap.get(serverEntry.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverEntry.id, { ...serverEntry, syncStatus: 'synced' });
       }
     }
-    await setToStorage(STORAGE_KEYS.sales, Array.from(localMap.values()));
+    await setToStorage(STORAGE_KEYS.stockEntries, Array.from(localMap.values()));
     return;
   }
 
   if (!db) return;
 
-  for (const serverSale of serverSales) {
-    const existing = await db.getFirstAsync<Sale>('SELECT * FROM sales WHERE id = ?', [serverSale.id]);
+  for (const serverEntry of serverEntries) {
+    const existing = await db.getFirstAsync<StockEntry>('SELECT * FROM stock_entries WHERE id = ?', [serverEntry.id]);
     if (!existing) {
       await db.runAsync(
-        'INSERT INTO sales (id, name, items, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [serverSale.id, serverSale.name, serializeItems(serverSale.items), serverSale.total, serverSale.date, serverSale.createdBy, serverSale.createdAt, serverSale.updatedAt, 'synced']
+        'INSERT INTO stock_entries (id, stockItemId, type, quantity, note, saleId, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [serverEntry.id, serverEntry.stockItemId, serverEntry.type, serverEntry.quantity, serverEntry.note ?? null, serverEntry.saleId ?? null, serverEntry.date, serverEntry.createdBy, serverEntry.createdAt, serverEntry.updatedAt, 'synced']
       );
     } else if (existing.syncStatus !== 'pending') {
       await db.runAsync(
-        'UPDATE sales SET name = ?, items = ?, total = ?, date = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
-        [serverSale.name, serializeItems(serverSale.items), serverSale.total, serverSale.date, serverSale.createdBy, serverSale.createdAt, serverSale.updatedAt, 'synced', serverSale.id]
+        'UPDATE stock_entries SET stockItemId = ?, type = ?, quantity = ?, note = ?, saleId = ?, date = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverEntry.stockItemId, serverEntry.type, serverEntry.quantity, serverEntry.note ?? null, serverEntry.saleId ?? null, serverEntry.date, serverEntry.createdBy, serverEntry.createdAt, serverEntry.updatedAt, 'synced', serverEntry.id]
       );
     }
   }
 }
 
-export async function upsertExpensesFromServer(serverExpenses: Expense[]): Promise<void> {
-  if (serverExpenses.length === 0) return;
-  console.log(`Upserting ${serverExpenses.length} expenses from server`);
+export async function upsertRecipesFromServer(serverRecipes: Recipe[]): Promise<void> {
+  if (serverRecipes.length === 0) return;
+  console.log(`Upserting ${serverRecipes.length} recipes from server`);
 
   if (Platform.OS === 'web') {
-    const localExpenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
-    const localMap = new Map(localExpenses.map(e => [e.id, e]));
-    
-    for (const serverExpense of serverExpenses) {
-      const normalizedExpense = normalizeExpense(serverExpense);
-      const local = localMap.get(serverExpense.id);
-      if (!local) {
-        localMap.set(serverExpense.id, { ...normalizedExpense, syncStatus: 'synced' });
-      } else if (local.syncStatus !== 'pending') {
-        localMap.set(serverExpense.id, { ...normalizedExpense, syncStatus: 'synced' });
+    const localRecipes = await getFromStorage<Recipe[]>(STORAGE_KEYS.recipes, []);
+    const localMap = new Map(localRecipes.map(recipe => [recipe.id, recipe]));
+
+    for (const serverRecipe of serverRecipes) {
+      const local = localMap.get(serverRecipe.id);
+      if (!local || local.syncStatus !== 'pending') {
+        localMap.set(serverRecipe.id, { ...serverRecipe, syncStatus: 'synced' });
       }
     }
-    await setToStorage(STORAGE_KEYS.expenses, Array.from(localMap.values()));
+    await setToStorage(STORAGE_KEYS.recipes, Array.from(localMap.values()));
     return;
   }
 
   if (!db) return;
 
-  for (const serverExpense of serverExpenses) {
-    const existing = await db.getFirstAsync<Expense>('SELECT * FROM expenses WHERE id = ?', [serverExpense.id]);
+  for (const serverRecipe of serverRecipes) {
+    const existing = await db.getFirstAsync<RecipeRow>('SELECT * FROM recipes WHERE id = ?', [serverRecipe.id]);
     if (!existing) {
       await db.runAsync(
-        'INSERT INTO expenses (id, name, items, total, date, createdBy, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [serverExpense.id, serverExpense.name, serializeItems(serverExpense.items), serverExpense.total, serverExpense.date, serverExpense.createdBy, serverExpense.createdAt, serverExpense.updatedAt, 'synced']
+        'INSERT INTO recipes (id, itemName, ingredients, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?)',
+        [serverRecipe.id, serverRecipe.itemName, JSON.stringify(serverRecipe.ingredients), serverRecipe.createdAt, serverRecipe.updatedAt, 'synced']
       );
     } else if (existing.syncStatus !== 'pending') {
       await db.runAsync(
-        'UPDATE expenses SET name = ?, items = ?, total = ?, date = ?, createdBy = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
-        [serverExpense.name, serializeItems(serverExpense.items), serverExpense.total, serverExpense.date, serverExpense.createdBy, serverExpense.createdAt, serverExpense.updatedAt, 'synced', serverExpense.id]
+        'UPDATE recipes SET itemName = ?, ingredients = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        [serverRecipe.itemName, JSON.stringify(serverRecipe.ingredients), serverRecipe.createdAt, serverRecipe.updatedAt, 'synced', serverRecipe.id]
       );
     }
   }
@@ -1398,7 +4488,7 @@ export async function upsertChatMessagesFromServer(serverMessages: ChatMessage[]
     const existing = await db.getFirstAsync<ChatMessage>('SELECT * FROM chat_messages WHERE id = ?', [normalizedMessage.id]);
     if (!existing) {
       await db.runAsync(
-        'INSERT INTO chat_messages (id, userId, userName, userAvatarUrl, localAvatarUri, messageText, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        'INSERT INTO chat_messages (id, userId, userName, userAvatarUrl, localAvatarUri, messageText, messageType, createdAt, updatedAt, syncStatus) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
         [
           normalizedMessage.id,
           normalizedMessage.userId,
@@ -1406,6 +4496,7 @@ export async function upsertChatMessagesFromServer(serverMessages: ChatMessage[]
           normalizedMessage.userAvatarUrl ?? null,
           normalizedMessage.localAvatarUri ?? null,
           normalizedMessage.messageText,
+          normalizedMessage.messageType ?? 'user',
           normalizedMessage.createdAt,
           normalizedMessage.updatedAt,
           'synced',
@@ -1413,13 +4504,14 @@ export async function upsertChatMessagesFromServer(serverMessages: ChatMessage[]
       );
     } else if (existing.syncStatus !== 'pending') {
       await db.runAsync(
-        'UPDATE chat_messages SET userId = ?, userName = ?, userAvatarUrl = ?, localAvatarUri = ?, messageText = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
+        'UPDATE chat_messages SET userId = ?, userName = ?, userAvatarUrl = ?, localAvatarUri = ?, messageText = ?, messageType = ?, createdAt = ?, updatedAt = ?, syncStatus = ? WHERE id = ?',
         [
           normalizedMessage.userId,
           normalizedMessage.userName,
           normalizedMessage.userAvatarUrl ?? null,
           existing.localAvatarUri ?? normalizedMessage.localAvatarUri ?? null,
           normalizedMessage.messageText,
+          normalizedMessage.messageType ?? 'user',
           normalizedMessage.createdAt,
           normalizedMessage.updatedAt,
           'synced',
@@ -1463,6 +4555,14 @@ export async function migrateLocalUserIdsToServerIds(options: MigrationOptions):
     const localUsers = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
     let sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
     let expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    let cashDrawerCloses = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    let shifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    let customerPayments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    let recurringExpenses = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    let salesTargets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    let netSalesSplits = await getFromStorage<NetSalesSplitConfig[]>(STORAGE_KEYS.netSalesSplits, []);
+    let payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    let cashAdvances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
     let activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
     let chatMessages = await getFromStorage<ChatMessage[]>(STORAGE_KEYS.chatMessages, []);
 
@@ -1492,7 +4592,11 @@ export async function migrateLocalUserIdsToServerIds(options: MigrationOptions):
         return { ...s, createdBy: fallbackServerId };
       }
       return s;
-    });
+    }).map(s => (
+      s.adjustmentApprovedBy && idRemapping.has(s.adjustmentApprovedBy)
+        ? { ...s, adjustmentApprovedBy: idRemapping.get(s.adjustmentApprovedBy)! }
+        : s
+    ));
 
     expenses = expenses.map(e => {
       if (e.createdBy && idRemapping.has(e.createdBy)) {
@@ -1506,6 +4610,60 @@ export async function migrateLocalUserIdsToServerIds(options: MigrationOptions):
       return e;
     });
 
+    cashDrawerCloses = cashDrawerCloses.map(close => {
+      if (close.closedBy && idRemapping.has(close.closedBy)) {
+        return { ...close, closedBy: idRemapping.get(close.closedBy)! };
+      }
+      return close;
+    });
+
+    shifts = shifts.map(shift => {
+      if (shift.openedBy && idRemapping.has(shift.openedBy)) {
+        return { ...shift, openedBy: idRemapping.get(shift.openedBy)! };
+      }
+      return shift;
+    });
+
+    customerPayments = customerPayments.map(payment => {
+      if (payment.receivedBy && idRemapping.has(payment.receivedBy)) {
+        return { ...payment, receivedBy: idRemapping.get(payment.receivedBy)! };
+      }
+      return payment;
+    });
+
+    recurringExpenses = recurringExpenses.map(template => {
+      if (template.createdBy && idRemapping.has(template.createdBy)) {
+        return { ...template, createdBy: idRemapping.get(template.createdBy)! };
+      }
+      return template;
+    });
+
+    salesTargets = salesTargets.map(target => {
+      if (target.updatedBy && idRemapping.has(target.updatedBy)) {
+        return { ...target, updatedBy: idRemapping.get(target.updatedBy)! };
+      }
+      return target;
+    });
+
+    netSalesSplits = netSalesSplits.map(config => {
+      if (config.createdBy && idRemapping.has(config.createdBy)) {
+        return { ...config, createdBy: idRemapping.get(config.createdBy)! };
+      }
+      return config;
+    });
+
+    payouts = payouts.map(payout => ({
+      ...payout,
+      paidBy: idRemapping.get(payout.paidBy) ?? payout.paidBy,
+      recipientUserId: payout.recipientUserId ? idRemapping.get(payout.recipientUserId) ?? payout.recipientUserId : payout.recipientUserId,
+    }));
+
+    cashAdvances = cashAdvances.map(advance => ({
+      ...advance,
+      userId: idRemapping.get(advance.userId) ?? advance.userId,
+      recordedBy: idRemapping.get(advance.recordedBy) ?? advance.recordedBy,
+    }));
+
     activities = activities.map(a => {
       if (a.userId && idRemapping.has(a.userId)) {
         return { ...a, userId: idRemapping.get(a.userId)! };
@@ -1552,6 +4710,14 @@ export async function migrateLocalUserIdsToServerIds(options: MigrationOptions):
     await setToStorage(STORAGE_KEYS.users, updatedUsers);
     await setToStorage(STORAGE_KEYS.sales, sales);
     await setToStorage(STORAGE_KEYS.expenses, expenses);
+    await setToStorage(STORAGE_KEYS.cashDrawerCloses, cashDrawerCloses);
+    await setToStorage(STORAGE_KEYS.shifts, shifts);
+    await setToStorage(STORAGE_KEYS.customerPayments, customerPayments);
+    await setToStorage(STORAGE_KEYS.recurringExpenses, recurringExpenses);
+    await setToStorage(STORAGE_KEYS.salesTargets, salesTargets);
+    await setToStorage(STORAGE_KEYS.netSalesSplits, netSalesSplits);
+    await setToStorage(STORAGE_KEYS.payouts, payouts);
+    await setToStorage(STORAGE_KEYS.cashAdvances, cashAdvances);
     await setToStorage(STORAGE_KEYS.activities, activities);
     await setToStorage(STORAGE_KEYS.chatMessages, chatMessages);
 
@@ -1577,7 +4743,18 @@ export async function migrateLocalUserIdsToServerIds(options: MigrationOptions):
   for (const [localId, serverId] of idRemapping) {
     console.log(`Updating FK references from ${localId} to ${serverId}`);
     await db.runAsync('UPDATE sales SET createdBy = ? WHERE createdBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE sales SET adjustmentApprovedBy = ? WHERE adjustmentApprovedBy = ?', [serverId, localId]);
     await db.runAsync('UPDATE expenses SET createdBy = ? WHERE createdBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE cash_drawer_closes SET closedBy = ? WHERE closedBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE shifts SET openedBy = ? WHERE openedBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE customer_payments SET receivedBy = ? WHERE receivedBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE recurring_expenses SET createdBy = ? WHERE createdBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE sales_targets SET updatedBy = ? WHERE updatedBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE net_sales_splits SET createdBy = ? WHERE createdBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE payouts SET paidBy = ? WHERE paidBy = ?', [serverId, localId]);
+    await db.runAsync('UPDATE payouts SET recipientUserId = ? WHERE recipientUserId = ?', [serverId, localId]);
+    await db.runAsync('UPDATE cash_advances SET userId = ? WHERE userId = ?', [serverId, localId]);
+    await db.runAsync('UPDATE cash_advances SET recordedBy = ? WHERE recordedBy = ?', [serverId, localId]);
     await db.runAsync('UPDATE activities SET userId = ? WHERE userId = ?', [serverId, localId]);
     await db.runAsync('UPDATE chat_messages SET userId = ? WHERE userId = ?', [serverId, localId]);
   }
@@ -1664,15 +4841,53 @@ export async function resolveUserPinConflict(
     let users = await getFromStorage<User[]>(STORAGE_KEYS.users, []);
     let sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
     let expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    let cashDrawerCloses = await getFromStorage<CashDrawerClose[]>(STORAGE_KEYS.cashDrawerCloses, []);
+    let shifts = await getFromStorage<Shift[]>(STORAGE_KEYS.shifts, []);
+    let customerPayments = await getFromStorage<CustomerPayment[]>(STORAGE_KEYS.customerPayments, []);
+    let recurringExpenses = await getFromStorage<RecurringExpense[]>(STORAGE_KEYS.recurringExpenses, []);
+    let salesTargets = await getFromStorage<SalesTarget[]>(STORAGE_KEYS.salesTargets, []);
+    let netSalesSplits = await getFromStorage<NetSalesSplitConfig[]>(STORAGE_KEYS.netSalesSplits, []);
+    let payouts = await getFromStorage<Payout[]>(STORAGE_KEYS.payouts, []);
+    let cashAdvances = await getFromStorage<CashAdvance[]>(STORAGE_KEYS.cashAdvances, []);
     let activities = await getFromStorage<Activity[]>(STORAGE_KEYS.activities, []);
     let chatMessages = await getFromStorage<ChatMessage[]>(STORAGE_KEYS.chatMessages, []);
 
     sales = sales.map(s =>
       s.createdBy === localUserId ? { ...s, createdBy: serverUserId } : s
+    ).map(s =>
+      s.adjustmentApprovedBy === localUserId ? { ...s, adjustmentApprovedBy: serverUserId } : s
     );
     expenses = expenses.map(e =>
       e.createdBy === localUserId ? { ...e, createdBy: serverUserId } : e
     );
+    cashDrawerCloses = cashDrawerCloses.map(close =>
+      close.closedBy === localUserId ? { ...close, closedBy: serverUserId } : close
+    );
+    shifts = shifts.map(shift =>
+      shift.openedBy === localUserId ? { ...shift, openedBy: serverUserId } : shift
+    );
+    customerPayments = customerPayments.map(payment =>
+      payment.receivedBy === localUserId ? { ...payment, receivedBy: serverUserId } : payment
+    );
+    recurringExpenses = recurringExpenses.map(template =>
+      template.createdBy === localUserId ? { ...template, createdBy: serverUserId } : template
+    );
+    salesTargets = salesTargets.map(target =>
+      target.updatedBy === localUserId ? { ...target, updatedBy: serverUserId } : target
+    );
+    netSalesSplits = netSalesSplits.map(config =>
+      config.createdBy === localUserId ? { ...config, createdBy: serverUserId } : config
+    );
+    payouts = payouts.map(payout =>
+      payout.paidBy === localUserId ? { ...payout, paidBy: serverUserId } : payout
+    ).map(payout =>
+      payout.recipientUserId === localUserId ? { ...payout, recipientUserId: serverUserId } : payout
+    );
+    cashAdvances = cashAdvances.map(advance =>
+      advance.userId === localUserId ? { ...advance, userId: serverUserId } : advance
+    ).map(advance =>
+      advance.recordedBy === localUserId ? { ...advance, recordedBy: serverUserId } : advance
+    );
     activities = activities.map(a =>
       a.userId === localUserId ? { ...a, userId: serverUserId } : a
     );
@@ -1693,6 +4908,14 @@ export async function resolveUserPinConflict(
     await setToStorage(STORAGE_KEYS.users, users);
     await setToStorage(STORAGE_KEYS.sales, sales);
     await setToStorage(STORAGE_KEYS.expenses, expenses);
+    await setToStorage(STORAGE_KEYS.cashDrawerCloses, cashDrawerCloses);
+    await setToStorage(STORAGE_KEYS.shifts, shifts);
+    await setToStorage(STORAGE_KEYS.customerPayments, customerPayments);
+    await setToStorage(STORAGE_KEYS.recurringExpenses, recurringExpenses);
+    await setToStorage(STORAGE_KEYS.salesTargets, salesTargets);
+    await setToStorage(STORAGE_KEYS.netSalesSplits, netSalesSplits);
+    await setToStorage(STORAGE_KEYS.payouts, payouts);
+    await setToStorage(STORAGE_KEYS.cashAdvances, cashAdvances);
     await setToStorage(STORAGE_KEYS.activities, activities);
     await setToStorage(STORAGE_KEYS.chatMessages, chatMessages);
     return;
@@ -1701,7 +4924,18 @@ export async function resolveUserPinConflict(
   if (!db) return;
 
   await db.runAsync('UPDATE sales SET createdBy = ? WHERE createdBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE sales SET adjustmentApprovedBy = ? WHERE adjustmentApprovedBy = ?', [serverUserId, localUserId]);
   await db.runAsync('UPDATE expenses SET createdBy = ? WHERE createdBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE cash_drawer_closes SET closedBy = ? WHERE closedBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE shifts SET openedBy = ? WHERE openedBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE customer_payments SET receivedBy = ? WHERE receivedBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE recurring_expenses SET createdBy = ? WHERE createdBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE sales_targets SET updatedBy = ? WHERE updatedBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE net_sales_splits SET createdBy = ? WHERE createdBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE payouts SET paidBy = ? WHERE paidBy = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE payouts SET recipientUserId = ? WHERE recipientUserId = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE cash_advances SET userId = ? WHERE userId = ?', [serverUserId, localUserId]);
+  await db.runAsync('UPDATE cash_advances SET recordedBy = ? WHERE recordedBy = ?', [serverUserId, localUserId]);
   await db.runAsync('UPDATE activities SET userId = ? WHERE userId = ?', [serverUserId, localUserId]);
   await db.runAsync('UPDATE chat_messages SET userId = ? WHERE userId = ?', [serverUserId, localUserId]);
 
@@ -2042,7 +5276,7 @@ export async function getEntryDaysForMonth(year: number, month: number): Promise
   }
 }
 
-export async function getWeeklySalesTotals(startDate: string, endDate: string): Promise<Record<string, number>> {
+export async function getWeeklySalesTotals(startDate: string, endDate: string, locationId?: string | null): Promise<Record<string, number>> {
   const result: Record<string, number> = {};
   const start = parseLocalDateString(startDate);
   const dayKeys = getDayKeysForWeek(start);
@@ -2050,7 +5284,10 @@ export async function getWeeklySalesTotals(startDate: string, endDate: string):
   
   if (Platform.OS === 'web') {
     const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
-    const totals = bucketByLocalDay(sales, dayKeysSet);
+    const totals = bucketByLocalDay(
+      sales.filter(record => isInLocation(record, locationId)).map(sale => ({ date: sale.date, total: getSaleNetTotal(sale) })),
+      dayKeysSet
+    );
     for (const key of dayKeys) {
       result[key] = totals.get(key) || 0;
     }
@@ -2062,13 +5299,14 @@ export async function getWeeklySalesTotals(startDate: string, endDate: string):
   if (!database) return result;
   
   try {
-    const rows = await database.getAllAsync<{ date: string; total: number }>(
-      `SELECT date, total FROM sales`
+    const rows = await database.getAllAsync<Pick<Sale, 'date' | 'total' | 'locationId' | 'adjustmentType' | 'adjustmentAmount'>>(
+      `SELECT date, total, locationId, adjustmentType, adjustmentAmount FROM sales`
     );
     for (const row of rows) {
+      if (!isInLocation(row, locationId)) continue;
       const key = toLocalDayKey(row.date);
       if (!dayKeysSet.has(key)) continue;
-      result[key] = (result[key] || 0) + Number(row.total || 0);
+      result[key] = (result[key] || 0) + Number(getSaleNetTotal(row) || 0);
     }
     for (const key of dayKeys) {
       result[key] = result[key] || 0;
@@ -2080,102 +5318,155 @@ export async function getWeeklySalesTotals(startDate: string, endDate: string):
   return result;
 }
 
-export async function getMonthlyTotalsForYear(year: number): Promise<{
+// Every recorded day's sales and expense totals, oldest first, for balances that accrue over all time.
+export async function getDailySalesExpenseTotals(locationId?: string | null): Promise<DailySplitTotals[]> {
+  const totalsByDay = new Map<string, DailySplitTotals>();
+  const applyTotal = (date: string, value: number, field: 'sales' | 'expenses') => {
+    const key = toLocalDayKey(date);
+    if (!key) return;
+    const entry = totalsByDay.get(key) ?? { date: key, sales: 0, expenses: 0 };
+    entry[field] += Number(value) || 0;
+    totalsByDay.set(key, entry);
+  };
+  const buildResult = () => Array.from(totalsByDay.values()).sort((a, b) => a.date.localeCompare(b.date));
+
+  if (Platform.OS === 'web') {
+    const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
+    const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
+    sales.filter(sale => sale.date && isInLocation(sale, locationId)).forEach(sale => applyTotal(sale.date, getSaleNetTotal(sale), 'sales'));
+    expenses.filter(expense => expense.date && isInLocation(expense, locationId)).forEach(expense => applyTotal(expense.date, expense.total, 'expenses'));
+    return buildResult();
+  }
+
+  const database = await ensureDb();
+  if (!database) return [];
+
+  try {
+    const saleRows = await database.getAllAsync<Pick<Sale, 'date' | 'total' | 'locationId' | 'adjustmentType' | 'adjustmentAmount'>>(
+      'SELECT date, total, locationId, adjustmentType, adjustmentAmount FROM sales'
+    );
+    saleRows.filter(row => isInLocation(row, locationId)).forEach(row => applyTotal(row.date, getSaleNetTotal(row), 'sales'));
+
+    const expenseRows = await database.getAllAsync<Pick<Expense, 'date' | 'total' | 'locationId'>>(
+      'SELECT date, total, locationId FROM expenses'
+    );
+    expenseRows.filter(row => isInLocation(row, locationId)).forEach(row => applyTotal(row.date, row.total, 'expenses'));
+  } catch (error) {
+    console.log('Error getting daily sales and expense totals:', error);
+  }
+
+  return buildResult();
+}
+
+export async function getMonthlyTotalsForYear(year: number, locationId?: string | null): Promise<{
   monthIndex: number;
   sales: number;
   expenses: number;
+  days: { date: string; sales: number; expenses: number }[];
 }[]> {
   const base = Array.from({ length: 12 }, (_, monthIndex) => ({
     monthIndex,
     sales: 0,
     expenses: 0,
+    days: [] as { date: string; sales: number; expenses: number }[],
   }));
-  const totalsByMonth = new Map<number, { sales: number; expenses: number }>();
+  const totalsByDay = new Map<string, { sales: number; expenses: number }>();
 
-  const ensureEntry = (monthIndex: number) => {
-    const current = totalsByMonth.get(monthIndex);
+  const ensureEntry = (dayKey: string) => {
+    const current = totalsByDay.get(dayKey);
     if (current) return current;
     const created = { sales: 0, expenses: 0 };
-    totalsByMonth.set(monthIndex, created);
+    totalsByDay.set(dayKey, created);
     return created;
   };
 
-  const applyTotal = (ym: string, value: unknown, field: 'sales' | 'expenses') => {
-    if (typeof ym !== 'string' || !/^\d{4}-\d{2}$/.test(ym)) return;
-    const [yearPart, monthPart] = ym.split('-');
+  const applyTotal = (dayKey: string, value: unknown, field: 'sales' | 'expenses') => {
+    if (typeof dayKey !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(dayKey)) return;
+    const [yearPart, monthPart] = dayKey.split('-');
     if (Number(yearPart) !== year) return;
     const monthIndex = Number(monthPart) - 1;
     if (!Number.isInteger(monthIndex) || monthIndex < 0 || monthIndex > 11) return;
     const parsedTotal = Number(value);
     const safeTotal = Number.isFinite(parsedTotal) ? parsedTotal : 0;
-    const entry = ensureEntry(monthIndex);
+    const entry = ensureEntry(dayKey);
     entry[field] += safeTotal;
   };
 
+  const buildResult = () => {
+    const daysByMonth = new Map<number, { date: string; sales: number; expenses: number }[]>();
+    Array.from(totalsByDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([date, totals]) => {
+        const monthIndex = Number(date.slice(5, 7)) - 1;
+        const days = daysByMonth.get(monthIndex) ?? [];
+        days.push({ date, ...totals });
+        daysByMonth.set(monthIndex, days);
+      });
+
+    return base.map(item => {
+      const days = daysByMonth.get(item.monthIndex) ?? [];
+      return {
+        ...item,
+        sales: days.reduce((sum, day) => sum + day.sales, 0),
+        expenses: days.reduce((sum, day) => sum + day.expenses, 0),
+        days,
+      };
+    });
+  };
+
   if (Platform.OS === 'web') {
     const sales = await getFromStorage<Sale[]>(STORAGE_KEYS.sales, []);
     const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
 
     for (const sale of sales) {
-      if (!sale.date) continue;
-      applyTotal(sale.date.slice(0, 7), sale.total, 'sales');
+      if (!sale.date || !isInLocation(sale, locationId)) continue;
+      applyTotal(sale.date.slice(0, 10), getSaleNetTotal(sale), 'sales');
     }
 
     for (const expense of expenses) {
-      if (!expense.date) continue;
-      applyTotal(expense.date.slice(0, 7), expense.total, 'expenses');
+      if (!expense.date || !isInLocation(expense, locationId)) continue;
+      applyTotal(expense.date.slice(0, 10), expense.total, 'expenses');
     }
 
-    return base.map(item => {
-      const monthTotals = totalsByMonth.get(item.monthIndex);
-      return {
-        ...item,
-        sales: monthTotals?.sales ?? 0,
-        expenses: monthTotals?.expenses ?? 0,
-      };
-    });
+    return buildResult();
   }
 
   const database = await ensureDb();
   if (!database) return base;
 
+  const locationClause = locationId ? ' AND COALESCE(locationId, ?) = ?' : '';
+  const locationParams = locationId ? [DEFAULT_LOCATION.id, locationId] : [];
+
   try {
-    const salesRows = await database.getAllAsync<{ ym: string; total: number | null }>(
-      `SELECT substr(date,1,7) as ym, SUM(total) as total
+    const salesRows = await database.getAllAsync<{ day: string; total: number | null }>(
+      `SELECT substr(date,1,10) as day, SUM(total + CASE WHEN adjustmentType IS NOT NULL THEN COALESCE(adjustmentAmount, 0) ELSE 0 END) as total
        FROM sales
-       WHERE substr(date,1,4) = ?
-       GROUP BY ym;`,
-      [String(year)]
+       WHERE substr(date,1,4) = ?${locationClause}
+       GROUP BY day;`,
+      [String(year), ...locationParams]
     );
     for (const row of salesRows) {
-      applyTotal(row.ym, row.total, 'sales');
+      applyTotal(row.day, row.total, 'sales');
     }
 
-    const expenseRows = await database.getAllAsync<{ ym: string; total: number | null }>(
-      `SELECT substr(date,1,7) as ym, SUM(total) as total
+    const expenseRows = await database.getAllAsync<{ day: string; total: number | null }>(
+      `SELECT substr(date,1,10) as day, SUM(total) as total
        FROM expenses
-       WHERE substr(date,1,4) = ?
-       GROUP BY ym;`,
-      [String(year)]
+       WHERE substr(date,1,4) = ?${locationClause}
+       GROUP BY day;`,
+      [String(year), ...locationParams]
     );
     for (const row of expenseRows) {
-      applyTotal(row.ym, row.total, 'expenses');
+      applyTotal(row.day, row.total, 'expenses');
     }
   } catch (error) {
     console.log('Error getting monthly totals for year:', error);
   }
 
-  return base.map(item => {
-    const monthTotals = totalsByMonth.get(item.monthIndex);
-    return {
-      ...item,
-      sales: monthTotals?.sales ?? 0,
-      expenses: monthTotals?.expenses ?? 0,
-    };
-  });
+  return buildResult();
 }
 
-export async function getWeeklyExpenseTotals(startDate: string, endDate: string): Promise<Record<string, number>> {
+export async function getWeeklyExpenseTotals(startDate: string, endDate: string, locationId?: string | null): Promise<Record<string, number>> {
   const result: Record<string, number> = {};
   const start = parseLocalDateString(startDate);
   const dayKeys = getDayKeysForWeek(start);
@@ -2183,7 +5474,7 @@ export async function getWeeklyExpenseTotals(startDate: string, endDate: string)
   
   if (Platform.OS === 'web') {
     const expenses = await getFromStorage<Expense[]>(STORAGE_KEYS.expenses, []);
-    const totals = bucketByLocalDay(expenses, dayKeysSet);
+    const totals = bucketByLocalDay(expenses.filter(record => isInLocation(record, locationId)), dayKeysSet);
     for (const key of dayKeys) {
       result[key] = totals.get(key) || 0;
     }
@@ -2195,10 +5486,11 @@ export async function getWeeklyExpenseTotals(startDate: string, endDate: string)
   if (!database) return result;
   
   try {
-    const rows = await database.getAllAsync<{ date: string; total: number }>(
-      `SELECT date, total FROM expenses`
+    const rows = await database.getAllAsync<{ date: string; total: number; locationId: string | null }>(
+      `SELECT date, total, locationId FROM expenses`
     );
     for (const row of rows) {
+      if (!isInLocation(row, locationId)) continue;
       const key = toLocalDayKey(row.date);
       if (!dayKeysSet.has(key)) continue;
       result[key] = (result[key] || 0) + Number(row.total || 0);
@@ -60,6 +60,41 @@ export function getDayKeysForWeek(start: Date): string[] {
   });
 }
 
+export function getDayKeysForRange(startKey: string, endKey: string): string[] {
+  const start = parseLocalDateString(startKey);
+  const end = parseLocalDateString(endKey);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return [];
+  const keys: string[] = [];
+  for (const date = new Date(start); date <= end; date.setDate(date.getDate() + 1)) {
+    keys.push(formatLocalDate(date));
+  }
+  return keys;
+}
+
+// Calendar weeks covering the range, with the first and last clipped to the range ends.
+export function getWeekRangesForDateRange(
+  startKey: string,
+  endKey: string,
+  weekStartsOn: number = DEFAULT_WEEK_START
+): { start: Date; end: Date }[] {
+  const rangeStart = parseLocalDateString(startKey);
+  const rangeEnd = parseLocalDateString(endKey);
+  if (Number.isNaN(rangeStart.getTime()) || Number.isNaN(rangeEnd.getTime())) return [];
+  rangeEnd.setHours(23, 59, 59, 999);
+
+  const ranges: { start: Date; end: Date }[] = [];
+  for (let weekStart = getWeekStart(rangeStart, weekStartsOn); weekStart <= rangeEnd; weekStart.setDate(weekStart.getDate() + 7)) {
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekStart.getDate() + 6);
+    weekEnd.setHours(23, 59, 59, 999);
+    ranges.push({
+      start: weekStart < rangeStart ? new Date(rangeStart) : new Date(weekStart),
+      end: weekEnd > rangeEnd ? new Date(rangeEnd) : weekEnd,
+    });
+  }
+  return ranges;
+}
+
 export function getWeekdayLabels(weekStartsOn: number = DEFAULT_WEEK_START): string[] {
   return [...WEEKDAY_LABELS.slice(weekStartsOn), ...WEEKDAY_LABELS.slice(0, weekStartsOn)];
 }
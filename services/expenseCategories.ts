@@ -0,0 +1,42 @@
+import { Expense, ExpenseCategory } from '@/types';
+
+export const UNCATEGORIZED_LABEL = 'Uncategorized';
+
+export type ExpenseCategoryTotal = {
+  categoryId: string | null;
+  name: string;
+  total: number;
+  count: number;
+};
+
+export function getExpenseCategoryName(
+  categoryId: string | null | undefined,
+  categories: ExpenseCategory[]
+): string {
+  if (!categoryId) return UNCATEGORIZED_LABEL;
+  return categories.find(category => category.id === categoryId)?.name ?? UNCATEGORIZED_LABEL;
+}
+
+// Expenses pointing at a deleted category are folded into Uncategorized.
+export function groupExpensesByCategory(
+  expenses: Expense[],
+  categories: ExpenseCategory[]
+): ExpenseCategoryTotal[] {
+  const knownIds = new Set(categories.map(category => category.id));
+  const totals = new Map<string | null, ExpenseCategoryTotal>();
+
+  expenses.forEach(expense => {
+    const categoryId = expense.categoryId && knownIds.has(expense.categoryId) ? expense.categoryId : null;
+    const existing = totals.get(categoryId) ?? {
+      categoryId,
+      name: getExpenseCategoryName(categoryId, categories),
+      total: 0,
+      count: 0,
+    };
+    existing.total += expense.total;
+    existing.count += 1;
+    totals.set(categoryId, existing);
+  });
+
+  return Array.from(totals.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,28 @@
+import { ALL_LOCATIONS, AppSettings, DEFAULT_LOCATION, Location, UserRole } from '@/types';
+
+const ALL_LOCATIONS_ROLES: UserRole[] = ['operation_manager', 'developer'];
+
+export function canViewAllLocations(role?: UserRole | null): boolean {
+  return !!role && ALL_LOCATIONS_ROLES.includes(role);
+}
+
+// Returns the location id to filter by, or null when the combined all-locations view is active.
+export function getActiveLocationFilter(
+  settings: Pick<AppSettings, 'selectedLocationId'>,
+  role: UserRole | null | undefined,
+  locations: Pick<Location, 'id'>[]
+): string | null {
+  const selected = settings.selectedLocationId;
+  if (selected === ALL_LOCATIONS) {
+    return canViewAllLocations(role) ? null : DEFAULT_LOCATION.id;
+  }
+  if (selected && (locations.length === 0 || locations.some(location => location.id === selected))) {
+    return selected;
+  }
+  return DEFAULT_LOCATION.id;
+}
+
+export function getLocationName(locationId: string | null, locations: Pick<Location, 'id' | 'name'>[]): string {
+  if (!locationId) return 'All Locations';
+  return locations.find(location => location.id === locationId)?.name ?? DEFAULT_LOCATION.name;
+}
@@ -1,30 +1,177 @@
+import { NetSalesSplitConfig, ROLE_DISPLAY_NAMES, SplitRecipient } from '@/types';
+import { toLocalDayKey } from '@/services/dateUtils';
+
 export type NetSalesSplit = {
-  operation: number;
-  general: number;
-  foodCart: number;
+  recipients: SplitRecipient[];
   includeExp: boolean;
 };
 
 export type NetSalesSplitAmounts = {
   base: number;
-  operation: number;
-  general: number;
-  foodCart: number;
+  byRecipient: Record<string, number>;
+};
+
+export type DailySplitTotals = {
+  date: string;
+  sales: number;
+  expenses: number;
+};
+
+// Effective date given to the split carried over from before history was kept.
+export const BASELINE_NET_SALES_SPLIT_DATE = '2000-01-01';
+
+export const SPLIT_RECIPIENT_COLORS = ['#4CAF50', '#2196F3', '#FF9800', '#9B59B6', '#E91E63', '#00BCD4', '#795548', '#607D8B'];
+
+// Splits saved before recipients were configurable had fixed operation/general/foodCart shares; their ids are kept so older payouts still match.
+export function buildLegacySplitRecipients(operation: number, general: number, foodCart: number): SplitRecipient[] {
+  return [
+    { id: 'operation', name: 'Operation Manager', percent: operation, color: SPLIT_RECIPIENT_COLORS[0] },
+    { id: 'general', name: ROLE_DISPLAY_NAMES.general_manager, percent: general, color: SPLIT_RECIPIENT_COLORS[1] },
+    { id: 'foodCart', name: 'Food Cart', percent: foodCart, color: SPLIT_RECIPIENT_COLORS[2] },
+  ];
+}
+
+// The legacy operation/general/foodCart columns are still written, mirroring recipients that kept the original ids.
+export function getLegacySplitPercents(recipients: SplitRecipient[]): [number, number, number] {
+  const percentFor = (id: string) => recipients.find(recipient => recipient.id === id)?.percent ?? 0;
+  return [percentFor('operation'), percentFor('general'), percentFor('foodCart')];
+}
+
+export const DEFAULT_NET_SALES_SPLIT: NetSalesSplit = {
+  recipients: buildLegacySplitRecipients(65, 25, 10),
+  includeExp: true,
 };
 
+export function getSplitRecipientsTotal(recipients: SplitRecipient[]): number {
+  return recipients.reduce((sum, recipient) => sum + recipient.percent, 0);
+}
+
+export function getSplitRecipientsError(recipients: SplitRecipient[]): string | null {
+  if (recipients.length === 0) return 'Add at least one recipient.';
+  if (recipients.some(recipient => !recipient.name.trim())) return 'Every recipient needs a name.';
+  if (recipients.some(recipient => !Number.isFinite(recipient.percent) || recipient.percent < 0)) {
+    return 'Percentages cannot be negative.';
+  }
+  const names = recipients.map(recipient => recipient.name.trim().toLowerCase());
+  if (new Set(names).size !== names.length) return 'Recipient names must be unique.';
+  const total = getSplitRecipientsTotal(recipients);
+  if (Math.abs(total - 100) > 0.01) return `Percentages must total 100% (currently ${total}%).`;
+  return null;
+}
+
+function toNetSalesSplit(config: NetSalesSplitConfig): NetSalesSplit {
+  return {
+    recipients: config.recipients,
+    includeExp: config.includeExp,
+  };
+}
+
+// The config with the latest effective date on or before `date`; same-day edits resolve to the newest one.
+export function getNetSalesSplitConfigForDate(configs: NetSalesSplitConfig[], date: string): NetSalesSplitConfig | null {
+  const dayKey = date.slice(0, 10);
+  return configs
+    .filter(config => config.effectiveDate <= dayKey)
+    .reduce<NetSalesSplitConfig | null>((latest, config) => {
+      if (!latest) return config;
+      if (config.effectiveDate !== latest.effectiveDate) {
+        return config.effectiveDate > latest.effectiveDate ? config : latest;
+      }
+      return config.updatedAt > latest.updatedAt ? config : latest;
+    }, null);
+}
+
+export function getNetSalesSplitForDate(configs: NetSalesSplitConfig[], date: string): NetSalesSplit {
+  const config = getNetSalesSplitConfigForDate(configs, date);
+  return config ? toNetSalesSplit(config) : DEFAULT_NET_SALES_SPLIT;
+}
+
+// Pass the split history to apply whichever split was in effect on `date` (today when omitted).
 export function calculateNetSalesSplitAmounts(
   totalSales: number,
   totalExpenses: number,
-  split: NetSalesSplit
+  split: NetSalesSplit | NetSalesSplitConfig[],
+  date?: string
 ): NetSalesSplitAmounts {
+  const resolvedSplit = Array.isArray(split)
+    ? getNetSalesSplitForDate(split, date ?? toLocalDayKey(new Date()))
+    : split;
   const netSales = totalSales - totalExpenses;
-  const splitBase = split.includeExp ? netSales : totalSales;
+  const splitBase = resolvedSplit.includeExp ? netSales : totalSales;
   const effectiveBase = splitBase < 0 ? 0 : splitBase;
 
   return {
     base: effectiveBase,
-    operation: (effectiveBase * split.operation) / 100,
-    general: (effectiveBase * split.general) / 100,
-    foodCart: (effectiveBase * split.foodCart) / 100,
+    byRecipient: Object.fromEntries(
+      resolvedSplit.recipients.map(recipient => [recipient.id, (effectiveBase * recipient.percent) / 100])
+    ),
   };
 }
+
+// Days under the same split are totalled before splitting, so a range with one split matches the single-total result.
+export function calculateNetSalesSplitAmountsForDays(
+  days: DailySplitTotals[],
+  configs: NetSalesSplitConfig[]
+): NetSalesSplitAmounts {
+  const groups = new Map<string, { date: string; sales: number; expenses: number }>();
+  days.forEach(day => {
+    const key = getNetSalesSplitConfigForDate(configs, day.date)?.id ?? 'default';
+    const group = groups.get(key) ?? { date: day.date, sales: 0, expenses: 0 };
+    group.sales += day.sales;
+    group.expenses += day.expenses;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).reduce<NetSalesSplitAmounts>(
+    (totals, group) => {
+      const amounts = calculateNetSalesSplitAmounts(group.sales, group.expenses, configs, group.date);
+      Object.entries(amounts.byRecipient).forEach(([id, amount]) => {
+        totals.byRecipient[id] = (totals.byRecipient[id] ?? 0) + amount;
+      });
+      return { base: totals.base + amounts.base, byRecipient: totals.byRecipient };
+    },
+    { base: 0, byRecipient: {} }
+  );
+}
+
+// Distinct splits used across the given dates, in date order, for labelling ranges that span a change.
+export function getNetSalesSplitsForDates(configs: NetSalesSplitConfig[], dates: string[]): { from: string; split: NetSalesSplit }[] {
+  const periods: { key: string; from: string; split: NetSalesSplit }[] = [];
+  [...dates].sort().forEach(date => {
+    const config = getNetSalesSplitConfigForDate(configs, date);
+    const key = config?.id ?? 'default';
+    if (periods[periods.length - 1]?.key === key) return;
+    periods.push({ key, from: date, split: config ? toNetSalesSplit(config) : DEFAULT_NET_SALES_SPLIT });
+  });
+  return periods.map(({ from, split }) => ({ from, split }));
+}
+
+// Every recipient any of the given splits paid, in first-seen order, with the latest name and color for each id.
+export function mergeSplitRecipients(splits: NetSalesSplit[]): SplitRecipient[] {
+  const merged = new Map<string, SplitRecipient>();
+  splits.forEach(split => {
+    split.recipients.forEach(recipient => merged.set(recipient.id, recipient));
+  });
+  return Array.from(merged.values());
+}
+
+export function getSplitRecipientsForDates(configs: NetSalesSplitConfig[], dates: string[]): SplitRecipient[] {
+  return mergeSplitRecipients(getNetSalesSplitsForDates(configs, dates).map(period => period.split));
+}
+
+// Recipients across the whole history (oldest first), plus the current ones, for labelling payouts and balances.
+export function getAllSplitRecipients(configs: NetSalesSplitConfig[]): SplitRecipient[] {
+  const history = [...configs].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate) || a.updatedAt.localeCompare(b.updatedAt));
+  return history.length > 0 ? mergeSplitRecipients(history.map(toNetSalesSplit)) : DEFAULT_NET_SALES_SPLIT.recipients;
+}
+
+export function getSplitRecipientName(recipients: SplitRecipient[], id: string): string {
+  return recipients.find(recipient => recipient.id === id)?.name ?? 'Removed recipient';
+}
+
+// Short chart tag from the recipient's initials, e.g. "Operation Manager" -> "OM".
+export function getSplitRecipientAbbreviation(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '?';
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return words.slice(0, 3).map(word => word[0]).join('').toUpperCase();
+}
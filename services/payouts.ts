@@ -0,0 +1,58 @@
+import { NetSalesSplitConfig, Payout, SplitRecipient } from '@/types';
+import { DailySplitTotals, calculateNetSalesSplitAmountsForDays, getAllSplitRecipients } from '@/services/netSalesSplit';
+
+export type PayoutBalance = {
+  recipient: SplitRecipient;
+  owed: number;
+  paid: number;
+  balance: number;
+  lastPayoutDate: string | null;
+};
+
+// A recipient's share of the given days, each day split under the configuration in effect on it.
+export function getPayoutOwedAmount(
+  recipientId: string,
+  days: DailySplitTotals[],
+  configs: NetSalesSplitConfig[]
+): number {
+  return calculateNetSalesSplitAmountsForDays(days, configs).byRecipient[recipientId] ?? 0;
+}
+
+export function getOwedForPeriod(
+  recipientId: string,
+  days: DailySplitTotals[],
+  configs: NetSalesSplitConfig[],
+  periodStart: string,
+  periodEnd: string
+): number {
+  return getPayoutOwedAmount(
+    recipientId,
+    days.filter(day => day.date >= periodStart && day.date <= periodEnd),
+    configs
+  );
+}
+
+// Owed accrues over every recorded day; a positive balance is still unpaid, a negative one was overpaid.
+// Recipients dropped from later splits stay listed so their history and outstanding balance remain visible.
+export function buildPayoutBalances(
+  days: DailySplitTotals[],
+  configs: NetSalesSplitConfig[],
+  payouts: Payout[]
+): PayoutBalance[] {
+  const owedAmounts = calculateNetSalesSplitAmountsForDays(days, configs).byRecipient;
+
+  return getAllSplitRecipients(configs).map(recipient => {
+    const recipientPayouts = payouts.filter(payout => payout.recipient === recipient.id);
+    const paid = recipientPayouts.reduce((sum, payout) => sum + payout.amount, 0);
+    const dates = recipientPayouts.map(payout => payout.date.slice(0, 10)).sort();
+    const owed = owedAmounts[recipient.id] ?? 0;
+
+    return {
+      recipient,
+      owed,
+      paid,
+      balance: owed - paid,
+      lastPayoutDate: dates[dates.length - 1] ?? null,
+    };
+  });
+}
@@ -1,7 +1,56 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Expense, ExpenseItem, Sale, ROLE_DISPLAY_NAMES } from '@/types';
-import { getExpensesByDateRange, getSalesByDateRange } from '@/services/database';
-import { getDayKeysForWeek, getWeekRange, parseLocalDateString, toLocalDayKey } from '@/services/dateUtils';
+import {
+  CashDrawerClose,
+  Expense,
+  ExpenseItem,
+  NetSalesSplitConfig,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  PaymentMethod,
+  Payout,
+  Sale,
+  SaleItem,
+  SplitRecipient,
+  SALE_ADJUSTMENT_REASON_LABELS,
+  SALE_DISCOUNT_TYPES,
+  SALE_DISCOUNT_TYPE_LABELS,
+  SaleDiscountType,
+  SALE_ADJUSTMENT_TYPE_LABELS,
+  getSaleDiscountTotalsByType,
+  getSaleNetTotal,
+  getSalesTotalsByPaymentMethod,
+  isInLocation,
+  isSaleAdjusted,
+  normalizePaymentMethod,
+} from '@/types';
+import {
+  getCashDrawerClosesByDateRange,
+  getDailySalesExpenseTotals,
+  getExpenseCategories,
+  getExpensesByDateRange,
+  getNetSalesSplits,
+  getPayouts,
+  getSalesByDateRange,
+  getSalesTargets,
+  getUsers,
+} from '@/services/database';
+import { formatOverShortLabel } from '@/services/cashDrawer';
+import {
+  NetSalesSplit,
+  NetSalesSplitAmounts,
+  calculateNetSalesSplitAmounts,
+  calculateNetSalesSplitAmountsForDays,
+  getAllSplitRecipients,
+  getNetSalesSplitForDate,
+  getNetSalesSplitsForDates,
+  getSplitRecipientName,
+  mergeSplitRecipients,
+} from '@/services/netSalesSplit';
+import { ExpenseCategoryTotal, groupExpensesByCategory } from '@/services/expenseCategories';
+import { PayoutBalance, buildPayoutBalances } from '@/services/payouts';
+import { ProfitLossPeriod, ProfitLossStatement, buildProfitLossPeriod, getPercentChange, getPreviousPeriod } from '@/services/profitLoss';
+import { getReceiptPrintSource } from '@/services/receiptStorage';
+import { SalesTargetResult, countSalesTargetResults, getSalesTargetForDate } from '@/services/salesTargets';
+import { getDayKeysForRange, getWeekRange, getWeekRangesForDateRange, parseLocalDateString, toLocalDayKey } from '@/services/dateUtils';
 
 export type PdfWeekRange = {
   start: Date;
@@ -9,28 +58,18 @@ export type PdfWeekRange = {
   label?: string;
 };
 
-type NetSalesSplit = {
-  operation: number;
-  general: number;
-  foodCart: number;
-  includeExp: boolean;
-};
-
 type DailySummary = {
   dateKey: string;
   sales: Sale[];
   expenses: Expense[];
   totalSales: number;
+  paymentTotals: Record<PaymentMethod, number>;
+  discountTotals: Record<SaleDiscountType, { count: number; amount: number }>;
   totalExpenses: number;
   netSales: number;
-  splitAmounts: SplitAmounts;
-};
-
-type SplitAmounts = {
-  operation: number;
-  general: number;
-  foodCart: number;
-  base: number;
+  split: NetSalesSplit;
+  splitAmounts: NetSalesSplitAmounts;
+  cashDrawerClose: CashDrawerClose | null;
 };
 
 type WeeklySummary = {
@@ -39,7 +78,11 @@ type WeeklySummary = {
   totalSales: number;
   totalExpenses: number;
   netSales: number;
-  splitAmounts: SplitAmounts;
+  splitAmounts: NetSalesSplitAmounts;
+  splitPeriods: { from: string; split: NetSalesSplit }[];
+  splitRecipients: SplitRecipient[];
+  dayTargets: Map<string, number>;
+  targetResults: SalesTargetResult;
 };
 
 type MonthlySummary = {
@@ -49,6 +92,12 @@ type MonthlySummary = {
   netSales: number;
   topSales: Sale[];
   topExpenses: Expense[];
+  expenseCategories: ExpenseCategoryTotal[];
+  split?: {
+    amounts: NetSalesSplitAmounts;
+    periods: { from: string; split: NetSalesSplit }[];
+    recipients: SplitRecipient[];
+  };
 };
 
 type PdfSummaryResult = {
@@ -56,18 +105,104 @@ type PdfSummaryResult = {
   fileName: string;
 };
 
-const DEFAULT_SPLIT: NetSalesSplit = {
-  operation: 65,
-  general: 25,
-  foodCart: 10,
-  includeExp: true,
-};
-
 const currencyFormatter = new Intl.NumberFormat('en-PH', {
   minimumFractionDigits: 2,
   maximumFractionDigits: 2,
 });
 
+const PDF_STYLES = `
+  * { box-sizing: border-box; }
+  body {
+    font-family: 'Helvetica', 'Arial', sans-serif;
+    color: #1F2937;
+    background: #FFFFFF;
+    margin: 0;
+    padding: 32px;
+  }
+  h1, h2, h3, h4 { margin: 0 0 12px; }
+  h2 { margin-top: 24px; font-size: 22px; border-bottom: 2px solid #EEF1F5; padding-bottom: 8px; }
+  h3 { margin-top: 18px; font-size: 18px; }
+  h4 { font-size: 15px; margin-bottom: 8px; }
+  .header {
+    display: flex;
+    justify-content: space-between;
+    align-items: center;
+    margin-bottom: 24px;
+  }
+  .header .title { font-size: 28px; font-weight: 700; }
+  .header .date { font-size: 14px; color: #6B7280; }
+  .section { margin-bottom: 32px; }
+  .totals-grid {
+    display: grid;
+    grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
+    gap: 12px;
+    margin-bottom: 16px;
+  }
+  .total-card {
+    background: #F7F9FC;
+    border: 1px solid #E5E9F2;
+    border-radius: 10px;
+    padding: 12px;
+  }
+  .total-card .label { display: block; font-size: 12px; color: #6B7280; margin-bottom: 6px; }
+  .total-card .value { font-size: 16px; font-weight: 600; }
+  .split-box {
+    border: 1px solid #E5E9F2;
+    border-radius: 10px;
+    padding: 12px;
+    background: #FFFFFF;
+    margin-bottom: 16px;
+  }
+  .split-title {
+    font-size: 13px;
+    font-weight: 600;
+    margin-bottom: 8px;
+    color: #374151;
+  }
+  .split-row {
+    display: flex;
+    justify-content: space-between;
+    font-size: 13px;
+    padding: 4px 0;
+    border-bottom: 1px dashed #E5E9F2;
+  }
+  .split-row:last-child { border-bottom: none; }
+  table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-bottom: 12px;
+  }
+  th, td {
+    text-align: left;
+    padding: 8px;
+    border-bottom: 1px solid #E5E9F2;
+    font-size: 12px;
+  }
+  th { background: #F3F6FB; font-weight: 600; color: #374151; }
+  .empty { text-align: center; color: #9CA3AF; font-style: italic; }
+  .muted { color: #6B7280; font-size: 11px; }
+  .day-block, .week-block, .month-block {
+    border: 1px solid #E5E9F2;
+    border-radius: 12px;
+    padding: 16px;
+    margin-bottom: 20px;
+    background: #FAFBFE;
+  }
+  .chart-block { margin-top: 16px; }
+  .chart-table td { font-size: 12px; }
+  .receipt-thumb {
+    width: 48px;
+    height: 48px;
+    object-fit: cover;
+    border-radius: 4px;
+    border: 1px solid #E5E9F2;
+    margin-right: 4px;
+  }
+  .change-good { color: #059669; }
+  .change-bad { color: #DC2626; }
+  .statement-total td { font-weight: 600; background: #F7F9FC; }
+`;
+
 function formatCurrency(amount: number): string {
   return `₱${currencyFormatter.format(amount)}`;
 }
@@ -95,29 +230,6 @@ function formatDateTime(value?: string | null): string {
   });
 }
 
-function normalizeSplitValue(value: unknown, fallback: number): number {
-  const parsed = typeof value === 'number' ? value : Number(value);
-  if (!Number.isFinite(parsed)) return fallback;
-  return parsed;
-}
-
-async function loadNetSalesSplit(): Promise<NetSalesSplit> {
-  try {
-    const stored = await AsyncStorage.getItem('netSalesSplit');
-    if (!stored) return DEFAULT_SPLIT;
-    const parsed = JSON.parse(stored) as Partial<NetSalesSplit>;
-    return {
-      operation: normalizeSplitValue(parsed.operation, DEFAULT_SPLIT.operation),
-      general: normalizeSplitValue(parsed.general, DEFAULT_SPLIT.general),
-      foodCart: normalizeSplitValue(parsed.foodCart, DEFAULT_SPLIT.foodCart),
-      includeExp: typeof parsed.includeExp === 'boolean' ? parsed.includeExp : DEFAULT_SPLIT.includeExp,
-    };
-  } catch (error) {
-    console.log('Error loading net sales split:', error);
-    return DEFAULT_SPLIT;
-  }
-}
-
 function groupByDay<T extends { date: string }>(items: T[]): Map<string, T[]> {
   const grouped = new Map<string, T[]>();
   for (const item of items) {
@@ -130,41 +242,78 @@ function groupByDay<T extends { date: string }>(items: T[]): Map<string, T[]> {
   return grouped;
 }
 
-function calculateSplitAmounts(totalSales: number, totalExpenses: number, split: NetSalesSplit): SplitAmounts {
-  const netSales = totalSales - totalExpenses;
-  const splitBase = split.includeExp ? netSales : totalSales;
-  const effectiveBase = splitBase < 0 ? 0 : splitBase;
-  return {
-    base: effectiveBase,
-    operation: (effectiveBase * split.operation) / 100,
-    general: (effectiveBase * split.general) / 100,
-    foodCart: (effectiveBase * split.foodCart) / 100,
-  };
+function formatSplitLabel(split: NetSalesSplit): string {
+  const shares = split.recipients.map(recipient => `${recipient.name} ${recipient.percent}%`).join(', ');
+  return `${shares} — ${split.includeExp ? 'after expenses' : 'before expenses'}`;
 }
 
-function buildDailySummaries(dayKeys: string[], sales: Sale[], expenses: Expense[], split: NetSalesSplit): DailySummary[] {
+function buildSplitRows(recipients: SplitRecipient[], amounts: NetSalesSplitAmounts): string {
+  return recipients.map(recipient => `
+        <div class="split-row">
+          <span>${recipient.name}</span>
+          <span>${formatCurrency(amounts.byRecipient[recipient.id] ?? 0)}</span>
+        </div>
+  `).join('');
+}
+
+function formatSplitPeriodsLabel(periods: { from: string; split: NetSalesSplit }[]): string {
+  return periods
+    .map((period, index) => {
+      if (index === 0) return formatSplitLabel(period.split);
+      const fromLabel = parseLocalDateString(period.from).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      return `from ${fromLabel}: ${formatSplitLabel(period.split)}`;
+    })
+    .join('; ');
+}
+
+function buildDailySummaries(
+  dayKeys: string[],
+  sales: Sale[],
+  expenses: Expense[],
+  cashDrawerCloses: CashDrawerClose[],
+  splitConfigs: NetSalesSplitConfig[]
+): DailySummary[] {
   const salesByDay = groupByDay(sales);
   const expensesByDay = groupByDay(expenses);
+  const closesByDay = groupByDay(cashDrawerCloses);
 
   return dayKeys.map(dateKey => {
     const daySales = salesByDay.get(dateKey) ?? [];
     const dayExpenses = expensesByDay.get(dateKey) ?? [];
-    const totalSales = daySales.reduce((sum, item) => sum + item.total, 0);
+    const totalSales = daySales.reduce((sum, item) => sum + getSaleNetTotal(item), 0);
     const totalExpenses = dayExpenses.reduce((sum, item) => sum + item.total, 0);
     const netSales = totalSales - totalExpenses;
+    const split = getNetSalesSplitForDate(splitConfigs, dateKey);
 
     return {
       dateKey,
       sales: daySales,
       expenses: dayExpenses,
       totalSales,
+      paymentTotals: getSalesTotalsByPaymentMethod(daySales),
+      discountTotals: getSaleDiscountTotalsByType(daySales),
       totalExpenses,
       netSales,
-      splitAmounts: calculateSplitAmounts(totalSales, totalExpenses, split),
+      split,
+      splitAmounts: calculateNetSalesSplitAmounts(totalSales, totalExpenses, split),
+      cashDrawerClose: (closesByDay.get(dateKey) ?? [])
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] ?? null,
     };
   });
 }
 
+function buildRangeSplit(days: DailySummary[], splitConfigs: NetSalesSplitConfig[]): MonthlySummary['split'] {
+  const periods = getNetSalesSplitsForDates(splitConfigs, days.map(day => day.dateKey));
+  return {
+    amounts: calculateNetSalesSplitAmountsForDays(
+      days.map(day => ({ date: day.dateKey, sales: day.totalSales, expenses: day.totalExpenses })),
+      splitConfigs
+    ),
+    periods,
+    recipients: mergeSplitRecipients(periods.map(period => period.split)),
+  };
+}
+
 function formatWeekLabel(range: PdfWeekRange): string {
   const startLabel = range.start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   const endLabel = range.end.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
@@ -214,12 +363,228 @@ function renderExpenseItems(items?: ExpenseItem[] | null): string {
     .join(', ');
 }
 
-function renderSaleItems(items?: string[] | null): string {
+function renderSaleItems(items?: SaleItem[] | null): string {
   if (!items || items.length === 0) return '—';
-  return items.join(', ');
+  return items
+    .map(item => {
+      const priceLabel = item.unitPrice != null
+        ? ` @ ${formatCurrency(item.unitPrice)} = ${formatCurrency(item.lineTotal ?? item.unitPrice * item.quantity)}`
+        : '';
+      return `${item.quantity} × ${item.name}${priceLabel}`;
+    })
+    .join('<br />');
+}
+
+function buildItemsSoldTable(sales: Sale[]): string {
+  const totals = new Map<string, { name: string; quantity: number; subtotal: number }>();
+  sales.forEach(sale => {
+    (sale.items ?? []).forEach(item => {
+      const key = item.name.toLowerCase();
+      const entry = totals.get(key) ?? { name: item.name, quantity: 0, subtotal: 0 };
+      entry.quantity += item.quantity;
+      entry.subtotal += item.lineTotal ?? 0;
+      totals.set(key, entry);
+    });
+  });
+  if (totals.size === 0) return '';
+
+  const rows = Array.from(totals.values()).sort((a, b) => b.quantity - a.quantity);
+  return `
+      <div class="table-block">
+        <h4>Items Sold</h4>
+        <table>
+          <thead>
+            <tr>
+              <th>Item</th>
+              <th>Qty</th>
+              <th>Subtotal</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rows.map(row => `
+              <tr>
+                <td>${row.name}</td>
+                <td>${row.quantity}</td>
+                <td>${row.subtotal > 0 ? formatCurrency(row.subtotal) : '—'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+  `;
+}
+
+function buildAdjustmentsTable(sales: Sale[], userNames: Map<string, string>): string {
+  const adjusted = sales.filter(isSaleAdjusted);
+  return `
+    <table>
+      <thead>
+        <tr>
+          <th>Date</th>
+          <th>Sale</th>
+          <th>Type</th>
+          <th>Amount</th>
+          <th>Reason</th>
+          <th>Approved By</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${adjusted.length > 0 ? adjusted.map(sale => `
+          <tr>
+            <td>${formatDateTime(sale.adjustedAt)}</td>
+            <td>${sale.name || 'Sale'} (${formatCurrency(sale.total)})</td>
+            <td>${SALE_ADJUSTMENT_TYPE_LABELS[sale.adjustmentType!]}</td>
+            <td>${formatCurrency(sale.adjustmentAmount ?? 0)}</td>
+            <td>${sale.adjustmentReason ? SALE_ADJUSTMENT_REASON_LABELS[sale.adjustmentReason] : '—'}${sale.adjustmentNote ? ` — ${sale.adjustmentNote}` : ''}</td>
+            <td>${userNames.get(sale.adjustmentApprovedBy ?? '') ?? 'Unknown user'}</td>
+          </tr>
+        `).join('') : `
+          <tr><td colspan="6" class="empty">No voids or refunds.</td></tr>
+        `}
+      </tbody>
+    </table>
+  `;
+}
+
+function buildPayoutsSection(
+  balances: PayoutBalance[],
+  payouts: Payout[],
+  recipients: SplitRecipient[],
+  userNames: Map<string, string>
+): string {
+  return `
+    <div class="table-block">
+      <h4>Balances (all recorded days)</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>Recipient</th>
+            <th>Owed</th>
+            <th>Paid</th>
+            <th>Balance</th>
+            <th>Last Payout</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${balances.map(balance => `
+            <tr>
+              <td>${balance.recipient.name}</td>
+              <td>${formatCurrency(balance.owed)}</td>
+              <td>${formatCurrency(balance.paid)}</td>
+              <td>${balance.balance < 0 ? `${formatCurrency(-balance.balance)} over` : formatCurrency(balance.balance)}</td>
+              <td>${balance.lastPayoutDate ? formatDateLabel(balance.lastPayoutDate) : '—'}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+
+    <div class="table-block">
+      <h4>Payout History</h4>
+      <table>
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Paid To</th>
+            <th>Covers</th>
+            <th>Amount</th>
+            <th>Recorded By</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${payouts.length > 0 ? payouts.map(payout => `
+            <tr>
+              <td>${formatDateLabel(payout.date)}</td>
+              <td>${getSplitRecipientName(recipients, payout.recipient)}${payout.recipientUserId ? ` (${userNames.get(payout.recipientUserId) ?? 'Unknown user'})` : ''}${payout.notes ? ` — ${payout.notes}` : ''}</td>
+              <td>${payout.periodStart} to ${payout.periodEnd}</td>
+              <td>${formatCurrency(payout.amount)}${payout.advanceDeduction ? `<br/><span class="muted">incl. ${formatCurrency(payout.advanceDeduction)} advance repayment</span>` : ''}</td>
+              <td>${userNames.get(payout.paidBy) ?? 'Unknown user'}</td>
+            </tr>
+          `).join('') : `
+            <tr><td colspan="5" class="empty">No payouts in these weeks.</td></tr>
+          `}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+async function loadReceiptSources(expenses: Expense[]): Promise<Map<string, string>> {
+  const sources = new Map<string, string>();
+  for (const receipt of expenses.flatMap(expense => expense.receipts ?? [])) {
+    const source = await getReceiptPrintSource(receipt);
+    if (source) sources.set(receipt.id, source);
+  }
+  return sources;
+}
+
+function renderExpenseReceipts(expense: Expense, receiptSources: Map<string, string>): string {
+  const images = (expense.receipts ?? [])
+    .map(receipt => receiptSources.get(receipt.id))
+    .filter((source): source is string => !!source)
+    .map(source => `<img class="receipt-thumb" src="${source}" />`);
+  return images.length > 0 ? images.join('') : '-';
 }
 
-function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
+function buildCashDrawerBlock(close: CashDrawerClose | null, userNames: Map<string, string>): string {
+  if (!close) {
+    return `
+      <div class="split-box">
+        <div class="split-title">Cash Drawer</div>
+        <div class="split-row"><span>Not closed for this date.</span></div>
+      </div>
+    `;
+  }
+
+  return `
+    <div class="split-box">
+      <div class="split-title">Cash Drawer (closed by ${userNames.get(close.closedBy) ?? 'Unknown user'} · ${formatDateTime(close.updatedAt)})</div>
+      <div class="split-row">
+        <span>Opening Float</span>
+        <span>${formatCurrency(close.openingFloat)}</span>
+      </div>
+      <div class="split-row">
+        <span>Cash Sales</span>
+        <span>${formatCurrency(close.cashSales)}</span>
+      </div>
+      ${close.creditPayments ? `
+      <div class="split-row">
+        <span>Credit Payments</span>
+        <span>${formatCurrency(close.creditPayments)}</span>
+      </div>
+      ` : ''}
+      <div class="split-row">
+        <span>Cash Expenses</span>
+        <span>-${formatCurrency(close.cashExpenses)}</span>
+      </div>
+      ${close.cashAdvances ? `
+      <div class="split-row">
+        <span>Cash Advances</span>
+        <span>-${formatCurrency(close.cashAdvances)}</span>
+      </div>
+      ` : ''}
+      <div class="split-row">
+        <span>Expected Cash</span>
+        <span>${formatCurrency(close.expectedCash)}</span>
+      </div>
+      <div class="split-row">
+        <span>Counted Cash</span>
+        <span>${formatCurrency(close.countedCash)}</span>
+      </div>
+      <div class="split-row">
+        <span>${formatOverShortLabel(close.overShort)}</span>
+        <span>${formatCurrency(close.overShort)}</span>
+      </div>
+      ${close.notes ? `<div class="split-row"><span>Notes: ${close.notes}</span></div>` : ''}
+    </div>
+  `;
+}
+
+function buildDailySection(
+  days: DailySummary[],
+  receiptSources: Map<string, string>,
+  userNames: Map<string, string>
+): string {
   return days.map(day => `
     <div class="day-block">
       <h3>${formatDateLabel(day.dateKey)}</h3>
@@ -239,19 +604,30 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
       </div>
 
       <div class="split-box">
-        <div class="split-title">Net Sales Split (OP ${split.operation}%, GM ${split.general}%, FC ${split.foodCart}% — ${split.includeExp ? 'after expenses' : 'before expenses'})</div>
-        <div class="split-row">
-          <span>Operation Manager</span>
-          <span>${formatCurrency(day.splitAmounts.operation)}</span>
-        </div>
-        <div class="split-row">
-          <span>${ROLE_DISPLAY_NAMES.general_manager}</span>
-          <span>${formatCurrency(day.splitAmounts.general)}</span>
-        </div>
-        <div class="split-row">
-          <span>Food Cart</span>
-          <span>${formatCurrency(day.splitAmounts.foodCart)}</span>
-        </div>
+        <div class="split-title">Sales by Payment Method</div>
+        ${PAYMENT_METHODS.map(method => `
+          <div class="split-row">
+            <span>${PAYMENT_METHOD_LABELS[method]}</span>
+            <span>${formatCurrency(day.paymentTotals[method])}</span>
+          </div>
+        `).join('')}
+      </div>
+
+      <div class="split-box">
+        <div class="split-title">Discounts</div>
+        ${SALE_DISCOUNT_TYPES.map(type => `
+          <div class="split-row">
+            <span>${SALE_DISCOUNT_TYPE_LABELS[type]} (${day.discountTotals[type].count})</span>
+            <span>${formatCurrency(day.discountTotals[type].amount)}</span>
+          </div>
+        `).join('')}
+      </div>
+
+      ${buildCashDrawerBlock(day.cashDrawerClose, userNames)}
+
+      <div class="split-box">
+        <div class="split-title">Net Sales Split (${formatSplitLabel(day.split)})</div>
+        ${buildSplitRows(day.split.recipients, day.splitAmounts)}
       </div>
 
       <div class="table-block">
@@ -261,6 +637,7 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
             <tr>
               <th>Sale</th>
               <th>Items</th>
+              <th>Payment</th>
               <th>Total</th>
               <th>Created At</th>
             </tr>
@@ -270,16 +647,19 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
               <tr>
                 <td>${sale.name || 'Sale'}</td>
                 <td>${renderSaleItems(sale.items)}</td>
-                <td>${formatCurrency(sale.total)}</td>
+                <td>${PAYMENT_METHOD_LABELS[normalizePaymentMethod(sale.paymentMethod)]}</td>
+                <td>${isSaleAdjusted(sale) ? `${formatCurrency(getSaleNetTotal(sale))} (${SALE_ADJUSTMENT_TYPE_LABELS[sale.adjustmentType!]})` : formatCurrency(sale.total)}${sale.discountType && sale.discountAmount ? `<br/><span class="muted">${SALE_DISCOUNT_TYPE_LABELS[sale.discountType]} −${formatCurrency(sale.discountAmount)}</span>` : ''}</td>
                 <td>${formatDateTime(sale.createdAt)}</td>
               </tr>
             `).join('') : `
-              <tr><td colspan="4" class="empty">No sales recorded.</td></tr>
+              <tr><td colspan="5" class="empty">No sales recorded.</td></tr>
             `}
           </tbody>
         </table>
       </div>
 
+      ${buildItemsSoldTable(day.sales)}
+
       <div class="table-block">
         <h4>Expense Details</h4>
         <table>
@@ -289,6 +669,7 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
               <th>Items</th>
               <th>Total</th>
               <th>Created At</th>
+              <th>Receipts</th>
             </tr>
           </thead>
           <tbody>
@@ -298,9 +679,10 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
                 <td>${renderExpenseItems(expense.items)}</td>
                 <td>${formatCurrency(expense.total)}</td>
                 <td>${formatDateTime(expense.createdAt)}</td>
+                <td>${renderExpenseReceipts(expense, receiptSources)}</td>
               </tr>
             `).join('') : `
-              <tr><td colspan="4" class="empty">No expenses recorded.</td></tr>
+              <tr><td colspan="5" class="empty">No expenses recorded.</td></tr>
             `}
           </tbody>
         </table>
@@ -309,8 +691,16 @@ function buildDailySection(days: DailySummary[], split: NetSalesSplit): string {
   `).join('');
 }
 
-function buildWeeklySection(weeks: WeeklySummary[], split: NetSalesSplit): string {
-  return weeks.map((week, index) => `
+function buildWeeklySection(weeks: WeeklySummary[], todayKey: string): string {
+  return weeks.map((week, index) => {
+    const hasTargets = Array.from(week.dayTargets.values()).some(target => target > 0);
+    const renderTargetCell = (day: DailySummary) => {
+      const target = week.dayTargets.get(day.dateKey) ?? 0;
+      if (target <= 0) return '<td>—</td>';
+      if (day.dateKey > todayKey) return `<td>${formatCurrency(target)}</td>`;
+      return `<td>${formatCurrency(target)} ${day.totalSales >= target ? '✓' : '✗'}</td>`;
+    };
+    return `
     <div class="week-block">
       <h3>Week ${index + 1} (${formatWeekLabel(week.range)})</h3>
       <div class="totals-grid">
@@ -326,22 +716,17 @@ function buildWeeklySection(weeks: WeeklySummary[], split: NetSalesSplit): strin
           <span class="label">Net Sales</span>
           <span class="value">${formatCurrency(week.netSales)}</span>
         </div>
+        ${hasTargets ? `
+          <div class="total-card">
+            <span class="label">Daily Targets</span>
+            <span class="value">${week.targetResults.hits} hit · ${week.targetResults.misses} missed</span>
+          </div>
+        ` : ''}
       </div>
 
       <div class="split-box">
-        <div class="split-title">Net Sales Split Totals (OP ${split.operation}%, GM ${split.general}%, FC ${split.foodCart}% — ${split.includeExp ? 'after expenses' : 'before expenses'})</div>
-        <div class="split-row">
-          <span>Operation Manager</span>
-          <span>${formatCurrency(week.splitAmounts.operation)}</span>
-        </div>
-        <div class="split-row">
-          <span>${ROLE_DISPLAY_NAMES.general_manager}</span>
-          <span>${formatCurrency(week.splitAmounts.general)}</span>
-        </div>
-        <div class="split-row">
-          <span>Food Cart</span>
-          <span>${formatCurrency(week.splitAmounts.foodCart)}</span>
-        </div>
+        <div class="split-title">Net Sales Split Totals (${formatSplitPeriodsLabel(week.splitPeriods)})</div>
+        ${buildSplitRows(week.splitRecipients, week.splitAmounts)}
       </div>
 
       <div class="table-block">
@@ -353,6 +738,7 @@ function buildWeeklySection(weeks: WeeklySummary[], split: NetSalesSplit): strin
               <th>Sales</th>
               <th>Expenses</th>
               <th>Net Sales</th>
+              ${hasTargets ? '<th>Target</th>' : ''}
             </tr>
           </thead>
           <tbody>
@@ -362,13 +748,15 @@ function buildWeeklySection(weeks: WeeklySummary[], split: NetSalesSplit): strin
                 <td>${formatCurrency(day.totalSales)}</td>
                 <td>${formatCurrency(day.totalExpenses)}</td>
                 <td>${formatCurrency(day.netSales)}</td>
+                ${hasTargets ? renderTargetCell(day) : ''}
               </tr>
             `).join('')}
           </tbody>
         </table>
       </div>
     </div>
-  `).join('');
+  `;
+  }).join('');
 }
 
 function buildMonthlySection(monthly: MonthlySummary): string {
@@ -390,6 +778,13 @@ function buildMonthlySection(monthly: MonthlySummary): string {
         </div>
       </div>
 
+      ${monthly.split ? `
+        <div class="split-box">
+          <div class="split-title">Net Sales Split Totals (${formatSplitPeriodsLabel(monthly.split.periods)})</div>
+          ${buildSplitRows(monthly.split.recipients, monthly.split.amounts)}
+        </div>
+      ` : ''}
+
       <div class="table-block">
         <h4>Top Sales</h4>
         <table>
@@ -403,10 +798,10 @@ function buildMonthlySection(monthly: MonthlySummary): string {
             ${monthly.topSales.length > 0 ? monthly.topSales.map(sale => `
               <tr>
                 <td>${sale.name || 'Sale'}</td>
-                <td>${formatCurrency(sale.total)}</td>
+                <td>${formatCurrency(getSaleNetTotal(sale))}</td>
               </tr>
             `).join('') : `
-              <tr><td colspan="2" class="empty">No sales for this month.</td></tr>
+              <tr><td colspan="2" class="empty">No sales for this period.</td></tr>
             `}
           </tbody>
         </table>
@@ -428,7 +823,33 @@ function buildMonthlySection(monthly: MonthlySummary): string {
                 <td>${formatCurrency(expense.total)}</td>
               </tr>
             `).join('') : `
-              <tr><td colspan="2" class="empty">No expenses for this month.</td></tr>
+              <tr><td colspan="2" class="empty">No expenses for this period.</td></tr>
+            `}
+          </tbody>
+        </table>
+      </div>
+
+      <div class="table-block">
+        <h4>Expenses by Category</h4>
+        <table>
+          <thead>
+            <tr>
+              <th>Category</th>
+              <th>Entries</th>
+              <th>Total</th>
+              <th>Share</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${monthly.expenseCategories.length > 0 ? monthly.expenseCategories.map(category => `
+              <tr>
+                <td>${category.name}</td>
+                <td>${category.count}</td>
+                <td>${formatCurrency(category.total)}</td>
+                <td>${monthly.totalExpenses > 0 ? `${((category.total / monthly.totalExpenses) * 100).toFixed(1)}%` : '-'}</td>
+              </tr>
+            `).join('') : `
+              <tr><td colspan="4" class="empty">No expenses for this period.</td></tr>
             `}
           </tbody>
         </table>
@@ -440,14 +861,26 @@ function buildMonthlySection(monthly: MonthlySummary): string {
 export async function buildPdfSummaryHtml({
   weeks,
   selectedWeekIndex,
+  range,
+  weekStartsOn,
   appName = 'MY Food Cart',
+  locationId = null,
+  locationName,
 }: {
   weeks?: PdfWeekRange[];
   selectedWeekIndex?: number;
+  range?: { start: string; end: string };
+  weekStartsOn?: number;
   appName?: string;
+  locationId?: string | null;
+  locationName?: string;
 }): Promise<PdfSummaryResult> {
-  const split = await loadNetSalesSplit();
-  const resolvedWeeks = weeks ?? [0, 1, 2, 3].map(index => getWeekRange(index));
+  const splitConfigs = await getNetSalesSplits();
+  const salesTargets = await getSalesTargets();
+  const todayKey = toLocalDayKey(new Date());
+  const resolvedWeeks = range
+    ? getWeekRangesForDateRange(range.start, range.end, weekStartsOn)
+    : weeks ?? [0, 1, 2, 3].map(index => getWeekRange(index, weekStartsOn));
 
   const weeklySummaries: WeeklySummary[] = [];
   const allDailySummaries: DailySummary[] = [];
@@ -455,17 +888,23 @@ export async function buildPdfSummaryHtml({
   for (const week of resolvedWeeks) {
     const startDateStr = toLocalDayKey(week.start);
     const endDateStr = toLocalDayKey(week.end);
-    const [sales, expenses] = await Promise.all([
-      getSalesByDateRange(startDateStr, endDateStr),
-      getExpensesByDateRange(startDateStr, endDateStr),
+    const [sales, expenses, cashDrawerCloses] = await Promise.all([
+      getSalesByDateRange(startDateStr, endDateStr, locationId),
+      getExpensesByDateRange(startDateStr, endDateStr, locationId),
+      getCashDrawerClosesByDateRange(startDateStr, endDateStr, locationId),
     ]);
 
-    const dayKeys = getDayKeysForWeek(week.start);
-    const dailySummaries = buildDailySummaries(dayKeys, sales, expenses, split);
+    const dayKeys = getDayKeysForRange(startDateStr, endDateStr);
+    const dailySummaries = buildDailySummaries(dayKeys, sales, expenses, cashDrawerCloses, splitConfigs);
     const totalSales = dailySummaries.reduce((sum, day) => sum + day.totalSales, 0);
     const totalExpenses = dailySummaries.reduce((sum, day) => sum + day.totalExpenses, 0);
     const netSales = totalSales - totalExpenses;
-    const splitAmounts = calculateSplitAmounts(totalSales, totalExpenses, split);
+    const splitAmounts = calculateNetSalesSplitAmountsForDays(
+      dailySummaries.map(day => ({ date: day.dateKey, sales: day.totalSales, expenses: day.totalExpenses })),
+      splitConfigs
+    );
+    const dailySalesTotals = new Map(dailySummaries.map(day => [day.dateKey, day.totalSales]));
+    const splitPeriods = getNetSalesSplitsForDates(splitConfigs, dayKeys);
 
     weeklySummaries.push({
       range: week,
@@ -474,36 +913,57 @@ export async function buildPdfSummaryHtml({
       totalExpenses,
       netSales,
       splitAmounts,
+      splitPeriods,
+      splitRecipients: mergeSplitRecipients(splitPeriods.map(period => period.split)),
+      dayTargets: new Map(dayKeys.map(dayKey => [dayKey, getSalesTargetForDate(salesTargets, dayKey, locationId)])),
+      targetResults: countSalesTargetResults(dayKeys, dailySalesTotals, salesTargets, locationId, todayKey),
     });
     allDailySummaries.push(...dailySummaries);
   }
 
   const selectedWeek = resolvedWeeks[selectedWeekIndex ?? 0] ?? resolvedWeeks[0];
-  const monthRange = getMonthRange(selectedWeek.start);
-  const monthStartStr = toLocalDayKey(monthRange.start);
-  const monthEndStr = toLocalDayKey(monthRange.end);
-  const [monthlySales, monthlyExpenses] = await Promise.all([
-    getSalesByDateRange(monthStartStr, monthEndStr),
-    getExpensesByDateRange(monthStartStr, monthEndStr),
+  const monthRange = getMonthRange(selectedWeek?.start ?? new Date());
+  const monthStartStr = range?.start ?? toLocalDayKey(monthRange.start);
+  const monthEndStr = range?.end ?? toLocalDayKey(monthRange.end);
+  const [monthlySales, monthlyExpenses, expenseCategories] = await Promise.all([
+    getSalesByDateRange(monthStartStr, monthEndStr, locationId),
+    getExpensesByDateRange(monthStartStr, monthEndStr, locationId),
+    getExpenseCategories(),
   ]);
 
   const monthlyTotals = {
-    totalSales: monthlySales.reduce((sum, sale) => sum + sale.total, 0),
+    totalSales: monthlySales.reduce((sum, sale) => sum + getSaleNetTotal(sale), 0),
     totalExpenses: monthlyExpenses.reduce((sum, expense) => sum + expense.total, 0),
   };
   const monthlyNet = monthlyTotals.totalSales - monthlyTotals.totalExpenses;
 
   const monthlySummary: MonthlySummary | null = (monthlySales.length > 0 || monthlyExpenses.length > 0)
     ? {
-      monthLabel: monthRange.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+      monthLabel: range
+        ? formatRangeLabel(range.start, range.end)
+        : monthRange.start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
       totalSales: monthlyTotals.totalSales,
       totalExpenses: monthlyTotals.totalExpenses,
       netSales: monthlyNet,
-      topSales: [...monthlySales].sort((a, b) => b.total - a.total).slice(0, 5),
+      topSales: [...monthlySales].sort((a, b) => getSaleNetTotal(b) - getSaleNetTotal(a)).slice(0, 5),
       topExpenses: [...monthlyExpenses].sort((a, b) => b.total - a.total).slice(0, 5),
+      expenseCategories: groupExpensesByCategory(monthlyExpenses, expenseCategories),
+      split: range ? buildRangeSplit(allDailySummaries, splitConfigs) : undefined,
     }
     : null;
 
+  const reportDayKeys = allDailySummaries.map(day => day.dateKey).sort();
+  const reportStart = reportDayKeys[0] ?? todayKey;
+  const reportEnd = reportDayKeys[reportDayKeys.length - 1] ?? todayKey;
+  const [allPayouts, allDailyTotals] = await Promise.all([getPayouts(), getDailySalesExpenseTotals(locationId)]);
+  const locationPayouts = allPayouts.filter(payout => isInLocation(payout, locationId));
+  const payoutBalances = buildPayoutBalances(allDailyTotals, splitConfigs, locationPayouts);
+  const reportPayouts = locationPayouts
+    .filter(payout => payout.date >= reportStart && payout.date <= reportEnd)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const receiptSources = await loadReceiptSources(allDailySummaries.flatMap(day => day.expenses));
+  const userNames = new Map((await getUsers()).map(user => [user.id, user.name]));
   const weeklyChart = buildWeeklyExpensesChart(weeklySummaries);
   const weeklyTableRows = weeklySummaries.map((week, index) => `
     <tr>
@@ -526,104 +986,37 @@ export async function buildPdfSummaryHtml({
         <meta charset="UTF-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1.0" />
         <style>
-          * { box-sizing: border-box; }
-          body {
-            font-family: 'Helvetica', 'Arial', sans-serif;
-            color: #1F2937;
-            background: #FFFFFF;
-            margin: 0;
-            padding: 32px;
-          }
-          h1, h2, h3, h4 { margin: 0 0 12px; }
-          h2 { margin-top: 24px; font-size: 22px; border-bottom: 2px solid #EEF1F5; padding-bottom: 8px; }
-          h3 { margin-top: 18px; font-size: 18px; }
-          h4 { font-size: 15px; margin-bottom: 8px; }
-          .header {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            margin-bottom: 24px;
-          }
-          .header .title { font-size: 28px; font-weight: 700; }
-          .header .date { font-size: 14px; color: #6B7280; }
-          .section { margin-bottom: 32px; }
-          .totals-grid {
-            display: grid;
-            grid-template-columns: repeat(auto-fit, minmax(160px, 1fr));
-            gap: 12px;
-            margin-bottom: 16px;
-          }
-          .total-card {
-            background: #F7F9FC;
-            border: 1px solid #E5E9F2;
-            border-radius: 10px;
-            padding: 12px;
-          }
-          .total-card .label { display: block; font-size: 12px; color: #6B7280; margin-bottom: 6px; }
-          .total-card .value { font-size: 16px; font-weight: 600; }
-          .split-box {
-            border: 1px solid #E5E9F2;
-            border-radius: 10px;
-            padding: 12px;
-            background: #FFFFFF;
-            margin-bottom: 16px;
-          }
-          .split-title {
-            font-size: 13px;
-            font-weight: 600;
-            margin-bottom: 8px;
-            color: #374151;
-          }
-          .split-row {
-            display: flex;
-            justify-content: space-between;
-            font-size: 13px;
-            padding: 4px 0;
-            border-bottom: 1px dashed #E5E9F2;
-          }
-          .split-row:last-child { border-bottom: none; }
-          table {
-            width: 100%;
-            border-collapse: collapse;
-            margin-bottom: 12px;
-          }
-          th, td {
-            text-align: left;
-            padding: 8px;
-            border-bottom: 1px solid #E5E9F2;
-            font-size: 12px;
-          }
-          th { background: #F3F6FB; font-weight: 600; color: #374151; }
-          .empty { text-align: center; color: #9CA3AF; font-style: italic; }
-          .day-block, .week-block, .month-block {
-            border: 1px solid #E5E9F2;
-            border-radius: 12px;
-            padding: 16px;
-            margin-bottom: 20px;
-            background: #FAFBFE;
-          }
-          .chart-block { margin-top: 16px; }
-          .chart-table td { font-size: 12px; }
+          ${PDF_STYLES}
         </style>
       </head>
       <body>
         <div class="header">
           <div class="title">${appName} — PDF Summary</div>
-          <div class="date">Generated ${reportDate}</div>
+          <div class="date">${locationName ? `${locationName} · ` : ''}${range ? `${formatRangeLabel(range.start, range.end)} · ` : ''}Generated ${reportDate}</div>
         </div>
 
         <div class="section">
           <h2>Daily Summary</h2>
-          ${buildDailySection(allDailySummaries, split)}
+          ${buildDailySection(allDailySummaries, receiptSources, userNames)}
+        </div>
+
+        <div class="section">
+          <h2>Voids &amp; Refunds</h2>
+          ${buildAdjustmentsTable(allDailySummaries.flatMap(day => day.sales), userNames)}
         </div>
 
         <div class="section">
           <h2>Weekly Summary</h2>
-          ${buildWeeklySection(weeklySummaries, split)}
+          ${buildWeeklySection(weeklySummaries, todayKey)}
         </div>
 
         <div class="section">
-          <h2>Weekly Expenses (4 Weeks)</h2>
+          <h2>Payouts</h2>
+          ${buildPayoutsSection(payoutBalances, reportPayouts, getAllSplitRecipients(splitConfigs), userNames)}
+        </div>
+
+        <div class="section">
+          <h2>Weekly Expenses (${weeklySummaries.length} ${weeklySummaries.length === 1 ? 'Week' : 'Weeks'})</h2>
           <div class="chart-block">${weeklyChart}</div>
           <table class="chart-table">
             <thead>
@@ -640,7 +1033,7 @@ export async function buildPdfSummaryHtml({
 
         ${monthlySummary ? `
           <div class="section">
-            <h2>Monthly Summary</h2>
+            <h2>${range ? 'Range Summary' : 'Monthly Summary'}</h2>
             ${buildMonthlySection(monthlySummary)}
           </div>
         ` : ''}
@@ -648,6 +1041,205 @@ export async function buildPdfSummaryHtml({
     </html>
   `;
 
-  const fileName = `MY-Food-Cart-Summary-${toLocalDayKey(generatedAt)}.pdf`;
+  const fileName = range
+    ? `MY-Food-Cart-Summary-${range.start}-to-${range.end}.pdf`
+    : `MY-Food-Cart-Summary-${toLocalDayKey(generatedAt)}.pdf`;
+  return { html, fileName };
+}
+
+function formatRangeLabel(start: string, end: string): string {
+  const format = (dateKey: string) => parseLocalDateString(dateKey).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  return start === end ? format(start) : `${format(start)} – ${format(end)}`;
+}
+
+// Higher is better for revenue and profit; for expenses pass lowerIsBetter so a rise is flagged.
+function formatChangeCell(current: number, previous: number, lowerIsBetter = false): string {
+  const change = getPercentChange(current, previous);
+  if (change === null) return '<td class="muted">—</td>';
+  const rounded = Math.round(change * 10) / 10;
+  if (rounded === 0) return '<td>0.0%</td>';
+  const isGood = lowerIsBetter ? rounded < 0 : rounded > 0;
+  return `<td class="${isGood ? 'change-good' : 'change-bad'}">${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}%</td>`;
+}
+
+function buildStatementRow(label: string, current: number, previous: number, options: { lowerIsBetter?: boolean; isTotal?: boolean } = {}): string {
+  return `
+    <tr${options.isTotal ? ' class="statement-total"' : ''}>
+      <td>${label}</td>
+      <td>${formatCurrency(current)}</td>
+      <td>${formatCurrency(previous)}</td>
+      ${formatChangeCell(current, previous, options.lowerIsBetter)}
+    </tr>
+  `;
+}
+
+function buildProfitLossSection({ current, previous }: ProfitLossStatement): string {
+  const categoryKeys = new Map<string, string>();
+  [...current.expenseCategories, ...previous.expenseCategories].forEach(category => {
+    categoryKeys.set(category.categoryId ?? category.name, category.name);
+  });
+  const getCategoryTotal = (period: ProfitLossPeriod, key: string) =>
+    period.expenseCategories.find(category => (category.categoryId ?? category.name) === key)?.total ?? 0;
+  const categoryRows = Array.from(categoryKeys.entries())
+    .sort(([keyA], [keyB]) => getCategoryTotal(current, keyB) - getCategoryTotal(current, keyA))
+    .map(([key, name]) => buildStatementRow(name, getCategoryTotal(current, key), getCategoryTotal(previous, key), { lowerIsBetter: true }))
+    .join('');
+  const paymentRows = PAYMENT_METHODS
+    .filter(method => current.paymentTotals[method] !== 0 || previous.paymentTotals[method] !== 0)
+    .map(method => buildStatementRow(`&nbsp;&nbsp;${PAYMENT_METHOD_LABELS[method]}`, current.paymentTotals[method], previous.paymentTotals[method]))
+    .join('');
+  const formatMargin = (period: ProfitLossPeriod) =>
+    period.revenue > 0 ? `${((period.net / period.revenue) * 100).toFixed(1)}%` : '—';
+
+  const recipients = mergeSplitRecipients([...current.splitPeriods, ...previous.splitPeriods].map(period => period.split));
+  const splitRows = recipients.map(recipient => buildStatementRow(
+    recipient.name,
+    current.splitAmounts.byRecipient[recipient.id] ?? 0,
+    previous.splitAmounts.byRecipient[recipient.id] ?? 0
+  )).join('');
+
+  return `
+    <div class="totals-grid">
+      <div class="total-card">
+        <span class="label">Revenue</span>
+        <span class="value">${formatCurrency(current.revenue)}</span>
+      </div>
+      <div class="total-card">
+        <span class="label">Expenses</span>
+        <span class="value">${formatCurrency(current.expenses)}</span>
+      </div>
+      <div class="total-card">
+        <span class="label">Net Profit</span>
+        <span class="value">${formatCurrency(current.net)}</span>
+      </div>
+      <div class="total-card">
+        <span class="label">Net Margin</span>
+        <span class="value">${formatMargin(current)}</span>
+      </div>
+    </div>
+
+    <div class="table-block">
+      <h4>Statement</h4>
+      <table>
+        <thead>
+          <tr>
+            <th></th>
+            <th>This Period<br/><span class="muted">${formatRangeLabel(current.start, current.end)}</span></th>
+            <th>Previous Period<br/><span class="muted">${formatRangeLabel(previous.start, previous.end)}</span></th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${buildStatementRow(`Gross Sales (${current.saleCount} ${current.saleCount === 1 ? 'sale' : 'sales'})`, current.grossSales, previous.grossSales)}
+          ${buildStatementRow('Discounts', -current.discounts, -previous.discounts)}
+          ${buildStatementRow('Voids &amp; Refunds', current.adjustments, previous.adjustments)}
+          ${buildStatementRow('Revenue', current.revenue, previous.revenue, { isTotal: true })}
+          ${paymentRows}
+          ${categoryRows || '<tr><td colspan="4" class="empty">No expenses in either period.</td></tr>'}
+          ${buildStatementRow('Total Expenses', current.expenses, previous.expenses, { lowerIsBetter: true, isTotal: true })}
+          ${buildStatementRow('Net Profit', current.net, previous.net, { isTotal: true })}
+          <tr>
+            <td>Net Margin</td>
+            <td>${formatMargin(current)}</td>
+            <td>${formatMargin(previous)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+
+    <div class="table-block">
+      <h4>Split Allocations</h4>
+      <p class="muted">This period: ${formatSplitPeriodsLabel(current.splitPeriods)}</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Recipient</th>
+            <th>This Period</th>
+            <th>Previous Period</th>
+            <th>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${buildStatementRow('Split Base', current.splitAmounts.base, previous.splitAmounts.base, { isTotal: true })}
+          ${splitRows}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+export async function buildProfitLossHtml({
+  startDate,
+  endDate,
+  appName = 'MY Food Cart',
+  locationId = null,
+  locationName,
+}: {
+  startDate: string;
+  endDate: string;
+  appName?: string;
+  locationId?: string | null;
+  locationName?: string;
+}): Promise<PdfSummaryResult> {
+  const previousRange = getPreviousPeriod(startDate, endDate);
+  const [splitConfigs, categories, sales, expenses, previousSales, previousExpenses] = await Promise.all([
+    getNetSalesSplits(),
+    getExpenseCategories(),
+    getSalesByDateRange(startDate, endDate, locationId),
+    getExpensesByDateRange(startDate, endDate, locationId),
+    getSalesByDateRange(previousRange.start, previousRange.end, locationId),
+    getExpensesByDateRange(previousRange.start, previousRange.end, locationId),
+  ]);
+
+  const statement: ProfitLossStatement = {
+    current: buildProfitLossPeriod({ start: startDate, end: endDate, sales, expenses, categories, splitConfigs }),
+    previous: buildProfitLossPeriod({
+      start: previousRange.start,
+      end: previousRange.end,
+      sales: previousSales,
+      expenses: previousExpenses,
+      categories,
+      splitConfigs,
+    }),
+  };
+
+  const generatedAt = new Date();
+  const reportDate = generatedAt.toLocaleDateString('en-US', {
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+  const html = `
+    <!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <style>
+          ${PDF_STYLES}
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <div class="title">${appName} — Profit &amp; Loss</div>
+          <div class="date">${locationName ? `${locationName} · ` : ''}Generated ${reportDate}</div>
+        </div>
+
+        <div class="section">
+          <h2>${formatRangeLabel(startDate, endDate)}</h2>
+          <p class="muted">Compared with the previous ${statement.current.dayCount} ${statement.current.dayCount === 1 ? 'day' : 'days'} (${formatRangeLabel(previousRange.start, previousRange.end)}).</p>
+          ${buildProfitLossSection(statement)}
+        </div>
+      </body>
+    </html>
+  `;
+
+  const fileName = `MY-Food-Cart-PnL-${startDate}-to-${endDate}.pdf`;
   return { html, fileName };
 }
@@ -0,0 +1,96 @@
+import { Expense, ExpenseCategory, NetSalesSplitConfig, PaymentMethod, Sale, getSaleNetTotal, getSalesTotalsByPaymentMethod } from '@/types';
+import { ExpenseCategoryTotal, groupExpensesByCategory } from '@/services/expenseCategories';
+import {
+  DailySplitTotals,
+  NetSalesSplit,
+  NetSalesSplitAmounts,
+  calculateNetSalesSplitAmountsForDays,
+  getNetSalesSplitsForDates,
+} from '@/services/netSalesSplit';
+import { formatLocalDate, getDayKeysForRange, parseLocalDateString, toLocalDayKey } from '@/services/dateUtils';
+
+export type ProfitLossPeriod = {
+  start: string;
+  end: string;
+  dayCount: number;
+  grossSales: number;
+  discounts: number;
+  adjustments: number;
+  revenue: number;
+  paymentTotals: Record<PaymentMethod, number>;
+  saleCount: number;
+  expenses: number;
+  expenseCategories: ExpenseCategoryTotal[];
+  net: number;
+  splitAmounts: NetSalesSplitAmounts;
+  splitPeriods: { from: string; split: NetSalesSplit }[];
+};
+
+export type ProfitLossStatement = {
+  current: ProfitLossPeriod;
+  previous: ProfitLossPeriod;
+};
+
+// The same number of days ending the day before the range starts.
+export function getPreviousPeriod(start: string, end: string): { start: string; end: string } {
+  const dayCount = getDayKeysForRange(start, end).length;
+  const previousEnd = parseLocalDateString(start);
+  previousEnd.setDate(previousEnd.getDate() - 1);
+  const previousStart = new Date(previousEnd);
+  previousStart.setDate(previousEnd.getDate() - Math.max(dayCount - 1, 0));
+  return { start: formatLocalDate(previousStart), end: formatLocalDate(previousEnd) };
+}
+
+export function getPercentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export function buildProfitLossPeriod({
+  start,
+  end,
+  sales,
+  expenses,
+  categories,
+  splitConfigs,
+}: {
+  start: string;
+  end: string;
+  sales: Sale[];
+  expenses: Expense[];
+  categories: ExpenseCategory[];
+  splitConfigs: NetSalesSplitConfig[];
+}): ProfitLossPeriod {
+  const dayKeys = getDayKeysForRange(start, end);
+  const totalsByDay = new Map<string, DailySplitTotals>(dayKeys.map(date => [date, { date, sales: 0, expenses: 0 }]));
+  sales.forEach(sale => {
+    const day = totalsByDay.get(toLocalDayKey(sale.date));
+    if (day) day.sales += getSaleNetTotal(sale);
+  });
+  expenses.forEach(expense => {
+    const day = totalsByDay.get(toLocalDayKey(expense.date));
+    if (day) day.expenses += expense.total;
+  });
+
+  const grossSales = sales.reduce((sum, sale) => sum + (sale.grossAmount ?? sale.total), 0);
+  const discounts = sales.reduce((sum, sale) => sum + (sale.discountAmount ?? 0), 0);
+  const revenue = sales.reduce((sum, sale) => sum + getSaleNetTotal(sale), 0);
+  const totalExpenses = expenses.reduce((sum, expense) => sum + expense.total, 0);
+
+  return {
+    start,
+    end,
+    dayCount: dayKeys.length,
+    grossSales,
+    discounts,
+    adjustments: revenue - (grossSales - discounts),
+    revenue,
+    paymentTotals: getSalesTotalsByPaymentMethod(sales),
+    saleCount: sales.length,
+    expenses: totalExpenses,
+    expenseCategories: groupExpensesByCategory(expenses, categories),
+    net: revenue - totalExpenses,
+    splitAmounts: calculateNetSalesSplitAmountsForDays(Array.from(totalsByDay.values()), splitConfigs),
+    splitPeriods: getNetSalesSplitsForDates(splitConfigs, dayKeys),
+  };
+}
@@ -0,0 +1,60 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { ExpenseReceipt, generateId } from '@/types';
+
+const RECEIPTS_DIRECTORY = FileSystem.documentDirectory ? `${FileSystem.documentDirectory}receipts/` : null;
+
+export function getReceiptDisplayUri(receipt: ExpenseReceipt): string | null {
+  return receipt.localUri || receipt.remoteUrl || null;
+}
+
+export function hasPendingReceiptUpload(receipt: ExpenseReceipt): boolean {
+  return !!receipt.localUri && !receipt.remoteUrl;
+}
+
+// Web keeps the picked image as a data URI because blob URLs do not survive a reload.
+export async function saveReceiptImage(asset: { uri: string; base64?: string | null; mimeType?: string | null }): Promise<ExpenseReceipt> {
+  const id = generateId();
+
+  if (Platform.OS === 'web' || !RECEIPTS_DIRECTORY) {
+    const localUri = asset.base64 ? `data:${asset.mimeType ?? 'image/jpeg'};base64,${asset.base64}` : asset.uri;
+    return { id, localUri, remoteUrl: null };
+  }
+
+  try {
+    await FileSystem.makeDirectoryAsync(RECEIPTS_DIRECTORY, { intermediates: true });
+    const localUri = `${RECEIPTS_DIRECTORY}${id}.jpg`;
+    await FileSystem.copyAsync({ from: asset.uri, to: localUri });
+    return { id, localUri, remoteUrl: null };
+  } catch (error) {
+    console.log('Error saving receipt image:', error);
+    return { id, localUri: asset.uri, remoteUrl: null };
+  }
+}
+
+export async function deleteReceiptImages(receipts?: ExpenseReceipt[] | null): Promise<void> {
+  if (Platform.OS === 'web' || !RECEIPTS_DIRECTORY || !receipts) return;
+  for (const receipt of receipts) {
+    if (!receipt.localUri?.startsWith(RECEIPTS_DIRECTORY)) continue;
+    try {
+      await FileSystem.deleteAsync(receipt.localUri, { idempotent: true });
+    } catch (error) {
+      console.log('Error deleting receipt image:', error);
+    }
+  }
+}
+
+// Print renderers cannot always read app files, so local receipts are inlined.
+export async function getReceiptPrintSource(receipt: ExpenseReceipt): Promise<string | null> {
+  if (receipt.remoteUrl) return receipt.remoteUrl;
+  if (!receipt.localUri) return null;
+  if (Platform.OS === 'web' || receipt.localUri.startsWith('data:')) return receipt.localUri;
+
+  try {
+    const base64 = await FileSystem.readAsStringAsync(receipt.localUri, { encoding: FileSystem.EncodingType.Base64 });
+    return `data:image/jpeg;base64,${base64}`;
+  } catch (error) {
+    console.log('Error reading receipt image:', error);
+    return null;
+  }
+}
@@ -0,0 +1,102 @@
+import { Recipe, Sale, SaleItem, StockEntry, StockItem } from '@/types';
+
+export type IngredientUsageRow = {
+  stockItemId: string;
+  name: string;
+  unit: string;
+  openingOnHand: number;
+  stockIn: number;
+  closingOnHand: number;
+  theoretical: number;
+  actual: number;
+  variance: number;
+};
+
+function roundQuantity(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+export function normalizeRecipeName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function findRecipeForItem(item: Pick<SaleItem, 'name'>, recipes: Recipe[]): Recipe | null {
+  const key = normalizeRecipeName(item.name);
+  return recipes.find(recipe => normalizeRecipeName(recipe.itemName) === key) ?? null;
+}
+
+// Recipes take precedence; items without one fall back to stock items linked to the product.
+export function calculateIngredientConsumption(
+  items: SaleItem[],
+  recipes: Recipe[],
+  stockItems: StockItem[]
+): Map<string, number> {
+  const stockItemIds = new Set(stockItems.map(stockItem => stockItem.id));
+  const consumption = new Map<string, number>();
+  const addConsumption = (stockItemId: string, quantity: number) => {
+    if (!stockItemIds.has(stockItemId)) return;
+    consumption.set(stockItemId, roundQuantity((consumption.get(stockItemId) ?? 0) + quantity));
+  };
+
+  items.forEach(item => {
+    const recipe = findRecipeForItem(item, recipes);
+    if (recipe) {
+      recipe.ingredients.forEach(ingredient => addConsumption(ingredient.stockItemId, ingredient.quantity * item.quantity));
+      return;
+    }
+    if (!item.productId) return;
+    stockItems
+      .filter(stockItem => stockItem.productId === item.productId)
+      .forEach(stockItem => addConsumption(stockItem.id, item.quantity));
+  });
+
+  return consumption;
+}
+
+export function buildIngredientUsageReport(options: {
+  stockItems: StockItem[];
+  entries: StockEntry[];
+  sales: Sale[];
+  recipes: Recipe[];
+  startDate: string;
+  endDate: string;
+}): IngredientUsageRow[] {
+  const { stockItems, entries, sales, recipes, startDate, endDate } = options;
+  const theoreticalUsage = calculateIngredientConsumption(
+    sales.flatMap(sale => sale.items ?? []),
+    recipes,
+    stockItems
+  );
+
+  return stockItems
+    .map(stockItem => {
+      const itemEntries = entries.filter(entry => entry.stockItemId === stockItem.id);
+      const sinceStart = itemEntries
+        .filter(entry => entry.date >= startDate)
+        .reduce((sum, entry) => sum + entry.quantity, 0);
+      const afterEnd = itemEntries
+        .filter(entry => entry.date > endDate)
+        .reduce((sum, entry) => sum + entry.quantity, 0);
+      const stockIn = itemEntries
+        .filter(entry => entry.type === 'stock_in' && entry.date >= startDate && entry.date <= endDate)
+        .reduce((sum, entry) => sum + entry.quantity, 0);
+
+      const openingOnHand = roundQuantity(stockItem.onHand - sinceStart);
+      const closingOnHand = roundQuantity(stockItem.onHand - afterEnd);
+      const actual = roundQuantity(openingOnHand + stockIn - closingOnHand);
+      const theoretical = theoreticalUsage.get(stockItem.id) ?? 0;
+
+      return {
+        stockItemId: stockItem.id,
+        name: stockItem.name,
+        unit: stockItem.unit,
+        openingOnHand,
+        stockIn: roundQuantity(stockIn),
+        closingOnHand,
+        theoretical,
+        actual,
+        variance: roundQuantity(actual - theoretical),
+      };
+    })
+    .filter(row => row.theoretical !== 0 || row.actual !== 0 || row.stockIn !== 0);
+}
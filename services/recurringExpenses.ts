@@ -0,0 +1,68 @@
+import { RecurringExpense } from '@/types';
+import { formatLocalDate, parseLocalDateString } from '@/services/dateUtils';
+
+// Caps how far back a long-paused or long-offline template is caught up in one pass.
+const MAX_CATCH_UP_OCCURRENCES = 366;
+
+export function getRecurringExpenseOccurrenceId(templateId: string, date: string): string {
+  return `recurring-${templateId}-${date}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+// Monthly templates started on the 29th-31st fall on the last day of shorter months.
+function getMonthlyOccurrence(year: number, month: number, dayOfMonth: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay));
+}
+
+function isOccurrence(template: Pick<RecurringExpense, 'frequency' | 'startDate'>, date: Date): boolean {
+  const start = parseLocalDateString(template.startDate);
+  if (date < start) return false;
+  if (template.frequency === 'daily') return true;
+  if (template.frequency === 'weekly') return date.getDay() === start.getDay();
+  return date.getTime() === getMonthlyOccurrence(date.getFullYear(), date.getMonth(), start.getDate()).getTime();
+}
+
+// Dates between the last materialized occurrence (or the start date) and today that still need an expense.
+export function getDueRecurringDates(
+  template: Pick<RecurringExpense, 'frequency' | 'startDate' | 'lastGeneratedDate'>,
+  today: Date = new Date()
+): string[] {
+  const start = parseLocalDateString(template.startDate);
+  if (Number.isNaN(start.getTime())) return [];
+  const end = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const lastGenerated = template.lastGeneratedDate ? parseLocalDateString(template.lastGeneratedDate) : null;
+  let cursor = lastGenerated && lastGenerated >= start ? addDays(lastGenerated, 1) : start;
+
+  const dates: string[] = [];
+  while (cursor <= end) {
+    if (isOccurrence(template, cursor)) {
+      dates.push(formatLocalDate(cursor));
+    }
+    cursor = addDays(cursor, 1);
+  }
+  return dates.slice(-MAX_CATCH_UP_OCCURRENCES);
+}
+
+export function getNextRecurringDate(
+  template: Pick<RecurringExpense, 'frequency' | 'startDate' | 'lastGeneratedDate'>,
+  today: Date = new Date()
+): string | null {
+  const start = parseLocalDateString(template.startDate);
+  if (Number.isNaN(start.getTime())) return null;
+  const lastGenerated = template.lastGeneratedDate ? parseLocalDateString(template.lastGeneratedDate) : null;
+  const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  let cursor = lastGenerated && lastGenerated >= todayStart ? addDays(lastGenerated, 1) : todayStart;
+  if (cursor < start) cursor = start;
+
+  for (let i = 0; i < 62; i += 1) {
+    if (isOccurrence(template, cursor)) return formatLocalDate(cursor);
+    cursor = addDays(cursor, 1);
+  }
+  return null;
+}
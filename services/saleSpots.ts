@@ -0,0 +1,120 @@
+import * as Location from 'expo-location';
+import { Sale, getSaleNetTotal } from '@/types';
+
+export const SALE_SPOT_RADIUS_METERS = 75;
+
+export type SaleCoordinates = {
+  latitude: number;
+  longitude: number;
+};
+
+export type SaleSpot = SaleCoordinates & {
+  id: string;
+  salesCount: number;
+  total: number;
+  lastSaleAt: string;
+};
+
+const LAST_KNOWN_MAX_AGE_MS = 2 * 60 * 1000;
+const CURRENT_POSITION_TIMEOUT_MS = 3000;
+
+function getCurrentPositionWithTimeout(): Promise<Location.LocationObject | null> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => resolve(null), CURRENT_POSITION_TIMEOUT_MS);
+    Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced })
+      .then(position => resolve(position))
+      .catch(error => {
+        console.log('Error getting current position:', error);
+        resolve(null);
+      })
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+export async function requestSaleLocationPermission(): Promise<boolean> {
+  try {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    return status === Location.PermissionStatus.GRANTED;
+  } catch (error) {
+    console.log('Error requesting location permission:', error);
+    return false;
+  }
+}
+
+// A recent last-known fix keeps checkout fast; a fresh fix is only requested when none is cached,
+// and checkout gives up on it after a few seconds since the coordinate is optional.
+export async function captureSaleCoordinates(): Promise<SaleCoordinates | null> {
+  try {
+    const { status } = await Location.getForegroundPermissionsAsync();
+    if (status !== Location.PermissionStatus.GRANTED) return null;
+
+    const position =
+      (await Location.getLastKnownPositionAsync({ maxAge: LAST_KNOWN_MAX_AGE_MS })) ??
+      (await getCurrentPositionWithTimeout());
+    if (!position) return null;
+
+    return {
+      latitude: position.coords.latitude,
+      longitude: position.coords.longitude,
+    };
+  } catch (error) {
+    console.log('Error capturing sale coordinates:', error);
+    return null;
+  }
+}
+
+export function hasSaleCoordinates(sale: Pick<Sale, 'latitude' | 'longitude'>): sale is SaleCoordinates {
+  return typeof sale.latitude === 'number' && typeof sale.longitude === 'number';
+}
+
+export function getDistanceMeters(a: SaleCoordinates, b: SaleCoordinates): number {
+  const earthRadius = 6371000;
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(b.latitude - a.latitude);
+  const deltaLng = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(deltaLng / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.sqrt(h));
+}
+
+// Greedy clustering: each sale joins the first spot whose centre is within the radius,
+// and the spot centre drifts to the average of its sales.
+export function clusterSalesBySpot(sales: Sale[], radiusMeters = SALE_SPOT_RADIUS_METERS): SaleSpot[] {
+  const spots: SaleSpot[] = [];
+
+  [...sales]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(sale => {
+      if (!hasSaleCoordinates(sale)) return;
+      const coordinates = { latitude: sale.latitude, longitude: sale.longitude };
+      const spot = spots.find(candidate => getDistanceMeters(candidate, coordinates) <= radiusMeters);
+
+      if (!spot) {
+        spots.push({
+          id: sale.id,
+          ...coordinates,
+          salesCount: 1,
+          total: getSaleNetTotal(sale),
+          lastSaleAt: sale.createdAt,
+        });
+        return;
+      }
+
+      spot.latitude = (spot.latitude * spot.salesCount + coordinates.latitude) / (spot.salesCount + 1);
+      spot.longitude = (spot.longitude * spot.salesCount + coordinates.longitude) / (spot.salesCount + 1);
+      spot.salesCount += 1;
+      spot.total += getSaleNetTotal(sale);
+      spot.lastSaleAt = sale.createdAt;
+    });
+
+  return spots.sort((a, b) => b.total - a.total);
+}
+
+export function formatCoordinates(coordinates: SaleCoordinates): string {
+  return `${coordinates.latitude.toFixed(5)}, ${coordinates.longitude.toFixed(5)}`;
+}
+
+export function getMapsUrl(coordinates: SaleCoordinates): string {
+  return `https://www.google.com/maps/search/?api=1&query=${coordinates.latitude},${coordinates.longitude}`;
+}
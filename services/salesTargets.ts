@@ -0,0 +1,48 @@
+import { SalesTarget } from '@/types';
+import { parseLocalDateString } from '@/services/dateUtils';
+
+export type SalesTargetResult = {
+  hits: number;
+  misses: number;
+};
+
+export function getSalesTargetId(locationId: string, weekday: number): string {
+  return `sales-target-${locationId}-${weekday}`;
+}
+
+// A null location means the combined view, where every location's target for the weekday is added up.
+export function getSalesTargetForWeekday(targets: SalesTarget[], weekday: number, locationId: string | null): number {
+  return targets
+    .filter(target => target.weekday === weekday && (locationId === null || target.locationId === locationId))
+    .reduce((sum, target) => sum + target.amount, 0);
+}
+
+export function getSalesTargetForDate(targets: SalesTarget[], date: string, locationId: string | null): number {
+  const parsed = parseLocalDateString(date.slice(0, 10));
+  if (Number.isNaN(parsed.getTime())) return 0;
+  return getSalesTargetForWeekday(targets, parsed.getDay(), locationId);
+}
+
+// Days without a target, and days after `throughDate`, are left out of the count.
+export function countSalesTargetResults(
+  dayKeys: string[],
+  dailyTotals: Map<string, number>,
+  targets: SalesTarget[],
+  locationId: string | null,
+  throughDate: string
+): SalesTargetResult {
+  return dayKeys.reduce<SalesTargetResult>(
+    (result, dayKey) => {
+      if (dayKey > throughDate) return result;
+      const target = getSalesTargetForDate(targets, dayKey, locationId);
+      if (target <= 0) return result;
+      if ((dailyTotals.get(dayKey) ?? 0) >= target) {
+        result.hits += 1;
+      } else {
+        result.misses += 1;
+      }
+      return result;
+    },
+    { hits: 0, misses: 0 }
+  );
+}
@@ -0,0 +1,74 @@
+import { Expense, PaymentMethod, Sale, Shift, User, getSaleNetTotal, getSalesTotalsByPaymentMethod } from '@/types';
+
+export type ShiftPeriod = 'morning' | 'afternoon' | 'evening';
+
+export const SHIFT_PERIOD_LABELS: Record<ShiftPeriod, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+};
+
+export type ShiftSummary = {
+  shift: Shift;
+  period: ShiftPeriod;
+  salesTotal: number;
+  salesCount: number;
+  expensesTotal: number;
+  netSales: number;
+  paymentTotals: Record<PaymentMethod, number>;
+};
+
+export type ShiftPeriodTotal = {
+  period: ShiftPeriod;
+  shiftCount: number;
+  salesTotal: number;
+  averageSales: number;
+};
+
+// Shifts are bucketed by the hour they were opened so crews can be compared across days.
+export function getShiftPeriod(shift: Pick<Shift, 'openedAt'>): ShiftPeriod {
+  const hour = new Date(shift.openedAt).getHours();
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+export function getShiftStaffNames(shift: Shift, users: User[]): string[] {
+  const ids = shift.staffIds.length > 0 ? shift.staffIds : [shift.openedBy];
+  return ids.map(id => users.find(user => user.id === id)?.name ?? 'Unknown user');
+}
+
+export function summarizeShifts(shifts: Shift[], sales: Sale[], expenses: Expense[]): ShiftSummary[] {
+  return shifts.map(shift => {
+    const shiftSales = sales.filter(sale => sale.shiftId === shift.id);
+    const salesTotal = shiftSales.reduce((sum, sale) => sum + getSaleNetTotal(sale), 0);
+    const expensesTotal = expenses
+      .filter(expense => expense.shiftId === shift.id)
+      .reduce((sum, expense) => sum + expense.total, 0);
+
+    return {
+      shift,
+      period: getShiftPeriod(shift),
+      salesTotal,
+      salesCount: shiftSales.length,
+      expensesTotal,
+      netSales: salesTotal - expensesTotal,
+      paymentTotals: getSalesTotalsByPaymentMethod(shiftSales),
+    };
+  });
+}
+
+export function groupShiftSummariesByPeriod(summaries: ShiftSummary[]): ShiftPeriodTotal[] {
+  return (Object.keys(SHIFT_PERIOD_LABELS) as ShiftPeriod[])
+    .map(period => {
+      const periodSummaries = summaries.filter(summary => summary.period === period);
+      const salesTotal = periodSummaries.reduce((sum, summary) => sum + summary.salesTotal, 0);
+      return {
+        period,
+        shiftCount: periodSummaries.length,
+        salesTotal,
+        averageSales: periodSummaries.length > 0 ? salesTotal / periodSummaries.length : 0,
+      };
+    })
+    .filter(total => total.shiftCount > 0);
+}
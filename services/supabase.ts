@@ -1,9 +1,12 @@
 import { createClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Activity, ChatMessage, Expense, ExpenseItem, Sale, User, generateId } from '@/types';
+import { Activity, CashAdvance, CashDrawerClose, ChatMessage, Customer, CustomerPayment, Expense, ExpenseCategory, ExpenseItem, ExpenseReceipt, Location, NetSalesSplitConfig, Payout, Product, Recipe, RecurringExpense, Sale, SalesTarget, Shift, StockEntry, StockItem, Supplier, User, generateId, normalizePaymentMethod, normalizeRecurringExpenseFrequency, normalizeSaleDiscountType } from '@/types';
+import { normalizeRecipeIngredients, normalizeSaleItems, normalizeShiftStaffIds, normalizeSplitRecipients } from '@/services/database';
+import { buildLegacySplitRecipients, getLegacySplitPercents } from '@/services/netSalesSplit';
 
 const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || '';
 const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '';
+const RECEIPTS_BUCKET = 'receipts';
 
 export const supabase = SUPABASE_URL && SUPABASE_ANON_KEY
   ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
@@ -50,6 +53,25 @@ function normalizeExpenseItems(items: unknown): ExpenseItem[] {
   }, []);
 }
 
+function normalizeServerReceipts(receipts: unknown): ExpenseReceipt[] {
+  if (!Array.isArray(receipts)) return [];
+  return receipts.reduce<ExpenseReceipt[]>((acc, receipt) => {
+    if (!receipt || typeof receipt !== 'object') return acc;
+    const maybeReceipt = receipt as { id?: unknown; url?: unknown };
+    if (typeof maybeReceipt.url === 'string' && isRemoteImageUrl(maybeReceipt.url)) {
+      const id = typeof maybeReceipt.id === 'string' && maybeReceipt.id ? maybeReceipt.id : generateId();
+      acc.push({ id, localUri: null, remoteUrl: maybeReceipt.url.trim() });
+    }
+    return acc;
+  }, []);
+}
+
+function normalizeCoordinate(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
 function isRemoteImageUrl(value?: string | null): boolean {
   return !!value && /^https?:\/\//i.test(value.trim());
 }
@@ -279,7 +301,23 @@ export async function fetchSalesFromSupabase(): Promise<Sale[] | null> {
     return data?.map(sale => ({
       id: sale.id,
       name: sale.name ?? '',
-      items: Array.isArray(sale.items) ? sale.items : [],
+      items: normalizeSaleItems(sale.items),
+      paymentMethod: normalizePaymentMethod(sale.payment_method),
+      customerId: sale.customer_id ?? null,
+      shiftId: sale.shift_id ?? null,
+      locationId: sale.location_id ?? null,
+      latitude: normalizeCoordinate(sale.latitude),
+      longitude: normalizeCoordinate(sale.longitude),
+      grossAmount: sale.gross_amount ?? null,
+      discountType: normalizeSaleDiscountType(sale.discount_type),
+      discountValue: sale.discount_value ?? null,
+      discountAmount: sale.discount_amount ?? null,
+      adjustmentType: sale.adjustment_type ?? null,
+      adjustmentAmount: sale.adjustment_amount ?? null,
+      adjustmentReason: sale.adjustment_reason ?? null,
+      adjustmentNote: sale.adjustment_note ?? null,
+      adjustmentApprovedBy: sale.adjustment_approved_by ?? null,
+      adjustedAt: sale.adjusted_at ?? null,
       total: sale.total,
       date: sale.date,
       createdBy: sale.created_by,
@@ -306,6 +344,12 @@ export async function fetchExpensesFromSupabase(): Promise<Expense[] | null> {
       id: expense.id,
       name: expense.name ?? '',
       items: normalizeExpenseItems(expense.items),
+      categoryId: expense.category_id ?? null,
+      shiftId: expense.shift_id ?? null,
+      locationId: expense.location_id ?? null,
+      recurringExpenseId: expense.recurring_expense_id ?? null,
+      supplierId: expense.supplier_id ?? null,
+      receipts: normalizeServerReceipts(expense.receipts),
       total: expense.total,
       date: expense.date,
       createdBy: expense.created_by,
@@ -319,6 +363,438 @@ export async function fetchExpensesFromSupabase(): Promise<Expense[] | null> {
   }
 }
 
+export async function fetchRecurringExpensesFromSupabase(): Promise<RecurringExpense[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('recurring_expenses').select('*');
+    if (error) {
+      console.log('Error fetching recurring expenses from Supabase:', error);
+      return null;
+    }
+    return data?.map(template => ({
+      id: template.id,
+      name: template.name ?? '',
+      items: normalizeExpenseItems(template.items),
+      categoryId: template.category_id ?? null,
+      locationId: template.location_id ?? null,
+      total: template.total,
+      frequency: normalizeRecurringExpenseFrequency(template.frequency),
+      startDate: template.start_date,
+      lastGeneratedDate: template.last_generated_date ?? null,
+      active: template.active !== false,
+      createdBy: template.created_by,
+      createdAt: template.created_at,
+      updatedAt: template.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching recurring expenses:', error);
+    return null;
+  }
+}
+
+export async function fetchExpenseCategoriesFromSupabase(): Promise<ExpenseCategory[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('expense_categories').select('*');
+    if (error) {
+      console.log('Error fetching expense categories from Supabase:', error);
+      return null;
+    }
+    return data?.map(category => ({
+      id: category.id,
+      name: category.name ?? '',
+      createdAt: category.created_at,
+      updatedAt: category.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching expense categories:', error);
+    return null;
+  }
+}
+
+export async function fetchCashDrawerClosesFromSupabase(): Promise<CashDrawerClose[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('cash_drawer_closes').select('*');
+    if (error) {
+      console.log('Error fetching cash drawer closes from Supabase:', error);
+      return null;
+    }
+    return data?.map(close => ({
+      id: close.id,
+      date: close.date,
+      openingFloat: Number(close.opening_float) || 0,
+      countedCash: Number(close.counted_cash) || 0,
+      cashSales: Number(close.cash_sales) || 0,
+      cashExpenses: Number(close.cash_expenses) || 0,
+      cashAdvances: close.cash_advances ?? null,
+      creditPayments: close.credit_payments != null ? Number(close.credit_payments) : null,
+      expectedCash: Number(close.expected_cash) || 0,
+      overShort: Number(close.over_short) || 0,
+      notes: close.notes ?? null,
+      locationId: close.location_id ?? null,
+      closedBy: close.closed_by,
+      createdAt: close.created_at,
+      updatedAt: close.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching cash drawer closes:', error);
+    return null;
+  }
+}
+
+export async function fetchLocationsFromSupabase(): Promise<Location[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('locations').select('*');
+    if (error) {
+      console.log('Error fetching locations from Supabase:', error);
+      return null;
+    }
+    return data?.map(location => ({
+      id: location.id,
+      name: location.name ?? '',
+      createdAt: location.created_at,
+      updatedAt: location.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching locations:', error);
+    return null;
+  }
+}
+
+export async function fetchCustomersFromSupabase(): Promise<Customer[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('customers').select('*');
+    if (error) {
+      console.log('Error fetching customers from Supabase:', error);
+      return null;
+    }
+    return data?.map(customer => ({
+      id: customer.id,
+      name: customer.name ?? '',
+      phone: customer.phone ?? null,
+      notes: customer.notes ?? null,
+      createdAt: customer.created_at,
+      updatedAt: customer.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching customers:', error);
+    return null;
+  }
+}
+
+export async function fetchSuppliersFromSupabase(): Promise<Supplier[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('suppliers').select('*');
+    if (error) {
+      console.log('Error fetching suppliers from Supabase:', error);
+      return null;
+    }
+    return data?.map(supplier => ({
+      id: supplier.id,
+      name: supplier.name ?? '',
+      contact: supplier.contact ?? null,
+      notes: supplier.notes ?? null,
+      createdAt: supplier.created_at,
+      updatedAt: supplier.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching suppliers:', error);
+    return null;
+  }
+}
+
+export async function fetchSalesTargetsFromSupabase(): Promise<SalesTarget[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('sales_targets').select('*');
+    if (error) {
+      console.log('Error fetching sales targets from Supabase:', error);
+      return null;
+    }
+    return data?.map(target => ({
+      id: target.id,
+      locationId: target.location_id,
+      weekday: Number(target.weekday ?? 0),
+      amount: Number(target.amount ?? 0),
+      updatedBy: target.updated_by ?? null,
+      createdAt: target.created_at,
+      updatedAt: target.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching sales targets:', error);
+    return null;
+  }
+}
+
+export async function fetchNetSalesSplitsFromSupabase(): Promise<NetSalesSplitConfig[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('net_sales_splits').select('*');
+    if (error) {
+      console.log('Error fetching net sales splits from Supabase:', error);
+      return null;
+    }
+    return data?.map(config => {
+      const recipients = normalizeSplitRecipients(config.recipients);
+      return {
+        id: config.id,
+        effectiveDate: config.effective_date,
+        recipients: recipients.length > 0
+          ? recipients
+          : buildLegacySplitRecipients(Number(config.operation ?? 0), Number(config.general ?? 0), Number(config.food_cart ?? 0)),
+        includeExp: config.include_exp !== false,
+        createdBy: config.created_by ?? null,
+        createdAt: config.created_at,
+        updatedAt: config.updated_at,
+        syncStatus: 'synced' as const,
+      };
+    }) || [];
+  } catch (error) {
+    console.log('Error fetching net sales splits:', error);
+    return null;
+  }
+}
+
+export async function fetchPayoutsFromSupabase(): Promise<Payout[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('payouts').select('*');
+    if (error) {
+      console.log('Error fetching payouts from Supabase:', error);
+      return null;
+    }
+    return data?.map(payout => ({
+      id: payout.id,
+      recipient: payout.recipient,
+      recipientUserId: payout.recipient_user_id ?? null,
+      amount: payout.amount,
+      advanceDeduction: payout.advance_deduction ?? null,
+      date: payout.date,
+      periodStart: payout.period_start,
+      periodEnd: payout.period_end,
+      notes: payout.notes ?? null,
+      locationId: payout.location_id ?? null,
+      paidBy: payout.paid_by,
+      createdAt: payout.created_at,
+      updatedAt: payout.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching payouts:', error);
+    return null;
+  }
+}
+
+export async function fetchCashAdvancesFromSupabase(): Promise<CashAdvance[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('cash_advances').select('*');
+    if (error) {
+      console.log('Error fetching cash advances from Supabase:', error);
+      return null;
+    }
+    return data?.map(advance => ({
+      id: advance.id,
+      userId: advance.user_id,
+      amount: Number(advance.amount) || 0,
+      date: advance.date,
+      notes: advance.notes ?? null,
+      locationId: advance.location_id ?? null,
+      recordedBy: advance.recorded_by,
+      createdAt: advance.created_at,
+      updatedAt: advance.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching cash advances:', error);
+    return null;
+  }
+}
+
+export async function fetchCustomerPaymentsFromSupabase(): Promise<CustomerPayment[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('customer_payments').select('*');
+    if (error) {
+      console.log('Error fetching customer payments from Supabase:', error);
+      return null;
+    }
+    return data?.map(payment => ({
+      id: payment.id,
+      customerId: payment.customer_id,
+      amount: payment.amount,
+      paymentMethod: normalizePaymentMethod(payment.payment_method),
+      notes: payment.notes ?? null,
+      date: payment.date,
+      locationId: payment.location_id ?? null,
+      receivedBy: payment.received_by,
+      createdAt: payment.created_at,
+      updatedAt: payment.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching customer payments:', error);
+    return null;
+  }
+}
+
+export async function fetchShiftsFromSupabase(): Promise<Shift[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('shifts').select('*');
+    if (error) {
+      console.log('Error fetching shifts from Supabase:', error);
+      return null;
+    }
+    return data?.map(shift => ({
+      id: shift.id,
+      openedBy: shift.opened_by,
+      openedAt: shift.opened_at,
+      closedAt: shift.closed_at ?? null,
+      staffIds: normalizeShiftStaffIds(shift.staff_ids),
+      notes: shift.notes ?? null,
+      locationId: shift.location_id ?? null,
+      createdAt: shift.created_at,
+      updatedAt: shift.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching shifts:', error);
+    return null;
+  }
+}
+
+export async function fetchProductsFromSupabase(): Promise<Product[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('products').select('*');
+    if (error) {
+      console.log('Error fetching products from Supabase:', error);
+      return null;
+    }
+    return data?.map(product => ({
+      id: product.id,
+      name: product.name ?? '',
+      price: Number(product.price) || 0,
+      category: product.category ?? null,
+      active: product.active !== false,
+      createdAt: product.created_at,
+      updatedAt: product.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching products:', error);
+    return null;
+  }
+}
+
+export async function fetchStockItemsFromSupabase(): Promise<StockItem[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('stock_items').select('*');
+    if (error) {
+      console.log('Error fetching stock items from Supabase:', error);
+      return null;
+    }
+    return data?.map(stockItem => ({
+      id: stockItem.id,
+      name: stockItem.name ?? '',
+      unit: stockItem.unit ?? '',
+      onHand: Number(stockItem.on_hand) || 0,
+      openingQuantity: stockItem.opening_quantity != null ? Number(stockItem.opening_quantity) : null,
+      productId: stockItem.product_id ?? null,
+      reorderPoint: stockItem.reorder_point != null ? Number(stockItem.reorder_point) : null,
+      supplier: stockItem.supplier ?? null,
+      createdAt: stockItem.created_at,
+      updatedAt: stockItem.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching stock items:', error);
+    return null;
+  }
+}
+
+export async function fetchStockEntriesFromSupabase(): Promise<StockEntry[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('stock_entries')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(500);
+    if (error) {
+      console.log('Error fetching stock entries from Supabase:', error);
+      return null;
+    }
+    return data?.map(entry => ({
+      id: entry.id,
+      stockItemId: entry.stock_item_id,
+      type: entry.type,
+      quantity: Number(entry.quantity) || 0,
+      note: entry.note ?? null,
+      saleId: entry.sale_id ?? null,
+      date: entry.date,
+      createdBy: entry.created_by,
+      createdAt: entry.created_at,
+      updatedAt: entry.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching stock entries:', error);
+    return null;
+  }
+}
+
+export async function fetchRecipesFromSupabase(): Promise<Recipe[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const { data, error } = await supabase.from('recipes').select('*');
+    if (error) {
+      console.log('Error fetching recipes from Supabase:', error);
+      return null;
+    }
+    return data?.map(recipe => ({
+      id: recipe.id,
+      itemName: recipe.item_name ?? '',
+      ingredients: normalizeRecipeIngredients(recipe.ingredients),
+      createdAt: recipe.created_at,
+      updatedAt: recipe.updated_at,
+      syncStatus: 'synced' as const,
+    })) || [];
+  } catch (error) {
+    console.log('Error fetching recipes:', error);
+    return null;
+  }
+}
+
 export async function fetchActivitiesFromSupabase(): Promise<Activity[] | null> {
   if (!isSupabaseConfigured() || !supabase) return null;
 
@@ -386,6 +862,7 @@ export async function fetchChatMessagesFromSupabase(options?: {
       userAvatarUrl: message.user_avatar_url ?? null,
       localAvatarUri: null,
       messageText: message.message_text,
+      messageType: message.message_type === 'system' ? 'system' as const : 'user' as const,
       createdAt: message.created_at,
       updatedAt: message.updated_at,
       syncStatus: 'synced' as const,
@@ -433,7 +910,23 @@ export async function syncSalesToSupabase(sales: Sale[]): Promise<boolean> {
       sales.map(sale => ({
         id: sale.id,
         name: sale.name,
-        items: sale.items ?? [],
+        items: normalizeSaleItems(sale.items ?? []),
+        payment_method: normalizePaymentMethod(sale.paymentMethod),
+        customer_id: sale.customerId ?? null,
+        shift_id: sale.shiftId ?? null,
+        location_id: sale.locationId ?? null,
+        latitude: sale.latitude ?? null,
+        longitude: sale.longitude ?? null,
+        gross_amount: sale.grossAmount ?? null,
+        discount_type: sale.discountType ?? null,
+        discount_value: sale.discountValue ?? null,
+        discount_amount: sale.discountAmount ?? null,
+        adjustment_type: sale.adjustmentType ?? null,
+        adjustment_amount: sale.adjustmentAmount ?? null,
+        adjustment_reason: sale.adjustmentReason ?? null,
+        adjustment_note: sale.adjustmentNote ?? null,
+        adjustment_approved_by: sale.adjustmentApprovedBy ?? null,
+        adjusted_at: sale.adjustedAt ?? null,
         total: sale.total,
         date: sale.date,
         created_by: sale.createdBy,
@@ -463,6 +956,14 @@ export async function syncExpensesToSupabase(expenses: Expense[]): Promise<boole
         id: expense.id,
         name: expense.name,
         items: normalizeExpenseItems(expense.items ?? []),
+        category_id: expense.categoryId ?? null,
+        shift_id: expense.shiftId ?? null,
+        location_id: expense.locationId ?? null,
+        recurring_expense_id: expense.recurringExpenseId ?? null,
+        supplier_id: expense.supplierId ?? null,
+        receipts: (expense.receipts ?? [])
+          .filter(receipt => isRemoteImageUrl(receipt.remoteUrl))
+          .map(receipt => ({ id: receipt.id, url: receipt.remoteUrl })),
         total: expense.total,
         date: expense.date,
         created_by: expense.createdBy,
@@ -483,6 +984,503 @@ export async function syncExpensesToSupabase(expenses: Expense[]): Promise<boole
   }
 }
 
+export async function syncRecurringExpensesToSupabase(templates: RecurringExpense[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('recurring_expenses').upsert(
+      templates.map(template => ({
+        id: template.id,
+        name: template.name,
+        items: normalizeExpenseItems(template.items ?? []),
+        category_id: template.categoryId ?? null,
+        location_id: template.locationId ?? null,
+        total: template.total,
+        frequency: template.frequency,
+        start_date: template.startDate,
+        last_generated_date: template.lastGeneratedDate ?? null,
+        active: template.active,
+        created_by: template.createdBy,
+        created_at: template.createdAt,
+        updated_at: template.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing recurring expenses:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing recurring expenses:', error);
+    return false;
+  }
+}
+
+export async function syncExpenseCategoriesToSupabase(categories: ExpenseCategory[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('expense_categories').upsert(
+      categories.map(category => ({
+        id: category.id,
+        name: category.name,
+        created_at: category.createdAt,
+        updated_at: category.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing expense categories:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing expense categories:', error);
+    return false;
+  }
+}
+
+export async function uploadReceiptToSupabase(path: string, fileUri: string): Promise<string | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+
+  try {
+    const response = await fetch(fileUri);
+    const body = await response.arrayBuffer();
+    const { error } = await supabase.storage
+      .from(RECEIPTS_BUCKET)
+      .upload(path, body, { contentType: 'image/jpeg', upsert: true });
+    if (error) {
+      console.log('Error uploading receipt:', error);
+      return null;
+    }
+    const { data } = supabase.storage.from(RECEIPTS_BUCKET).getPublicUrl(path);
+    return data.publicUrl;
+  } catch (error) {
+    console.log('Error uploading receipt:', error);
+    return null;
+  }
+}
+
+export async function syncCashDrawerClosesToSupabase(closes: CashDrawerClose[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('cash_drawer_closes').upsert(
+      closes.map(close => ({
+        id: close.id,
+        date: close.date,
+        opening_float: close.openingFloat,
+        counted_cash: close.countedCash,
+        cash_sales: close.cashSales,
+        cash_expenses: close.cashExpenses,
+        cash_advances: close.cashAdvances ?? null,
+        credit_payments: close.creditPayments ?? null,
+        expected_cash: close.expectedCash,
+        over_short: close.overShort,
+        notes: close.notes ?? null,
+        location_id: close.locationId ?? null,
+        closed_by: close.closedBy,
+        created_at: close.createdAt,
+        updated_at: close.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing cash drawer closes:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing cash drawer closes:', error);
+    return false;
+  }
+}
+
+export async function syncShiftsToSupabase(shifts: Shift[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('shifts').upsert(
+      shifts.map(shift => ({
+        id: shift.id,
+        opened_by: shift.openedBy,
+        opened_at: shift.openedAt,
+        closed_at: shift.closedAt ?? null,
+        staff_ids: shift.staffIds,
+        notes: shift.notes ?? null,
+        location_id: shift.locationId ?? null,
+        created_at: shift.createdAt,
+        updated_at: shift.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing shifts:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing shifts:', error);
+    return false;
+  }
+}
+
+export async function syncLocationsToSupabase(locations: Location[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('locations').upsert(
+      locations.map(location => ({
+        id: location.id,
+        name: location.name,
+        created_at: location.createdAt,
+        updated_at: location.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing locations:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing locations:', error);
+    return false;
+  }
+}
+
+export async function syncCustomersToSupabase(customers: Customer[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('customers').upsert(
+      customers.map(customer => ({
+        id: customer.id,
+        name: customer.name,
+        phone: customer.phone ?? null,
+        notes: customer.notes ?? null,
+        created_at: customer.createdAt,
+        updated_at: customer.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing customers:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing customers:', error);
+    return false;
+  }
+}
+
+export async function syncSuppliersToSupabase(suppliers: Supplier[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('suppliers').upsert(
+      suppliers.map(supplier => ({
+        id: supplier.id,
+        name: supplier.name,
+        contact: supplier.contact ?? null,
+        notes: supplier.notes ?? null,
+        created_at: supplier.createdAt,
+        updated_at: supplier.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing suppliers:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing suppliers:', error);
+    return false;
+  }
+}
+
+export async function syncSalesTargetsToSupabase(targets: SalesTarget[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('sales_targets').upsert(
+      targets.map(target => ({
+        id: target.id,
+        location_id: target.locationId,
+        weekday: target.weekday,
+        amount: target.amount,
+        updated_by: target.updatedBy ?? null,
+        created_at: target.createdAt,
+        updated_at: target.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing sales targets:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing sales targets:', error);
+    return false;
+  }
+}
+
+export async function syncNetSalesSplitsToSupabase(configs: NetSalesSplitConfig[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('net_sales_splits').upsert(
+      configs.map(config => {
+        const [operation, general, foodCart] = getLegacySplitPercents(config.recipients);
+        return {
+          id: config.id,
+          effective_date: config.effectiveDate,
+          operation,
+          general,
+          food_cart: foodCart,
+          recipients: config.recipients,
+          include_exp: config.includeExp,
+          created_by: config.createdBy ?? null,
+          created_at: config.createdAt,
+          updated_at: config.updatedAt,
+        };
+      }),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing net sales splits:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing net sales splits:', error);
+    return false;
+  }
+}
+
+export async function syncCustomerPaymentsToSupabase(payments: CustomerPayment[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('customer_payments').upsert(
+      payments.map(payment => ({
+        id: payment.id,
+        customer_id: payment.customerId,
+        amount: payment.amount,
+        payment_method: normalizePaymentMethod(payment.paymentMethod),
+        notes: payment.notes ?? null,
+        date: payment.date,
+        location_id: payment.locationId ?? null,
+        received_by: payment.receivedBy,
+        created_at: payment.createdAt,
+        updated_at: payment.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing customer payments:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing customer payments:', error);
+    return false;
+  }
+}
+
+export async function syncPayoutsToSupabase(payouts: Payout[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('payouts').upsert(
+      payouts.map(payout => ({
+        id: payout.id,
+        recipient: payout.recipient,
+        recipient_user_id: payout.recipientUserId ?? null,
+        amount: payout.amount,
+        advance_deduction: payout.advanceDeduction ?? null,
+        date: payout.date,
+        period_start: payout.periodStart,
+        period_end: payout.periodEnd,
+        notes: payout.notes ?? null,
+        location_id: payout.locationId ?? null,
+        paid_by: payout.paidBy,
+        created_at: payout.createdAt,
+        updated_at: payout.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing payouts:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing payouts:', error);
+    return false;
+  }
+}
+
+export async function syncCashAdvancesToSupabase(advances: CashAdvance[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('cash_advances').upsert(
+      advances.map(advance => ({
+        id: advance.id,
+        user_id: advance.userId,
+        amount: advance.amount,
+        date: advance.date,
+        notes: advance.notes ?? null,
+        location_id: advance.locationId ?? null,
+        recorded_by: advance.recordedBy,
+        created_at: advance.createdAt,
+        updated_at: advance.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing cash advances:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing cash advances:', error);
+    return false;
+  }
+}
+
+export async function syncProductsToSupabase(products: Product[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('products').upsert(
+      products.map(product => ({
+        id: product.id,
+        name: product.name,
+        price: product.price,
+        category: product.category ?? null,
+        active: product.active,
+        created_at: product.createdAt,
+        updated_at: product.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing products:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing products:', error);
+    return false;
+  }
+}
+
+export async function syncStockItemsToSupabase(stockItems: StockItem[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('stock_items').upsert(
+      stockItems.map(stockItem => ({
+        id: stockItem.id,
+        name: stockItem.name,
+        unit: stockItem.unit,
+        opening_quantity: stockItem.openingQuantity ?? null,
+        product_id: stockItem.productId ?? null,
+        reorder_point: stockItem.reorderPoint ?? null,
+        supplier: stockItem.supplier ?? null,
+        created_at: stockItem.createdAt,
+        updated_at: stockItem.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing stock items:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing stock items:', error);
+    return false;
+  }
+}
+
+export async function syncStockEntriesToSupabase(entries: StockEntry[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('stock_entries').upsert(
+      entries.map(entry => ({
+        id: entry.id,
+        stock_item_id: entry.stockItemId,
+        type: entry.type,
+        quantity: entry.quantity,
+        note: entry.note ?? null,
+        sale_id: entry.saleId ?? null,
+        date: entry.date,
+        created_by: entry.createdBy,
+        created_at: entry.createdAt,
+        updated_at: entry.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing stock entries:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing stock entries:', error);
+    return false;
+  }
+}
+
+export async function syncRecipesToSupabase(recipes: Recipe[]): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+
+  try {
+    const { error } = await supabase.from('recipes').upsert(
+      recipes.map(recipe => ({
+        id: recipe.id,
+        item_name: recipe.itemName,
+        ingredients: recipe.ingredients,
+        created_at: recipe.createdAt,
+        updated_at: recipe.updatedAt,
+      })),
+      { onConflict: 'id' }
+    );
+
+    if (error) {
+      console.log('Error syncing recipes:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.log('Error syncing recipes:', error);
+    return false;
+  }
+}
+
 export async function syncActivitiesToSupabase(activities: Activity[]): Promise<boolean> {
   if (!isSupabaseConfigured() || !supabase) return false;
 
@@ -538,6 +1536,7 @@ export async function syncChatMessagesToSupabase(
         user_name: message.userName,
         user_avatar_url: toSyncableImageUrl(message.userAvatarUrl ?? message.localAvatarUri ?? null),
         message_text: message.messageText,
+        message_type: message.messageType ?? 'user',
         created_at: message.createdAt,
         updated_at: message.updatedAt,
       })),
@@ -0,0 +1,118 @@
+import { Expense, Supplier } from '@/types';
+import { formatLocalDate } from '@/services/dateUtils';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const RECENT_DAYS = 30;
+
+export type SupplierMonthlySpend = {
+  monthKey: string;
+  label: string;
+  total: number;
+};
+
+export type SupplierSpendSummary = {
+  supplier: Supplier;
+  total: number;
+  recentTotal: number;
+  purchaseCount: number;
+  lastPurchaseDate: string | null;
+  monthly: SupplierMonthlySpend[];
+};
+
+export type ItemPriceEntry = {
+  date: string;
+  price: number;
+};
+
+export type ItemPriceHistory = {
+  name: string;
+  entries: ItemPriceEntry[];
+  latestPrice: number;
+  previousPrice: number | null;
+};
+
+function getRecentMonthKeys(today: Date, months: number): string[] {
+  return Array.from({ length: months }, (_, index) => {
+    const month = new Date(today.getFullYear(), today.getMonth() - (months - 1 - index), 1);
+    return formatLocalDate(month).slice(0, 7);
+  });
+}
+
+function getMonthLabel(monthKey: string): string {
+  const [year, month] = monthKey.split('-').map(Number);
+  return `${MONTH_LABELS[month - 1] ?? monthKey} ${String(year).slice(-2)}`;
+}
+
+export function summarizeSupplierSpend(
+  supplier: Supplier,
+  expenses: Expense[],
+  today: Date = new Date(),
+  months: number = 6
+): SupplierSpendSummary {
+  const purchases = expenses.filter(expense => expense.supplierId === supplier.id);
+  const recentStart = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (RECENT_DAYS - 1));
+  const recentStartKey = formatLocalDate(recentStart);
+
+  const monthTotals = new Map<string, number>();
+  purchases.forEach(expense => {
+    const monthKey = expense.date.slice(0, 7);
+    monthTotals.set(monthKey, (monthTotals.get(monthKey) ?? 0) + expense.total);
+  });
+
+  const dates = purchases.map(expense => expense.date.slice(0, 10)).sort();
+
+  return {
+    supplier,
+    total: purchases.reduce((sum, expense) => sum + expense.total, 0),
+    recentTotal: purchases
+      .filter(expense => expense.date.slice(0, 10) >= recentStartKey)
+      .reduce((sum, expense) => sum + expense.total, 0),
+    purchaseCount: purchases.length,
+    lastPurchaseDate: dates[dates.length - 1] ?? null,
+    monthly: getRecentMonthKeys(today, months).map(monthKey => ({
+      monthKey,
+      label: getMonthLabel(monthKey),
+      total: monthTotals.get(monthKey) ?? 0,
+    })),
+  };
+}
+
+export function buildSupplierSpendSummaries(
+  suppliers: Supplier[],
+  expenses: Expense[],
+  today: Date = new Date()
+): SupplierSpendSummary[] {
+  return suppliers
+    .map(supplier => summarizeSupplierSpend(supplier, expenses, today))
+    .sort((a, b) => b.recentTotal - a.recentTotal || b.total - a.total || a.supplier.name.localeCompare(b.supplier.name));
+}
+
+// Items are matched by name (case-insensitive) since expense lines are free text.
+export function getSupplierItemPriceHistory(supplierId: string, expenses: Expense[]): ItemPriceHistory[] {
+  const byName = new Map<string, { name: string; entries: ItemPriceEntry[] }>();
+
+  expenses
+    .filter(expense => expense.supplierId === supplierId)
+    .forEach(expense => {
+      (expense.items ?? []).forEach(item => {
+        if (typeof item.price !== 'number') return;
+        const key = item.name.trim().toLowerCase();
+        if (!key) return;
+        const group = byName.get(key) ?? { name: item.name.trim(), entries: [] };
+        group.entries.push({ date: expense.date.slice(0, 10), price: item.price });
+        byName.set(key, group);
+      });
+    });
+
+  return Array.from(byName.values())
+    .map(group => {
+      const entries = [...group.entries].sort((a, b) => a.date.localeCompare(b.date));
+      return {
+        name: group.name,
+        entries,
+        latestPrice: entries[entries.length - 1].price,
+        previousPrice: entries.length > 1 ? entries[entries.length - 2].price : null,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -12,10 +12,43 @@ export interface User {
   syncStatus: 'synced' | 'pending';
 }
 
+export interface SaleItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice?: number | null;
+  lineTotal?: number | null;
+  productId?: string | null;
+}
+
+export type PaymentMethod = 'cash' | 'gcash' | 'maya' | 'card' | 'credit';
+
+export type SaleDiscountType = 'percentage' | 'fixed' | 'senior_pwd';
+
+export type SaleAdjustmentType = 'void' | 'refund';
+
+export type SaleAdjustmentReason = 'customer_complaint' | 'wrong_order' | 'entry_error' | 'duplicate' | 'other';
+
 export interface Sale {
   id: string;
   name: string;
-  items?: string[] | null;
+  items?: SaleItem[] | null;
+  paymentMethod?: PaymentMethod;
+  customerId?: string | null;
+  shiftId?: string | null;
+  locationId?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  grossAmount?: number | null;
+  discountType?: SaleDiscountType | null;
+  discountValue?: number | null;
+  discountAmount?: number | null;
+  adjustmentType?: SaleAdjustmentType | null;
+  adjustmentAmount?: number | null;
+  adjustmentReason?: SaleAdjustmentReason | null;
+  adjustmentNote?: string | null;
+  adjustmentApprovedBy?: string | null;
+  adjustedAt?: string | null;
   total: number;
   date: string;
   createdBy: string;
@@ -24,16 +57,91 @@ export interface Sale {
   syncStatus: 'synced' | 'pending';
 }
 
+export interface Product {
+  id: string;
+  name: string;
+  price: number;
+  category?: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface StockItem {
+  id: string;
+  name: string;
+  unit: string;
+  onHand: number;
+  openingQuantity?: number | null;
+  productId?: string | null;
+  reorderPoint?: number | null;
+  supplier?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export type StockEntryType = 'stock_in' | 'sale' | 'count';
+
+export interface StockEntry {
+  id: string;
+  stockItemId: string;
+  type: StockEntryType;
+  quantity: number;
+  note?: string | null;
+  saleId?: string | null;
+  date: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface RecipeIngredient {
+  stockItemId: string;
+  quantity: number;
+}
+
+export interface Recipe {
+  id: string;
+  itemName: string;
+  ingredients: RecipeIngredient[];
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
 export interface ExpenseItem {
   id: string;
   name: string;
   price?: number | null;
 }
 
+export interface ExpenseReceipt {
+  id: string;
+  localUri?: string | null;
+  remoteUrl?: string | null;
+}
+
+export interface ExpenseCategory {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
 export interface Expense {
   id: string;
   name: string;
   items?: ExpenseItem[] | null;
+  categoryId?: string | null;
+  receipts?: ExpenseReceipt[] | null;
+  shiftId?: string | null;
+  locationId?: string | null;
+  recurringExpenseId?: string | null;
+  supplierId?: string | null;
   total: number;
   date: string;
   createdBy: string;
@@ -42,6 +150,160 @@ export interface Expense {
   syncStatus: 'synced' | 'pending';
 }
 
+export type RecurringExpenseFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  items?: ExpenseItem[] | null;
+  categoryId?: string | null;
+  locationId?: string | null;
+  total: number;
+  frequency: RecurringExpenseFrequency;
+  startDate: string;
+  lastGeneratedDate?: string | null;
+  active: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface SplitRecipient {
+  id: string;
+  name: string;
+  percent: number;
+  color: string;
+}
+
+export interface NetSalesSplitConfig {
+  id: string;
+  effectiveDate: string;
+  recipients: SplitRecipient[];
+  includeExp: boolean;
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface Payout {
+  id: string;
+  recipient: string;
+  recipientUserId?: string | null;
+  amount: number;
+  advanceDeduction?: number | null;
+  date: string;
+  periodStart: string;
+  periodEnd: string;
+  notes?: string | null;
+  locationId?: string | null;
+  paidBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface CashAdvance {
+  id: string;
+  userId: string;
+  amount: number;
+  date: string;
+  notes?: string | null;
+  locationId?: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface SalesTarget {
+  id: string;
+  locationId: string;
+  weekday: number;
+  amount: number;
+  updatedBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface Location {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string | null;
+  notes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface CustomerPayment {
+  id: string;
+  customerId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  notes?: string | null;
+  date: string;
+  locationId?: string | null;
+  receivedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface Shift {
+  id: string;
+  openedBy: string;
+  openedAt: string;
+  closedAt?: string | null;
+  staffIds: string[];
+  notes?: string | null;
+  locationId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export interface CashDrawerClose {
+  id: string;
+  date: string;
+  openingFloat: number;
+  countedCash: number;
+  cashSales: number;
+  cashExpenses: number;
+  cashAdvances?: number | null;
+  creditPayments?: number | null;
+  expectedCash: number;
+  overShort: number;
+  notes?: string | null;
+  locationId?: string | null;
+  closedBy: string;
+  createdAt: string;
+  updatedAt: string;
+  syncStatus: 'synced' | 'pending';
+}
+
+export type ChatMessageType = 'user' | 'system';
+
 export interface ChatMessage {
   id: string;
   userId: string;
@@ -49,12 +311,13 @@ export interface ChatMessage {
   userAvatarUrl?: string | null;
   localAvatarUri?: string | null;
   messageText: string;
+  messageType?: ChatMessageType;
   createdAt: string;
   updatedAt: string;
   syncStatus: 'synced' | 'pending';
 }
 
-export type ActivityType = 'inventory_add' | 'inventory_update' | 'inventory_delete' | 'sale_add' | 'expense_add' | 'profile_update' | 'settings_change';
+export type ActivityType = 'inventory_add' | 'inventory_update' | 'inventory_delete' | 'sale_add' | 'sale_update' | 'sale_void' | 'credit_payment' | 'expense_add' | 'expense_update' | 'profile_update' | 'settings_change';
 
 export interface Activity {
   id: string;
@@ -65,7 +328,7 @@ export interface Activity {
   syncStatus: 'synced' | 'pending';
 }
 
-export type OutboxEntityType = 'sale' | 'expense' | 'user' | 'activity' | 'chat_message';
+export type OutboxEntityType = 'sale' | 'expense' | 'expense_category' | 'recurring_expense' | 'cash_drawer_close' | 'shift' | 'location' | 'customer' | 'customer_payment' | 'supplier' | 'sales_target' | 'net_sales_split' | 'payout' | 'cash_advance' | 'product' | 'stock_item' | 'stock_entry' | 'recipe' | 'user' | 'activity' | 'chat_message';
 
 export type OutboxOperation = 'upsert' | 'delete';
 
@@ -94,6 +357,8 @@ export interface AppSettings {
   backgroundColorPalette: BackgroundColorPalette;
   backgroundIntensity: BackgroundIntensity;
   weeklyDayLabelSpacing?: number;
+  selectedLocationId?: string;
+  tagSalesWithGps?: boolean;
 }
 
 export const ROLE_DISPLAY_NAMES: Record<UserRole, string> = {
@@ -110,10 +375,146 @@ export const DEFAULT_USERS: Omit<User, 'id' | 'createdAt' | 'updatedAt' | 'syncS
   { name: 'Developer', pin: '2345', role: 'developer' },
 ];
 
+export const DEFAULT_LOCATION: Pick<Location, 'id' | 'name'> = { id: 'location-main', name: 'Main Cart' };
+
+export const ALL_LOCATIONS = 'all';
+
+// Records created before locations existed have no locationId and belong to the default location.
+export function resolveLocationId(locationId?: string | null): string {
+  return locationId || DEFAULT_LOCATION.id;
+}
+
+export function isInLocation(record: { locationId?: string | null }, locationId?: string | null): boolean {
+  if (!locationId) return true;
+  return resolveLocationId(record.locationId) === locationId;
+}
+
+export const DEFAULT_EXPENSE_CATEGORIES: Pick<ExpenseCategory, 'id' | 'name'>[] = [
+  { id: 'expense-category-ingredients', name: 'Ingredients' },
+  { id: 'expense-category-gas', name: 'Gas / LPG' },
+  { id: 'expense-category-rent', name: 'Rent / Stall Fee' },
+  { id: 'expense-category-supplies', name: 'Supplies & Packaging' },
+  { id: 'expense-category-utilities', name: 'Utilities' },
+  { id: 'expense-category-transport', name: 'Transport' },
+  { id: 'expense-category-other', name: 'Other' },
+];
+
+export const RECURRING_EXPENSE_FREQUENCIES: RecurringExpenseFrequency[] = ['daily', 'weekly', 'monthly'];
+
+export const RECURRING_EXPENSE_FREQUENCY_LABELS: Record<RecurringExpenseFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+};
+
+export function normalizeRecurringExpenseFrequency(value: unknown): RecurringExpenseFrequency {
+  return RECURRING_EXPENSE_FREQUENCIES.includes(value as RecurringExpenseFrequency) ? (value as RecurringExpenseFrequency) : 'monthly';
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'gcash', 'maya', 'card', 'credit'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  gcash: 'GCash',
+  maya: 'Maya',
+  card: 'Card',
+  credit: 'Credit (Utang)',
+};
+
+export function normalizePaymentMethod(value: unknown): PaymentMethod {
+  return PAYMENT_METHODS.includes(value as PaymentMethod) ? (value as PaymentMethod) : 'cash';
+}
+
+export const SALE_DISCOUNT_TYPES: SaleDiscountType[] = ['percentage', 'fixed', 'senior_pwd'];
+
+export const SALE_DISCOUNT_TYPE_LABELS: Record<SaleDiscountType, string> = {
+  percentage: 'Percentage',
+  fixed: 'Fixed Amount',
+  senior_pwd: 'Senior / PWD',
+};
+
+export const SENIOR_PWD_DISCOUNT_PERCENT = 20;
+
+export function normalizeSaleDiscountType(value: unknown): SaleDiscountType | null {
+  return SALE_DISCOUNT_TYPES.includes(value as SaleDiscountType) ? (value as SaleDiscountType) : null;
+}
+
+// Sale.total is always the net amount; the discount is capped so it never exceeds the gross.
+export function calculateSaleDiscount(grossAmount: number, type: SaleDiscountType | null, value: number): number {
+  if (!type || grossAmount <= 0) return 0;
+  const percent = type === 'senior_pwd' ? SENIOR_PWD_DISCOUNT_PERCENT : type === 'percentage' ? value : null;
+  const discount = percent !== null ? grossAmount * (Math.min(Math.max(percent, 0), 100) / 100) : Math.max(value, 0);
+  return Number(Math.min(discount, grossAmount).toFixed(2));
+}
+
+export function getSaleDiscountTotalsByType(
+  sales: Pick<Sale, 'discountType' | 'discountAmount' | 'adjustmentType'>[]
+): Record<SaleDiscountType, { count: number; amount: number }> {
+  return sales.reduce<Record<SaleDiscountType, { count: number; amount: number }>>(
+    (totals, sale) => {
+      const type = normalizeSaleDiscountType(sale.discountType);
+      if (!type || !sale.discountAmount || sale.adjustmentType === 'void') return totals;
+      totals[type].count += 1;
+      totals[type].amount += sale.discountAmount;
+      return totals;
+    },
+    {
+      percentage: { count: 0, amount: 0 },
+      fixed: { count: 0, amount: 0 },
+      senior_pwd: { count: 0, amount: 0 },
+    }
+  );
+}
+
+export const SALE_ADJUSTMENT_TYPE_LABELS: Record<SaleAdjustmentType, string> = {
+  void: 'Void',
+  refund: 'Refund',
+};
+
+export const SALE_ADJUSTMENT_REASONS: SaleAdjustmentReason[] = ['customer_complaint', 'wrong_order', 'entry_error', 'duplicate', 'other'];
+
+export const SALE_ADJUSTMENT_REASON_LABELS: Record<SaleAdjustmentReason, string> = {
+  customer_complaint: 'Customer complaint',
+  wrong_order: 'Wrong order',
+  entry_error: 'Entry error',
+  duplicate: 'Duplicate sale',
+  other: 'Other',
+};
+
+export const SALE_ADJUSTMENT_APPROVER_ROLES: UserRole[] = ['operation_manager', 'developer'];
+
+export const SALES_TARGET_EDITOR_ROLES: UserRole[] = ['operation_manager', 'developer'];
+
+export const PAYOUT_MANAGER_ROLES: UserRole[] = ['operation_manager', 'developer'];
+
+export function isSaleAdjusted(sale: Pick<Sale, 'adjustmentType'>): boolean {
+  return sale.adjustmentType === 'void' || sale.adjustmentType === 'refund';
+}
+
+// The original total is kept for auditing; the adjustment is stored as a negative amount on top of it.
+export function getSaleNetTotal(sale: Pick<Sale, 'total' | 'adjustmentType' | 'adjustmentAmount'>): number {
+  if (!isSaleAdjusted(sale)) return sale.total;
+  return sale.total + (sale.adjustmentAmount ?? 0);
+}
+
+export function getSalesTotalsByPaymentMethod(sales: Pick<Sale, 'total' | 'paymentMethod' | 'adjustmentType' | 'adjustmentAmount'>[]): Record<PaymentMethod, number> {
+  return sales.reduce<Record<PaymentMethod, number>>(
+    (totals, sale) => {
+      totals[normalizePaymentMethod(sale.paymentMethod)] += getSaleNetTotal(sale);
+      return totals;
+    },
+    { cash: 0, gcash: 0, maya: 0, card: 0, credit: 0 }
+  );
+}
+
 export function formatCurrency(amount: number): string {
   return `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 }
 
+export function isStockItemLow(item: Pick<StockItem, 'onHand' | 'reorderPoint'>): boolean {
+  return typeof item.reorderPoint === 'number' && item.onHand <= item.reorderPoint;
+}
+
 export function formatDate(date: Date | string): string {
   const d = typeof date === 'string' ? new Date(date) : date;
   return d.toLocaleDateString('en-US', { 